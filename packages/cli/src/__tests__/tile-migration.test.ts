@@ -0,0 +1,191 @@
+import { jest } from '@jest/globals'
+import tmp from 'tmp-promise'
+import { readFile, writeFile } from 'node:fs/promises'
+import { CeramicApi, TestUtils } from '@ceramicnetwork/common'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { Model, ModelDefinition } from '@ceramicnetwork/stream-model'
+import { ModelInstanceDocument } from '@ceramicnetwork/stream-model-instance'
+import { TileDocument } from '@ceramicnetwork/stream-tile'
+import { TileMigration, TileMigrationTable } from '../tile-migration.js'
+
+const CONTROLLER = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
+const SCHEMA = 'k3y52l7qbv1frxjxxpq1sc3seebw7bt5l802pik95vqbkwjmigqkyy8vmyd1e1csg'
+const OTHER_SCHEMA = 'k3y52l7qbv1fryjn62sggjh1lpn11c56qfofzmty190d62hwk1cal1c7qc5he54ow'
+const LIST_MODEL = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+const SINGLE_MODEL = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+
+const modelDefinition = (accountRelation: ModelDefinition['accountRelation']): ModelDefinition => ({
+  name: 'Note',
+  version: Model.VERSION,
+  accountRelation,
+  schema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    properties: { title: { type: 'string' } },
+    additionalProperties: false,
+  },
+})
+
+const MODELS = {
+  [LIST_MODEL.toString()]: modelDefinition({ type: 'list' }),
+  [SINGLE_MODEL.toString()]: modelDefinition({ type: 'single' }),
+}
+
+type FakeTile = { content: Record<string, any>; metadata: Record<string, any> }
+
+let folder: tmp.DirectoryResult
+let tableFilename: URL
+let tiles: Map<string, FakeTile>
+let replace: jest.Mock
+let existingContent: Record<string, any> | null
+const ceramic = { did: { id: CONTROLLER, hasParent: false } } as unknown as CeramicApi
+
+const addTile = (
+  metadata: Record<string, any>,
+  content: Record<string, any> = { title: 'note' }
+) => {
+  const streamId = new StreamID(TileDocument.STREAM_TYPE_ID, TestUtils.randomCID())
+  tiles.set(streamId.toString(), { content, metadata: { controllers: [CONTROLLER], ...metadata } })
+  return streamId.toString()
+}
+
+const makeMigration = async () => {
+  const table = await TileMigrationTable.load(tableFilename)
+  return new TileMigration(ceramic, { [SCHEMA]: LIST_MODEL.toString() }, table)
+}
+
+beforeEach(async () => {
+  folder = await tmp.dir({ unsafeCleanup: true })
+  tableFilename = new URL('tile-migration.json', `file://${folder.path}/`)
+  tiles = new Map()
+  replace = jest.fn(async () => undefined)
+  existingContent = null
+  jest
+    .spyOn(TileDocument, 'load')
+    .mockImplementation(async (_, streamId) => tiles.get(streamId.toString()) as any)
+  jest.spyOn(Model, 'load').mockImplementation(
+    async (_, streamId) =>
+      ({
+        id: StreamID.fromString(streamId.toString()),
+        content: MODELS[streamId.toString()],
+      } as any)
+  )
+  const document = () => ({
+    id: new StreamID(ModelInstanceDocument.STREAM_TYPE_ID, TestUtils.randomCID()),
+    content: existingContent,
+    replace,
+  })
+  jest.spyOn(ModelInstanceDocument, 'create').mockImplementation(async () => document() as any)
+  jest.spyOn(ModelInstanceDocument, 'single').mockImplementation(async () => document() as any)
+})
+
+afterEach(async () => {
+  jest.restoreAllMocks()
+  await folder.cleanup()
+})
+
+test('create documents of the mapped models under the controller of the tiles', async () => {
+  const tileId = addTile({ schema: SCHEMA })
+  const migration = await makeMigration()
+  const report = await migration.migrate([tileId])
+  expect(Object.keys(report.converted)).toEqual([tileId])
+  expect(report.failed).toEqual({})
+  expect(ModelInstanceDocument.create).toBeCalledWith(
+    ceramic,
+    { title: 'note' },
+    { model: LIST_MODEL, controller: CONTROLLER }
+  )
+})
+
+test('replace content of deterministic documents', async () => {
+  const tileId = addTile({ schema: OTHER_SCHEMA, family: 'notes' }, { title: 'single' })
+  const table = await TileMigrationTable.load(tableFilename)
+  const migration = new TileMigration(ceramic, { [OTHER_SCHEMA]: SINGLE_MODEL.toString() }, table)
+  const report = await migration.migrate([tileId])
+  expect(Object.keys(report.converted)).toEqual([tileId])
+  expect(ModelInstanceDocument.single).toBeCalledWith(ceramic, {
+    model: SINGLE_MODEL,
+    controller: CONTROLLER,
+  })
+  expect(replace).toBeCalledWith({ title: 'single' })
+})
+
+test('report deterministic documents that already have content', async () => {
+  const tileId = addTile({ schema: OTHER_SCHEMA }, { title: 'single' })
+  existingContent = { title: 'existing' }
+  const table = await TileMigrationTable.load(tableFilename)
+  const migration = new TileMigration(ceramic, { [OTHER_SCHEMA]: SINGLE_MODEL.toString() }, table)
+  const report = await migration.migrate([tileId])
+  expect(report.converted).toEqual({})
+  expect(report.failed[tileId]).toMatch(
+    /ModelInstanceDocument .* already has content, it is not replaced by the content of the TileDocument/
+  )
+  expect(replace).not.toBeCalled()
+})
+
+test('record deterministic documents already holding the content of the tiles', async () => {
+  const tileId = addTile({ schema: OTHER_SCHEMA }, { title: 'single' })
+  // Filled by a run interrupted before recording the document
+  existingContent = { title: 'single' }
+  const table = await TileMigrationTable.load(tableFilename)
+  const migration = new TileMigration(ceramic, { [OTHER_SCHEMA]: SINGLE_MODEL.toString() }, table)
+  const report = await migration.migrate([tileId])
+  expect(report.failed).toEqual({})
+  const documentId = report.converted[tileId]
+  expect(documentId).toBeDefined()
+  expect(replace).not.toBeCalled()
+  const persisted = JSON.parse(await readFile(tableFilename, { encoding: 'utf8' }))
+  expect(persisted).toEqual({ [tileId]: documentId })
+})
+
+test('record pending conversions so that interrupted runs do not create documents twice', async () => {
+  const tileId = addTile({ schema: SCHEMA })
+  jest.spyOn(ModelInstanceDocument, 'create').mockImplementation(async () => {
+    const persisted = JSON.parse(await readFile(tableFilename, { encoding: 'utf8' }))
+    expect(persisted).toEqual({ [tileId]: null })
+    throw new Error('creation failed')
+  })
+  await (await makeMigration()).migrate([tileId])
+
+  // Failures to create the document clear the pending entry
+  const persisted = JSON.parse(await readFile(tableFilename, { encoding: 'utf8' }))
+  expect(persisted).toEqual({})
+
+  // Pending entry left by a run that crashed while creating the document
+  await writeFile(tableFilename, JSON.stringify({ [tileId]: null }))
+  const report = await (await makeMigration()).migrate([tileId])
+  expect(report.converted).toEqual({})
+  expect(report.failed[tileId]).toMatch(
+    /A previous run was interrupted while converting TileDocument/
+  )
+  expect(ModelInstanceDocument.create).toBeCalledTimes(1)
+})
+
+test('persist converted documents so that reruns skip them', async () => {
+  const tileId = addTile({ schema: SCHEMA })
+  const first = await (await makeMigration()).migrate([tileId])
+  const documentId = first.converted[tileId]
+  const persisted = JSON.parse(await readFile(tableFilename, { encoding: 'utf8' }))
+  expect(persisted).toEqual({ [tileId]: documentId })
+
+  const second = await (await makeMigration()).migrate([tileId])
+  expect(second).toEqual({ converted: {}, existing: { [tileId]: documentId }, failed: {} })
+  expect(ModelInstanceDocument.create).toBeCalledTimes(1)
+})
+
+test('report documents that cannot be converted', async () => {
+  const withoutSchema = addTile({})
+  const unmapped = addTile({ schema: OTHER_SCHEMA })
+  const otherController = addTile({ schema: SCHEMA, controllers: ['did:key:other'] })
+  const notTile = LIST_MODEL.toString()
+  const migration = await makeMigration()
+  const report = await migration.migrate([withoutSchema, unmapped, otherController, notTile])
+  expect(report.converted).toEqual({})
+  expect(report.failed).toEqual({
+    [withoutSchema]: `TileDocument ${withoutSchema} has no schema`,
+    [unmapped]: `No Model is mapped to the schema ${OTHER_SCHEMA} of TileDocument ${unmapped}`,
+    [otherController]: `TileDocument ${otherController} is controlled by did:key:other, not by the authenticated DID ${CONTROLLER}`,
+    [notTile]: `Stream ${notTile} is not a TileDocument`,
+  })
+  await expect(readFile(tableFilename)).rejects.toThrow(/ENOENT/)
+})
@@ -230,6 +230,51 @@ pin
     await CeramicCliUtils.pinLs(streamId, didPrivateKey)
   })
 
+const model = program.command('model')
+model.description(`Ceramic model indexing admin API`)
+
+model
+  .command('reindex <modelId>')
+  .option('--did-private-key <private-key>', 'Hexadecimal-encoded admin DID private key')
+  .description(`Rebuild the index of a model from the streams stored on the node`)
+  .action(async (modelId, { didPrivateKey }) => {
+    await CeramicCliUtils.modelReindex(modelId, didPrivateKey)
+  })
+
+model
+  .command('reindex-status')
+  .option('--did-private-key <private-key>', 'Hexadecimal-encoded admin DID private key')
+  .description(`Show the progress of models reindexing`)
+  .action(async ({ didPrivateKey }) => {
+    await CeramicCliUtils.modelReindexStatus(didPrivateKey)
+  })
+
+model
+  .command('check <modelId>')
+  .option('--repair', 'Index missing and stale streams again, and remove orphaned entries')
+  .option('--did-private-key <private-key>', 'Hexadecimal-encoded admin DID private key')
+  .description(`Compare the index of a model against the streams stored on the node`)
+  .action(async (modelId, { repair, didPrivateKey }) => {
+    await CeramicCliUtils.modelCheck(modelId, Boolean(repair), didPrivateKey)
+  })
+
+const tile = program.command('tile')
+tile.description('TileDocument streams')
+
+tile
+  .command('migrate <mapping> <streamIds...>')
+  .option('--table <path>', 'Path to the table of the TileDocuments already converted')
+  .option(
+    '--did-private-key <private-key>',
+    'Hexadecimal-encoded private key of the controller DID'
+  )
+  .description(
+    'Convert TileDocuments to ModelInstanceDocuments of the Models their schemas are mapped to in the mapping JSON file'
+  )
+  .action(async (mapping, streamIds, { table, didPrivateKey }) => {
+    await CeramicCliUtils.tileMigrate(mapping, streamIds, table, didPrivateKey)
+  })
+
 const config = program.command('config')
 config.description('CLI Ceramic configuration. Configurable parameters: seed, ceramicHost ')
 
@@ -28,6 +28,7 @@ import { handleSigintSignal } from './daemon/handle-sigint-signal.js'
 import { generateSeedUrl } from './daemon/did-utils.js'
 import { TypedJSON } from 'typedjson'
 import { getDefaultCDBDatabaseConfig } from '@ceramicnetwork/core'
+import { TileMigration, TileMigrationTable } from './tile-migration.js'
 
 const HOMEDIR = new URL(`file://${os.homedir()}/`)
 const CWD = new URL(`file://${process.cwd()}/`)
@@ -37,6 +38,7 @@ const DEFAULT_DAEMON_CONFIG_FILENAME = new URL('daemon.config.json', DEFAULT_CON
 const DEFAULT_CLI_CONFIG_FILENAME = new URL('client.config.json', DEFAULT_CONFIG_PATH)
 const LEGACY_CLI_CONFIG_FILENAME = new URL('config.json', DEFAULT_CONFIG_PATH) // todo(1615): Remove this backwards compatibility support
 const DEFAULT_INDEXING_DB_FILENAME = new URL('./indexing.sqlite', DEFAULT_CONFIG_PATH)
+const DEFAULT_TILE_MIGRATION_TABLE_FILENAME = new URL('tile-migration.json', DEFAULT_CONFIG_PATH)
 
 /**
  * Generates a valid Daemon config.
@@ -492,6 +494,105 @@ export class CeramicCliUtils {
     })
   }
 
+  /**
+   * Rebuild the index of a model from the streams stored on the node
+   * @param modelId - Model stream ID
+   * @param privateKey - optional admin DID private key
+   */
+  static async modelReindex(modelId: string, privateKey?: string): Promise<void> {
+    const id = StreamID.fromString(modelId)
+
+    await CeramicCliUtils._runWithCeramicClient(async (ceramic: CeramicClient) => {
+      if (privateKey) {
+        await CeramicCliUtils._authenticateClient(ceramic, privateKey)
+      } else {
+        await ceramic.did.authenticate()
+      }
+      await ceramic.admin.reindexModel(id)
+      console.log(`Started reindexing of model ${id.toString()}`)
+    })
+  }
+
+  /**
+   * Show the progress of models reindexing
+   * @param privateKey - optional admin DID private key
+   */
+  static async modelReindexStatus(privateKey?: string): Promise<void> {
+    await CeramicCliUtils._runWithCeramicClient(async (ceramic: CeramicClient) => {
+      if (privateKey) {
+        await CeramicCliUtils._authenticateClient(ceramic, privateKey)
+      } else {
+        await ceramic.did.authenticate()
+      }
+      const status = await ceramic.admin.getReindexStatus()
+      console.log(JSON.stringify(status, null, 2))
+    })
+  }
+
+  /**
+   * Compare the index of a model against the streams stored on the node, and print a summary
+   * @param modelId - Model stream ID
+   * @param repair - Index missing and stale streams again, and remove orphaned entries
+   * @param privateKey - optional admin DID private key
+   */
+  static async modelCheck(modelId: string, repair: boolean, privateKey?: string): Promise<void> {
+    const id = StreamID.fromString(modelId)
+
+    await CeramicCliUtils._runWithCeramicClient(async (ceramic: CeramicClient) => {
+      if (privateKey) {
+        await CeramicCliUtils._authenticateClient(ceramic, privateKey)
+      } else {
+        await ceramic.did.authenticate()
+      }
+      const report = await ceramic.admin.checkModelIndex(id, repair)
+      console.log(`Checked ${report.checkedEntries} index entries of model ${report.model}`)
+      for (const kind of ['missing', 'stale', 'orphaned'] as const) {
+        console.log(`${kind}: ${report[kind].length}`)
+        for (const streamId of report[kind]) {
+          console.log(`  ${streamId}`)
+        }
+      }
+      if (report.repaired) {
+        console.log(`Repaired index of model ${report.model}`)
+      }
+    })
+  }
+
+  /**
+   * Convert TileDocuments to ModelInstanceDocuments of the Models their schemas are mapped to, and
+   * print the documents converted and the ones that could not be
+   * @param mappingFilename - Path to the JSON file mapping schema CommitIDs to Model StreamIDs
+   * @param streamIds - StreamIDs of the TileDocuments to convert
+   * @param tableFilename - optional path to the table of the documents already converted
+   * @param privateKey - optional private key of the DID controlling the TileDocuments
+   */
+  static async tileMigrate(
+    mappingFilename: string,
+    streamIds: Array<string>,
+    tableFilename?: string,
+    privateKey?: string
+  ): Promise<void> {
+    const mapping = JSON.parse(
+      await fs.readFile(new URL(mappingFilename, CWD), { encoding: 'utf8' })
+    )
+    const table = await TileMigrationTable.load(
+      tableFilename ? new URL(tableFilename, CWD) : DEFAULT_TILE_MIGRATION_TABLE_FILENAME
+    )
+
+    await CeramicCliUtils._runWithCeramicClient(async (ceramic: CeramicClient) => {
+      if (privateKey) {
+        await CeramicCliUtils._authenticateClient(ceramic, privateKey)
+      }
+      const migration = new TileMigration(ceramic, mapping, table)
+      const report = await migration.migrate(streamIds)
+      console.log(JSON.stringify(report, null, 2))
+      const failed = Object.keys(report.failed).length
+      if (failed > 0) {
+        console.log(`${failed} TileDocuments could not be converted`)
+      }
+    })
+  }
+
   static async status(): Promise<void> {
     await CeramicCliUtils._runWithCeramicClient(async (ceramic: CeramicApi) => {
       console.log(JSON.stringify(await ceramic.admin.nodeStatus()))
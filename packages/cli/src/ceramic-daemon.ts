@@ -9,6 +9,8 @@ import {
   LoggerProvider,
   LogStyle,
   MultiQuery,
+  ModelIndexingOptions,
+  ModelIndexFilter,
   StreamUtils,
   SyncOptions,
 } from '@ceramicnetwork/common'
@@ -30,7 +32,13 @@ import type { Server } from 'http'
 import { DaemonConfig, StateStoreMode } from './daemon-config.js'
 import type { ResolverRegistry } from 'did-resolver'
 import { ErrorHandlingRouter } from './error-handling-router.js'
-import { collectionQuery, countQuery } from './daemon/collection-queries.js'
+import {
+  aggregationQuery,
+  collectionQuery,
+  countQuery,
+  historyQuery,
+  tileQuery,
+} from './daemon/collection-queries.js'
 import { makeNodeDIDProvider, parseSeedUrl } from './daemon/did-utils.js'
 import { StatusCodes } from 'http-status-codes'
 import crypto from 'crypto'
@@ -209,16 +217,27 @@ type AdminAPIJWSContents = {
   code: string
   requestPath: string
   models: Array<string>
+  indexedFields?: Record<string, Array<string>>
+  history?: Array<string>
+  filters?: Record<string, ModelIndexFilter>
+  repair?: boolean
+  query?: Record<string, any>
 }
 
 type AdminApiJWSValidationResult = {
   kid?: string
   code?: string
   models?: Array<StreamID>
+  options?: ModelIndexingOptions
+  repair?: boolean
+  query?: Record<string, any>
   error?: string
 }
 
-type AdminApiModelMutationMethod = (modelIDs: Array<StreamID>) => Promise<void>
+type AdminApiModelMutationMethod = (
+  modelIDs: Array<StreamID>,
+  options?: ModelIndexingOptions
+) => Promise<void>
 
 /**
  * Ceramic daemon implementation
@@ -349,9 +368,12 @@ export class CeramicDaemon {
     const collectionRouter = ErrorHandlingRouter(this.diagnosticsLogger)
     const adminCodesRouter = ErrorHandlingRouter(this.diagnosticsLogger)
     const adminModelRouter = ErrorHandlingRouter(this.diagnosticsLogger)
+    const adminModelReindexRouter = ErrorHandlingRouter(this.diagnosticsLogger)
+    const adminModelCheckRouter = ErrorHandlingRouter(this.diagnosticsLogger)
     const adminPinsRouter = ErrorHandlingRouter(this.diagnosticsLogger)
     const legacyPinsRouter = ErrorHandlingRouter(this.diagnosticsLogger)
     const adminNodeStatusRouter = ErrorHandlingRouter(this.diagnosticsLogger)
+    const adminExplainRouter = ErrorHandlingRouter(this.diagnosticsLogger)
 
     app.use('/api/v0', baseRouter)
     baseRouter.use('/commits', commitsRouter)
@@ -362,8 +384,11 @@ export class CeramicDaemon {
     baseRouter.use('/streams', streamsRouter)
     baseRouter.use('/collection', collectionRouter)
     baseRouter.use('/admin/getCode', adminCodesRouter)
+    baseRouter.use('/admin/models/reindex', adminModelReindexRouter)
+    baseRouter.use('/admin/models/check', adminModelCheckRouter)
     baseRouter.use('/admin/models', adminModelRouter)
     baseRouter.use('/admin/status', adminNodeStatusRouter)
+    baseRouter.use('/admin/explain', adminExplainRouter)
     // Admin Pins Validate JWS Middleware
     baseRouter.use('/admin/pins', this.validateAdminRequest.bind(this))
     baseRouter.use('/admin/pins', adminPinsRouter)
@@ -388,11 +413,19 @@ export class CeramicDaemon {
     collectionRouter.postAsync('/', this.getCollection_post.bind(this))
     collectionRouter.getAsync('/count', this.getCollectionCount_get.bind(this)) // Deprecated
     collectionRouter.postAsync('/count', this.getCollectionCount_post.bind(this))
+    collectionRouter.postAsync('/aggregate', this.getCollectionAggregation.bind(this))
+    collectionRouter.postAsync('/history', this.getCollectionHistory.bind(this))
+    collectionRouter.postAsync('/tiles', this.getCollectionTiles.bind(this))
+    collectionRouter.getAsync('/subscribe', this.subscribeCollection.bind(this))
     adminCodesRouter.getAsync('/', this.getAdminCode.bind(this))
     adminNodeStatusRouter.getAsync('/', this.nodeStatus.bind(this))
     adminModelRouter.getAsync('/', this.getIndexedModels.bind(this))
     adminModelRouter.postAsync('/', this.startIndexingModels.bind(this))
     adminModelRouter.deleteAsync('/', this.stopIndexingModels.bind(this))
+    adminModelReindexRouter.getAsync('/', this.getReindexStatus.bind(this))
+    adminModelReindexRouter.postAsync('/', this.reindexModels.bind(this))
+    adminModelCheckRouter.postAsync('/', this.checkModelsIndex.bind(this))
+    adminExplainRouter.postAsync('/', this.explainQuery.bind(this))
     adminPinsRouter.getAsync('/:streamid', this.listPinned.bind(this))
     adminPinsRouter.getAsync('/', this.listPinned.bind(this))
 
@@ -644,6 +677,7 @@ export class CeramicDaemon {
         return {
           cursor: e.cursor,
           node: e.node ? StreamUtils.serializeState(e.node) : null,
+          ...(e.relations && { relations: StreamUtils.serializeRelations(e.relations) }),
         }
       }),
       pageInfo: indexResponse.pageInfo,
@@ -676,6 +710,90 @@ export class CeramicDaemon {
     return { count }
   }
 
+  /**
+   * Implementation of aggregation queries (the 'collection/aggregate' http endpoint).
+   */
+  async getCollectionAggregation(req: Request, res: Response): Promise<void> {
+    const query = aggregationQuery(req.body)
+    const results = await this.ceramic.index.aggregate(query)
+    res.json({ results })
+  }
+
+  /**
+   * Implementation of history queries (the 'collection/history' http endpoint).
+   */
+  async getCollectionHistory(req: Request, res: Response): Promise<void> {
+    const query = historyQuery(req.body)
+    const page = await this.ceramic.index.history(query)
+    res.json({
+      edges: page.edges.map((e) => {
+        return {
+          cursor: e.cursor,
+          node: {
+            streamId: e.node.streamId.toString(),
+            commitId: e.node.commitId.toString(),
+            controller: e.node.controller,
+            content: e.node.content,
+            anchoredAt: e.node.anchoredAt?.toISOString() ?? null,
+            indexedAt: e.node.indexedAt.toISOString(),
+          },
+        }
+      }),
+      pageInfo: page.pageInfo,
+    })
+  }
+
+  /**
+   * Implementation of TileDocument queries (the 'collection/tiles' http endpoint).
+   */
+  async getCollectionTiles(req: Request, res: Response): Promise<void> {
+    const query = tileQuery(req.body)
+    const page = await this.ceramic.index.tiles(query)
+    res.json({
+      edges: page.edges.map((e) => {
+        return {
+          cursor: e.cursor,
+          node: e.node ? StreamUtils.serializeState(e.node) : null,
+        }
+      }),
+      pageInfo: page.pageInfo,
+    })
+  }
+
+  /**
+   * Serve changes of the entries matching a collection query (the 'collection/subscribe' http
+   * endpoint) as Server-Sent Events, until the client disconnects.
+   */
+  async subscribeCollection(req: Request, res: Response): Promise<void> {
+    const query = countQuery(parseQueryObject(req.query))
+    res.writeHead(StatusCodes.OK, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    })
+    res.flushHeaders()
+    const subscription = this.ceramic.index.subscribe(query).subscribe({
+      next: (change) => {
+        const data = {
+          type: change.type,
+          edge: {
+            cursor: change.edge.cursor,
+            node: change.edge.node ? StreamUtils.serializeState(change.edge.node) : null,
+          },
+        }
+        res.write(`data: ${JSON.stringify(data)}\n\n`)
+      },
+      error: (error) => {
+        res.write(`event: error\ndata: ${JSON.stringify({ error: error.message })}\n\n`)
+        res.end()
+      },
+      complete: () => {
+        res.end()
+      },
+    })
+    req.on('close', () => subscription.unsubscribe())
+  }
+
   private async _parseAdminApiJWS(jws: string | undefined): Promise<AdminAPIJWSContents> {
     const result = await this.ceramic.did.verifyJWS(jws)
     return {
@@ -683,6 +801,11 @@ export class CeramicDaemon {
       code: result.payload.code,
       requestPath: result.payload.requestPath,
       models: result.payload.requestBody ? result.payload.requestBody.models : undefined,
+      indexedFields: result.payload.requestBody?.indexedFields,
+      history: result.payload.requestBody?.history,
+      filters: result.payload.requestBody?.filters,
+      repair: result.payload.requestBody?.repair,
+      query: result.payload.requestBody?.query,
     }
   }
 
@@ -710,10 +833,18 @@ export class CeramicDaemon {
         error: `The 'models' parameter is required and it has to be an array containing at least one model stream id`,
       }
     } else {
+      const options: ModelIndexingOptions = {
+        ...(parsedJWS.indexedFields && { indexedFields: parsedJWS.indexedFields }),
+        ...(parsedJWS.history && { history: parsedJWS.history }),
+        ...(parsedJWS.filters && { filters: parsedJWS.filters }),
+      }
       return {
         kid: parsedJWS.kid,
         code: parsedJWS.code,
         models: parsedJWS.models?.map((modelIDString) => StreamID.fromString(modelIDString)),
+        options: Object.keys(options).length > 0 ? options : undefined,
+        repair: parsedJWS.repair === true,
+        query: parsedJWS.query,
       }
     }
   }
@@ -754,7 +885,7 @@ export class CeramicDaemon {
     }
 
     // Process request
-    await successCallback(jwsValidation.models)
+    await successCallback(jwsValidation.models, jwsValidation.options)
     res.status(StatusCodes.OK).json({ result: 'success' })
   }
 
@@ -853,6 +984,73 @@ export class CeramicDaemon {
     )
   }
 
+  async reindexModels(req: Request, res: Response): Promise<void> {
+    await this._processAdminModelsMutationRequest(req, res, async (modelIDs) => {
+      for (const modelID of modelIDs) {
+        await this.ceramic.admin.reindexModel(modelID)
+      }
+    })
+  }
+
+  async getReindexStatus(req: Request, res: Response): Promise<void> {
+    const authorized = await this._checkAdminAPIGETRequestAuthorization(req, res)
+    if (!authorized) {
+      return
+    }
+
+    res.json({ models: await this.ceramic.admin.getReindexStatus() })
+  }
+
+  /**
+   * Compare the index of models against the streams stored on the node, and optionally repair it.
+   * Responds with a report for each model.
+   */
+  async checkModelsIndex(req: Request, res: Response): Promise<void> {
+    const jwsValidation = await this._validateAdminApiJWS(req.baseUrl, req.body.jws, true)
+    if (jwsValidation.error) {
+      res.status(StatusCodes.UNPROCESSABLE_ENTITY).json({ error: jwsValidation.error })
+      return
+    }
+    try {
+      this._verifyAndDiscardAdminCode(jwsValidation.code)
+      this._verifyActingDid(jwsValidation.kid)
+    } catch (e) {
+      res.status(StatusCodes.UNAUTHORIZED).json({ error: e.message })
+      return
+    }
+    const reports = []
+    for (const modelID of jwsValidation.models) {
+      reports.push(await this.ceramic.admin.checkModelIndex(modelID, jwsValidation.repair))
+    }
+    res.json({ reports })
+  }
+
+  /**
+   * Run an index query, and respond with the plans the index database chose for its SQL statements.
+   */
+  async explainQuery(req: Request, res: Response): Promise<void> {
+    const jwsValidation = await this._validateAdminApiJWS(req.baseUrl, req.body.jws, false)
+    if (jwsValidation.error) {
+      res.status(StatusCodes.UNPROCESSABLE_ENTITY).json({ error: jwsValidation.error })
+      return
+    }
+    if (!jwsValidation.query) {
+      res
+        .status(StatusCodes.UNPROCESSABLE_ENTITY)
+        .json({ error: `The 'query' parameter is required` })
+      return
+    }
+    try {
+      this._verifyAndDiscardAdminCode(jwsValidation.code)
+      this._verifyActingDid(jwsValidation.kid)
+    } catch (e) {
+      res.status(StatusCodes.UNAUTHORIZED).json({ error: e.message })
+      return
+    }
+    const plans = await this.ceramic.admin.explainQuery(collectionQuery(jwsValidation.query))
+    res.json({ plans })
+  }
+
   /**
    * Apply one commit to the existing document
    */
@@ -227,10 +227,14 @@ export class DaemonAnchorConfig {
 @toJson
 export class IndexingConfig {
   /**
-   * Connection string to a database. Only sqlite and postgres are supported.
+   * Connection string to a database. Only sqlite, postgres and leveldb are supported.
    * Examples:
    *  - `sqlite:///path/to/database.sqlite`,
    *  - `postgres:///user:password@host:5432/database`
+   *  - `leveldb:///path/to/database/directory`, pure-JS embedded database. Queries in insertion
+   *    order only load the entries they page through. Counts without an account, and queries
+   *    sorted by fields, load all the entries of the model, so prefer a SQL database for models
+   *    with many documents.
    */
   @jsonMember(String)
   db: string
@@ -258,6 +262,31 @@ export class IndexingConfig {
     name: 'enable-historical-sync',
   })
   enableHistoricalSync = false
+
+  /**
+   * Log SQL statements and duration of `count` and `page` index queries, at `important` level.
+   */
+  @jsonMember(Boolean, {
+    name: 'log-queries',
+  })
+  logQueries = false
+
+  /**
+   * When logging index queries, only log the ones taking at least that many milliseconds.
+   */
+  @jsonMember(Number, {
+    name: 'slow-query-threshold',
+  })
+  slowQueryThreshold?: number
+
+  /**
+   * Index the pinned TileDocuments by family, tags, schema and controller.
+   * The index is brought in line with the pinned TileDocuments when the node starts.
+   */
+  @jsonMember(Boolean, {
+    name: 'index-tiles',
+  })
+  indexTiles = false
 }
 
 @jsonObject
@@ -1,4 +1,12 @@
-import { collectionQuery, InvalidPaginationError, parsePagination } from '../collection-queries.js'
+import {
+  aggregationQuery,
+  collectionQuery,
+  countQuery,
+  historyQuery,
+  tileQuery,
+  InvalidPaginationError,
+  parsePagination,
+} from '../collection-queries.js'
 import { StreamID } from '@ceramicnetwork/streamid'
 import { TestUtils } from '@ceramicnetwork/common'
 
@@ -43,4 +51,134 @@ describe('collectionQuery', () => {
     const parsed = collectionQuery({ first: 10, model: model.toString(), account: 'did:key:foo' })
     expect(parsed).toEqual({ first: 10, model: model, account: 'did:key:foo' })
   })
+  test('pass filter', () => {
+    const filter = { linkedDoc: { in: ['foo', 'bar'] }, otherDoc: { not: { isNull: true } } }
+    const parsed = collectionQuery({ first: 10, model: model.toString(), filter })
+    expect(parsed).toEqual({ first: 10, model: model, filter })
+  })
+  test('pass sorting', () => {
+    const sorting = { linkedDoc: 'DESC', last_anchored_at: 'ASC' }
+    const parsed = collectionQuery({ last: 10, model: model.toString(), sorting })
+    expect(parsed).toEqual({ last: 10, model: model, sorting })
+  })
+
+  test('pass search', () => {
+    const parsed = collectionQuery({ first: 10, model: model.toString(), search: 'hello world' })
+    expect(parsed).toEqual({ first: 10, model: model, search: 'hello world' })
+  })
+
+  test('pass includeDeleted', () => {
+    const parsed = collectionQuery({ first: 10, model: model.toString(), includeDeleted: true })
+    expect(parsed).toEqual({ first: 10, model: model, includeDeleted: true })
+    expect(countQuery({ model: model.toString(), includeDeleted: true })).toEqual({
+      model: model,
+      includeDeleted: true,
+    })
+  })
+
+  test('parse time ranges', () => {
+    const timeRanges = {
+      created_at: { since: '2023-01-01T00:00:00.000Z' },
+      last_anchored_at: { since: 1672531200000, until: '2023-01-02T00:00:00.000Z' },
+    }
+    const parsed = collectionQuery({ first: 10, model: model.toString(), timeRanges })
+    expect(parsed).toEqual({
+      first: 10,
+      model: model,
+      timeRanges: {
+        created_at: { since: new Date('2023-01-01T00:00:00.000Z') },
+        last_anchored_at: {
+          since: new Date('2023-01-01T00:00:00.000Z'),
+          until: new Date('2023-01-02T00:00:00.000Z'),
+        },
+      },
+    })
+    expect(() => {
+      collectionQuery({ first: 10, model: model.toString(), timeRanges: { created_at: 'today' } })
+    }).toThrow(/Can not parse timeRanges.created_at/)
+    expect(() => {
+      countQuery({ model: model.toString(), timeRanges: { created_at: { until: 'tomorrow' } } })
+    }).toThrow(/Can not parse timeRanges.created_at.until/)
+  })
+
+  test('pass relation expansion', () => {
+    const expand = { author: true, comments: { author: true } }
+    const parsed = collectionQuery({ first: 10, model: model.toString(), expand })
+    expect(parsed).toEqual({ first: 10, model: model, expand })
+  })
+})
+
+describe('aggregationQuery', () => {
+  const model = new StreamID(1, TestUtils.randomCID())
+  test('pass aggregations and groupBy', () => {
+    const aggregations = {
+      total: { function: 'count' },
+      maxScore: { function: 'max', field: 'score' },
+    }
+    const filter = { linkedDoc: { in: ['foo', 'bar'] } }
+    const parsed = aggregationQuery({
+      model: model.toString(),
+      filter,
+      aggregations,
+      groupBy: ['linkedDoc'],
+      first: 10,
+    })
+    expect(parsed).toEqual({ model, filter, aggregations, groupBy: ['linkedDoc'] })
+  })
+  test('throw on invalid model', () => {
+    expect(() => {
+      aggregationQuery({ model: 'garbage', aggregations: { total: { function: 'count' } } })
+    }).toThrow()
+  })
+})
+
+describe('historyQuery', () => {
+  const model = new StreamID(1, TestUtils.randomCID())
+  const streamId = new StreamID(3, TestUtils.randomCID())
+  test('parse model, document and dates', () => {
+    const since = new Date('2023-01-01T00:00:00Z')
+    const parsed = historyQuery({
+      first: 10,
+      model: model.toString(),
+      streamId: streamId.toString(),
+      account: 'did:key:foo',
+      since: since.toISOString(),
+      until: since.valueOf() + 1000,
+    })
+    expect(parsed).toEqual({
+      first: 10,
+      model: model,
+      streamId: streamId,
+      account: 'did:key:foo',
+      since: since,
+      until: new Date(since.valueOf() + 1000),
+    })
+  })
+  test('throw on invalid input', () => {
+    expect(() => historyQuery({ first: 10, model: 'garbage' })).toThrow()
+    expect(() => historyQuery({ first: 10, model: model.toString(), since: 'garbage' })).toThrow(
+      /Can not parse since/
+    )
+    expect(() => historyQuery({ model: model.toString() })).toThrow(/Can not parse pagination/)
+  })
+})
+
+describe('tileQuery', () => {
+  test('parse family, tags, schema and controller', () => {
+    const query = {
+      last: 10,
+      before: 'foo',
+      family: 'notes',
+      tags: ['public'],
+      schema: 'k3y52l7qbv1frxjxxpq1sc3seebw7bt5l802pik95vqbkwjmigqkyy8vmyd1e1csg',
+      controller: 'did:key:foo',
+    }
+    expect(tileQuery(query)).toEqual(query)
+  })
+  test('throw on invalid input', () => {
+    expect(() => tileQuery({ first: 10, tags: 'public' })).toThrow(
+      /"tags" should be an array of strings/
+    )
+    expect(() => tileQuery({ family: 'notes' })).toThrow(/Can not parse pagination/)
+  })
 })
@@ -1,4 +1,11 @@
-import type { BaseQuery, Pagination } from '@ceramicnetwork/common'
+import type {
+  AggregationQuery,
+  BaseQuery,
+  HistoryQuery,
+  Pagination,
+  PaginationQuery,
+  TileQuery,
+} from '@ceramicnetwork/common'
 import { StreamID } from '@ceramicnetwork/streamid'
 
 /**
@@ -61,18 +68,56 @@ export function parsePagination(params: Record<string, any>): Pagination {
   }
 }
 
+/**
+ * Parse +input+ as a date, from an ISO string or a number of milliseconds since epoch.
+ */
+function parseDate(input: unknown, name: string): Date | undefined {
+  if (input === undefined || input === null) return undefined
+  const date = new Date(input as string | number)
+  if (isNaN(date.valueOf())) {
+    throw new Error(`Can not parse ${name}: expected a date`)
+  }
+  return date
+}
+
+/**
+ * Parse bounds of +input+ time ranges as dates, keyed by timestamp of index entries.
+ */
+function parseTimeRanges(input: unknown): BaseQuery['timeRanges'] {
+  if (input === undefined || input === null) return undefined
+  if (typeof input !== 'object') {
+    throw new Error(`Can not parse timeRanges: expected an object`)
+  }
+  const result = {}
+  for (const [field, range] of Object.entries(input)) {
+    if (typeof range !== 'object' || range === null) {
+      throw new Error(`Can not parse timeRanges.${field}: expected an object`)
+    }
+    result[field] = {
+      since: parseDate(range.since, `timeRanges.${field}.since`),
+      until: parseDate(range.until, `timeRanges.${field}.until`),
+    }
+  }
+  return result
+}
+
 /**
  * Return index query based on the query string params from HTTP request.
  *
  * @throws If parsed +query.model+ is not a valid StreamID, or if pagination is absent.
  */
-export function collectionQuery(query: Record<string, any>): BaseQuery & Pagination {
+export function collectionQuery(query: Record<string, any>): PaginationQuery {
   try {
     const pagination = parsePagination(query)
     return {
       model: StreamID.fromString(query.model),
       account: query.account,
       filter: query.filter,
+      timeRanges: parseTimeRanges(query.timeRanges),
+      sorting: query.sorting,
+      search: query.search,
+      includeDeleted: query.includeDeleted,
+      expand: query.expand,
       ...pagination,
     }
   } catch (e) {
@@ -80,10 +125,79 @@ export function collectionQuery(query: Record<string, any>): BaseQuery & Paginat
   }
 }
 
+/**
+ * Return count query based on the query string params or the body of HTTP request.
+ *
+ * @throws If parsed +query.model+ is not a valid StreamID, or if time ranges are not valid.
+ */
 export function countQuery(query: Record<string, any>): BaseQuery {
   return {
     model: StreamID.fromString(query.model),
     account: query.account,
     filter: query.filter,
+    timeRanges: parseTimeRanges(query.timeRanges),
+    search: query.search,
+    includeDeleted: query.includeDeleted,
+  }
+}
+
+/**
+ * Return aggregation query based on the body of HTTP request.
+ *
+ * @throws If parsed +query.model+ is not a valid StreamID.
+ */
+export function aggregationQuery(query: Record<string, any>): AggregationQuery {
+  return {
+    ...countQuery(query),
+    aggregations: query.aggregations,
+    groupBy: query.groupBy,
+  }
+}
+
+/**
+ * Return history query based on the body of HTTP request.
+ *
+ * @throws If parsed +query.model+ or +query.streamId+ is not a valid StreamID, if dates are not
+ * valid, or if pagination is absent.
+ */
+export function historyQuery(query: Record<string, any>): HistoryQuery {
+  try {
+    const pagination = parsePagination(query)
+    return {
+      model: StreamID.fromString(query.model),
+      streamId: query.streamId ? StreamID.fromString(query.streamId) : undefined,
+      account: query.account,
+      since: parseDate(query.since, 'since'),
+      until: parseDate(query.until, 'until'),
+      ...pagination,
+    }
+  } catch (e) {
+    throw new Error(`Invalid input in history request: ${e.message}`)
+  }
+}
+
+/**
+ * Return TileDocument query based on the body of HTTP request.
+ *
+ * @throws If +query.tags+ is not an array of strings, or if pagination is absent.
+ */
+export function tileQuery(query: Record<string, any>): TileQuery {
+  try {
+    const pagination = parsePagination(query)
+    if (
+      query.tags !== undefined &&
+      !(Array.isArray(query.tags) && query.tags.every((tag) => typeof tag === 'string'))
+    ) {
+      throw new Error(`"tags" should be an array of strings`)
+    }
+    return {
+      family: query.family,
+      tags: query.tags,
+      schema: query.schema,
+      controller: query.controller,
+      ...pagination,
+    }
+  } catch (e) {
+    throw new Error(`Invalid input in tiles request: ${e.message}`)
   }
 }
@@ -2,3 +2,4 @@ export * from './ceramic-cli-utils.js'
 export * from './ceramic-daemon.js'
 export * from './daemon-config.js'
 export * from './s3-store.js'
+export * from './tile-migration.js'
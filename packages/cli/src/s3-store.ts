@@ -115,6 +115,8 @@ export class S3Store implements IKVStore {
       limit: params?.limit,
     }
     if (params?.gt) (options as any).gt = params.gt
+    if (params?.lt) (options as any).lt = params.lt
+    if (params?.reverse) (options as any).reverse = true
     const dataArray = await toArray(store.createReadStream(options))
     return dataArray.map((data) => {
       return { key: data.key.toString(), value: JSON.parse(data.value.toString()) }
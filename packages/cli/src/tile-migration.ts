@@ -0,0 +1,216 @@
+import * as fs from 'fs/promises'
+import isEqual from 'fast-deep-equal'
+import type { CeramicApi } from '@ceramicnetwork/common'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { Model } from '@ceramicnetwork/stream-model'
+import { ModelInstanceDocument } from '@ceramicnetwork/stream-model-instance'
+import { TileDocument } from '@ceramicnetwork/stream-tile'
+
+/**
+ * StreamIDs of the Models TileDocuments are converted to, by CommitID of the schema of the
+ * TileDocuments.
+ */
+export type TileSchemaMapping = Record<string, string>
+
+/**
+ * Outcome of the conversion of TileDocuments to ModelInstanceDocuments.
+ */
+export type TileMigrationReport = {
+  // StreamIDs of the ModelInstanceDocuments created, by StreamID of their TileDocument
+  converted: Record<string, string>
+  // StreamIDs of the ModelInstanceDocuments created by a previous run, by StreamID of their TileDocument
+  existing: Record<string, string>
+  // Reasons the TileDocuments could not be converted, by StreamID of the TileDocument
+  failed: Record<string, string>
+}
+
+/**
+ * Persisted table of the ModelInstanceDocuments created from TileDocuments, stored as a JSON file.
+ *
+ * A TileDocument being converted to a non-deterministic ModelInstanceDocument has a `null` entry
+ * until the document is created, so that a run interrupted in between does not create it twice.
+ */
+export class TileMigrationTable {
+  constructor(
+    private readonly filename: URL,
+    private readonly entries: Record<string, string | null> = {}
+  ) {}
+
+  /**
+   * Load the table from +filename+, empty if the file does not exist yet.
+   */
+  static async load(filename: URL): Promise<TileMigrationTable> {
+    try {
+      const contents = await fs.readFile(filename, { encoding: 'utf8' })
+      return new TileMigrationTable(filename, JSON.parse(contents))
+    } catch (e) {
+      if (e.code === 'ENOENT') return new TileMigrationTable(filename)
+      throw e
+    }
+  }
+
+  /**
+   * StreamID of the ModelInstanceDocument created from the TileDocument +tileId+, if any.
+   */
+  get(tileId: string): string | undefined {
+    return this.entries[tileId] ?? undefined
+  }
+
+  /**
+   * True if a ModelInstanceDocument may have been created from the TileDocument +tileId+ without
+   * being recorded.
+   */
+  isPending(tileId: string): boolean {
+    return this.entries[tileId] === null
+  }
+
+  /**
+   * Record the ModelInstanceDocument +documentId+ created from the TileDocument +tileId+, and save
+   * the table.
+   */
+  async set(tileId: string, documentId: string): Promise<void> {
+    this.entries[tileId] = documentId
+    await this.save()
+  }
+
+  /**
+   * Record that a ModelInstanceDocument is about to be created from the TileDocument +tileId+, and
+   * save the table.
+   */
+  async setPending(tileId: string): Promise<void> {
+    this.entries[tileId] = null
+    await this.save()
+  }
+
+  /**
+   * Remove the entry of the TileDocument +tileId+, and save the table.
+   */
+  async delete(tileId: string): Promise<void> {
+    delete this.entries[tileId]
+    await this.save()
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(new URL('./', this.filename), { recursive: true })
+    await fs.writeFile(this.filename, JSON.stringify(this.entries, null, 2))
+  }
+}
+
+/**
+ * Converts TileDocuments to ModelInstanceDocuments of the Models their schemas are mapped to. The
+ * ModelInstanceDocuments are created under the controller of the TileDocuments, so the Ceramic
+ * instance must be authenticated with that DID.
+ */
+export class TileMigration {
+  constructor(
+    private readonly ceramic: CeramicApi,
+    private readonly mapping: TileSchemaMapping,
+    private readonly table: TileMigrationTable
+  ) {}
+
+  /**
+   * Convert the TileDocuments +streamIds+, skipping the ones converted by a previous run.
+   */
+  async migrate(streamIds: Array<StreamID | string>): Promise<TileMigrationReport> {
+    const report: TileMigrationReport = { converted: {}, existing: {}, failed: {} }
+    for (const streamId of streamIds) {
+      const tileId = streamId.toString()
+      const existing = this.table.get(tileId)
+      if (existing) {
+        report.existing[tileId] = existing
+        continue
+      }
+      if (this.table.isPending(tileId)) {
+        report.failed[
+          tileId
+        ] = `A previous run was interrupted while converting TileDocument ${tileId}, check whether it created a ModelInstanceDocument before removing the TileDocument from the migration table`
+        continue
+      }
+      try {
+        const documentId = await this.convert(tileId)
+        await this.table.set(tileId, documentId)
+        report.converted[tileId] = documentId
+      } catch (e) {
+        report.failed[tileId] = e.message
+      }
+    }
+    return report
+  }
+
+  /**
+   * Create the ModelInstanceDocument holding the content of the TileDocument +tileId+, and return
+   * its StreamID. Deterministic ModelInstanceDocuments that already have content are not overwritten,
+   * unless their content is the content of the TileDocument.
+   */
+  private async convert(tileId: string): Promise<string> {
+    const streamId = StreamID.fromString(tileId)
+    if (streamId.type !== TileDocument.STREAM_TYPE_ID) {
+      throw new Error(`Stream ${tileId} is not a TileDocument`)
+    }
+    const tile = await TileDocument.load(this.ceramic, streamId)
+    const schema = tile.metadata.schema
+    if (!schema) {
+      throw new Error(`TileDocument ${tileId} has no schema`)
+    }
+    const modelId = this.mapping[schema]
+    if (!modelId) {
+      throw new Error(`No Model is mapped to the schema ${schema} of TileDocument ${tileId}`)
+    }
+
+    const controller = tile.metadata.controllers[0]
+    const did = this.ceramic.did
+    const signer = did?.hasParent ? did.parent : did?.id
+    if (controller !== signer) {
+      throw new Error(
+        `TileDocument ${tileId} is controlled by ${controller}, not by the authenticated DID ${signer}`
+      )
+    }
+
+    const model = await Model.load(this.ceramic, modelId)
+    const metadata = { model: model.id, controller }
+    const accountRelation = model.content.accountRelation
+    switch (accountRelation.type) {
+      case 'list': {
+        await this.table.setPending(tileId)
+        try {
+          const document = await ModelInstanceDocument.create(this.ceramic, tile.content, metadata)
+          return document.id.toString()
+        } catch (e) {
+          await this.table.delete(tileId)
+          throw e
+        }
+      }
+      case 'single': {
+        const document = await ModelInstanceDocument.single(this.ceramic, metadata)
+        return this.fill(document, tile.content)
+      }
+      case 'set': {
+        const values = accountRelation.fields.map((fieldName) => tile.content?.[fieldName])
+        const document = await ModelInstanceDocument.set(this.ceramic, metadata, values)
+        return this.fill(document, tile.content)
+      }
+      default:
+        throw new Error(`Unsupported accountRelation of Model ${modelId}`)
+    }
+  }
+
+  /**
+   * Set the content of the deterministic ModelInstanceDocument +document+ to +content+, and return
+   * its StreamID. Throws if the document already has other content.
+   *
+   * A document already holding +content+ is the one a previous run filled without recording it, as
+   * it was interrupted in between, so it is returned as is.
+   */
+  private async fill(document: ModelInstanceDocument, content: any): Promise<string> {
+    if (isEqual(document.content, content)) {
+      return document.id.toString()
+    }
+    if (document.content != null) {
+      throw new Error(
+        `ModelInstanceDocument ${document.id} already has content, it is not replaced by the content of the TileDocument`
+      )
+    }
+    await document.replace(content)
+    return document.id.toString()
+  }
+}
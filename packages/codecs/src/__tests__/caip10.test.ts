@@ -0,0 +1,32 @@
+import { describe, expect, test } from '@jest/globals'
+import { validate, isRight } from 'codeco'
+
+import { caip10String, isCAIP10String } from '../caip10.js'
+
+const ACCOUNT = 'eip155:1:0xab16a96d359ec26a11e2c2b3d8f8b8942d5bfcdb'
+
+describe('isCAIP10String', () => {
+  test('ok', () => {
+    expect(isCAIP10String(ACCOUNT)).toBeTruthy()
+    expect(
+      isCAIP10String('cosmos:cosmoshub-3:cosmos1t2uflqwqe0fsj0shcfkrvpukewcw40yjj6hdc0')
+    ).toBeTruthy()
+  })
+  test('not ok', () => {
+    // @ts-ignore `null` goes against TS types
+    expect(isCAIP10String(null)).toBeFalsy()
+    expect(isCAIP10String('')).toBeFalsy()
+    expect(isCAIP10String('eip155:1')).toBeFalsy()
+    expect(isCAIP10String('0xab16a96d359ec26a11e2c2b3d8f8b8942d5bfcdb@eip155:1')).toBeFalsy()
+  })
+})
+
+describe('caip10String', () => {
+  test('ok', () => {
+    expect(isRight(validate(caip10String, ACCOUNT))).toBeTruthy()
+  })
+  test('fail', () => {
+    expect(isRight(validate(caip10String, null))).toBeFalsy()
+    expect(isRight(validate(caip10String, 'garbage'))).toBeFalsy()
+  })
+})
@@ -0,0 +1,21 @@
+import { refinement, string } from 'codeco'
+import type { Opaque } from 'ts-essentials'
+
+export type CAIP10String = Opaque<string, 'CAIP10String'>
+
+const NAMESPACE = '[-a-z0-9]{3,8}'
+const REFERENCE = '[-_a-zA-Z0-9]{1,32}'
+const ACCOUNT_ADDRESS = '[-.%a-zA-Z0-9]{1,128}'
+const CAIP10_MATCHER = new RegExp(`^${NAMESPACE}:${REFERENCE}:${ACCOUNT_ADDRESS}$`)
+
+/**
+ * Verify if `input` is a CAIP-10 account ID string, i.e. conforms to `namespace:reference:address` format.
+ */
+export function isCAIP10String(input: string): input is CAIP10String {
+  return Boolean(input && input.match(CAIP10_MATCHER))
+}
+
+/**
+ * codeco codec for a CAIP-10 account ID string, i.e. `namespace:reference:address`.
+ */
+export const caip10String = refinement(string, isCAIP10String, 'caip10-string')
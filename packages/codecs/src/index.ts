@@ -1,5 +1,6 @@
 export * from './anchor.js'
 export * from './binary.js'
+export * from './caip10.js'
 export * from './date.js'
 export * from './did.js'
 export * from './enum.js'
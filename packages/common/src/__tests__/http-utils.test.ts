@@ -0,0 +1,50 @@
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { fetchEvents, type ServerSentEvent } from '../utils/http-utils.js'
+
+describe('fetchEvents', () => {
+  let server: Server
+  let url: string
+  let chunks: Array<string>
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/missing') {
+        res.writeHead(404)
+        res.end('Not found')
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      for (const chunk of chunks) {
+        res.write(chunk)
+      }
+      res.end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    url = `http://localhost:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  async function collect(path: string): Promise<Array<ServerSentEvent>> {
+    const events = []
+    for await (const event of fetchEvents(`${url}${path}`)) {
+      events.push(event)
+    }
+    return events
+  }
+
+  test('parse events split across chunks', async () => {
+    chunks = ['data: {"a":', '1}\n\n: comment\n\nevent: error\ndata: first\ndata: second\n\n']
+    await expect(collect('/')).resolves.toEqual([
+      { event: 'message', data: '{"a":1}' },
+      { event: 'error', data: 'first\nsecond' },
+    ])
+  })
+
+  test('throw on error status', async () => {
+    await expect(collect('/missing')).rejects.toThrow(/failed with status 'Not Found'/)
+  })
+})
@@ -4,7 +4,7 @@ import type { CreateOpts, LoadOpts, PublishOpts, UpdateOpts } from './streamopts
 import type { StreamID, CommitID } from '@ceramicnetwork/streamid'
 import type { LoggerProvider } from './logger-provider.js'
 import type { GenesisCommit } from './index.js'
-import type { IndexApi } from './index-api.js'
+import type { FilterValue, IndexApi, PaginationQuery } from './index-api.js'
 import { NodeStatusResponse } from './node-status-interface.js'
 import type { AnchorStatus } from '@ceramicnetwork/codecs'
 
@@ -56,6 +56,117 @@ export interface CeramicSigner extends CeramicCommon {
   [index: string]: any // allow arbitrary properties
 }
 
+/**
+ * Restricts the documents of a model a node indexes. A document is indexed if it matches every
+ * condition of the filter.
+ */
+export type ModelIndexFilter = {
+  /**
+   * Only index documents controlled by one of these accounts.
+   */
+  controllers?: Array<string>
+  /**
+   * Only index documents with top-level content fields equal to these values.
+   */
+  content?: Record<string, FilterValue>
+}
+
+/**
+ * Indexing settings requested by a node operator, in addition to the ones declared by models.
+ */
+export type ModelIndexingOptions = {
+  /**
+   * Top-level scalar fields of the model content to store in dedicated indexed columns,
+   * keyed by model StreamID.
+   */
+  indexedFields?: Record<string, Array<string>>
+  /**
+   * Models for which to record every indexed version of their documents, as model StreamIDs.
+   * See `IndexApi.history`.
+   */
+  history?: Array<string>
+  /**
+   * Filters restricting the documents to index, keyed by model StreamID. Documents of models
+   * without a filter are all indexed.
+   */
+  filters?: Record<string, ModelIndexFilter>
+}
+
+/**
+ * Progress of rebuilding the index of a model from the streams stored locally.
+ */
+export type ModelReindexStatus = {
+  /**
+   * StreamID of the model being reindexed
+   */
+  model: string
+  /**
+   * Number of streams read from the state store so far
+   */
+  processedStreams: number
+  /**
+   * Number of streams of the model written to the index so far
+   */
+  indexedStreams: number
+  /**
+   * Number of streams of the model that failed to be written to the index, and were skipped
+   */
+  failedStreams: number
+  /**
+   * True once every stream in the state store has been processed
+   */
+  completed: boolean
+}
+
+/**
+ * Result of comparing the index of a model against the streams stored locally.
+ */
+export type ModelIndexCheckReport = {
+  /**
+   * StreamID of the checked model
+   */
+  model: string
+  /**
+   * Number of entries of the model index compared against the stored streams
+   */
+  checkedEntries: number
+  /**
+   * StreamIDs of streams of the model stored locally but absent from the index
+   */
+  missing: Array<string>
+  /**
+   * StreamIDs of streams indexed with a tip or content different from the stored ones
+   */
+  stale: Array<string>
+  /**
+   * StreamIDs of indexed streams that are not stored locally, not of the model, or excluded by the
+   * index filter of the model
+   */
+  orphaned: Array<string>
+  /**
+   * True if missing and stale streams got indexed again, and orphaned entries got removed
+   */
+  repaired: boolean
+}
+
+/**
+ * Plan the index database chose for an SQL statement run by an index query.
+ */
+export type IndexQueryPlan = {
+  /**
+   * SQL statement, with placeholders for the bindings
+   */
+  sql: string
+  /**
+   * Values bound to the placeholders of the statement
+   */
+  bindings: Array<unknown>
+  /**
+   * Output of `EXPLAIN` for the statement, as returned by the database
+   */
+  plan: unknown
+}
+
 /**
  * Describes Ceramic Admin API functionality
  */
@@ -75,8 +186,9 @@ export interface AdminApi {
    * Adds model streams to index
    *
    * @param modelsIDs - array of model stream IDs to add to index
+   * @param options - additional indexing settings for the models
    */
-  startIndexingModels(modelsIDs: Array<StreamID>): Promise<void>
+  startIndexingModels(modelsIDs: Array<StreamID>, options?: ModelIndexingOptions): Promise<void>
 
   /**
    * Removes model streams from index
@@ -86,6 +198,36 @@ export interface AdminApi {
 
   stopIndexingModels(modelsIDs: Array<StreamID>): Promise<void>
 
+  /**
+   * Rebuilds the index of an indexed model from the streams stored locally, in the background.
+   * Restarts from scratch if the model is already being reindexed.
+   *
+   * @param modelId - model stream ID to reindex
+   */
+  reindexModel(modelId: StreamID): Promise<void>
+
+  /**
+   * Lists the progress of the models reindexing requested on this node
+   */
+  getReindexStatus(): Promise<Array<ModelReindexStatus>>
+
+  /**
+   * Compares the index of an indexed model against the streams stored locally, and reports
+   * the entries that are missing, stale or orphaned.
+   *
+   * @param modelId - model stream ID to check
+   * @param repair - index missing and stale streams again, and remove orphaned entries
+   */
+  checkModelIndex(modelId: StreamID, repair?: boolean): Promise<ModelIndexCheckReport>
+
+  /**
+   * Runs an index query, and explains the plans the index database chose for the SQL statements
+   * of the query.
+   *
+   * @param query - index query to explain
+   */
+  explainQuery(query: PaginationQuery): Promise<Array<IndexQueryPlan>>
+
   pin: PinApi
 }
 
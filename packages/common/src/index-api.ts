@@ -1,5 +1,6 @@
-import type { StreamID } from '@ceramicnetwork/streamid'
+import type { CommitID, StreamID } from '@ceramicnetwork/streamid'
 import type { StreamState } from './stream.js'
+import type { Observable } from 'rxjs'
 
 /**
  * Traverse from the most recent to the last, according to selected ordering.
@@ -24,16 +25,202 @@ export type BackwardPagination = {
  */
 export type Pagination = ForwardPagination | BackwardPagination
 
+/**
+ * Value of an indexed field to compare against.
+ */
+export type FilterValue = string | number | boolean
+
+/**
+ * Operators to filter entries by a value of an indexed field.
+ * If several operators are present, an entry has to match all of them.
+ */
+export type FieldFilter = {
+  gt?: FilterValue
+  gte?: FilterValue
+  lt?: FilterValue
+  lte?: FilterValue
+  in?: Array<FilterValue>
+  notIn?: Array<FilterValue>
+  isNull?: boolean
+  not?: QueryFilter
+}
+
+/**
+ * Filter on an indexed field: either a value to match exactly, or a set of operators.
+ */
+export type QueryFilter = FilterValue | FieldFilter
+
+/**
+ * Timestamps of an index entry:
+ * - `created_at` and `updated_at`: time the entry was first and last indexed by the node,
+ * - `first_anchored_at` and `last_anchored_at`: time of the first and last anchor of the document,
+ *   null until the document is anchored.
+ */
+export type TimeField = 'created_at' | 'updated_at' | 'first_anchored_at' | 'last_anchored_at'
+
+/**
+ * Time window, from `since` inclusive to `until` exclusive. Either bound could be omitted.
+ */
+export type TimeRange = {
+  since?: Date
+  until?: Date
+}
+
 /**
  * Base query to the index. Disregards pagination.
  */
 export type BaseQuery = {
   model: StreamID | string
   account?: string
-  filter?: Record<string, string>
+  filter?: Record<string, QueryFilter>
+  /**
+   * Time windows the timestamps of matching entries fall into. Entries without an anchor timestamp
+   * do not match a window on that timestamp.
+   */
+  timeRanges?: Partial<Record<TimeField, TimeRange>>
+  /**
+   * Full-text search over fields of the model indexed for full-text search.
+   * Matching entries contain all the search terms, and are ordered by relevance.
+   */
+  search?: string
+  /**
+   * Also match documents deleted by a tombstone commit. Deleted documents are excluded by default.
+   */
+  includeDeleted?: boolean
+}
+
+/**
+ * Direction of sorting: ascending or descending.
+ */
+export type SortOrder = 'ASC' | 'DESC'
+
+/**
+ * Order of entries in an index query, as field name mapped to sort order. Fields are indexed
+ * fields of the model or timestamps of entries, see `TimeField`.
+ * Fields are compared in the order of the keys, then entries are ordered by StreamID.
+ */
+export type Sorting = Record<string, SortOrder>
+
+/**
+ * Relations to resolve for the entries of an index query, keyed by name of a `document` relation,
+ * a `relationDocument` view or a `relationFrom` view of the model. Nested expansions resolve
+ * relations of the related documents, up to a bounded depth.
+ */
+export type RelationExpansion = { [field: string]: true | RelationExpansion }
+
+export type PaginationQuery = BaseQuery &
+  Pagination & {
+    sorting?: Sorting
+    /**
+     * Relations of the entries to return along with the entries.
+     */
+    expand?: RelationExpansion
+  }
+
+/**
+ * Aggregate functions available over indexed fields.
+ */
+export type AggregationFunction = 'count' | 'min' | 'max' | 'sum' | 'avg'
+
+/**
+ * Aggregate function applied to an indexed field. Without a field, `count` counts entries.
+ * With a field, it counts entries where the field is not null.
+ */
+export type Aggregation = {
+  function: AggregationFunction
+  field?: string
+}
+
+/**
+ * Query computing aggregations over the entries matching the base query, as aggregation name
+ * mapped to aggregation. Entries could be grouped by values of indexed fields.
+ */
+export type AggregationQuery = BaseQuery & {
+  aggregations: Record<string, Aggregation>
+  groupBy?: Array<string>
+}
+
+/**
+ * Aggregated values for a group of entries.
+ */
+export type AggregationResult = {
+  /**
+   * Values of the `groupBy` fields shared by entries of the group. Empty if entries are not grouped.
+   */
+  group: Record<string, FilterValue | null>
+  /**
+   * Result of each aggregation, keyed by aggregation name.
+   */
+  values: Record<string, FilterValue | null>
+}
+
+/**
+ * Query over the versions of documents of a model recorded by the index. Versions are ordered by
+ * the time they got indexed.
+ */
+export type HistoryQuery = Pagination & {
+  model: StreamID | string
+  /**
+   * Only versions of this document.
+   */
+  streamId?: StreamID | string
+  /**
+   * Only versions of documents controlled by this account.
+   */
+  account?: string
+  /**
+   * Only versions indexed at or after this time.
+   */
+  since?: Date
+  /**
+   * Only versions indexed before this time.
+   */
+  until?: Date
 }
 
-export type PaginationQuery = BaseQuery & Pagination
+/**
+ * Version of a document, as recorded by the index.
+ */
+export type DocumentVersion = {
+  streamId: StreamID
+  /**
+   * Commit the version is at.
+   */
+  commitId: CommitID
+  controller: string
+  content: Record<string, any>
+  /**
+   * Time of the last anchor of the document at this version, null if it has never been anchored.
+   */
+  anchoredAt: Date | null
+  /**
+   * Time the version got indexed by the node.
+   */
+  indexedAt: Date
+}
+
+/**
+ * Query over the TileDocuments indexed by the node. TileDocuments are ordered by the time they first
+ * got indexed.
+ */
+export type TileQuery = Pagination & {
+  /**
+   * Only TileDocuments of this family.
+   */
+  family?: string
+  /**
+   * Only TileDocuments having all these tags.
+   */
+  tags?: Array<string>
+  /**
+   * Only TileDocuments with this schema, as a CommitID.
+   */
+  schema?: CommitID | string
+  /**
+   * Only TileDocuments controlled by this account.
+   */
+  controller?: string
+}
 
 /**
  * API to query an index.
@@ -43,11 +230,66 @@ export type PaginationQuery = BaseQuery & Pagination
 export interface IndexApi {
   count(query: BaseQuery): Promise<number>
   query(query: PaginationQuery): Promise<Page<StreamState | null>>
+  /**
+   * Compute aggregations over the entries matching +query+. Groups are ordered by values of
+   * `groupBy` fields.
+   */
+  aggregate(query: AggregationQuery): Promise<Array<AggregationResult>>
+  /**
+   * Emit changes of the entries matching +query+ as streams get indexed.
+   * Full-text search is not supported in subscriptions.
+   */
+  subscribe(query: BaseQuery): Observable<IndexChange<StreamState | null>>
+  /**
+   * Versions of documents matching +query+. Versions are only recorded for models indexed with
+   * history, see `ModelIndexingOptions.history`.
+   */
+  history(query: HistoryQuery): Promise<Page<DocumentVersion>>
+  /**
+   * Pinned TileDocuments matching +query+. TileDocuments are only indexed if the node is configured
+   * to, see `IndexingConfig.indexTiles`.
+   */
+  tiles(query: TileQuery): Promise<Page<StreamState | null>>
 }
 
 export type Edge<T> = {
   cursor: string
   node: T
+  /**
+   * Related documents requested by the `expand` field of the query, keyed by relation name.
+   */
+  relations?: Record<string, Related<T>>
+}
+
+/**
+ * Document resolved by relation expansion, with its own expanded relations.
+ */
+export type RelatedNode<T> = {
+  node: T
+  relations?: Record<string, Related<T>>
+}
+
+/**
+ * Documents resolved for a relation: a single document (or null if the relation is not set) for
+ * document relations, a list of documents for inverse relations.
+ */
+export type Related<T> = RelatedNode<T> | Array<RelatedNode<T>> | null
+
+/**
+ * Kind of change of an entry matching an index query:
+ * - `added`: the entry starts matching the query, either because it is new or because it is updated,
+ * - `updated`: the entry matched the query and still matches it after an update,
+ * - `removed`: the entry matched the query, and no longer matches it after an update.
+ */
+export type IndexChangeType = 'added' | 'updated' | 'removed'
+
+/**
+ * Change of an entry matching an index query. Cursor of the edge is a cursor for the default
+ * ordering of the query.
+ */
+export type IndexChange<T> = {
+  type: IndexChangeType
+  edge: Edge<T>
 }
 
 /**
@@ -8,7 +8,7 @@ export interface PinningBackend {
 
   close(): Promise<void>
 
-  pin(cid: CID): Promise<void>
+  pin(cid: CID, options?: PinOptions): Promise<void>
 
   unpin(cid: CID): Promise<void>
 
@@ -23,6 +23,13 @@ export interface PinningBackendStatic {
   new (connectionString: string, ipfs: IpfsApi): PinningBackend
 }
 
+export type PinOptions = {
+  // Pin the whole DAG linked from the CID, instead of its block only
+  recursive?: boolean
+  // Milliseconds after which pinning fails, if the backend has not pinned the CID yet
+  timeout?: number
+}
+
 export type CidString = string
 export type Designator = string
 export type CidList = Record<CidString, Designator[]>
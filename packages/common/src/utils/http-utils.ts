@@ -50,3 +50,81 @@ export async function fetchJson(url: URL | string, opts: FetchOpts = {}): Promis
 
   return res.json()
 }
+
+/**
+ * Event received from a Server-Sent Events stream.
+ */
+export type ServerSentEvent = {
+  event: string
+  data: string
+}
+
+/**
+ * Iterate over chunks of a response body, be it a WHATWG ReadableStream or a Node.js stream.
+ */
+async function* readChunks(body: any): AsyncGenerator<Uint8Array> {
+  if (typeof body.getReader === 'function') {
+    const reader = body.getReader()
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) return
+        yield value
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  } else {
+    yield* body
+  }
+}
+
+/**
+ * Parse a block of Server-Sent Events lines. Returns undefined if the block carries no data.
+ */
+function parseServerSentEvent(block: string): ServerSentEvent | undefined {
+  let event = 'message'
+  const data = []
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim()
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice('data:'.length).trimStart())
+    }
+  }
+  if (data.length === 0) return undefined
+  return { event, data: data.join('\n') }
+}
+
+/**
+ * Request a Server-Sent Events stream, and iterate over its events until the server closes
+ * the connection or +opts.signal+ is aborted.
+ */
+export async function* fetchEvents(
+  url: URL | string,
+  opts: Pick<FetchOpts, 'headers' | 'signal'> = {}
+): AsyncGenerator<ServerSentEvent> {
+  const res = await fetch(String(url), {
+    headers: { Accept: 'text/event-stream', ...opts.headers },
+    signal: opts.signal,
+    credentials: 'include',
+  })
+
+  if (!res.ok) {
+    const text = await res.text()
+    throw new Error(`HTTP request to '${url}' failed with status '${res.statusText}': ${text}`)
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for await (const chunk of readChunks(res.body)) {
+    buffer += decoder.decode(chunk, { stream: true })
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const event = parseServerSentEvent(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      if (event) yield event
+      boundary = buffer.indexOf('\n\n')
+    }
+  }
+}
@@ -6,6 +6,7 @@ import { getEIP191Verifier } from '@didtools/pkh-ethereum'
 import { getSolanaVerifier } from '@didtools/pkh-solana'
 import { getStacksVerifier } from '@didtools/pkh-stacks'
 import { getTezosVerifier } from '@didtools/pkh-tezos'
+import { base64urlToJSON } from './uint8array-utils.js'
 
 const DEFAULT_CACAO_REVOCATION_PHASE_OUT = 24 * 60 * 60
 
@@ -29,6 +30,8 @@ export class SignatureUtils {
    * @param controller - Stream controller DID value
    * @param model - model of the stream being updated
    * @param streamId - Stream ID for the commit
+   * @param writers - DIDs other than the controller allowed to sign the commit, directly or by issuing a capability
+   * @returns DID the signature is verified for: the controller, or one of the writers
    * @private
    */
   static async verifyCommitSignature(
@@ -36,26 +39,50 @@ export class SignatureUtils {
     did: DID,
     controller: string,
     model: StreamID | null,
-    streamId: StreamID
-  ): Promise<void> {
+    streamId: StreamID,
+    writers: Array<string> = []
+  ): Promise<string> {
     try {
       const cacao = await this._verifyCapabilityAuthz(commitData, streamId, model)
+      const issuer = this._commitIssuer(commitData, cacao, controller, writers)
 
       const atTime = commitData.timestamp ? new Date(commitData.timestamp * 1000) : undefined
       await did.verifyJWS(commitData.envelope, {
         atTime: atTime,
-        issuer: controller,
+        issuer: issuer,
         disableTimecheck: commitData.disableTimecheck,
         capability: cacao,
         revocationPhaseOutSecs: DEFAULT_CACAO_REVOCATION_PHASE_OUT,
         verifiers: verifiersCACAO,
       })
+      return issuer
     } catch (e: any) {
       const original = e.message ? e.message : String(e)
       throw new Error(`Can not verify signature for commit ${commitData.cid}: ${original}`)
     }
   }
 
+  /**
+   * Issuer to verify the signature of a commit for: the issuer of the capability attached to the
+   * commit, or else the DID of the signing key, if it is one of the writers. The controller
+   * otherwise.
+   * @param commitData - Commit to be verified
+   * @param cacao - capability attached to the commit
+   * @param controller - Stream controller DID value
+   * @param writers - DIDs other than the controller allowed to sign the commit
+   */
+  private static _commitIssuer(
+    commitData: CommitData,
+    cacao: Cacao | null,
+    controller: string,
+    writers: Array<string>
+  ): string {
+    if (writers.length === 0) return controller
+    const kid: string | undefined = base64urlToJSON(commitData.envelope.signatures[0].protected).kid
+    const signer = cacao ? cacao.p.iss : kid?.split(/[?#]/)[0]
+    return writers.includes(signer) ? signer : controller
+  }
+
   /**
    * Verifies capability attached to a signed commit
    * @param commitData - Commit to be verified
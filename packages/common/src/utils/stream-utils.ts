@@ -13,6 +13,7 @@ import {
   SignedCommitContainer,
 } from '../index.js'
 import { LogEntry, StreamState } from '../stream.js'
+import type { Related, RelatedNode } from '../index-api.js'
 import type { DagJWS } from 'dids'
 import { StreamID, StreamType } from '@ceramicnetwork/streamid'
 import { CID } from 'multiformats/cid'
@@ -178,6 +179,27 @@ export class StreamUtils {
     return cloned
   }
 
+  /**
+   * Serializes stream states of related documents resolved by relation expansion, for over the
+   * network transfer.
+   * @param relations - Related documents keyed by relation name
+   */
+  static serializeRelations(
+    relations: Record<string, Related<StreamState | null>> | undefined
+  ): Record<string, any> | undefined {
+    return mapRelations(relations, (state) => (state ? StreamUtils.serializeState(state) : null))
+  }
+
+  /**
+   * Deserializes stream states of related documents from over the network transfer.
+   * @param relations - Serialized related documents keyed by relation name
+   */
+  static deserializeRelations(
+    relations: Record<string, any> | undefined
+  ): Record<string, Related<StreamState | null>> | undefined {
+    return mapRelations(relations, (state) => StreamUtils.deserializeState(state))
+  }
+
   static statesEqual(state1: StreamState, state2: StreamState): boolean {
     return (
       JSON.stringify(StreamUtils.serializeState(state1)) ===
@@ -381,3 +403,23 @@ export class StreamUtils {
     return true
   }
 }
+
+/**
+ * Apply +fn+ to the nodes of +relations+, recursively.
+ */
+function mapRelations<T, U>(
+  relations: Record<string, Related<T>> | undefined,
+  fn: (node: T) => U
+): Record<string, Related<U>> | undefined {
+  if (!relations) return undefined
+  const mapRelated = (related: Related<T>): Related<U> => {
+    if (related === null) return null
+    if (Array.isArray(related)) return related.map((r) => mapRelated(r) as RelatedNode<U>)
+    const mapped: RelatedNode<U> = { node: fn(related.node) }
+    if (related.relations) mapped.relations = mapRelations(related.relations, fn)
+    return mapped
+  }
+  return Object.fromEntries(
+    Object.entries(relations).map(([field, related]) => [field, mapRelated(related)])
+  )
+}
@@ -0,0 +1,182 @@
+import { jest } from '@jest/globals'
+import tmp from 'tmp-promise'
+import {
+  AnchorStatus,
+  CommitType,
+  DiagnosticsLogger,
+  LoggerProvider,
+  Networks,
+  NodeStatusResponse,
+  PinApi,
+  SignatureStatus,
+  StreamState,
+  TestUtils,
+} from '@ceramicnetwork/common'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { Model, ModelDefinition } from '@ceramicnetwork/stream-model'
+import { LocalAdminApi } from '../local-admin-api.js'
+import { LocalIndexApi } from '../indexing/local-index-api.js'
+import { ModelReindexer } from '../indexing/model-reindexer.js'
+import type { DatabaseIndexApi } from '../indexing/database-index-api.js'
+import type { Repository } from '../state-management/repository.js'
+import type { RunningState } from '../state-management/running-state.js'
+import type { SyncApi } from '../sync/sync-api.js'
+import { LevelDbStore } from '../store/level-db-store.js'
+import { StreamStateStore } from '../store/stream-state-store.js'
+import { ModelReindexStore } from '../store/model-reindex-store.js'
+
+const INTERFACE = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+const MODEL_V1 = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+const MODEL_V2 = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+const OTHER_MODEL = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+const MODEL_CONTENT: ModelDefinition = {
+  version: '1.0',
+  name: 'Post',
+  accountRelation: { type: 'list' },
+  schema: { type: 'object', properties: { title: { type: 'string' } } },
+}
+const CONTENTS = {
+  [INTERFACE.toString()]: { ...MODEL_CONTENT, name: 'Titled', interface: true },
+  [MODEL_V1.toString()]: { ...MODEL_CONTENT, implements: [INTERFACE.toString()] },
+  [MODEL_V2.toString()]: { ...MODEL_CONTENT, supersedes: MODEL_V1.toString() },
+  [OTHER_MODEL.toString()]: { ...MODEL_CONTENT, name: 'Other' },
+}
+
+const makeStreamState = function (model: StreamID): StreamState {
+  return {
+    type: 3,
+    content: { title: 'hello' },
+    metadata: {
+      controllers: ['did:key:foo'],
+      model: model,
+    },
+    signature: SignatureStatus.GENESIS,
+    anchorStatus: AnchorStatus.NOT_REQUESTED,
+    log: [{ type: CommitType.GENESIS, cid: TestUtils.randomCID() }],
+  }
+}
+
+describe('startIndexingModels', () => {
+  let tmpFolder: tmp.DirectoryResult
+  let reindexer: ModelReindexer
+  let adminApi: LocalAdminApi
+  let indexStreamFn: jest.Mock<(args: { model: StreamID; streamID: StreamID }) => Promise<void>>
+  let v1StreamIds: Array<string>
+
+  beforeEach(async () => {
+    tmpFolder = await tmp.dir({ unsafeCleanup: true })
+    const levelStore = new LevelDbStore(tmpFolder.path, 'fakeNetwork')
+    const logger = new LoggerProvider().getDiagnosticsLogger()
+    const stateStore = new StreamStateStore(logger)
+    await stateStore.open(levelStore)
+    const modelReindexStore = new ModelReindexStore()
+    await modelReindexStore.open(levelStore)
+
+    v1StreamIds = []
+    for (let i = 0; i < 4; i++) {
+      const state = makeStreamState(i % 2 === 0 ? MODEL_V1 : OTHER_MODEL)
+      const streamId = new StreamID(state.type, state.log[0].cid)
+      await stateStore.save(streamId, state)
+      if (i % 2 === 0) v1StreamIds.push(streamId.toString())
+    }
+    v1StreamIds.sort()
+
+    const fauxRepository = {
+      load: jest.fn(async (model: StreamID) => ({
+        state: { content: CONTENTS[model.toString()] },
+      })),
+      pinStore: { stateStore },
+      inmemory: { get: () => undefined },
+      modelReindexStore: modelReindexStore,
+      indexStreamIfNeeded: async (state$: RunningState) => {
+        await indexApi.indexStream({
+          model: state$.value.metadata.model,
+          streamID: state$.id,
+          controller: state$.value.metadata.controllers[0],
+          streamContent: state$.value.content,
+          tip: state$.tip,
+          lastAnchor: null,
+          firstAnchor: null,
+        })
+      },
+    } as unknown as Repository
+    const fauxLogger = { imp: jest.fn(), warn: jest.fn() } as unknown as DiagnosticsLogger
+    const indexedModels: Array<StreamID> = []
+    indexStreamFn = jest.fn(async () => {
+      // Nothing to do
+    })
+    const fauxBackend = {
+      indexModels: jest.fn(async (args: Array<{ model: StreamID }>) => {
+        for (const { model } of args) {
+          if (!indexedModels.some((indexed) => indexed.equals(model))) indexedModels.push(model)
+        }
+      }),
+      getIndexedModels: () => indexedModels,
+      indexStream: indexStreamFn,
+      clearModel: jest.fn(),
+      getModelsNoLongerIndexed: jest.fn(async () => []),
+      getIndexedFieldsFromDatabase: jest.fn(async () => ({})),
+      getHistoryModelsFromDatabase: jest.fn(async () => []),
+      getIndexFiltersFromDatabase: jest.fn(async () => ({})),
+    } as unknown as DatabaseIndexApi
+    const indexApi = new LocalIndexApi(undefined, fauxRepository, fauxLogger, Networks.INMEMORY)
+    ;(indexApi as any).databaseIndexApi = fauxBackend
+    ;(fauxRepository as any).index = indexApi
+
+    reindexer = new ModelReindexer(fauxRepository, logger)
+    const fauxSyncApi = { startModelSync: jest.fn() } as unknown as SyncApi
+    adminApi = new LocalAdminApi(
+      indexApi,
+      fauxSyncApi,
+      async () => ({} as NodeStatusResponse),
+      {} as PinApi,
+      reindexer
+    )
+  })
+
+  afterEach(async () => {
+    await reindexer.close()
+    await tmpFolder.cleanup()
+  })
+
+  async function waitForReindexing(): Promise<void> {
+    await TestUtils.waitForConditionOrTimeout(async () => {
+      const status = await reindexer.status()
+      return status.every((progress) => progress.completed)
+    }, 10000)
+  }
+
+  const indexedStreamIds = (model: StreamID) => {
+    return indexStreamFn.mock.calls
+      .filter(([args]) => args.model.equals(model))
+      .map(([args]) => args.streamID.toString())
+      .sort()
+  }
+
+  test('index the existing MIDs of superseded models in a newly indexed superseding model', async () => {
+    await adminApi.startIndexingModels([MODEL_V1])
+    await expect(reindexer.status()).resolves.toEqual([])
+    await adminApi.startIndexingModels([MODEL_V2])
+    await waitForReindexing()
+    expect(indexedStreamIds(MODEL_V2)).toEqual(v1StreamIds)
+    await expect(reindexer.status()).resolves.toEqual([
+      expect.objectContaining({ model: MODEL_V2.toString(), completed: true }),
+    ])
+  })
+
+  test('index the existing MIDs of implementing models in a newly indexed interface', async () => {
+    await adminApi.startIndexingModels([MODEL_V1])
+    await adminApi.startIndexingModels([INTERFACE])
+    await waitForReindexing()
+    expect(indexedStreamIds(INTERFACE)).toEqual(v1StreamIds)
+    expect(indexedStreamIds(OTHER_MODEL)).toEqual([])
+  })
+
+  test('do not reindex models already indexed', async () => {
+    await adminApi.startIndexingModels([MODEL_V1, MODEL_V2])
+    await waitForReindexing()
+    const reindexed = await reindexer.status()
+    await adminApi.startIndexingModels([MODEL_V2])
+    await expect(reindexer.status()).resolves.toEqual(reindexed)
+  })
+})
@@ -22,6 +22,7 @@ const repository = {
   fromMemoryOrStore: jest.fn(() => Promise.resolve(state$)),
   pin: jest.fn(),
   unpin: jest.fn(),
+  indexStreamIfNeeded: jest.fn(),
   list: jest.fn(),
   stateManager: { markPinnedAndSynced: jest.fn() },
 } as unknown as Repository
@@ -37,6 +38,7 @@ test('add', async () => {
   await pinApi.add(STREAM_ID)
   expect(repository.load).toBeCalledWith(STREAM_ID, { sync: SyncOptions.PREFER_CACHE })
   expect(repository.pin).toBeCalledWith(state$, undefined)
+  expect(repository.indexStreamIfNeeded).toBeCalledWith(state$)
   expect(repository.stateManager.markPinnedAndSynced).toBeCalledWith(state$.id)
 })
 
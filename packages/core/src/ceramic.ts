@@ -56,6 +56,8 @@ import { IndexingConfig } from './indexing/build-indexing.js'
 import { LevelDbStore } from './store/level-db-store.js'
 import { AnchorRequestStore } from './store/anchor-request-store.js'
 import { AnchorResumingService } from './state-management/anchor-resuming-service.js'
+import { ModelReindexer } from './indexing/model-reindexer.js'
+import { ModelReindexStore } from './store/model-reindex-store.js'
 import { SyncApi } from './sync/sync-api.js'
 import { ProvidersCache } from './providers-cache.js'
 import crypto from 'crypto'
@@ -216,6 +218,7 @@ export class Ceramic implements CeramicApi {
   public readonly admin: AdminApi
   readonly repository: Repository
   private readonly anchorResumingService: AnchorResumingService
+  private readonly modelReindexer: ModelReindexer
   private readonly providersCache: ProvidersCache
   private readonly syncApi: SyncApi
 
@@ -287,6 +290,7 @@ export class Ceramic implements CeramicApi {
       pinStore: pinStore,
       keyValueStore: this._levelStore,
       anchorRequestStore: new AnchorRequestStore(),
+      modelReindexStore: new ModelReindexStore(),
       context: this.context,
       handlers: this._streamHandlers,
       anchorService: modules.anchorService,
@@ -305,7 +309,14 @@ export class Ceramic implements CeramicApi {
     )
     const pinApi = this._buildPinApi()
     this.repository.index.setSyncQueryApi(this.syncApi)
-    this.admin = new LocalAdminApi(localIndex, this.syncApi, this.nodeStatus.bind(this), pinApi)
+    this.modelReindexer = new ModelReindexer(this.repository, this._logger)
+    this.admin = new LocalAdminApi(
+      localIndex,
+      this.syncApi,
+      this.nodeStatus.bind(this),
+      pinApi,
+      this.modelReindexer
+    )
   }
 
   get index(): LocalIndexApi {
@@ -625,6 +636,9 @@ export class Ceramic implements CeramicApi {
         .catch((error) => {
           this._logger.err(`Error while resuming anchors: ${error}`)
         })
+      this.modelReindexer.resume().catch((error) => {
+        this._logger.err(`Error while resuming models reindexing: ${error}`)
+      })
     } catch (err) {
       await this.close()
       throw err
@@ -1003,6 +1017,7 @@ export class Ceramic implements CeramicApi {
   async close(): Promise<void> {
     this._logger.imp('Closing Ceramic instance')
     await this.anchorResumingService.close()
+    await this.modelReindexer.close()
     this._shutdownSignal.abort()
     await this.syncApi.shutdown()
     await this.dispatcher.close()
@@ -0,0 +1,198 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import { IDatabaseIndexApi, IndexModelArgs, IndexStreamArgs } from '../database-index-api.js'
+import { InvalidQueryAggregationError } from '../invalid-query-aggregation.error.js'
+import { InvalidQueryFilterError } from '../invalid-query-filter.error.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import { jest } from '@jest/globals'
+import { LoggerProvider } from '@ceramicnetwork/common'
+import {
+  IndexBackend,
+  LINKED_DOCS,
+  SQL_BACKENDS,
+  describeIndexBackends,
+  populate,
+  readLinkedFixture,
+} from './index-backends.util.js'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const INDEX_MODEL_ARGS: IndexModelArgs = {
+  model: MODEL,
+  relations: { linkedDoc: { type: 'document', model: MODEL_ID } },
+  indexedFields: { score: 'integer', rating: 'number', published: 'boolean' },
+  fullTextFields: ['title'],
+}
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let indexApi: IDatabaseIndexApi
+let rows: Array<IndexStreamArgs>
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  const fixture = await readLinkedFixture()
+  rows = fixture.map((row, i) => ({
+    ...row,
+    streamContent: {
+      ...row.streamContent,
+      score: i,
+      rating: i / 4,
+      published: i % 2 === 0,
+      title: i % 5 === 0 ? 'ceramic notes' : 'notes',
+    },
+  }))
+  await populate(indexApi, [INDEX_MODEL_ARGS], rows)
+}
+
+const scores = (linkedDoc?: string) => {
+  return rows
+    .filter((row) => linkedDoc === undefined || row.streamContent.linkedDoc === linkedDoc)
+    .map((row) => row.streamContent.score as number)
+}
+
+const sum = (values: Array<number>) => values.reduce((acc, value) => acc + value, 0)
+
+function aggregationTests() {
+  test('aggregate all entries', async () => {
+    const all = scores()
+    const results = await indexApi.aggregate({
+      model: MODEL,
+      aggregations: {
+        total: { function: 'count' },
+        minScore: { function: 'min', field: 'score' },
+        maxRating: { function: 'max', field: 'rating' },
+        sumScore: { function: 'sum', field: 'score' },
+        avgScore: { function: 'avg', field: 'score' },
+      },
+    })
+    expect(results).toEqual([
+      {
+        group: {},
+        values: {
+          total: rows.length,
+          minScore: 0,
+          maxRating: (rows.length - 1) / 4,
+          sumScore: sum(all),
+          avgScore: sum(all) / all.length,
+        },
+      },
+    ])
+  })
+
+  test('group by relation', async () => {
+    const results = await indexApi.aggregate({
+      model: MODEL,
+      aggregations: { total: { function: 'count' }, maxScore: { function: 'max', field: 'score' } },
+      groupBy: ['linkedDoc'],
+    })
+    expect(results).toEqual(
+      LINKED_DOCS.map((linkedDoc) => ({
+        group: { linkedDoc },
+        values: {
+          total: scores(linkedDoc).length,
+          maxScore: Math.max(...scores(linkedDoc)),
+        },
+      }))
+    )
+  })
+
+  test('group by several fields', async () => {
+    const results = await indexApi.aggregate({
+      model: MODEL,
+      aggregations: { total: { function: 'count' } },
+      groupBy: ['published', 'linkedDoc'],
+    })
+    const expected = [false, true].flatMap((published) => {
+      return LINKED_DOCS.map((linkedDoc) => ({
+        group: { published, linkedDoc },
+        values: {
+          total: rows.filter((row) => {
+            return (
+              row.streamContent.published === published && row.streamContent.linkedDoc === linkedDoc
+            )
+          }).length,
+        },
+      }))
+    })
+    expect(results).toEqual(expected)
+  })
+
+  test('combine with account, filters and search', async () => {
+    const account = 'did:key:foo'
+    const query = {
+      model: MODEL,
+      account,
+      filter: { published: true },
+      aggregations: { total: { function: 'count' as const } },
+    }
+    const expected = rows.filter((row) => {
+      return row.controller === account && row.streamContent.published
+    })
+    await expect(indexApi.aggregate(query)).resolves.toEqual([
+      { group: {}, values: { total: expected.length } },
+    ])
+    const searched = expected.filter((row) => row.streamContent.title === 'ceramic notes')
+    await expect(indexApi.aggregate({ ...query, search: 'ceramic' })).resolves.toEqual([
+      { group: {}, values: { total: searched.length } },
+    ])
+  })
+
+  test('return null values when no entry matches', async () => {
+    const results = await indexApi.aggregate({
+      model: MODEL,
+      filter: { linkedDoc: 'unknown' },
+      aggregations: { total: { function: 'count' }, maxScore: { function: 'max', field: 'score' } },
+    })
+    expect(results).toEqual([{ group: {}, values: { total: 0, maxScore: null } }])
+  })
+
+  test('throw on invalid aggregation', async () => {
+    await expect(indexApi.aggregate({ model: MODEL, aggregations: {} })).rejects.toThrow(
+      InvalidQueryAggregationError
+    )
+    await expect(
+      indexApi.aggregate({ model: MODEL, aggregations: { foo: { function: 'median' as any } } })
+    ).rejects.toThrow(InvalidQueryAggregationError)
+    await expect(
+      indexApi.aggregate({ model: MODEL, aggregations: { foo: { function: 'max' } } })
+    ).rejects.toThrow(InvalidQueryAggregationError)
+    await expect(
+      indexApi.aggregate({
+        model: MODEL,
+        aggregations: { foo: { function: 'max', field: 'title' } },
+      })
+    ).rejects.toThrow(InvalidQueryAggregationError)
+    await expect(
+      indexApi.aggregate({
+        model: MODEL,
+        aggregations: { foo: { function: 'sum', field: 'linkedDoc' } },
+      })
+    ).rejects.toThrow(InvalidQueryAggregationError)
+    await expect(
+      indexApi.aggregate({
+        model: MODEL,
+        aggregations: { foo: { function: 'count' } },
+        groupBy: ['title'],
+      })
+    ).rejects.toThrow(InvalidQueryAggregationError)
+    await expect(
+      indexApi.aggregate({
+        model: MODEL,
+        filter: { title: 'notes' },
+        aggregations: { foo: { function: 'count' } },
+      })
+    ).rejects.toThrow(InvalidQueryFilterError)
+  })
+}
+
+describeIndexBackends(SQL_BACKENDS, { logger, prepare, tables: [MODEL_ID] }, () => {
+  aggregationTests()
+})
+
+describeIndexBackends([IndexBackend.LEVELDB], { logger, prepare }, () => {
+  test('throw as aggregations are not supported', async () => {
+    await expect(
+      indexApi.aggregate({ model: MODEL, aggregations: { total: { function: 'count' } } })
+    ).rejects.toThrow(UnsupportedIndexFeatureError)
+  })
+})
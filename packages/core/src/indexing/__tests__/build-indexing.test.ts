@@ -2,6 +2,7 @@ import { jest } from '@jest/globals'
 import tmp from 'tmp-promise'
 import { buildIndexing, UnsupportedDatabaseProtocolError } from '../build-indexing.js'
 import { PostgresIndexApi, SqliteIndexApi } from '../database-index-api.js'
+import { LevelIndexApi } from '../level-index-api.js'
 import { LoggerProvider, Networks } from '@ceramicnetwork/common'
 import pgTest from '@databases/pg-test'
 import pgSetup from '@databases/pg-test/jest/globalSetup'
@@ -53,6 +54,32 @@ describe('sqlite', () => {
   })
 })
 
+describe('leveldb', () => {
+  let databaseFolder: tmp.DirectoryResult
+
+  beforeEach(async () => {
+    databaseFolder = await tmp.dir({ unsafeCleanup: true })
+  })
+
+  afterEach(async () => {
+    await databaseFolder.cleanup()
+  })
+
+  test('build for leveldb connection string', () => {
+    const databaseUrl = new URL(`leveldb://${databaseFolder.path}/index`)
+    const indexingApi = buildIndexing(
+      {
+        db: databaseUrl.href,
+        allowQueriesBeforeHistoricalSync: true,
+        enableHistoricalSync: false,
+      },
+      diagnosticsLogger,
+      Networks.INMEMORY
+    )
+    expect(indexingApi).toBeInstanceOf(LevelIndexApi)
+  })
+})
+
 test('build for postgres connection string', async () => {
   const { databaseURL, kill } = await getDatabase()
   const indexingApi = buildIndexing(
@@ -6,6 +6,7 @@ import pgSetup from '@databases/pg-test/jest/globalSetup'
 import pgTeardown from '@databases/pg-test/jest/globalTeardown'
 import { asTableName } from '../as-table-name.util.js'
 import { IndexQueryNotAvailableError } from '../index-query-not-available.error.js'
+import { InvalidQueryFilterError } from '../invalid-query-filter.error.js'
 import { Model } from '@ceramicnetwork/stream-model'
 import { LoggerProvider, Networks } from '@ceramicnetwork/common'
 import { CID } from 'multiformats/cid'
@@ -15,11 +16,15 @@ import {
   PostgresIndexApi,
   SqliteIndexApi,
   asTimestamp,
+  type IDatabaseIndexApi,
 } from '../database-index-api.js'
-import { DatabaseType, indices } from '../migrations/1-create-model-table.js'
+import { LevelIndexApi } from '../level-index-api.js'
+import { LevelDbStore } from '../../store/level-db-store.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import { ColumnType, DatabaseType, indices } from '../migrations/1-create-model-table.js'
 import { STRUCTURES } from '../migrations/cdb-schema-verification.js'
 import { readCsvFixture } from './read-csv-fixture.util.js'
-import { CONFIG_TABLE_NAME } from '../config.js'
+import { CONFIG_TABLE_NAME, MIGRATIONS_TABLE_NAME } from '../config.js'
 import { ISyncQueryApi } from '../../sync/interfaces.js'
 
 const STREAM_ID_A = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
@@ -59,6 +64,138 @@ function modelsToIndexArgs(models: Array<StreamID>): Array<IndexModelArgs> {
   })
 }
 
+const RELATIONS = { linkedDoc: { type: 'document' as const, model: STREAM_ID_B } }
+const LINKED_DOCS = ['doc-a', 'doc-b', 'doc-c', 'doc-d']
+
+/**
+ * Index fixture rows, linking each one to a document from +LINKED_DOCS+ in a round-robin way.
+ */
+async function indexRelationFixture(indexApi: IDatabaseIndexApi) {
+  const rows = await readCsvFixture(new URL('./insertion-order.fixture.csv', import.meta.url))
+  const result = rows.map((row, i) => ({
+    ...row,
+    streamContent: { linkedDoc: LINKED_DOCS[i % LINKED_DOCS.length] },
+  }))
+  for (const row of result) {
+    await indexApi.indexStream(row)
+  }
+  return result
+}
+
+async function expectFilteredResults(
+  indexApi: IDatabaseIndexApi,
+  model: StreamID,
+  rows: Array<{ streamID: StreamID; streamContent: Record<string, any> }>
+) {
+  const countWhere = (predicate: (linkedDoc: string) => boolean) => {
+    return rows.filter((row) => predicate(row.streamContent.linkedDoc)).length
+  }
+  await expect(indexApi.count({ model, filter: { linkedDoc: 'doc-a' } })).resolves.toEqual(
+    countWhere((doc) => doc === 'doc-a')
+  )
+  await expect(indexApi.count({ model, filter: { linkedDoc: { gt: 'doc-b' } } })).resolves.toEqual(
+    countWhere((doc) => doc > 'doc-b')
+  )
+  await expect(
+    indexApi.count({ model, filter: { linkedDoc: { gte: 'doc-b', lt: 'doc-d' } } })
+  ).resolves.toEqual(countWhere((doc) => doc >= 'doc-b' && doc < 'doc-d'))
+  await expect(indexApi.count({ model, filter: { linkedDoc: { lte: 'doc-a' } } })).resolves.toEqual(
+    countWhere((doc) => doc <= 'doc-a')
+  )
+  await expect(
+    indexApi.count({ model, filter: { linkedDoc: { in: ['doc-a', 'doc-c', 'doc-x'] } } })
+  ).resolves.toEqual(countWhere((doc) => ['doc-a', 'doc-c'].includes(doc)))
+  await expect(
+    indexApi.count({ model, filter: { custom_linkedDoc: { notIn: ['doc-a', 'doc-c'] } } })
+  ).resolves.toEqual(countWhere((doc) => !['doc-a', 'doc-c'].includes(doc)))
+  await expect(indexApi.count({ model, filter: { linkedDoc: { not: 'doc-a' } } })).resolves.toEqual(
+    countWhere((doc) => doc !== 'doc-a')
+  )
+  await expect(
+    indexApi.count({ model, filter: { linkedDoc: { not: { in: ['doc-a', 'doc-b'] } } } })
+  ).resolves.toEqual(countWhere((doc) => !['doc-a', 'doc-b'].includes(doc)))
+  await expect(indexApi.count({ model, filter: { linkedDoc: { isNull: true } } })).resolves.toEqual(
+    0
+  )
+  await expect(
+    indexApi.count({ model, filter: { linkedDoc: { isNull: false } } })
+  ).resolves.toEqual(rows.length)
+  // Rows in insertion-order.fixture.csv are in insertion order
+  const page = await indexApi.page({
+    model,
+    filter: { linkedDoc: { in: ['doc-b', 'doc-d'] } },
+    first: rows.length,
+  })
+  expect(page.edges.map((e) => String(e.node))).toEqual(
+    rows
+      .filter((row) => ['doc-b', 'doc-d'].includes(row.streamContent.linkedDoc))
+      .map((row) => row.streamID.toString())
+  )
+  // Invalid filters
+  await expect(indexApi.count({ model, filter: { unknown: 'doc-a' } })).rejects.toThrow(
+    InvalidQueryFilterError
+  )
+  await expect(
+    indexApi.count({ model, filter: { linkedDoc: { like: 'doc' } } as any })
+  ).rejects.toThrow(InvalidQueryFilterError)
+  await expect(
+    indexApi.count({ model, filter: { linkedDoc: { in: 'doc-a' } } as any })
+  ).rejects.toThrow(InvalidQueryFilterError)
+}
+
+const INDEXED_FIELDS = { score: 'integer' as const, flagged: 'boolean' as const }
+
+/**
+ * Index fixture rows related to +LINKED_DOCS+, then start indexing scalar fields `score` and
+ * `flagged` of the already indexed model, and check that the fields are backfilled and queryable.
+ */
+async function expectIndexedFieldsBackfilled(
+  indexApi: PostgresIndexApi | SqliteIndexApi,
+  model: StreamID
+) {
+  await indexApi.indexModels([{ model, relations: RELATIONS }])
+  const fixture = await readCsvFixture(new URL('./insertion-order.fixture.csv', import.meta.url))
+  const rows = fixture.map((row, i) => ({
+    ...row,
+    streamContent: { linkedDoc: LINKED_DOCS[i % LINKED_DOCS.length], score: i, flagged: i < 3 },
+  }))
+  for (const row of rows) {
+    await indexApi.indexStream(row)
+  }
+  await expect(indexApi.count({ model, filter: { score: { gte: 5 } } })).rejects.toThrow(
+    InvalidQueryFilterError
+  )
+
+  const indexModelArgs = { model, relations: RELATIONS, indexedFields: INDEXED_FIELDS }
+  await indexApi.indexModels([indexModelArgs])
+  await expect(indexApi.tablesManager.verifyTables([indexModelArgs])).resolves.not.toThrow()
+  const config = await dbConnection(INDEXED_MODEL_CONFIG_TABLE_NAME)
+    .select('indexed_fields')
+    .where({ model: model.toString() })
+    .first()
+  expect(JSON.parse(config.indexed_fields)).toEqual(Object.keys(INDEXED_FIELDS))
+  await expect(indexApi.getIndexedFieldsFromDatabase()).resolves.toEqual({
+    [model.toString()]: Object.keys(INDEXED_FIELDS),
+  })
+
+  // Backfilled values
+  await expect(indexApi.count({ model, filter: { score: { gte: 5 } } })).resolves.toEqual(
+    rows.length - 5
+  )
+  await expect(indexApi.count({ model, filter: { flagged: true } })).resolves.toEqual(3)
+  // Values of streams indexed afterwards
+  await indexApi.indexStream({
+    ...rows[0],
+    streamContent: { linkedDoc: LINKED_DOCS[0], score: 100, flagged: false },
+  })
+  await expect(indexApi.count({ model, filter: { flagged: true } })).resolves.toEqual(2)
+  const page = await indexApi.page({ model, sorting: { score: 'DESC' }, first: 2 })
+  expect(page.edges.map((e) => String(e.node))).toEqual([
+    rows[0].streamID.toString(),
+    rows[rows.length - 1].streamID.toString(),
+  ])
+}
+
 class CompleteQueryApi implements ISyncQueryApi {
   syncComplete(model: string): boolean {
     return true
@@ -93,6 +230,7 @@ describe('postgres', () => {
   async function dropTables() {
     await dbConnection.schema.dropTableIfExists(CONFIG_TABLE_NAME)
     await dbConnection.schema.dropTableIfExists(INDEXED_MODEL_CONFIG_TABLE_NAME)
+    await dbConnection.schema.dropTableIfExists(MIGRATIONS_TABLE_NAME)
     await dbConnection.schema.dropTableIfExists(Model.MODEL.toString())
     await dbConnection.schema.dropTableIfExists(STREAM_ID_A)
     await dbConnection.schema.dropTableIfExists(STREAM_ID_B)
@@ -156,6 +294,32 @@ describe('postgres', () => {
         expect(JSON.stringify(columns)).toEqual(JSON.stringify(expectedTableStructure))
       })
 
+      test('create new table with indexed fields', async () => {
+        const indexModelsArgs: Array<IndexModelArgs> = [
+          {
+            model: StreamID.fromString(STREAM_ID_A),
+            relations: { fooRelation: { type: 'account' } },
+            indexedFields: { title: 'string', count: 'integer', rating: 'number', done: 'boolean' },
+          },
+        ]
+        const indexApi = new PostgresIndexApi(dbConnection, true, logger, Networks.INMEMORY)
+        indexApi.setSyncQueryApi(new CompleteQueryApi())
+        await indexApi.init()
+        await indexApi.indexModels(indexModelsArgs)
+        await expect(indexApi.tablesManager.verifyTables(indexModelsArgs)).resolves.not.toThrow()
+
+        // Also manually check table structure
+        const columns = await dbConnection.table(asTableName(indexModelsArgs[0].model)).columnInfo()
+        const expectedTableStructure = Object.assign({}, STRUCTURE.COMMON_TABLE, {
+          custom_fooRelation: STRUCTURE.RELATION_COLUMN,
+          custom_title: STRUCTURE.INDEXED_FIELD_COLUMNS[ColumnType.STRING],
+          custom_count: STRUCTURE.INDEXED_FIELD_COLUMNS[ColumnType.INTEGER],
+          custom_rating: STRUCTURE.INDEXED_FIELD_COLUMNS[ColumnType.FLOAT],
+          custom_done: STRUCTURE.INDEXED_FIELD_COLUMNS[ColumnType.BOOLEAN],
+        })
+        expect(JSON.stringify(columns)).toEqual(JSON.stringify(expectedTableStructure))
+      })
+
       test('table creation is idempotent', async () => {
         const modelsToIndex = [Model.MODEL, StreamID.fromString(STREAM_ID_A)]
         const indexApi = new PostgresIndexApi(dbConnection, true, logger, Networks.INMEMORY)
@@ -243,6 +407,8 @@ describe('postgres', () => {
           table.dateTime('first_anchored_at').nullable()
           table.dateTime('created_at').notNullable().defaultTo(dbConnection.fn.now())
           table.dateTime('updated_at').notNullable().defaultTo(dbConnection.fn.now())
+          table.boolean('is_deleted').notNullable().defaultTo(false)
+          table.string('last_writer', 1024).nullable()
 
           const tableIndices = indices(tableName)
           for (const indexToCreate of tableIndices.indices) {
@@ -686,7 +852,8 @@ describe('postgres', () => {
   })
 
   describe('page', () => {
-    const FAUX_DB_CONNECTION = {} as unknown as Knex
+    // Builds queries, without connecting to a database
+    const FAUX_DB_CONNECTION = knex({ client: 'pg' })
 
     test('call the order if historical sync is allowed', async () => {
       const indexApi = new PostgresIndexApi(FAUX_DB_CONNECTION, true, logger, Networks.INMEMORY)
@@ -734,6 +901,22 @@ describe('postgres', () => {
       const expected = rows.filter((r) => r.controller === account).length
       await expect(indexApi.count({ model: MODEL, account: account })).resolves.toEqual(expected)
     })
+
+    test('filter by relation', async () => {
+      const indexApi = new PostgresIndexApi(dbConnection, true, logger, Networks.INMEMORY)
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await indexApi.indexModels([{ model: MODEL, relations: RELATIONS }])
+      const rows = await indexRelationFixture(indexApi)
+      await expectFilteredResults(indexApi, MODEL, rows)
+    })
+
+    test('filter by indexed field', async () => {
+      const indexApi = new PostgresIndexApi(dbConnection, true, logger, Networks.INMEMORY)
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await expectIndexedFieldsBackfilled(indexApi, MODEL)
+    })
   })
 })
 
@@ -813,6 +996,32 @@ describe('sqlite', () => {
         expect(JSON.stringify(columns)).toEqual(JSON.stringify(expectedTableStructure))
       })
 
+      test('create new table with indexed fields', async () => {
+        const indexModelsArgs: Array<IndexModelArgs> = [
+          {
+            model: StreamID.fromString(STREAM_ID_A),
+            relations: { fooRelation: { type: 'account' } },
+            indexedFields: { title: 'string', count: 'integer', rating: 'number', done: 'boolean' },
+          },
+        ]
+        const indexApi = new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY)
+        indexApi.setSyncQueryApi(new CompleteQueryApi())
+        await indexApi.init()
+        await indexApi.indexModels(indexModelsArgs)
+        await expect(indexApi.tablesManager.verifyTables(indexModelsArgs)).resolves.not.toThrow()
+
+        // Also manually check table structure
+        const columns = await dbConnection.table(asTableName(indexModelsArgs[0].model)).columnInfo()
+        const expectedTableStructure = Object.assign({}, STRUCTURE.COMMON_TABLE, {
+          custom_fooRelation: STRUCTURE.RELATION_COLUMN,
+          custom_title: STRUCTURE.INDEXED_FIELD_COLUMNS[ColumnType.STRING],
+          custom_count: STRUCTURE.INDEXED_FIELD_COLUMNS[ColumnType.INTEGER],
+          custom_rating: STRUCTURE.INDEXED_FIELD_COLUMNS[ColumnType.FLOAT],
+          custom_done: STRUCTURE.INDEXED_FIELD_COLUMNS[ColumnType.BOOLEAN],
+        })
+        expect(JSON.stringify(columns)).toEqual(JSON.stringify(expectedTableStructure))
+      })
+
       test('table creation is idempotent', async () => {
         const modelsToIndex = [StreamID.fromString(STREAM_ID_A), Model.MODEL]
         const indexApi = new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY)
@@ -894,6 +1103,8 @@ describe('sqlite', () => {
           table.integer('first_anchored_at').nullable()
           table.integer('created_at').notNullable()
           table.integer('updated_at').notNullable()
+          table.boolean('is_deleted').notNullable().defaultTo(false)
+          table.string('last_writer', 1024).nullable()
 
           const tableIndices = indices(tableName)
           for (const indexToCreate of tableIndices.indices) {
@@ -1276,7 +1487,8 @@ describe('sqlite', () => {
   })
 
   describe('page', () => {
-    const FAUX_DB_CONNECTION = {} as unknown as Knex
+    // Builds queries, without connecting to a database
+    const FAUX_DB_CONNECTION = knex({ client: 'sqlite3', useNullAsDefault: true })
 
     test('call the order if historical sync is allowed', async () => {
       const indexApi = new SqliteIndexApi(FAUX_DB_CONNECTION, true, logger, Networks.INMEMORY)
@@ -1324,5 +1536,252 @@ describe('sqlite', () => {
       const expected = rows.filter((r) => r.controller === account).length
       await expect(indexApi.count({ model: MODEL, account: account })).resolves.toEqual(expected)
     })
+
+    test('filter by relation', async () => {
+      const indexApi = new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY)
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await indexApi.indexModels([{ model: MODEL, relations: RELATIONS }])
+      const rows = await indexRelationFixture(indexApi)
+      await expectFilteredResults(indexApi, MODEL, rows)
+    })
+
+    test('filter by indexed field', async () => {
+      const indexApi = new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY)
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await expectIndexedFieldsBackfilled(indexApi, MODEL)
+    })
+  })
+})
+
+describe('leveldb', () => {
+  let levelStore: LevelDbStore
+
+  function makeIndexApi(
+    network: Networks = Networks.INMEMORY,
+    allowQueriesBeforeHistoricalSync = true
+  ) {
+    return new LevelIndexApi(levelStore, allowQueriesBeforeHistoricalSync, logger, network)
+  }
+
+  beforeEach(async () => {
+    tmpFolder = await tmp.dir({ unsafeCleanup: true })
+    levelStore = new LevelDbStore(tmpFolder.path, Networks.INMEMORY)
+  })
+
+  afterEach(async () => {
+    await tmpFolder.cleanup()
+  })
+
+  describe('init', () => {
+    test('checks or persists the network used for indexing', async () => {
+      const indexApiA = makeIndexApi()
+      indexApiA.setSyncQueryApi(new CompleteQueryApi())
+      await indexApiA.init()
+
+      // Throws if initialized with a different network
+      const indexApiB = makeIndexApi(Networks.MAINNET)
+      indexApiB.setSyncQueryApi(new CompleteQueryApi())
+      await expect(indexApiB.init()).rejects.toThrow(
+        'Initialization failed for LevelDB index. The database is configured to use the network inmemory but the current network is mainnet.'
+      )
+
+      // Does not throw if initialized with the stored network
+      const indexApiC = makeIndexApi()
+      indexApiC.setSyncQueryApi(new CompleteQueryApi())
+      await expect(indexApiC.init()).resolves.toBeUndefined()
+    })
+  })
+
+  describe('indexModels', () => {
+    test('re-indexing models', async () => {
+      const modelsToIndex = [StreamID.fromString(STREAM_ID_A), Model.MODEL]
+      const indexApi = makeIndexApi()
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+
+      await indexApi.indexModels(modelsToIndexArgs(modelsToIndex))
+      await indexApi.stopIndexingModels([StreamID.fromString(STREAM_ID_A)])
+      await expect(indexApi.getModelsNoLongerIndexed()).resolves.toEqual([
+        StreamID.fromString(STREAM_ID_A),
+      ])
+
+      await indexApi.indexModels(modelsToIndexArgs([StreamID.fromString(STREAM_ID_A)]))
+      await expect(indexApi.getModelsNoLongerIndexed()).resolves.toEqual([])
+    })
+
+    test('modelsToIndex is properly populated after init()', async () => {
+      const modelsToIndex = [StreamID.fromString(STREAM_ID_A), Model.MODEL]
+      const indexApi = makeIndexApi()
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await indexApi.indexModels(modelsToIndexArgs(modelsToIndex))
+
+      const anotherIndexApi = makeIndexApi()
+      anotherIndexApi.setSyncQueryApi(new CompleteQueryApi())
+      await anotherIndexApi.init()
+
+      expect(
+        anotherIndexApi
+          .getIndexedModels()
+          .map((streamID) => streamID.toString())
+          .sort()
+      ).toEqual([
+        'kh4q0ozorrgaq2mezktnrmdwleo1d',
+        'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd',
+      ])
+    })
+
+    test('modelsToIndex not allowed if sync in progress', async () => {
+      const modelsToIndex = [StreamID.fromString(STREAM_ID_A), Model.MODEL]
+      const indexApi = makeIndexApi(Networks.INMEMORY, false)
+      indexApi.setSyncQueryApi(new IncompleteQueryApi())
+      await indexApi.init()
+      expect(indexApi.getIndexedModels()).toEqual([])
+      await expect(indexApi.indexModels(modelsToIndexArgs(modelsToIndex))).rejects.toThrow(
+        /historical data for that model is still syncing/
+      )
+    })
+
+    test('modelsToIndex is properly updated after stopIndexingModels()', async () => {
+      const modelsToIndex = [StreamID.fromString(STREAM_ID_A), Model.MODEL]
+      const indexApi = makeIndexApi()
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await indexApi.indexModels(modelsToIndexArgs(modelsToIndex))
+      await indexApi.stopIndexingModels([StreamID.fromString(STREAM_ID_A)])
+      expect(indexApi.getIndexedModels().map((streamID) => streamID.toString())).toEqual([
+        'kh4q0ozorrgaq2mezktnrmdwleo1d',
+      ])
+    })
+
+    test('throw on recording document history', async () => {
+      const indexApi = makeIndexApi()
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await expect(
+        indexApi.indexModels([{ model: StreamID.fromString(STREAM_ID_A), recordHistory: true }])
+      ).rejects.toThrow(UnsupportedIndexFeatureError)
+    })
+  })
+
+  describe('indexStream', () => {
+    const MODELS_TO_INDEX = [STREAM_ID_A, STREAM_ID_B].map(StreamID.fromString)
+    const STREAM_CONTENT = {
+      model: MODELS_TO_INDEX[0],
+      streamID: StreamID.fromString(STREAM_ID_B),
+      controller: CONTROLLER,
+      streamContent: STREAM_TEST_DATA_PROFILE_A,
+      tip: FAKE_CID_A,
+      lastAnchor: null,
+      firstAnchor: null,
+    }
+
+    let indexApi: LevelIndexApi
+    beforeEach(async () => {
+      indexApi = makeIndexApi()
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await indexApi.indexModels(modelsToIndexArgs(MODELS_TO_INDEX))
+    })
+
+    test('new stream', async () => {
+      await indexApi.indexStream(STREAM_CONTENT)
+      await expect(indexApi.indexedEntries(MODELS_TO_INDEX[0], 10)).resolves.toEqual([
+        { streamId: STREAM_ID_B, tip: FAKE_CID_A.toString(), content: STREAM_TEST_DATA_PROFILE_A },
+      ])
+      await expect(
+        indexApi.count({ model: MODELS_TO_INDEX[0], account: CONTROLLER })
+      ).resolves.toEqual(1)
+    })
+
+    test('override stream', async () => {
+      const createTime = new Date()
+      await indexApi.indexStream({ ...STREAM_CONTENT, createdAt: createTime })
+      const updateTime = new Date(createTime.valueOf() + 5000)
+      const updatedStreamContent = {
+        ...STREAM_CONTENT,
+        streamContent: {
+          ...STREAM_CONTENT.streamContent,
+          name: STREAM_CONTENT.streamContent.name.concat(' Fauci'),
+        },
+        tip: FAKE_CID_B,
+        updatedAt: updateTime,
+        lastAnchor: updateTime,
+        firstAnchor: updateTime,
+      }
+      // It updates the fields if a stream is present.
+      await indexApi.indexStream(updatedStreamContent)
+      await expect(indexApi.indexedEntries(MODELS_TO_INDEX[0], 10)).resolves.toEqual([
+        {
+          streamId: STREAM_ID_B,
+          tip: FAKE_CID_B.toString(),
+          content: updatedStreamContent.streamContent,
+        },
+      ])
+      // Creation time is kept
+      const model = MODELS_TO_INDEX[0]
+      const createdUntil = { until: new Date(createTime.valueOf() + 1000) }
+      await expect(
+        indexApi.count({ model, timeRanges: { created_at: createdUntil } })
+      ).resolves.toEqual(1)
+      const anchoredSince = { since: updateTime }
+      await expect(
+        indexApi.count({ model, timeRanges: { last_anchored_at: anchoredSince } })
+      ).resolves.toEqual(1)
+    })
+  })
+
+  describe('page', () => {
+    test('throw if historical sync is not allowed', async () => {
+      const indexApi = makeIndexApi(Networks.INMEMORY, false)
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+      await indexApi.indexModels(modelsToIndexArgs([StreamID.fromString(STREAM_ID_A)]))
+      indexApi.setSyncQueryApi(new IncompleteQueryApi())
+      await expect(indexApi.page({ model: STREAM_ID_A, first: 100 })).rejects.toThrow(
+        IndexQueryNotAvailableError
+      )
+    })
+  })
+
+  describe('count', () => {
+    const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+    const MODEL = StreamID.fromString(MODEL_ID)
+
+    let indexApi: LevelIndexApi
+    beforeEach(async () => {
+      indexApi = makeIndexApi()
+      indexApi.setSyncQueryApi(new CompleteQueryApi())
+      await indexApi.init()
+    })
+
+    test('all', async () => {
+      await indexApi.indexModels([{ model: MODEL }])
+      const rows = await readCsvFixture(new URL('./insertion-order.fixture.csv', import.meta.url))
+      for (const row of rows) {
+        await indexApi.indexStream(row)
+      }
+      // all
+      await expect(indexApi.count({ model: MODEL })).resolves.toEqual(rows.length)
+      // by account
+      const account = 'did:key:blah'
+      const expected = rows.filter((r) => r.controller === account).length
+      await expect(indexApi.count({ model: MODEL, account: account })).resolves.toEqual(expected)
+    })
+
+    test('filter by relation', async () => {
+      await indexApi.indexModels([{ model: MODEL, relations: RELATIONS }])
+      const rows = await indexRelationFixture(indexApi)
+      await expectFilteredResults(indexApi, MODEL, rows)
+    })
+
+    test('throw on full-text search', async () => {
+      await indexApi.indexModels([{ model: MODEL, fullTextFields: ['name'] }])
+      await expect(indexApi.count({ model: MODEL, search: 'Joeline' })).rejects.toThrow(
+        UnsupportedIndexFeatureError
+      )
+    })
   })
 })
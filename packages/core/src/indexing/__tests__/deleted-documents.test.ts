@@ -0,0 +1,142 @@
+import knex, { Knex } from 'knex'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { jest } from '@jest/globals'
+import pgSetup from '@databases/pg-test/jest/globalSetup'
+import pgTeardown from '@databases/pg-test/jest/globalTeardown'
+import tmp from 'tmp-promise'
+import { LoggerProvider, Networks, TestUtils } from '@ceramicnetwork/common'
+import {
+  IDatabaseIndexApi,
+  IndexStreamArgs,
+  PostgresIndexApi,
+  SqliteIndexApi,
+} from '../database-index-api.js'
+import { LevelIndexApi } from '../level-index-api.js'
+import { LevelDbStore } from '../../store/level-db-store.js'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let dbConnection: Knex
+let indexApi: IDatabaseIndexApi
+let live: IndexStreamArgs
+let deleted: IndexStreamArgs
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+const makeArgs = (linkedDoc: string): IndexStreamArgs => {
+  return {
+    model: MODEL,
+    streamID: new StreamID(3, TestUtils.randomCID()),
+    controller: 'did:key:foo',
+    streamContent: { linkedDoc: linkedDoc, score: 1 },
+    tip: TestUtils.randomCID(),
+    lastAnchor: null,
+    firstAnchor: null,
+  }
+}
+
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  indexApi.setSyncQueryApi({ syncComplete: () => true })
+  await indexApi.init()
+  await indexApi.indexModels([
+    {
+      model: MODEL,
+      relations: { linkedDoc: { type: 'document', model: MODEL_ID } },
+      indexedFields: { score: 'integer' },
+    },
+  ])
+  live = makeArgs('doc-a')
+  deleted = makeArgs('doc-a')
+  await indexApi.indexStream(live)
+  await indexApi.indexStream(deleted)
+  await indexApi.indexStream({ ...deleted, tip: TestUtils.randomCID(), deleted: true })
+}
+
+const streamIds = async (includeDeleted?: boolean) => {
+  const page = await indexApi.page({ model: MODEL, includeDeleted, first: 10 })
+  return page.edges.map((edge) => edge.node.toString())
+}
+
+function deletedDocumentsTests() {
+  test('exclude deleted documents by default', async () => {
+    await expect(streamIds()).resolves.toEqual([live.streamID.toString()])
+    await expect(indexApi.count({ model: MODEL })).resolves.toEqual(1)
+    const filter = { score: 1 }
+    await expect(indexApi.count({ model: MODEL, filter })).resolves.toEqual(1)
+    const relating = await indexApi.relatingDocuments(MODEL, 'linkedDoc', ['doc-a'], 10)
+    expect(relating.get('doc-a')).toEqual([live.streamID.toString()])
+  })
+
+  test('include deleted documents on request', async () => {
+    const included = await streamIds(true)
+    expect(included.sort()).toEqual([live, deleted].map((args) => args.streamID.toString()).sort())
+    await expect(indexApi.count({ model: MODEL, includeDeleted: true })).resolves.toEqual(2)
+  })
+}
+
+describe('postgres', () => {
+  beforeAll(async () => {
+    await pgSetup()
+  })
+
+  beforeEach(async () => {
+    dbConnection = knex({
+      client: 'pg',
+      connection: process.env.DATABASE_URL,
+    })
+    await prepare(new PostgresIndexApi(dbConnection, true, logger, Networks.INMEMORY))
+  })
+
+  afterEach(async () => {
+    await dbConnection.schema.dropTableIfExists(MODEL_ID)
+    await dbConnection.destroy()
+  })
+
+  afterAll(async () => {
+    await pgTeardown()
+  })
+
+  deletedDocumentsTests()
+})
+
+describe('sqlite', () => {
+  let tmpFolder: tmp.DirectoryResult
+
+  beforeEach(async () => {
+    tmpFolder = await tmp.dir({ unsafeCleanup: true })
+    dbConnection = knex({
+      client: 'sqlite3',
+      useNullAsDefault: true,
+      connection: {
+        filename: `${tmpFolder.path}/tmp-ceramic.sqlite`,
+      },
+    })
+    await prepare(new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY))
+  })
+
+  afterEach(async () => {
+    await dbConnection.destroy()
+    await tmpFolder.cleanup()
+  })
+
+  deletedDocumentsTests()
+})
+
+describe('leveldb', () => {
+  let tmpFolder: tmp.DirectoryResult
+
+  beforeEach(async () => {
+    tmpFolder = await tmp.dir({ unsafeCleanup: true })
+    const store = new LevelDbStore(tmpFolder.path, Networks.INMEMORY)
+    await prepare(new LevelIndexApi(store, true, logger, Networks.INMEMORY))
+  })
+
+  afterEach(async () => {
+    await indexApi.close()
+    await tmpFolder.cleanup()
+  })
+
+  deletedDocumentsTests()
+})
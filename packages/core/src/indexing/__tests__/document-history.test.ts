@@ -0,0 +1,188 @@
+import { CommitID, StreamID } from '@ceramicnetwork/streamid'
+import {
+  IDatabaseIndexApi,
+  INDEXED_MODEL_CONFIG_TABLE_NAME,
+  IndexStreamArgs,
+} from '../database-index-api.js'
+import { HISTORY_TABLE_NAME } from '../document-history.js'
+import { CONFIG_TABLE_NAME, MIGRATIONS_TABLE_NAME } from '../config.js'
+import { chunks } from '../../__tests__/chunks.util.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import { jest } from '@jest/globals'
+import {
+  IndexBackend,
+  SQL_BACKENDS,
+  describeIndexBackends,
+  populate,
+} from './index-backends.util.js'
+import { LoggerProvider, TestUtils } from '@ceramicnetwork/common'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const NO_HISTORY_MODEL_ID = 'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
+const NO_HISTORY_MODEL = StreamID.fromString(NO_HISTORY_MODEL_ID)
+const STREAMS_COUNT = 3
+const VERSIONS_COUNT = 4
+const PAGE_SIZE = 5
+const START = new Date('2023-01-01T00:00:00Z').valueOf()
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let indexApi: IDatabaseIndexApi
+let versions: Array<IndexStreamArgs & { updatedAt: Date }>
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+/**
+ * Index +VERSIONS_COUNT+ versions of +STREAMS_COUNT+ streams, one version per minute. The second
+ * version of each stream is anchored.
+ */
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  await populate(indexApi, [{ model: MODEL, recordHistory: true }, { model: NO_HISTORY_MODEL }])
+  const streamIds = Array.from({ length: STREAMS_COUNT }, () => {
+    return new StreamID(3, TestUtils.randomCID())
+  })
+  versions = []
+  for (let version = 0; version < VERSIONS_COUNT; version++) {
+    streamIds.forEach((streamId, i) => {
+      versions.push({
+        model: MODEL,
+        streamID: streamId,
+        controller: i === 0 ? 'did:key:foo' : 'did:key:bar',
+        streamContent: { version },
+        tip: TestUtils.randomCID(),
+        lastAnchor: version >= 1 ? new Date(START + 60000) : null,
+        firstAnchor: version >= 1 ? new Date(START + 60000) : null,
+        updatedAt: new Date(START + versions.length * 60000),
+      })
+    })
+  }
+  for (const version of versions) {
+    await indexApi.indexStream(version)
+    await indexApi.indexStream({ ...version, model: NO_HISTORY_MODEL })
+  }
+}
+
+const commitIds = (expected: Array<IndexStreamArgs>) => {
+  return expected.map((version) => CommitID.make(version.streamID, version.tip).toString())
+}
+
+function historyTests() {
+  test('record every indexed version', async () => {
+    const page = await indexApi.history({ model: MODEL, first: versions.length })
+    expect(page.edges.map((edge) => edge.node.commitId.toString())).toEqual(commitIds(versions))
+    expect(page.edges[0].node).toEqual({
+      streamId: versions[0].streamID,
+      commitId: CommitID.make(versions[0].streamID, versions[0].tip),
+      controller: 'did:key:foo',
+      content: { version: 0 },
+      anchoredAt: null,
+      indexedAt: versions[0].updatedAt,
+    })
+    expect(page.edges[STREAMS_COUNT].node.anchoredAt).toEqual(new Date(START + 60000))
+  })
+
+  test('record a version once', async () => {
+    await indexApi.indexStream(versions[0])
+    const page = await indexApi.history({ model: MODEL, first: versions.length + 1 })
+    expect(page.edges.length).toEqual(versions.length)
+  })
+
+  test('forward and backward pagination', async () => {
+    const expected = chunks(commitIds(versions), PAGE_SIZE)
+    let after: string | undefined = undefined
+    for (let i = 0; i < expected.length; i++) {
+      const page = await indexApi.history({ model: MODEL, first: PAGE_SIZE, after })
+      after = page.pageInfo.endCursor
+      expect(page.edges.map((edge) => edge.node.commitId.toString())).toEqual(expected[i])
+      expect(page.pageInfo.hasNextPage).toEqual(Boolean(expected[i + 1]))
+    }
+    const expectedBackward = chunks(commitIds(versions).reverse(), PAGE_SIZE).map((chunk) => {
+      return chunk.reverse()
+    })
+    let before: string | undefined = undefined
+    for (let i = 0; i < expectedBackward.length; i++) {
+      const page = await indexApi.history({ model: MODEL, last: PAGE_SIZE, before })
+      before = page.pageInfo.startCursor
+      expect(page.edges.map((edge) => edge.node.commitId.toString())).toEqual(expectedBackward[i])
+      expect(page.pageInfo.hasPreviousPage).toEqual(Boolean(expectedBackward[i + 1]))
+    }
+  })
+
+  test('filter by time range, document and account', async () => {
+    const since = versions[2].updatedAt
+    const until = versions[7].updatedAt
+    const inRange = versions.slice(2, 7)
+    await expect(
+      indexApi.history({ model: MODEL, since, until, first: versions.length })
+    ).resolves.toMatchObject({
+      edges: commitIds(inRange).map((commitId) => ({
+        node: { commitId: CommitID.fromString(commitId) },
+      })),
+    })
+
+    const streamId = versions[1].streamID
+    const ofStream = await indexApi.history({ model: MODEL, streamId, first: versions.length })
+    expect(ofStream.edges.map((edge) => edge.node.commitId.toString())).toEqual(
+      commitIds(versions.filter((version) => version.streamID.equals(streamId)))
+    )
+
+    const ofAccount = await indexApi.history({
+      model: MODEL,
+      account: 'did:key:foo',
+      first: versions.length,
+    })
+    expect(ofAccount.edges.map((edge) => edge.node.commitId.toString())).toEqual(
+      commitIds(versions.filter((version) => version.controller === 'did:key:foo'))
+    )
+  })
+
+  test('persist models with history', async () => {
+    await expect(indexApi.getHistoryModelsFromDatabase()).resolves.toEqual([MODEL_ID])
+  })
+
+  test('throw if history is not recorded for the model', async () => {
+    await expect(indexApi.history({ model: NO_HISTORY_MODEL, first: 10 })).rejects.toThrow(
+      /History of Model .* is not recorded/
+    )
+  })
+
+  test('stop recording history once the model is indexed without it', async () => {
+    await indexApi.indexModels([{ model: MODEL }])
+    await expect(indexApi.getHistoryModelsFromDatabase()).resolves.toEqual([])
+    await expect(indexApi.history({ model: MODEL, first: 10 })).rejects.toThrow(
+      /History of Model .* is not recorded/
+    )
+  })
+}
+
+describeIndexBackends(
+  SQL_BACKENDS,
+  {
+    logger,
+    prepare,
+    tables: [
+      CONFIG_TABLE_NAME,
+      INDEXED_MODEL_CONFIG_TABLE_NAME,
+      MIGRATIONS_TABLE_NAME,
+      HISTORY_TABLE_NAME,
+      MODEL_ID,
+      NO_HISTORY_MODEL_ID,
+    ],
+  },
+  () => {
+    historyTests()
+  }
+)
+
+describeIndexBackends([IndexBackend.LEVELDB], { logger }, (context) => {
+  test('throw as document history is not supported', async () => {
+    const api = context.makeIndexApi()
+    await populate(api, [{ model: NO_HISTORY_MODEL }])
+    await expect(api.indexModels([{ model: MODEL, recordHistory: true }])).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+    await expect(api.history({ model: NO_HISTORY_MODEL, first: PAGE_SIZE })).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+  })
+})
@@ -0,0 +1,223 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import {
+  DatabaseIndexApi,
+  IDatabaseIndexApi,
+  IndexModelArgs,
+  IndexStreamArgs,
+} from '../database-index-api.js'
+import { chunks } from '../../__tests__/chunks.util.js'
+import { InvalidCursorError } from '../sorting-order.js'
+import { InvalidQuerySearchError } from '../invalid-query-search.error.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import { jest } from '@jest/globals'
+import {
+  IndexBackend,
+  SQL_BACKENDS,
+  describeIndexBackends,
+  populate,
+  readLinkedFixture,
+} from './index-backends.util.js'
+import { LoggerProvider } from '@ceramicnetwork/common'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const UNSEARCHABLE_MODEL_ID = 'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
+const INDEX_MODEL_ARGS: IndexModelArgs = {
+  model: MODEL,
+  relations: { linkedDoc: { type: 'document', model: MODEL_ID } },
+  fullTextFields: ['title', 'body'],
+}
+const PAGE_SIZE = 4
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let indexApi: IDatabaseIndexApi
+let rows: Array<IndexStreamArgs>
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+/**
+ * Number of times the title of a fixture row mentions "ceramic".
+ */
+const mentions = (i: number) => i % 4
+
+/**
+ * Index fixture rows. Rows with the same number of mentions of "ceramic" have documents of the
+ * same length, so they are equally relevant.
+ */
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  const fixture = await readLinkedFixture()
+  rows = fixture.map((row, i) => ({
+    ...row,
+    streamContent: {
+      ...row.streamContent,
+      title: `${'ceramic '.repeat(mentions(i))}notes`,
+      body: i % 2 === 0 ? 'hello world' : 'hello there',
+    },
+  }))
+  await populate(
+    indexApi,
+    [INDEX_MODEL_ARGS, { model: StreamID.fromString(UNSEARCHABLE_MODEL_ID) }],
+    rows
+  )
+}
+
+/**
+ * StreamIDs of rows mentioning "ceramic", most relevant first, then ordered by StreamID.
+ */
+function expectedOrder(): Array<string> {
+  return rows
+    .map((row, i) => ({ streamId: row.streamID.toString(), mentions: mentions(i) }))
+    .filter((entry) => entry.mentions > 0)
+    .sort((a, b) => {
+      if (a.mentions !== b.mentions) return b.mentions - a.mentions
+      return a.streamId < b.streamId ? -1 : 1
+    })
+    .map((entry) => entry.streamId)
+}
+
+function searchTests() {
+  test('verify tables', async () => {
+    const tablesManager = (indexApi as DatabaseIndexApi).tablesManager
+    await expect(tablesManager.verifyTables([INDEX_MODEL_ARGS])).resolves.not.toThrow()
+  })
+
+  test('forward pagination by relevance', async () => {
+    const expected = chunks(expectedOrder(), PAGE_SIZE)
+    let afterCursor: string | undefined = undefined
+    for (let i = 0; i < expected.length; i++) {
+      const result = await indexApi.page({
+        model: MODEL,
+        search: 'ceramic',
+        first: PAGE_SIZE,
+        after: afterCursor,
+      })
+      afterCursor = result.pageInfo.endCursor
+      expect(result.edges.map((e) => String(e.node))).toEqual(expected[i])
+      expect(result.pageInfo.hasNextPage).toEqual(Boolean(expected[i + 1]))
+      expect(result.pageInfo.hasPreviousPage).toEqual(false)
+    }
+  })
+
+  test('backward pagination by relevance', async () => {
+    const expected = chunks(expectedOrder().reverse(), PAGE_SIZE).map((arr) => arr.reverse())
+    let beforeCursor: string | undefined = undefined
+    for (let i = 0; i < expected.length; i++) {
+      const result = await indexApi.page({
+        model: MODEL,
+        search: 'ceramic',
+        last: PAGE_SIZE,
+        before: beforeCursor,
+      })
+      beforeCursor = result.pageInfo.startCursor
+      expect(result.edges.map((e) => String(e.node))).toEqual(expected[i])
+      expect(result.pageInfo.hasNextPage).toEqual(false)
+      expect(result.pageInfo.hasPreviousPage).toEqual(Boolean(expected[i + 1]))
+    }
+  })
+
+  test('match all search terms', async () => {
+    const expected = rows.filter((_, i) => mentions(i) > 0 && i % 2 === 0).length
+    await expect(indexApi.count({ model: MODEL, search: 'ceramic  world' })).resolves.toEqual(
+      expected
+    )
+    await expect(indexApi.count({ model: MODEL, search: 'hello' })).resolves.toEqual(rows.length)
+    await expect(indexApi.count({ model: MODEL, search: 'unknown' })).resolves.toEqual(0)
+    // Operators of the underlying search engines are not interpreted
+    await expect(indexApi.count({ model: MODEL, search: 'hello -world' })).resolves.toEqual(
+      rows.filter((_, i) => i % 2 === 0).length
+    )
+    await expect(indexApi.count({ model: MODEL, search: '"ceramic' })).resolves.toEqual(
+      expectedOrder().length
+    )
+  })
+
+  test('combine with account and filters', async () => {
+    const account = 'did:key:foo'
+    const expected = rows.filter((row, i) => {
+      return (
+        mentions(i) > 0 && row.controller === account && row.streamContent.linkedDoc === 'doc-a'
+      )
+    })
+    const query = { model: MODEL, search: 'ceramic', account, filter: { linkedDoc: 'doc-a' } }
+    await expect(indexApi.count(query)).resolves.toEqual(expected.length)
+    const result = await indexApi.page({ ...query, first: rows.length })
+    expect(result.edges.map((e) => String(e.node)).sort()).toEqual(
+      expected.map((row) => row.streamID.toString()).sort()
+    )
+  })
+
+  test('reflect updated content', async () => {
+    const row = rows[1]
+    await indexApi.indexStream({ ...row, streamContent: { ...row.streamContent, title: 'notes' } })
+    const result = await indexApi.page({ model: MODEL, search: 'ceramic', first: rows.length })
+    const expected = expectedOrder().filter((streamId) => streamId !== row.streamID.toString())
+    expect(result.edges.map((e) => String(e.node))).toEqual(expected)
+  })
+
+  test('throw on invalid search', async () => {
+    await expect(indexApi.count({ model: MODEL, search: '  ' })).rejects.toThrow(
+      InvalidQuerySearchError
+    )
+    await expect(
+      indexApi.page({ model: UNSEARCHABLE_MODEL_ID, search: 'ceramic', first: PAGE_SIZE })
+    ).rejects.toThrow(InvalidQuerySearchError)
+    await expect(
+      indexApi.page({
+        model: MODEL,
+        search: 'ceramic',
+        sorting: { linkedDoc: 'ASC' },
+        first: PAGE_SIZE,
+      })
+    ).rejects.toThrow(InvalidQuerySearchError)
+  })
+
+  test('throw on sorting of search results instead of ignoring it', async () => {
+    await expect(
+      indexApi.page({
+        model: MODEL,
+        search: 'ceramic',
+        sorting: { created_at: 'DESC' },
+        first: PAGE_SIZE,
+      })
+    ).rejects.toThrow(/results are ordered by relevance, sorting is not supported/)
+    const unsorted = await indexApi.page({ model: MODEL, search: 'ceramic', first: rows.length })
+    const emptySorting = await indexApi.page({
+      model: MODEL,
+      search: 'ceramic',
+      sorting: {},
+      first: rows.length,
+    })
+    expect(emptySorting.edges).toEqual(unsorted.edges)
+  })
+
+  test('throw on cursor from another ordering', async () => {
+    const page = await indexApi.page({ model: MODEL, first: PAGE_SIZE })
+    await expect(
+      indexApi.page({
+        model: MODEL,
+        search: 'ceramic',
+        first: PAGE_SIZE,
+        after: page.pageInfo.endCursor,
+      })
+    ).rejects.toThrow(InvalidCursorError)
+  })
+}
+
+describeIndexBackends(
+  SQL_BACKENDS,
+  { logger, prepare, tables: [MODEL_ID, UNSEARCHABLE_MODEL_ID] },
+  () => {
+    searchTests()
+  }
+)
+
+describeIndexBackends([IndexBackend.LEVELDB], { logger, prepare }, () => {
+  test('throw as full-text search is not supported', async () => {
+    await expect(indexApi.count({ model: MODEL, search: 'ceramic' })).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+    await expect(
+      indexApi.page({ model: MODEL, search: 'ceramic', first: PAGE_SIZE })
+    ).rejects.toThrow(UnsupportedIndexFeatureError)
+  })
+})
@@ -0,0 +1,166 @@
+import knex, { Knex } from 'knex'
+import tmp from 'tmp-promise'
+import pgSetup from '@databases/pg-test/jest/globalSetup'
+import pgTeardown from '@databases/pg-test/jest/globalTeardown'
+import { DiagnosticsLogger, Networks } from '@ceramicnetwork/common'
+import {
+  IndexModelArgs,
+  IndexStreamArgs,
+  PostgresIndexApi,
+  SqliteIndexApi,
+  type IDatabaseIndexApi,
+} from '../database-index-api.js'
+import { LevelIndexApi } from '../level-index-api.js'
+import { LevelDbStore } from '../../store/level-db-store.js'
+import type { QueryLogOptions } from '../query-log.js'
+import { readCsvFixture } from './read-csv-fixture.util.js'
+
+/**
+ * Documents the rows of the insertion order fixture are linked to, by their `linkedDoc` relation.
+ */
+export const LINKED_DOCS = ['doc-a', 'doc-b', 'doc-c']
+
+/**
+ * Rows of insertion-order.fixture.csv, linking each one to a document from +linkedDocs+ in a
+ * round-robin way.
+ */
+export async function readLinkedFixture(linkedDocs: Array<string> = LINKED_DOCS) {
+  const fixture = await readCsvFixture(new URL('./insertion-order.fixture.csv', import.meta.url))
+  return fixture.map((row, i) => ({
+    ...row,
+    streamContent: { linkedDoc: linkedDocs[i % linkedDocs.length] } as Record<string, any>,
+  }))
+}
+
+/**
+ * Initialize +indexApi+, start indexing +models+, then index +rows+.
+ */
+export async function populate(
+  indexApi: IDatabaseIndexApi,
+  models: Array<IndexModelArgs>,
+  rows: Array<IndexStreamArgs> = []
+): Promise<void> {
+  indexApi.setSyncQueryApi({ syncComplete: () => true })
+  await indexApi.init()
+  await indexApi.indexModels(models)
+  for (const row of rows) {
+    await indexApi.indexStream(row)
+  }
+}
+
+/**
+ * Databases the index test suites run against.
+ */
+export enum IndexBackend {
+  POSTGRES = 'postgres',
+  SQLITE = 'sqlite',
+  LEVELDB = 'leveldb',
+}
+
+export const SQL_BACKENDS = [IndexBackend.POSTGRES, IndexBackend.SQLITE]
+
+export const ALL_BACKENDS = [...SQL_BACKENDS, IndexBackend.LEVELDB]
+
+/**
+ * Database of the current test, given to the tests of `describeIndexBackends`.
+ */
+export type IndexBackendContext = {
+  readonly backend: IndexBackend
+  /**
+   * Connection to the SQL database, undefined on LevelDB.
+   */
+  readonly dbConnection: Knex
+  makeIndexApi(options?: QueryLogOptions): IDatabaseIndexApi
+}
+
+export type IndexBackendSetup = {
+  logger: DiagnosticsLogger
+  /**
+   * Called before each test with an index API on a fresh database.
+   */
+  prepare?: (indexApi: IDatabaseIndexApi) => Promise<void>
+  /**
+   * Tables to drop after each test, as the tests on Postgres share a database.
+   */
+  tables?: Array<string>
+  /**
+   * Called after each test, before the database is closed.
+   */
+  cleanup?: () => void | Promise<void>
+}
+
+/**
+ * Declare a `describe` block named after each of +backends+, running +tests+ against a database
+ * of that backend. The database is set up before each test as +setup+ describes.
+ */
+export function describeIndexBackends(
+  backends: Array<IndexBackend>,
+  setup: IndexBackendSetup,
+  tests: (context: IndexBackendContext) => void
+): void {
+  for (const backend of backends) {
+    describe(backend, () => {
+      let dbConnection: Knex | undefined
+      let levelStore: LevelDbStore | undefined
+      let tmpFolder: tmp.DirectoryResult | undefined
+      const context: IndexBackendContext = {
+        backend,
+        get dbConnection() {
+          return dbConnection
+        },
+        makeIndexApi(options?: QueryLogOptions) {
+          if (backend === IndexBackend.LEVELDB) {
+            return new LevelIndexApi(levelStore, true, setup.logger, Networks.INMEMORY)
+          }
+          const IndexApi = backend === IndexBackend.POSTGRES ? PostgresIndexApi : SqliteIndexApi
+          return new IndexApi(dbConnection, true, setup.logger, Networks.INMEMORY, options)
+        },
+      }
+
+      if (backend === IndexBackend.POSTGRES) {
+        beforeAll(async () => {
+          await pgSetup()
+        })
+
+        afterAll(async () => {
+          await pgTeardown()
+        })
+      }
+
+      beforeEach(async () => {
+        if (backend === IndexBackend.POSTGRES) {
+          dbConnection = knex({
+            client: 'pg',
+            connection: process.env.DATABASE_URL,
+          })
+        } else if (backend === IndexBackend.LEVELDB) {
+          tmpFolder = await tmp.dir({ unsafeCleanup: true })
+          levelStore = new LevelDbStore(tmpFolder.path, Networks.INMEMORY)
+        } else {
+          tmpFolder = await tmp.dir({ unsafeCleanup: true })
+          dbConnection = knex({
+            client: 'sqlite3',
+            useNullAsDefault: true,
+            connection: {
+              filename: `${tmpFolder.path}/tmp-ceramic.sqlite`,
+            },
+          })
+        }
+        await setup.prepare?.(context.makeIndexApi())
+      })
+
+      afterEach(async () => {
+        await setup.cleanup?.()
+        if (backend === IndexBackend.POSTGRES) {
+          for (const tableName of setup.tables ?? []) {
+            await dbConnection.schema.dropTableIfExists(tableName)
+          }
+        }
+        await dbConnection?.destroy()
+        await tmpFolder?.cleanup()
+      })
+
+      tests(context)
+    })
+  }
+}
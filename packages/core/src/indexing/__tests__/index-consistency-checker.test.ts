@@ -0,0 +1,161 @@
+import { jest } from '@jest/globals'
+import tmp from 'tmp-promise'
+import {
+  AnchorStatus,
+  CommitType,
+  LoggerProvider,
+  SignatureStatus,
+  StreamState,
+  TestUtils,
+} from '@ceramicnetwork/common'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { IDatabaseIndexApi } from '../database-index-api.js'
+import { IndexConsistencyChecker } from '../index-consistency-checker.js'
+import { LevelDbStore } from '../../store/level-db-store.js'
+import { StreamStateStore } from '../../store/stream-state-store.js'
+import type { Repository } from '../../state-management/repository.js'
+import type { RunningState } from '../../state-management/running-state.js'
+import { ALL_BACKENDS, describeIndexBackends, populate } from './index-backends.util.js'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const OTHER_MODEL = StreamID.fromString(
+  'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
+)
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+const makeStreamState = function (model: StreamID, content: Record<string, any>): StreamState {
+  return {
+    type: 3,
+    content: content,
+    metadata: {
+      controllers: ['did:key:foo'],
+      model: model,
+    },
+    signature: SignatureStatus.GENESIS,
+    anchorStatus: AnchorStatus.NOT_REQUESTED,
+    log: [{ type: CommitType.GENESIS, cid: TestUtils.randomCID() }],
+  }
+}
+
+let indexApi: IDatabaseIndexApi
+let tmpFolder: tmp.DirectoryResult
+let stateStore: StreamStateStore
+let indexStreamIfNeeded: jest.Mock<(state$: RunningState) => Promise<void>>
+let fauxRepository: Repository
+let checker: IndexConsistencyChecker
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+/**
+ * Store +state+, and index it with +overrides+ unless +overrides+ is null.
+ */
+async function addStream(
+  state: StreamState,
+  overrides: { content?: Record<string, any>; stored?: boolean } | null = {}
+): Promise<string> {
+  const streamId = new StreamID(state.type, state.log[0].cid)
+  if (overrides?.stored !== false) {
+    await stateStore.save(streamId, state)
+  }
+  if (overrides !== null) {
+    await indexApi.indexStream({
+      model: MODEL,
+      streamID: streamId,
+      controller: state.metadata.controllers[0],
+      streamContent: overrides.content ?? state.content,
+      tip: state.log[state.log.length - 1].cid,
+      lastAnchor: null,
+      firstAnchor: null,
+    })
+  }
+  return streamId.toString()
+}
+
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  await populate(indexApi, [{ model: MODEL }])
+
+  tmpFolder = await tmp.dir({ unsafeCleanup: true })
+  const levelStore = new LevelDbStore(tmpFolder.path, 'fakeNetwork')
+  stateStore = new StreamStateStore(logger)
+  await stateStore.open(levelStore)
+
+  indexStreamIfNeeded = jest.fn(async () => {
+    // Nothing to do
+  })
+  fauxRepository = {
+    pinStore: { stateStore },
+    inmemory: { get: () => undefined },
+    streamState: (streamId: StreamID) => stateStore.load(streamId),
+    indexStreamIfNeeded: indexStreamIfNeeded,
+  } as unknown as Repository
+  checker = new IndexConsistencyChecker(indexApi, fauxRepository, logger)
+}
+
+function checkerTests() {
+  let consistent: Array<string>
+  let stale: Array<string>
+  let missing: Array<string>
+  let orphaned: Array<string>
+
+  beforeEach(async () => {
+    consistent = []
+    for (let i = 0; i < 3; i++) {
+      consistent.push(await addStream(makeStreamState(MODEL, { title: `hello ${i}` })))
+    }
+    const staleState = makeStreamState(MODEL, { title: 'new' })
+    const advancedState = makeStreamState(MODEL, { title: 'advanced' })
+    stale = [
+      await addStream(staleState, { content: { title: 'old' } }),
+      await addStream(advancedState),
+    ]
+    // Tip advanced without the stream being indexed again
+    advancedState.log.push({ type: CommitType.SIGNED, cid: TestUtils.randomCID() })
+    await stateStore.save(StreamID.fromString(stale[1]), advancedState)
+    missing = [await addStream(makeStreamState(MODEL, { title: 'missing' }), null)]
+    orphaned = [
+      await addStream(makeStreamState(MODEL, { title: 'orphan' }), { stored: false }),
+      await addStream(makeStreamState(OTHER_MODEL, { title: 'other' })),
+    ]
+  })
+
+  const sorted = (streamIds: Array<string>) => [...streamIds].sort()
+
+  test('report missing, stale and orphaned entries', async () => {
+    const report = await checker.check(MODEL)
+    expect(report.model).toEqual(MODEL.toString())
+    expect(report.checkedEntries).toEqual(consistent.length + stale.length + orphaned.length)
+    expect(report.missing).toEqual(missing)
+    expect(sorted(report.stale)).toEqual(sorted(stale))
+    expect(sorted(report.orphaned)).toEqual(sorted(orphaned))
+    expect(report.repaired).toBe(false)
+    expect(indexStreamIfNeeded).not.toBeCalled()
+    await expect(indexApi.count({ model: MODEL })).resolves.toEqual(report.checkedEntries)
+  })
+
+  test('entries of models superseded by the model are not orphaned', async () => {
+    const collectionModels = (model: StreamID) => [model, OTHER_MODEL]
+    checker = new IndexConsistencyChecker(indexApi, fauxRepository, logger, collectionModels)
+    const report = await checker.check(MODEL)
+    expect(report.orphaned).toEqual([orphaned[0]])
+  })
+
+  test('repair by indexing streams again and removing orphaned entries', async () => {
+    const report = await checker.check(MODEL, true)
+    expect(report.repaired).toBe(true)
+    const indexed = indexStreamIfNeeded.mock.calls.map(([state$]) => state$.id.toString())
+    expect(sorted(indexed)).toEqual(sorted([...missing, ...stale]))
+    const page = await indexApi.page({ model: MODEL, first: 100 })
+    expect(sorted(page.edges.map((e) => e.node.toString()))).toEqual(
+      sorted([...consistent, ...stale])
+    )
+  })
+}
+
+describeIndexBackends(
+  ALL_BACKENDS,
+  { logger, prepare, tables: [MODEL_ID], cleanup: () => tmpFolder.cleanup() },
+  () => {
+    checkerTests()
+  }
+)
@@ -0,0 +1,164 @@
+import knex, { Knex } from 'knex'
+import { StreamID } from '@ceramicnetwork/streamid'
+import {
+  IDatabaseIndexApi,
+  IndexModelArgs,
+  IndexStreamArgs,
+  PostgresIndexApi,
+  SqliteIndexApi,
+} from '../database-index-api.js'
+import { assertValidIndexFilter, matchesIndexFilter } from '../index-filter.js'
+import { InvalidIndexFilterError } from '../invalid-index-filter.error.js'
+import { LevelIndexApi } from '../level-index-api.js'
+import { LevelDbStore } from '../../store/level-db-store.js'
+import { jest } from '@jest/globals'
+import pgSetup from '@databases/pg-test/jest/globalSetup'
+import pgTeardown from '@databases/pg-test/jest/globalTeardown'
+import { LoggerProvider, Networks, TestUtils } from '@ceramicnetwork/common'
+import tmp from 'tmp-promise'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const FILTER = { controllers: ['did:key:foo', 'did:key:bar'], content: { appID: 'app' } }
+const INDEX_MODEL_ARGS: IndexModelArgs = { model: MODEL, filter: FILTER }
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let dbConnection: Knex
+let indexApi: IDatabaseIndexApi
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+describe('matchesIndexFilter', () => {
+  test('match every condition', () => {
+    expect(matchesIndexFilter(FILTER, 'did:key:foo', { appID: 'app', title: 'a' })).toBe(true)
+    expect(matchesIndexFilter(FILTER, 'did:key:baz', { appID: 'app' })).toBe(false)
+    expect(matchesIndexFilter(FILTER, 'did:key:bar', { appID: 'other' })).toBe(false)
+    expect(matchesIndexFilter(FILTER, 'did:key:bar', {})).toBe(false)
+    expect(matchesIndexFilter({}, 'did:key:baz', {})).toBe(true)
+  })
+
+  test('throw on invalid filter', () => {
+    expect(() => assertValidIndexFilter(MODEL_ID, FILTER)).not.toThrow()
+    expect(() => assertValidIndexFilter(MODEL_ID, null)).toThrow(InvalidIndexFilterError)
+    expect(() => assertValidIndexFilter(MODEL_ID, { controllers: 'did:key:foo' })).toThrow(
+      InvalidIndexFilterError
+    )
+    expect(() => assertValidIndexFilter(MODEL_ID, { content: { appID: null } })).toThrow(
+      InvalidIndexFilterError
+    )
+    expect(() => assertValidIndexFilter(MODEL_ID, { account: 'did:key:foo' })).toThrow(
+      /unsupported condition account/
+    )
+  })
+})
+
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  indexApi.setSyncQueryApi({ syncComplete: () => true })
+  await indexApi.init()
+  await indexApi.indexModels([INDEX_MODEL_ARGS])
+}
+
+const makeArgs = (controller: string, content: Record<string, any>): IndexStreamArgs => {
+  return {
+    model: MODEL,
+    streamID: new StreamID(3, TestUtils.randomCID()),
+    controller: controller,
+    streamContent: content,
+    tip: TestUtils.randomCID(),
+    lastAnchor: null,
+    firstAnchor: null,
+  }
+}
+
+const indexedStreamIds = async () => {
+  const page = await indexApi.page({ model: MODEL, first: 100 })
+  return page.edges.map((edge) => edge.node.toString())
+}
+
+function filterTests() {
+  test('persist filter', async () => {
+    await expect(indexApi.getIndexFiltersFromDatabase()).resolves.toEqual({ [MODEL_ID]: FILTER })
+    await indexApi.indexModels([{ model: MODEL }])
+    await expect(indexApi.getIndexFiltersFromDatabase()).resolves.toEqual({})
+  })
+
+  test('only index streams matching the filter', async () => {
+    const matching = makeArgs('did:key:foo', { appID: 'app' })
+    await indexApi.indexStream(matching)
+    await indexApi.indexStream(makeArgs('did:key:baz', { appID: 'app' }))
+    await indexApi.indexStream(makeArgs('did:key:bar', { appID: 'other' }))
+    await expect(indexedStreamIds()).resolves.toEqual([matching.streamID.toString()])
+  })
+
+  test('remove streams no longer matching the filter', async () => {
+    const args = makeArgs('did:key:foo', { appID: 'app' })
+    await indexApi.indexStream(args)
+    await indexApi.indexStream({ ...args, streamContent: { appID: 'other' } })
+    await expect(indexedStreamIds()).resolves.toEqual([])
+  })
+}
+
+describe('postgres', () => {
+  beforeAll(async () => {
+    await pgSetup()
+  })
+
+  beforeEach(async () => {
+    dbConnection = knex({
+      client: 'pg',
+      connection: process.env.DATABASE_URL,
+    })
+    await prepare(new PostgresIndexApi(dbConnection, true, logger, Networks.INMEMORY))
+  })
+
+  afterEach(async () => {
+    await dbConnection.schema.dropTableIfExists(MODEL_ID)
+    await dbConnection.destroy()
+  })
+
+  afterAll(async () => {
+    await pgTeardown()
+  })
+
+  filterTests()
+})
+
+describe('sqlite', () => {
+  let tmpFolder: tmp.DirectoryResult
+
+  beforeEach(async () => {
+    tmpFolder = await tmp.dir({ unsafeCleanup: true })
+    dbConnection = knex({
+      client: 'sqlite3',
+      useNullAsDefault: true,
+      connection: {
+        filename: `${tmpFolder.path}/tmp-ceramic.sqlite`,
+      },
+    })
+    await prepare(new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY))
+  })
+
+  afterEach(async () => {
+    await dbConnection.destroy()
+    await tmpFolder.cleanup()
+  })
+
+  filterTests()
+})
+
+describe('leveldb', () => {
+  let tmpFolder: tmp.DirectoryResult
+
+  beforeEach(async () => {
+    tmpFolder = await tmp.dir({ unsafeCleanup: true })
+    const store = new LevelDbStore(tmpFolder.path, Networks.INMEMORY)
+    await prepare(new LevelIndexApi(store, true, logger, Networks.INMEMORY))
+  })
+
+  afterEach(async () => {
+    await indexApi.close()
+    await tmpFolder.cleanup()
+  })
+
+  filterTests()
+})
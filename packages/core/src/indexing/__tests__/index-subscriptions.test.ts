@@ -0,0 +1,136 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import { IDatabaseIndexApi, IndexModelArgs, IndexStreamArgs } from '../database-index-api.js'
+import { InvalidQueryFilterError } from '../invalid-query-filter.error.js'
+import { InvalidQuerySearchError } from '../invalid-query-search.error.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import { Cursor } from '../cursor.js'
+import { jest } from '@jest/globals'
+import {
+  IndexBackend,
+  LINKED_DOCS,
+  SQL_BACKENDS,
+  describeIndexBackends,
+  populate,
+  readLinkedFixture,
+} from './index-backends.util.js'
+import { BaseQuery, IndexChange, LoggerProvider } from '@ceramicnetwork/common'
+import { firstValueFrom, Subscription } from 'rxjs'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const INDEX_MODEL_ARGS: IndexModelArgs = {
+  model: MODEL,
+  relations: { linkedDoc: { type: 'document', model: MODEL_ID } },
+  fullTextFields: ['title'],
+}
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let indexApi: IDatabaseIndexApi
+let rows: Array<IndexStreamArgs>
+let subscription: Subscription | undefined
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  await populate(indexApi, [INDEX_MODEL_ARGS])
+  const fixture = await readLinkedFixture(LINKED_DOCS.slice(0, 1))
+  rows = fixture.map((row) => ({
+    ...row,
+    streamContent: { ...row.streamContent, title: 'hello' },
+  }))
+}
+
+/**
+ * Subscribe to +query+ and collect the emitted changes.
+ */
+async function collect(query: BaseQuery): Promise<Array<IndexChange<StreamID>>> {
+  const changes: Array<IndexChange<StreamID>> = []
+  subscription = indexApi.subscribe(query).subscribe((change) => changes.push(change))
+  // Let the subscription be registered after the query is validated
+  await new Promise((resolve) => setTimeout(resolve, 100))
+  return changes
+}
+
+const summary = (changes: Array<IndexChange<StreamID>>) => {
+  return changes.map((change) => [change.type, change.edge.node.toString()])
+}
+
+function subscriptionTests() {
+  test('emit added, updated and removed entries', async () => {
+    const changes = await collect({ model: MODEL, filter: { linkedDoc: 'doc-a' } })
+    const [row] = rows
+    await indexApi.indexStream(row)
+    await indexApi.indexStream({ ...row, streamContent: { ...row.streamContent, title: 'bye' } })
+    await indexApi.indexStream({ ...row, streamContent: { linkedDoc: 'doc-b' } })
+    await indexApi.indexStream({ ...row, streamContent: { linkedDoc: 'doc-c' } })
+    const streamId = row.streamID.toString()
+    expect(summary(changes)).toEqual([
+      ['added', streamId],
+      ['updated', streamId],
+      ['removed', streamId],
+    ])
+    const page = await indexApi.page({ model: MODEL, first: 1 })
+    expect(Cursor.parse(changes[0].edge.cursor)).toEqual(Cursor.parse(page.edges[0].cursor))
+  })
+
+  test('only emit entries of the account', async () => {
+    const account = 'did:key:foo'
+    const changes = await collect({ model: MODEL, account })
+    for (const row of rows) {
+      await indexApi.indexStream(row)
+    }
+    const expected = rows
+      .filter((row) => row.controller === account)
+      .map((row) => ['added', row.streamID.toString()])
+    expect(expected.length).toBeGreaterThan(0)
+    expect(summary(changes)).toEqual(expected)
+  })
+
+  test('only emit entries within time ranges', async () => {
+    const [first, second] = rows
+    // Second fixture row is created at 9830 seconds
+    const created = { since: new Date(9830 * 1000) }
+    const changes = await collect({ model: MODEL, timeRanges: { created_at: created } })
+    await indexApi.indexStream(first)
+    await indexApi.indexStream(second)
+    expect(summary(changes)).toEqual([['added', second.streamID.toString()]])
+  })
+
+  test('stop emitting after unsubscribe', async () => {
+    const changes = await collect({ model: MODEL })
+    await indexApi.indexStream(rows[0])
+    subscription.unsubscribe()
+    await indexApi.indexStream(rows[1])
+    expect(summary(changes)).toEqual([['added', rows[0].streamID.toString()]])
+  })
+
+  test('throw on invalid query', async () => {
+    await expect(
+      firstValueFrom(indexApi.subscribe({ model: MODEL, filter: { unknown: 'foo' } }))
+    ).rejects.toThrow(InvalidQueryFilterError)
+    await expect(
+      firstValueFrom(indexApi.subscribe({ model: MODEL, search: 'hello' }))
+    ).rejects.toThrow(InvalidQuerySearchError)
+  })
+}
+
+describeIndexBackends(
+  SQL_BACKENDS,
+  {
+    logger,
+    prepare,
+    tables: [MODEL_ID],
+    cleanup: () => subscription?.unsubscribe(),
+  },
+  () => {
+    subscriptionTests()
+  }
+)
+
+describeIndexBackends([IndexBackend.LEVELDB], { logger, prepare }, () => {
+  test('throw as subscriptions are not supported', async () => {
+    await expect(firstValueFrom(indexApi.subscribe({ model: MODEL }))).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+  })
+})
@@ -0,0 +1,275 @@
+import knex, { Knex } from 'knex'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { jest } from '@jest/globals'
+import tmp from 'tmp-promise'
+import { firstValueFrom } from 'rxjs'
+import {
+  IndexModelArgs,
+  IndexStreamArgs,
+  SqliteIndexApi,
+  type IDatabaseIndexApi,
+} from '../database-index-api.js'
+import { LevelIndexApi } from '../level-index-api.js'
+import { LevelDbStore } from '../../store/level-db-store.js'
+import { readCsvFixture } from './read-csv-fixture.util.js'
+import { InvalidQueryFilterError } from '../invalid-query-filter.error.js'
+import { InvalidQuerySortingError } from '../invalid-query-sorting.error.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import { LoggerProvider, Networks, PaginationQuery } from '@ceramicnetwork/common'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const OTHER_MODEL = StreamID.fromString(
+  'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
+)
+const INDEX_MODEL_ARGS: IndexModelArgs = {
+  model: MODEL,
+  relations: { linkedDoc: { type: 'document', model: MODEL_ID } },
+  indexedFields: { score: 'integer', title: 'string' },
+}
+const LINKED_DOCS = ['doc-a', 'doc-b', 'doc-c']
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let tmpFolder: tmp.DirectoryResult
+let levelStore: LevelDbStore
+let indexApi: LevelIndexApi
+let rows: Array<IndexStreamArgs>
+jest.setTimeout(30000)
+
+function makeLevelIndexApi(network: Networks = Networks.INMEMORY): LevelIndexApi {
+  const api = new LevelIndexApi(levelStore, true, logger, network)
+  api.setSyncQueryApi({ syncComplete: () => true })
+  return api
+}
+
+async function populate(api: IDatabaseIndexApi) {
+  await api.init()
+  await api.indexModels([INDEX_MODEL_ARGS])
+  for (const row of rows) {
+    await api.indexStream(row)
+  }
+}
+
+beforeEach(async () => {
+  tmpFolder = await tmp.dir({ unsafeCleanup: true })
+  levelStore = new LevelDbStore(tmpFolder.path, Networks.INMEMORY)
+  indexApi = makeLevelIndexApi()
+  const fixture = await readCsvFixture(new URL('./insertion-order.fixture.csv', import.meta.url))
+  rows = fixture.map((row, i) => ({
+    ...row,
+    streamContent: {
+      linkedDoc: LINKED_DOCS[i % LINKED_DOCS.length],
+      score: i % 4 === 0 ? null : i % 5,
+      title: `title ${i % 7}`,
+    },
+  }))
+  await populate(indexApi)
+})
+
+afterEach(async () => {
+  await indexApi.close()
+  await tmpFolder.cleanup()
+})
+
+describe('init', () => {
+  test('checks or persists the network used for indexing', async () => {
+    await expect(makeLevelIndexApi(Networks.TESTNET_CLAY).init()).rejects.toThrow(
+      /configured to use the network inmemory/
+    )
+    await expect(makeLevelIndexApi().init()).resolves.toBeUndefined()
+  })
+
+  test('load indexed models', async () => {
+    await indexApi.indexModels([{ model: OTHER_MODEL, indexedFields: { score: 'integer' } }])
+    await indexApi.stopIndexingModels([MODEL])
+    const restarted = makeLevelIndexApi()
+    await restarted.init()
+    expect(restarted.getIndexedModels().map(String)).toEqual([OTHER_MODEL.toString()])
+    await expect(restarted.getModelsNoLongerIndexed()).resolves.toEqual([MODEL])
+    await expect(restarted.getIndexedFieldsFromDatabase()).resolves.toEqual({
+      [MODEL_ID]: ['score', 'title'],
+      [OTHER_MODEL.toString()]: ['score'],
+    })
+    await expect(restarted.count({ model: MODEL })).rejects.toThrow(/is not indexed/)
+  })
+})
+
+describe('indexStream', () => {
+  test('keep creation time when updating a stream', async () => {
+    const [row] = rows
+    await indexApi.indexStream({ ...row, createdAt: new Date(), streamContent: { score: 10 } })
+    const entries = await indexApi.indexedEntries(MODEL, rows.length)
+    const entry = entries.find((e) => e.streamId === row.streamID.toString())
+    expect(entry.content).toEqual({ score: 10 })
+    const page = await indexApi.page({ model: MODEL, first: 1 })
+    expect(String(page.edges[0].node)).toEqual(row.streamID.toString())
+  })
+
+  test('list and remove entries by StreamID', async () => {
+    const streamIds = rows.map((row) => row.streamID.toString()).sort()
+    const first = await indexApi.indexedEntries(MODEL, 5)
+    const next = await indexApi.indexedEntries(MODEL, 100, first[first.length - 1].streamId)
+    expect([...first, ...next].map((entry) => entry.streamId)).toEqual(streamIds)
+    await indexApi.removeStreams(MODEL, streamIds.slice(0, 3))
+    const indexed = await indexApi.indexedStreamIds(MODEL, streamIds.slice(0, 5))
+    expect([...indexed]).toEqual(streamIds.slice(3, 5))
+    await expect(indexApi.count({ model: MODEL })).resolves.toEqual(rows.length - 3)
+  })
+})
+
+describe('secondary keys', () => {
+  const secondaryKeys = async () => {
+    const keys = await levelStore.findKeys({ useCaseName: 'index' })
+    return keys.filter((key) => key.startsWith('order/') || key.startsWith('controller/'))
+  }
+
+  test('only load the entries a page in insertion order goes through', async () => {
+    const get = jest.spyOn(levelStore, 'get')
+    const page = await indexApi.page({ model: MODEL, account: 'did:key:foo', last: 2 })
+    expect(page.edges).toHaveLength(2)
+    // One more entry tells if there is a previous page
+    expect(get).toHaveBeenCalledTimes(3)
+  })
+
+  test('follow updates and removals of entries', async () => {
+    await expect(secondaryKeys()).resolves.toHaveLength(rows.length * 2)
+    const [row] = rows
+    await indexApi.indexStream({ ...row, controller: 'did:key:other' })
+    await expect(secondaryKeys()).resolves.toHaveLength(rows.length * 2)
+    const page = await indexApi.page({ model: MODEL, account: 'did:key:other', first: 5 })
+    expect(page.edges.map((edge) => String(edge.node))).toEqual([row.streamID.toString()])
+    await indexApi.removeStreams(MODEL, [row.streamID.toString()])
+    await expect(secondaryKeys()).resolves.toHaveLength((rows.length - 1) * 2)
+    await indexApi.clearModel(MODEL)
+    await expect(secondaryKeys()).resolves.toEqual([])
+  })
+})
+
+describe('relations', () => {
+  test('related and relating documents', async () => {
+    const [first, second] = rows
+    const related = await indexApi.relatedDocuments(MODEL, 'linkedDoc', [
+      first.streamID.toString(),
+      second.streamID.toString(),
+    ])
+    expect(Object.fromEntries(related)).toEqual({
+      [first.streamID.toString()]: 'doc-a',
+      [second.streamID.toString()]: 'doc-b',
+    })
+    const relating = await indexApi.relatingDocuments(MODEL, 'linkedDoc', ['doc-b', 'doc-d'], 2)
+    expect(Object.fromEntries(relating)).toEqual({
+      'doc-b': [rows[1].streamID.toString(), rows[4].streamID.toString()],
+    })
+  })
+})
+
+describe('same results as SQLite', () => {
+  let dbConnection: Knex
+  let sqliteIndexApi: SqliteIndexApi
+
+  beforeEach(async () => {
+    dbConnection = knex({
+      client: 'sqlite3',
+      useNullAsDefault: true,
+      connection: {
+        filename: `${tmpFolder.path}/tmp-ceramic.sqlite`,
+      },
+    })
+    sqliteIndexApi = new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY)
+    sqliteIndexApi.setSyncQueryApi({ syncComplete: () => true })
+    await populate(sqliteIndexApi)
+  })
+
+  afterEach(async () => {
+    await dbConnection.destroy()
+  })
+
+  const QUERIES: Array<Omit<PaginationQuery, 'model'>> = [
+    {},
+    { account: 'did:key:foo' },
+    { account: 'did:key:absent' },
+    { filter: { linkedDoc: 'doc-a' } },
+    { filter: { score: { gte: 2 }, title: { in: ['title 1', 'title 2', 'title 3'] } } },
+    { filter: { score: { isNull: true } } },
+    { filter: { score: { not: { lt: 3 } } } },
+    { filter: { linkedDoc: { notIn: ['doc-a'] } }, account: 'did:key:bar' },
+    { timeRanges: { created_at: { since: new Date(9850 * 1000), until: new Date(9990 * 1000) } } },
+    { timeRanges: { last_anchored_at: { since: new Date(9950 * 1000) } } },
+    { sorting: { score: 'DESC' } },
+    { sorting: { title: 'ASC', score: 'DESC' }, filter: { linkedDoc: 'doc-b' } },
+    { sorting: { last_anchored_at: 'ASC' } },
+  ]
+
+  test('count', async () => {
+    for (const query of QUERIES) {
+      const countQuery = { ...query, sorting: undefined }
+      const expected = await sqliteIndexApi.count({ model: MODEL, ...countQuery })
+      await expect(indexApi.count({ model: MODEL, ...countQuery })).resolves.toEqual(expected)
+    }
+  })
+
+  test('forward and backward pagination', async () => {
+    for (const query of QUERIES) {
+      for (const pagination of ['first', 'last']) {
+        const cursor = pagination === 'first' ? 'after' : 'before'
+        const next = pagination === 'first' ? 'endCursor' : 'startCursor'
+        let sqlitePage = await sqliteIndexApi.page({ model: MODEL, ...query, [pagination]: 4 })
+        let levelPage = await indexApi.page({ model: MODEL, ...query, [pagination]: 4 })
+        expect(levelPage).toEqual(sqlitePage)
+        while (sqlitePage.pageInfo.hasNextPage || sqlitePage.pageInfo.hasPreviousPage) {
+          const page = { [pagination]: 4, [cursor]: sqlitePage.pageInfo[next] }
+          sqlitePage = await sqliteIndexApi.page({ model: MODEL, ...query, ...page })
+          levelPage = await indexApi.page({ model: MODEL, ...query, ...page })
+          expect(levelPage).toEqual(sqlitePage)
+        }
+      }
+    }
+  })
+
+  test('pagination from edge cursor', async () => {
+    for (const query of [{}, { sorting: { score: 'ASC' as const } }]) {
+      const firstPage = await sqliteIndexApi.page({ model: MODEL, ...query, first: 5 })
+      const after = firstPage.edges[1].cursor
+      await expect(indexApi.page({ model: MODEL, ...query, first: 3, after })).resolves.toEqual(
+        await sqliteIndexApi.page({ model: MODEL, ...query, first: 3, after })
+      )
+    }
+  })
+})
+
+describe('invalid queries', () => {
+  test('throw on filters and sorting on fields not indexed', async () => {
+    await expect(indexApi.count({ model: MODEL, filter: { unknown: 'foo' } })).rejects.toThrow(
+      InvalidQueryFilterError
+    )
+    await expect(
+      indexApi.page({ model: MODEL, sorting: { unknown: 'ASC' }, first: 5 })
+    ).rejects.toThrow(InvalidQuerySortingError)
+  })
+
+  test('throw on filters on fields no longer indexed', async () => {
+    await expect(indexApi.count({ model: MODEL, filter: { score: 1 } })).resolves.toBeGreaterThan(0)
+    await indexApi.indexModels([{ model: MODEL, relations: INDEX_MODEL_ARGS.relations }])
+    await expect(indexApi.count({ model: MODEL, filter: { score: 1 } })).rejects.toThrow(
+      InvalidQueryFilterError
+    )
+  })
+
+  test('throw on unsupported features', async () => {
+    await expect(indexApi.count({ model: MODEL, search: 'hello' })).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+    await expect(
+      indexApi.aggregate({ model: MODEL, aggregations: { total: { function: 'count' } } })
+    ).rejects.toThrow(UnsupportedIndexFeatureError)
+    await expect(indexApi.history({ model: MODEL, first: 5 })).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+    await expect(firstValueFrom(indexApi.subscribe({ model: MODEL }))).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+    await expect(indexApi.indexModels([{ model: MODEL, recordHistory: true }])).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+  })
+})
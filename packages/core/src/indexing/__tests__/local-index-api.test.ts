@@ -1,12 +1,25 @@
 import { jest } from '@jest/globals'
 import type { DatabaseIndexApi } from '../database-index-api.js'
 import type { Repository } from '../../state-management/repository.js'
-import type { Context, DiagnosticsLogger, Page } from '@ceramicnetwork/common'
+import type {
+  Context,
+  DiagnosticsLogger,
+  IndexChange,
+  ModelIndexFilter,
+  Page,
+} from '@ceramicnetwork/common'
 import { randomString } from '@stablelib/random'
 import { LocalIndexApi } from '../local-index-api.js'
-import { Networks } from '@ceramicnetwork/common'
+import { InvalidIndexFilterError } from '../invalid-index-filter.error.js'
+import { SetRelationViolationError } from '../set-relation-violation.error.js'
+import { Networks, TestUtils } from '@ceramicnetwork/common'
 import { IndexingConfig } from '../build-indexing.js'
 import { HandlersMap } from '../../handlers-map.js'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { Model } from '@ceramicnetwork/stream-model'
+import { ModelInstanceDocument } from '@ceramicnetwork/stream-model-instance'
+import type { ModelDefinition } from '@ceramicnetwork/stream-model'
+import { firstValueFrom, from, toArray } from 'rxjs'
 
 const randomInt = (max: number) => Math.floor(Math.random() * max)
 
@@ -109,6 +122,120 @@ describe('with database backend', () => {
     expect(response.edges.length).toEqual(1)
     expect(response.edges[0].node).toEqual(null)
   })
+
+  test('return TileDocument states from the database', async () => {
+    const found = new StreamID(0, TestUtils.randomCID())
+    const lost = new StreamID(0, TestUtils.randomCID())
+    const backendPage: Page<StreamID> = {
+      edges: [
+        { cursor: 'cursor-1', node: found },
+        { cursor: 'cursor-2', node: lost },
+      ],
+      pageInfo: { hasPreviousPage: false, hasNextPage: true, endCursor: 'cursor-2' },
+    }
+    const tilesFn = jest.fn(async () => backendPage)
+    const streamStateFn = jest.fn(async (streamId: StreamID) => {
+      return streamId.equals(found) ? { type: 0, content: { title: 'found' } } : undefined
+    })
+    const fauxBackend = { tiles: tilesFn } as unknown as DatabaseIndexApi
+    const fauxRepository = { streamState: streamStateFn } as unknown as Repository
+    const warnFn = jest.fn()
+    const fauxLogger = { warn: warnFn } as unknown as DiagnosticsLogger
+    const indexApi = new LocalIndexApi(undefined, fauxRepository, fauxLogger, Networks.INMEMORY)
+    ;(indexApi as any).databaseIndexApi = fauxBackend
+
+    const query = { family: 'notes', tags: ['public'], first: 2 }
+    const response = await indexApi.tiles(query)
+    expect(tilesFn).toBeCalledWith(query)
+    expect(response).toEqual({
+      edges: [
+        { cursor: 'cursor-1', node: { type: 0, content: { title: 'found' } } },
+        { cursor: 'cursor-2', node: null },
+      ],
+      pageInfo: backendPage.pageInfo,
+    })
+    expect(warnFn).toBeCalledWith(expect.stringContaining(`TileDocument ${lost}`))
+  })
+
+  test('convert subscription changes to stream states', async () => {
+    const query = { model: 'foo' }
+    const changes: Array<IndexChange<string>> = [
+      { type: 'added', edge: { cursor: 'cursor-1', node: 'stream-1' } },
+      { type: 'removed', edge: { cursor: 'cursor-2', node: 'stream-2' } },
+    ]
+    const subscribeFn = jest.fn(() => from(changes))
+    const streamStateFn = jest.fn(async (streamId: any) => {
+      return streamId === 'stream-1' ? { type: 1, content: streamId } : undefined
+    })
+    const fauxBackend = { subscribe: subscribeFn } as unknown as DatabaseIndexApi
+    const fauxRepository = { streamState: streamStateFn } as unknown as Repository
+    const fauxLogger = { warn: jest.fn() } as unknown as DiagnosticsLogger
+    const indexApi = new LocalIndexApi(
+      undefined as IndexingConfig,
+      fauxRepository,
+      fauxLogger,
+      Networks.INMEMORY
+    )
+    ;(indexApi as any).databaseIndexApi = fauxBackend
+    const result = await firstValueFrom(indexApi.subscribe(query).pipe(toArray()))
+    expect(subscribeFn).toBeCalledWith(query)
+    expect(result).toEqual([
+      { type: 'added', edge: { cursor: 'cursor-1', node: { type: 1, content: 'stream-1' } } },
+      { type: 'removed', edge: { cursor: 'cursor-2', node: null } },
+    ])
+  })
+})
+
+describe('tile index reconciliation', () => {
+  const makeState = (type: number) => ({ type, log: [{ cid: TestUtils.randomCID() }] })
+  const streamIdOf = (state: { type: number; log: Array<{ cid: any }> }) => {
+    return new StreamID(state.type, state.log[0].cid)
+  }
+
+  test('index pinned TileDocuments and remove the entries of unpinned ones on init', async () => {
+    const pinnedTiles = Array.from({ length: 3 }, () => makeState(0))
+    const states = [...pinnedTiles, makeState(3)]
+    const unpinned = new StreamID(0, TestUtils.randomCID())
+    const listFn = jest.fn(async (limit: number, gt?: StreamID) => {
+      const start = gt ? states.findIndex((state) => streamIdOf(state).equals(gt)) + 1 : 0
+      return states.slice(start, start + 2).map((value) => ({ key: streamIdOf(value), value }))
+    })
+    const loadFn = jest.fn(async (streamId: StreamID) => {
+      return states.find((state) => streamIdOf(state).equals(streamId)) ?? null
+    })
+    const indexStreamIfNeededFn = jest.fn()
+    const fauxRepository = {
+      pinStore: { stateStore: { list: listFn, load: loadFn } },
+      indexStreamIfNeeded: indexStreamIfNeededFn,
+    } as unknown as Repository
+    const indexedTiles = [streamIdOf(pinnedTiles[0]), unpinned]
+    const removeTileFn = jest.fn()
+    const fauxBackend = {
+      init: jest.fn(),
+      initTileIndex: jest.fn(),
+      tiles: jest.fn(async () => ({
+        edges: indexedTiles.map((node, i) => ({ cursor: `cursor-${i}`, node })),
+        pageInfo: { hasPreviousPage: false, hasNextPage: false },
+      })),
+      removeTile: removeTileFn,
+      getIndexedModels: () => [],
+      indexModels: jest.fn(),
+      getModelsNoLongerIndexed: jest.fn(async () => []),
+      getIndexedFieldsFromDatabase: jest.fn(async () => ({})),
+      getHistoryModelsFromDatabase: jest.fn(async () => []),
+      getIndexFiltersFromDatabase: jest.fn(async () => ({})),
+    } as unknown as DatabaseIndexApi
+    const fauxLogger = { imp: jest.fn(), warn: jest.fn() } as unknown as DiagnosticsLogger
+    const indexApi = new LocalIndexApi(undefined, fauxRepository, fauxLogger, Networks.INMEMORY)
+    ;(indexApi as any).databaseIndexApi = fauxBackend
+    ;(indexApi as any).tilesEnabled = true
+
+    await indexApi.init()
+    const indexed = indexStreamIfNeededFn.mock.calls.map(([state$]: [any]) => state$)
+    expect(indexed.map((state$) => state$.id)).toEqual(pinnedTiles.map(streamIdOf))
+    expect(indexed.every((state$) => state$.isPinned)).toBe(true)
+    expect(removeTileFn.mock.calls).toEqual([[unpinned]])
+  })
 })
 
 describe('without database backend', () => {
@@ -146,3 +273,358 @@ test('count', async () => {
   expect(actual).toEqual(expected)
   expect(countFn).toBeCalledWith(query)
 })
+
+describe('indexModels', () => {
+  const MODEL_ID = StreamID.fromString(
+    'kjzl6hvfrbw6c5ajfmes842lu09vjxu5956e3xq0xk12gp2jcf9s90cagt2god9'
+  )
+  const MODEL_CONTENT: ModelDefinition = {
+    version: '1.0',
+    name: 'MyModel',
+    accountRelation: { type: 'list' },
+    schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', maxLength: 100 },
+        score: { type: 'integer' },
+        rating: { type: 'number' },
+        description: { type: 'string' },
+      },
+    },
+    indices: { title: { type: 'scalar' }, description: { type: 'fullText' } },
+  }
+
+  function makeIndexApi(
+    persistedIndexedFields: Record<string, Array<string>> = {},
+    persistedHistoryModels: Array<string> = [],
+    persistedFilters: Record<string, ModelIndexFilter> = {}
+  ) {
+    const fauxRepository = {
+      load: jest.fn(async () => ({ state: { content: MODEL_CONTENT } })),
+    } as unknown as Repository
+    const fauxLogger = { imp: jest.fn(), warn: jest.fn() } as unknown as DiagnosticsLogger
+    const indexModelsFn = jest.fn()
+    const fauxBackend = {
+      indexModels: indexModelsFn,
+      getModelsNoLongerIndexed: jest.fn(async () => []),
+      getIndexedFieldsFromDatabase: jest.fn(async () => persistedIndexedFields),
+      getHistoryModelsFromDatabase: jest.fn(async () => persistedHistoryModels),
+      getIndexFiltersFromDatabase: jest.fn(async () => persistedFilters),
+    } as unknown as DatabaseIndexApi
+    const indexApi = new LocalIndexApi(undefined, fauxRepository, fauxLogger, Networks.INMEMORY)
+    ;(indexApi as any).databaseIndexApi = fauxBackend
+    return { indexApi, indexModelsFn }
+  }
+
+  test('index fields declared by the model, persisted and requested', async () => {
+    const { indexApi, indexModelsFn } = makeIndexApi({ [MODEL_ID.toString()]: ['score'] })
+    await indexApi.indexModels([MODEL_ID], { indexedFields: { [MODEL_ID.toString()]: ['rating'] } })
+    expect(indexModelsFn).toBeCalledWith([
+      {
+        model: MODEL_ID,
+        indexedFields: { title: 'string', score: 'integer', rating: 'number' },
+        fullTextFields: ['description'],
+      },
+    ])
+  })
+
+  test('record history if requested or persisted', async () => {
+    const requested = makeIndexApi()
+    await requested.indexApi.indexModels([MODEL_ID], { history: [MODEL_ID.toString()] })
+    expect(requested.indexModelsFn).toBeCalledWith([
+      expect.objectContaining({ model: MODEL_ID, recordHistory: true }),
+    ])
+
+    const persisted = makeIndexApi({}, [MODEL_ID.toString()])
+    await persisted.indexApi.indexModels([MODEL_ID])
+    expect(persisted.indexModelsFn).toBeCalledWith([
+      expect.objectContaining({ model: MODEL_ID, recordHistory: true }),
+    ])
+  })
+
+  test('filter indexed documents as requested, or as persisted', async () => {
+    const persistedFilter = { controllers: ['did:key:foo'] }
+    const requestedFilter = { content: { appID: 'app' } }
+    const persisted = makeIndexApi({}, [], { [MODEL_ID.toString()]: persistedFilter })
+    await persisted.indexApi.indexModels([MODEL_ID])
+    expect(persisted.indexModelsFn).toBeCalledWith([
+      expect.objectContaining({ model: MODEL_ID, filter: persistedFilter }),
+    ])
+
+    const requested = makeIndexApi({}, [], { [MODEL_ID.toString()]: persistedFilter })
+    await requested.indexApi.indexModels([MODEL_ID], {
+      filters: { [MODEL_ID.toString()]: requestedFilter },
+    })
+    expect(requested.indexModelsFn).toBeCalledWith([
+      expect.objectContaining({ model: MODEL_ID, filter: requestedFilter }),
+    ])
+  })
+
+  test('throw on invalid filter', async () => {
+    const { indexApi, indexModelsFn } = makeIndexApi()
+    await expect(
+      indexApi.indexModels([MODEL_ID], {
+        filters: { [MODEL_ID.toString()]: { controllers: [] } },
+      })
+    ).rejects.toThrow(InvalidIndexFilterError)
+    await expect(
+      indexApi.indexModels([MODEL_ID], {
+        filters: { [MODEL_ID.toString()]: { content: { tags: ['a'] } } as any },
+      })
+    ).rejects.toThrow(InvalidIndexFilterError)
+    expect(indexModelsFn).not.toBeCalled()
+  })
+
+  test('throw if a requested field could not be indexed', async () => {
+    const { indexApi, indexModelsFn } = makeIndexApi()
+    await expect(
+      indexApi.indexModels([MODEL_ID], {
+        indexedFields: { [MODEL_ID.toString()]: ['description'] },
+      })
+    ).rejects.toThrow(/Cannot index field description: string fields must have a maxLength/)
+    expect(indexModelsFn).not.toBeCalled()
+  })
+})
+
+describe('superseding models', () => {
+  const MODEL_V1 = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+  const MODEL_V2 = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+  const MODEL_V3 = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+  const MODEL_CONTENT: ModelDefinition = {
+    version: '1.0',
+    name: 'MyModel',
+    accountRelation: { type: 'list' },
+    schema: { type: 'object', properties: { title: { type: 'string' } } },
+  }
+  const CONTENTS = {
+    [MODEL_V1.toString()]: MODEL_CONTENT,
+    [MODEL_V2.toString()]: { ...MODEL_CONTENT, supersedes: MODEL_V1.toString() },
+    [MODEL_V3.toString()]: { ...MODEL_CONTENT, supersedes: MODEL_V2.toString() },
+  }
+
+  function makeIndexApi() {
+    const fauxRepository = {
+      load: jest.fn(async (model: StreamID) => ({
+        state: { content: CONTENTS[model.toString()] },
+      })),
+    } as unknown as Repository
+    const fauxLogger = { imp: jest.fn(), warn: jest.fn() } as unknown as DiagnosticsLogger
+    const indexedModels: Array<StreamID> = []
+    const indexStreamFn = jest.fn()
+    const fauxBackend = {
+      indexModels: jest.fn(async (args: Array<{ model: StreamID }>) => {
+        indexedModels.push(...args.map((arg) => arg.model))
+      }),
+      stopIndexingModels: jest.fn(async () => {
+        indexedModels.length = 0
+      }),
+      getIndexedModels: () => indexedModels,
+      indexStream: indexStreamFn,
+      getModelsNoLongerIndexed: jest.fn(async () => []),
+      getIndexedFieldsFromDatabase: jest.fn(async () => ({})),
+      getHistoryModelsFromDatabase: jest.fn(async () => []),
+      getIndexFiltersFromDatabase: jest.fn(async () => ({})),
+    } as unknown as DatabaseIndexApi
+    const indexApi = new LocalIndexApi(undefined, fauxRepository, fauxLogger, Networks.INMEMORY)
+    ;(indexApi as any).databaseIndexApi = fauxBackend
+    return { indexApi, indexStreamFn }
+  }
+
+  const makeArgs = (model: StreamID) => ({
+    model: model,
+    streamID: new StreamID(3, TestUtils.randomCID()),
+    controller: 'did:key:foo',
+    streamContent: { title: 'hello' },
+    tip: TestUtils.randomCID(),
+    lastAnchor: null,
+    firstAnchor: null,
+  })
+
+  test('collection of a model includes the models it supersedes', async () => {
+    const { indexApi } = makeIndexApi()
+    await indexApi.indexModels([MODEL_V3])
+    expect(indexApi.collectionModels(MODEL_V3)).toEqual([MODEL_V3, MODEL_V2, MODEL_V1])
+    expect(indexApi.shouldIndexStream(MODEL_V1)).toBe(true)
+    await indexApi.stopIndexingModels([MODEL_V3])
+    expect(indexApi.collectionModels(MODEL_V3)).toEqual([MODEL_V3])
+    expect(indexApi.shouldIndexStream(MODEL_V1)).toBe(false)
+  })
+
+  test('index documents of superseded models in the collection of the superseding model', async () => {
+    const { indexApi, indexStreamFn } = makeIndexApi()
+    await indexApi.indexModels([MODEL_V1, MODEL_V2])
+    const args = makeArgs(MODEL_V1)
+    await indexApi.indexStream(args)
+    expect(indexStreamFn.mock.calls).toEqual([
+      [{ ...args, model: MODEL_V1 }],
+      [{ ...args, model: MODEL_V2 }],
+    ])
+    indexStreamFn.mockClear()
+    await indexApi.indexStream(makeArgs(MODEL_V3))
+    expect(indexStreamFn).not.toBeCalled()
+  })
+})
+
+describe('set account relation', () => {
+  const MODEL = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+  const MODEL_CONTENT: ModelDefinition = {
+    version: '1.0',
+    name: 'Reaction',
+    accountRelation: { type: 'set', fields: ['postID', 'kind'] },
+    schema: {
+      type: 'object',
+      properties: { postID: { type: 'string' }, kind: { type: 'string' } },
+      required: ['postID', 'kind'],
+    },
+  }
+
+  async function makeIndexApi() {
+    const fauxRepository = {
+      load: jest.fn(async () => ({ state: { content: MODEL_CONTENT } })),
+    } as unknown as Repository
+    const fauxLogger = { imp: jest.fn(), warn: jest.fn() } as unknown as DiagnosticsLogger
+    const indexedModels: Array<StreamID> = []
+    const indexStreamFn = jest.fn()
+    const fauxBackend = {
+      indexModels: jest.fn(async (args: Array<{ model: StreamID }>) => {
+        indexedModels.push(...args.map((arg) => arg.model))
+      }),
+      getIndexedModels: () => indexedModels,
+      indexStream: indexStreamFn,
+      getModelsNoLongerIndexed: jest.fn(async () => []),
+      getIndexedFieldsFromDatabase: jest.fn(async () => ({})),
+      getHistoryModelsFromDatabase: jest.fn(async () => []),
+      getIndexFiltersFromDatabase: jest.fn(async () => ({})),
+    } as unknown as DatabaseIndexApi
+    const indexApi = new LocalIndexApi(undefined, fauxRepository, fauxLogger, Networks.INMEMORY)
+    ;(indexApi as any).databaseIndexApi = fauxBackend
+    await indexApi.indexModels([MODEL])
+    return { indexApi, indexStreamFn }
+  }
+
+  const makeArgs = (streamID: StreamID, streamContent: Record<string, any>) => ({
+    model: MODEL,
+    streamID: streamID,
+    controller: 'did:key:foo',
+    streamContent: streamContent,
+    tip: TestUtils.randomCID(),
+    lastAnchor: null,
+    firstAnchor: null,
+  })
+
+  test('index the MID of the controller for the values of the set fields', async () => {
+    const { indexApi, indexStreamFn } = await makeIndexApi()
+    const streamID = await ModelInstanceDocument.setStreamId(MODEL, 'did:key:foo', ['post', 'like'])
+    await indexApi.indexStream(makeArgs(streamID, {}))
+    await indexApi.indexStream(makeArgs(streamID, { postID: 'post', kind: 'like' }))
+    expect(indexStreamFn).toBeCalledTimes(2)
+  })
+
+  test('reject other MIDs holding the values of the set fields', async () => {
+    const { indexApi, indexStreamFn } = await makeIndexApi()
+    const streamID = await ModelInstanceDocument.setStreamId(MODEL, 'did:key:foo', ['post', 'like'])
+    await expect(
+      indexApi.indexStream(makeArgs(streamID, { postID: 'post', kind: 'dislike' }))
+    ).rejects.toThrow(SetRelationViolationError)
+    const otherStreamID = new StreamID(3, TestUtils.randomCID())
+    await expect(
+      indexApi.indexStream(makeArgs(otherStreamID, { postID: 'post', kind: 'like' }))
+    ).rejects.toThrow(SetRelationViolationError)
+    expect(indexStreamFn).not.toBeCalled()
+  })
+})
+
+describe('interface models', () => {
+  const INTERFACE = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+  const POST = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+  const POST_V1 = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+  const COMMENT = new StreamID(Model.STREAM_TYPE_ID, TestUtils.randomCID())
+  const INTERFACE_CONTENT: ModelDefinition = {
+    version: '1.0',
+    name: 'Titled',
+    interface: true,
+    accountRelation: { type: 'list' },
+    schema: { type: 'object', properties: { title: { type: 'string' } } },
+  }
+  const CONTENTS = {
+    [INTERFACE.toString()]: INTERFACE_CONTENT,
+    [POST_V1.toString()]: { ...INTERFACE_CONTENT, name: 'Post', interface: false },
+    [POST.toString()]: {
+      ...INTERFACE_CONTENT,
+      name: 'Post',
+      interface: false,
+      supersedes: POST_V1.toString(),
+      implements: [INTERFACE.toString()],
+    },
+    [COMMENT.toString()]: {
+      ...INTERFACE_CONTENT,
+      name: 'Comment',
+      interface: false,
+      implements: [INTERFACE.toString()],
+    },
+  }
+
+  function makeIndexApi() {
+    const fauxRepository = {
+      load: jest.fn(async (model: StreamID) => ({
+        state: { content: CONTENTS[model.toString()] },
+      })),
+    } as unknown as Repository
+    const fauxLogger = { imp: jest.fn(), warn: jest.fn() } as unknown as DiagnosticsLogger
+    let indexedModels: Array<StreamID> = []
+    const indexStreamFn = jest.fn()
+    const fauxBackend = {
+      indexModels: jest.fn(async (args: Array<{ model: StreamID }>) => {
+        indexedModels.push(...args.map((arg) => arg.model))
+      }),
+      stopIndexingModels: jest.fn(async (models: Array<StreamID>) => {
+        indexedModels = indexedModels.filter((m) => !models.some((model) => model.equals(m)))
+      }),
+      getIndexedModels: () => indexedModels,
+      indexStream: indexStreamFn,
+      getModelsNoLongerIndexed: jest.fn(async () => []),
+      getIndexedFieldsFromDatabase: jest.fn(async () => ({})),
+      getHistoryModelsFromDatabase: jest.fn(async () => []),
+      getIndexFiltersFromDatabase: jest.fn(async () => ({})),
+    } as unknown as DatabaseIndexApi
+    const indexApi = new LocalIndexApi(undefined, fauxRepository, fauxLogger, Networks.INMEMORY)
+    ;(indexApi as any).databaseIndexApi = fauxBackend
+    return { indexApi, indexStreamFn }
+  }
+
+  const makeArgs = (model: StreamID) => ({
+    model: model,
+    streamID: new StreamID(3, TestUtils.randomCID()),
+    controller: 'did:key:foo',
+    streamContent: { title: 'hello' },
+    tip: TestUtils.randomCID(),
+    lastAnchor: null,
+    firstAnchor: null,
+  })
+
+  test('collection of an interface includes the indexed models implementing it', async () => {
+    const { indexApi } = makeIndexApi()
+    await indexApi.indexModels([INTERFACE, POST])
+    expect(indexApi.collectionModels(INTERFACE)).toEqual([INTERFACE, POST, POST_V1])
+    expect(indexApi.collectionModels(POST)).toEqual([POST, POST_V1])
+    await indexApi.indexModels([COMMENT])
+    expect(indexApi.collectionModels(INTERFACE)).toEqual([INTERFACE, POST, POST_V1, COMMENT])
+    await indexApi.stopIndexingModels([POST])
+    expect(indexApi.collectionModels(INTERFACE)).toEqual([INTERFACE, COMMENT])
+    expect(indexApi.shouldIndexStream(POST_V1)).toBe(false)
+  })
+
+  test('index documents of implementing models in the collection of the interface', async () => {
+    const { indexApi, indexStreamFn } = makeIndexApi()
+    await indexApi.indexModels([INTERFACE, POST])
+    const args = makeArgs(POST_V1)
+    await indexApi.indexStream(args)
+    expect(indexStreamFn.mock.calls).toEqual([
+      [{ ...args, model: INTERFACE }],
+      [{ ...args, model: POST }],
+    ])
+    indexStreamFn.mockClear()
+    await indexApi.indexStream(makeArgs(COMMENT))
+    expect(indexStreamFn).not.toBeCalled()
+  })
+})
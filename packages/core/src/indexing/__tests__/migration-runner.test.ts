@@ -0,0 +1,183 @@
+import { jest } from '@jest/globals'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { LoggerProvider } from '@ceramicnetwork/common'
+import { DatabaseIndexApi, INDEXED_MODEL_CONFIG_TABLE_NAME } from '../database-index-api.js'
+import { CONFIG_TABLE_NAME, MIGRATIONS_TABLE_NAME } from '../config.js'
+import { MIGRATIONS, MigrationRunner } from '../migrations/migration-runner.js'
+import type { Migration } from '../migrations/migration.js'
+import { DatabaseType } from '../migrations/1-create-model-table.js'
+import { asTableName } from '../as-table-name.util.js'
+import {
+  IndexBackend,
+  IndexBackendContext,
+  SQL_BACKENDS,
+  describeIndexBackends,
+  populate,
+} from './index-backends.util.js'
+
+const MODEL_A = StreamID.fromString(
+  'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+)
+const MODEL_B = StreamID.fromString(
+  'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
+)
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let indexApi: DatabaseIndexApi
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+/**
+ * Migration adding a nullable `notes` column to every mid table, if missing.
+ */
+const addNotesColumn: Migration = {
+  version: 100,
+  name: 'add-notes-column',
+  midTable: async (dataSource, _dbType, tableName) => {
+    if (await dataSource.schema.hasColumn(tableName, 'notes')) return
+    await dataSource.schema.alterTable(tableName, (table) => {
+      table.string('notes').nullable()
+    })
+  },
+}
+
+/**
+ * Migration recording a config option.
+ */
+const addConfigOption: Migration = {
+  version: 101,
+  name: 'add-config-option',
+  config: async (dataSource) => {
+    await dataSource(CONFIG_TABLE_NAME).insert({ option: 'migrated', value: 'true' })
+  },
+}
+
+async function prepare(api: DatabaseIndexApi) {
+  indexApi = api
+  await populate(indexApi, [{ model: MODEL_A }, { model: MODEL_B }])
+}
+
+function migrationTests(context: IndexBackendContext) {
+  const dbType =
+    context.backend === IndexBackend.POSTGRES ? DatabaseType.POSTGRES : DatabaseType.SQLITE
+  const runner = (migrations: Array<Migration>) => {
+    return new MigrationRunner(context.dbConnection, dbType, logger, migrations)
+  }
+  const midTables = [asTableName(MODEL_A), asTableName(MODEL_B)]
+
+  test('record migrations applied on init', async () => {
+    await expect(runner(MIGRATIONS).appliedVersions()).resolves.toEqual(
+      MIGRATIONS.map((migration) => migration.version)
+    )
+  })
+
+  test('add missing columns to legacy model config table', async () => {
+    await context.dbConnection.schema.alterTable(INDEXED_MODEL_CONFIG_TABLE_NAME, (table) => {
+      table.dropColumn('indexed_fields')
+      table.dropColumn('record_history')
+      table.dropColumn('index_filter')
+    })
+    await context.dbConnection(MIGRATIONS_TABLE_NAME).delete()
+    await indexApi.init()
+    await expect(
+      context.dbConnection.schema.hasColumn(INDEXED_MODEL_CONFIG_TABLE_NAME, 'indexed_fields')
+    ).resolves.toBe(true)
+    await expect(
+      context.dbConnection.schema.hasColumn(INDEXED_MODEL_CONFIG_TABLE_NAME, 'record_history')
+    ).resolves.toBe(true)
+    await expect(
+      context.dbConnection.schema.hasColumn(INDEXED_MODEL_CONFIG_TABLE_NAME, 'index_filter')
+    ).resolves.toBe(true)
+    await expect(indexApi.indexModels([{ model: MODEL_A }])).resolves.not.toThrow()
+  })
+
+  test('add missing columns to legacy mid tables', async () => {
+    for (const tableName of midTables) {
+      await context.dbConnection.schema.alterTable(tableName, (table) => {
+        table.dropColumn('is_deleted')
+        table.dropColumn('last_writer')
+      })
+    }
+    await context.dbConnection(MIGRATIONS_TABLE_NAME).delete()
+    await indexApi.init()
+    for (const tableName of midTables) {
+      await expect(context.dbConnection.schema.hasColumn(tableName, 'is_deleted')).resolves.toBe(
+        true
+      )
+      await expect(context.dbConnection.schema.hasColumn(tableName, 'last_writer')).resolves.toBe(
+        true
+      )
+    }
+    await expect(indexApi.count({ model: MODEL_A })).resolves.toEqual(0)
+  })
+
+  test('apply pending migrations in order to config and mid tables once', async () => {
+    const applied: Array<string> = []
+    const tracked = (migration: Migration): Migration => ({
+      ...migration,
+      config: async (dataSource, type) => {
+        applied.push(migration.name)
+        await migration.config?.(dataSource, type)
+      },
+    })
+    await runner([tracked(addConfigOption), tracked(addNotesColumn)]).run(midTables)
+    expect(applied).toEqual(['add-notes-column', 'add-config-option'])
+    for (const tableName of midTables) {
+      await expect(context.dbConnection.schema.hasColumn(tableName, 'notes')).resolves.toBe(true)
+    }
+    const option = await context
+      .dbConnection(CONFIG_TABLE_NAME)
+      .where({ option: 'migrated' })
+      .first()
+    expect(option.value).toEqual('true')
+
+    // Applied migrations are not applied again
+    await runner([tracked(addConfigOption), tracked(addNotesColumn)]).run(midTables)
+    expect(applied).toEqual(['add-notes-column', 'add-config-option'])
+    await expect(runner([]).appliedVersions()).resolves.toEqual([
+      ...MIGRATIONS.map((migration) => migration.version),
+      addNotesColumn.version,
+      addConfigOption.version,
+    ])
+  })
+
+  test('roll back a failing migration and stop', async () => {
+    const failing: Migration = {
+      version: 100,
+      name: 'failing',
+      midTable: async (dataSource, type, tableName) => {
+        await addNotesColumn.midTable(dataSource, type, tableName)
+        if (tableName === midTables[1]) throw new Error('Migration failed')
+      },
+    }
+    await expect(runner([failing, addConfigOption]).run(midTables)).rejects.toThrow(
+      /Migration failed/
+    )
+    await expect(context.dbConnection.schema.hasColumn(midTables[0], 'notes')).resolves.toBe(false)
+    await expect(runner([]).appliedVersions()).resolves.toEqual(
+      MIGRATIONS.map((migration) => migration.version)
+    )
+    const option = await context
+      .dbConnection(CONFIG_TABLE_NAME)
+      .where({ option: 'migrated' })
+      .first()
+    expect(option).toBeUndefined()
+  })
+}
+
+describeIndexBackends(
+  SQL_BACKENDS,
+  {
+    logger,
+    prepare,
+    tables: [
+      CONFIG_TABLE_NAME,
+      INDEXED_MODEL_CONFIG_TABLE_NAME,
+      MIGRATIONS_TABLE_NAME,
+      asTableName(MODEL_A),
+      asTableName(MODEL_B),
+    ],
+  },
+  (context) => {
+    migrationTests(context)
+  }
+)
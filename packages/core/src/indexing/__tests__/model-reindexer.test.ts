@@ -0,0 +1,249 @@
+import { jest } from '@jest/globals'
+import tmp from 'tmp-promise'
+import knex from 'knex'
+import {
+  AnchorStatus,
+  CommitType,
+  DiagnosticsLogger,
+  LoggerProvider,
+  Networks,
+  SignatureStatus,
+  StreamState,
+  TestUtils,
+} from '@ceramicnetwork/common'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { LevelDbStore } from '../../store/level-db-store.js'
+import { StreamStateStore } from '../../store/stream-state-store.js'
+import { ModelReindexStore } from '../../store/model-reindex-store.js'
+import { ModelReindexer } from '../model-reindexer.js'
+import type { Repository } from '../../state-management/repository.js'
+import type { RunningState } from '../../state-management/running-state.js'
+import { SqliteIndexApi } from '../database-index-api.js'
+
+const MODEL = StreamID.fromString('kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd')
+const OTHER_MODEL = StreamID.fromString(
+  'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
+)
+const STREAMS_COUNT = 250
+
+const makeStreamState = function (model: StreamID): StreamState {
+  return {
+    type: 3,
+    content: {},
+    metadata: {
+      controllers: ['did:key:foo'],
+      model: model,
+    },
+    signature: SignatureStatus.GENESIS,
+    anchorStatus: AnchorStatus.NOT_REQUESTED,
+    log: [{ type: CommitType.GENESIS, cid: TestUtils.randomCID() }],
+  }
+}
+
+describe('ModelReindexer', () => {
+  let tmpFolder: tmp.DirectoryResult
+  let stateStore: StreamStateStore
+  let modelReindexStore: ModelReindexStore
+  let indexStreamIfNeeded: jest.Mock<(state$: RunningState) => Promise<void>>
+  let indexModels: jest.Mock<(models: Array<StreamID>) => Promise<void>>
+  let clearModel: jest.Mock<(model: StreamID) => Promise<void>>
+  let logger: DiagnosticsLogger
+  let reindexer: ModelReindexer
+  let modelStreamIds: Array<string>
+  let supersededModels: Array<StreamID>
+
+  beforeEach(async () => {
+    tmpFolder = await tmp.dir({ unsafeCleanup: true })
+    const levelStore = new LevelDbStore(tmpFolder.path, 'fakeNetwork')
+    logger = new LoggerProvider().getDiagnosticsLogger()
+    stateStore = new StreamStateStore(logger)
+    await stateStore.open(levelStore)
+    modelReindexStore = new ModelReindexStore()
+    await modelReindexStore.open(levelStore)
+
+    modelStreamIds = []
+    for (let i = 0; i < STREAMS_COUNT; i++) {
+      const state = makeStreamState(i % 2 === 0 ? MODEL : OTHER_MODEL)
+      const streamId = new StreamID(state.type, state.log[0].cid)
+      await stateStore.save(streamId, state)
+      if (i % 2 === 0) modelStreamIds.push(streamId.toString())
+    }
+    modelStreamIds.sort()
+
+    indexStreamIfNeeded = jest.fn(async () => {
+      // Nothing to do
+    })
+    indexModels = jest.fn(async () => {
+      // Nothing to do
+    })
+    clearModel = jest.fn(async () => {
+      // Nothing to do
+    })
+    supersededModels = []
+    const fauxRepository = {
+      index: {
+        indexedModels: () => [MODEL],
+        collectionModels: (model: StreamID) => [model, ...supersededModels],
+        indexModels: indexModels,
+        clearModel: clearModel,
+      },
+      pinStore: { stateStore },
+      inmemory: { get: () => undefined },
+      modelReindexStore: modelReindexStore,
+      indexStreamIfNeeded: indexStreamIfNeeded,
+    } as unknown as Repository
+    reindexer = new ModelReindexer(fauxRepository, logger)
+  })
+
+  afterEach(async () => {
+    await reindexer.close()
+    await tmpFolder.cleanup()
+  })
+
+  async function waitForCompletion(): Promise<void> {
+    await TestUtils.waitForConditionOrTimeout(async () => {
+      const status = await reindexer.status()
+      return status.every((progress) => progress.completed)
+    }, 10000)
+  }
+
+  const indexedStreamIds = () => {
+    return indexStreamIfNeeded.mock.calls.map(([state$]) => state$.id.toString()).sort()
+  }
+
+  test('reindex the streams of the model from the state store', async () => {
+    await reindexer.reindex(MODEL)
+    await waitForCompletion()
+    expect(indexModels).toBeCalledWith([MODEL])
+    expect(clearModel).toBeCalledWith(MODEL)
+    expect(clearModel.mock.invocationCallOrder[0]).toBeLessThan(
+      indexStreamIfNeeded.mock.invocationCallOrder[0]
+    )
+    expect(indexedStreamIds()).toEqual(modelStreamIds)
+    await expect(reindexer.status()).resolves.toEqual([
+      {
+        model: MODEL.toString(),
+        processedStreams: STREAMS_COUNT,
+        indexedStreams: modelStreamIds.length,
+        failedStreams: 0,
+        completed: true,
+      },
+    ])
+  })
+
+  test('skip streams that fail to be indexed', async () => {
+    const failing = new Set(modelStreamIds.slice(0, 3))
+    indexStreamIfNeeded.mockImplementation(async (state$) => {
+      if (failing.has(state$.id.toString())) throw new Error('Cannot index stream')
+    })
+    await reindexer.reindex(MODEL)
+    await waitForCompletion()
+    expect(indexedStreamIds()).toEqual(modelStreamIds)
+    await expect(reindexer.status()).resolves.toEqual([
+      {
+        model: MODEL.toString(),
+        processedStreams: STREAMS_COUNT,
+        indexedStreams: modelStreamIds.length - failing.size,
+        failedStreams: failing.size,
+        completed: true,
+      },
+    ])
+  })
+
+  test('reindex the streams of the models superseded by the model', async () => {
+    supersededModels = [OTHER_MODEL]
+    await reindexer.reindex(MODEL)
+    await waitForCompletion()
+    expect(indexStreamIfNeeded).toBeCalledTimes(STREAMS_COUNT)
+  })
+
+  test('remove entries of streams no longer in the state store', async () => {
+    const dbConnection = knex({
+      client: 'sqlite3',
+      useNullAsDefault: true,
+      connection: { filename: `${tmpFolder.path}/tmp-ceramic.sqlite` },
+    })
+    const indexApi = new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY)
+    indexApi.setSyncQueryApi({ syncComplete: () => true })
+    await indexApi.init()
+    await indexApi.indexModels([{ model: MODEL }])
+    const indexState = async (state$: RunningState) => {
+      await indexApi.indexStream({
+        model: state$.state.metadata.model,
+        streamID: state$.id,
+        controller: state$.state.metadata.controllers[0],
+        streamContent: state$.state.content,
+        tip: state$.tip,
+        lastAnchor: null,
+        firstAnchor: null,
+      })
+    }
+    const stale = new StreamID(3, TestUtils.randomCID())
+    await indexState({
+      id: stale,
+      tip: TestUtils.randomCID(),
+      state: makeStreamState(MODEL),
+    } as unknown as RunningState)
+
+    const repository = {
+      index: {
+        indexedModels: () => [MODEL],
+        collectionModels: (model: StreamID) => [model],
+        indexModels: async (models: Array<StreamID>) => {
+          await indexApi.indexModels(models.map((model) => ({ model })))
+        },
+        clearModel: (model: StreamID) => indexApi.clearModel(model),
+      },
+      pinStore: { stateStore },
+      inmemory: { get: () => undefined },
+      modelReindexStore: modelReindexStore,
+      indexStreamIfNeeded: indexState,
+    } as unknown as Repository
+    const databaseReindexer = new ModelReindexer(repository, logger)
+    try {
+      await databaseReindexer.reindex(MODEL)
+      await waitForCompletion()
+      const indexed = await indexApi.indexedEntries(MODEL, STREAMS_COUNT)
+      expect(indexed.map((entry) => entry.streamId)).toEqual(modelStreamIds)
+      await expect(indexApi.indexedStreamIds(MODEL, [stale.toString()])).resolves.toEqual(new Set())
+    } finally {
+      await databaseReindexer.close()
+      await dbConnection.destroy()
+    }
+  })
+
+  test('throw if the model is not indexed', async () => {
+    await expect(reindexer.reindex(OTHER_MODEL)).rejects.toThrow(/it is not indexed/)
+    await expect(reindexer.status()).resolves.toEqual([])
+  })
+
+  test('resume from saved progress', async () => {
+    const all = await stateStore.list()
+    const processed = all.slice(0, 120)
+    const indexedBefore = processed.filter((entry) => entry.value.metadata.model.equals(MODEL))
+    await modelReindexStore.save(MODEL, {
+      model: MODEL.toString(),
+      processedStreams: processed.length,
+      indexedStreams: indexedBefore.length,
+      failedStreams: 0,
+      completed: false,
+      lastStreamId: processed[processed.length - 1].key.toString(),
+    })
+
+    await reindexer.resume()
+    await waitForCompletion()
+    const indexedBeforeIds = indexedBefore.map((entry) => entry.key.toString())
+    expect(indexedStreamIds()).toEqual(
+      modelStreamIds.filter((streamId) => !indexedBeforeIds.includes(streamId))
+    )
+    await expect(reindexer.status()).resolves.toEqual([
+      {
+        model: MODEL.toString(),
+        processedStreams: STREAMS_COUNT,
+        indexedStreams: modelStreamIds.length,
+        failedStreams: 0,
+        completed: true,
+      },
+    ])
+  })
+})
@@ -0,0 +1,130 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import { jest } from '@jest/globals'
+import { LoggerProvider, TestUtils } from '@ceramicnetwork/common'
+import { IDatabaseIndexApi } from '../database-index-api.js'
+import { QueryLog, QueryLogOptions } from '../query-log.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import {
+  IndexBackend,
+  IndexBackendContext,
+  SQL_BACKENDS,
+  describeIndexBackends,
+} from './index-backends.util.js'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+type MakeIndexApi = (options: QueryLogOptions) => IDatabaseIndexApi
+
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+async function prepare(makeIndexApi: MakeIndexApi, options: QueryLogOptions = {}) {
+  const indexApi = makeIndexApi(options)
+  indexApi.setSyncQueryApi({ syncComplete: () => true })
+  await indexApi.init()
+  await indexApi.indexModels([
+    { model: MODEL, indexedFields: { score: 'integer', label: 'string' } },
+  ])
+  for (let i = 0; i < 3; i++) {
+    await indexApi.indexStream({
+      model: MODEL,
+      streamID: new StreamID(3, TestUtils.randomCID()),
+      controller: 'did:key:foo',
+      streamContent: { score: i, label: `costs $${i} or ?` },
+      tip: TestUtils.randomCID(),
+      lastAnchor: null,
+      firstAnchor: null,
+    })
+  }
+  return indexApi
+}
+
+function queryLogTests(context: IndexBackendContext) {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('do not log queries by default', async () => {
+    const indexApi = await prepare(context.makeIndexApi)
+    const imp = jest.spyOn(logger, 'imp')
+    await indexApi.count({ model: MODEL })
+    await indexApi.page({ model: MODEL, first: 2 })
+    expect(imp).not.toHaveBeenCalled()
+  })
+
+  test('log count and page queries', async () => {
+    const indexApi = await prepare(context.makeIndexApi, { logQueries: true })
+    const imp = jest.spyOn(logger, 'imp')
+    await indexApi.count({ model: MODEL, account: 'did:key:foo' })
+    await indexApi.page({ model: MODEL, sorting: { score: 'DESC' }, first: 2 })
+    expect(imp).toHaveBeenCalledTimes(2)
+    const [countMessage, pageMessage] = imp.mock.calls.map(([message]) => message)
+    expect(countMessage).toMatch(
+      new RegExp(`^Index count query on Model ${MODEL_ID} took \\d+ms: select count\\(\\*\\)`)
+    )
+    expect(countMessage).toContain('"did:key:foo"]')
+    expect(pageMessage).toMatch(new RegExp(`^Index page query on Model ${MODEL_ID} took \\d+ms: `))
+    expect(pageMessage).toContain('custom_score')
+  })
+
+  test('only log queries slower than threshold', async () => {
+    const options = { logQueries: true, slowQueryThreshold: 60000 }
+    const indexApi = await prepare(context.makeIndexApi, options)
+    const imp = jest.spyOn(logger, 'imp')
+    await indexApi.count({ model: MODEL })
+    await indexApi.page({ model: MODEL, first: 2 })
+    expect(imp).not.toHaveBeenCalled()
+  })
+
+  test('explain page query', async () => {
+    const indexApi = await prepare(context.makeIndexApi)
+    const plans = await indexApi.explain({
+      model: MODEL,
+      filter: { score: { gte: 1 } },
+      first: 2,
+    })
+    expect(plans).toHaveLength(1)
+    expect(plans[0].sql).toContain(MODEL_ID)
+    expect(plans[0].bindings).toContain(1)
+    expect(plans[0].plan).toBeTruthy()
+  })
+
+  test('explain statements with placeholder characters in values', async () => {
+    const indexApi = await prepare(context.makeIndexApi)
+    const query = { model: MODEL, filter: { label: 'costs $1 or ?' }, first: 2 }
+    await expect(indexApi.page(query)).resolves.toMatchObject({ edges: [{}] })
+    const plans = await indexApi.explain(query)
+    expect(plans).toHaveLength(1)
+    expect(plans[0].bindings).toContain('costs $1 or ?')
+    expect(plans[0].plan).toBeTruthy()
+  })
+
+  test('record statements of concurrent runs separately', async () => {
+    await prepare(context.makeIndexApi)
+    const queryLog = new QueryLog(context.dbConnection)
+    const [first, second] = await Promise.all([
+      queryLog.record(() => context.dbConnection.from(MODEL_ID).where('custom_score', 1)),
+      queryLog.record(async () => {
+        await context.dbConnection.from(MODEL_ID).where('custom_score', 2)
+        await context.dbConnection.from(MODEL_ID).count('*')
+      }),
+    ])
+    expect(first.result).toHaveLength(1)
+    expect(first.statements.map((s) => s.bindings)).toEqual([[1]])
+    expect(second.statements.map((s) => s.bindings)).toEqual([[2], []])
+  })
+}
+
+describeIndexBackends(SQL_BACKENDS, { logger, tables: [MODEL_ID] }, (context) => {
+  queryLogTests(context)
+})
+
+describeIndexBackends([IndexBackend.LEVELDB], { logger }, (context) => {
+  test('throw as query plans are not supported', async () => {
+    const indexApi = await prepare(context.makeIndexApi)
+    await expect(indexApi.explain({ model: MODEL, first: 2 })).rejects.toThrow(
+      UnsupportedIndexFeatureError
+    )
+  })
+})
@@ -0,0 +1,267 @@
+import knex, { Knex } from 'knex'
+import { StreamID } from '@ceramicnetwork/streamid'
+import {
+  DatabaseIndexApi,
+  IndexModelArgs,
+  PostgresIndexApi,
+  SqliteIndexApi,
+} from '../database-index-api.js'
+import { RelationExpander, assertValidRelationExpansion } from '../relation-expansion.js'
+import { InvalidRelationExpansionError } from '../invalid-relation-expansion.error.js'
+import { jest } from '@jest/globals'
+import pgSetup from '@databases/pg-test/jest/globalSetup'
+import pgTeardown from '@databases/pg-test/jest/globalTeardown'
+import {
+  AnchorStatus,
+  CommitType,
+  LoggerProvider,
+  Networks,
+  RelatedNode,
+  SignatureStatus,
+  StreamState,
+  TestUtils,
+} from '@ceramicnetwork/common'
+import type { ModelDefinition } from '@ceramicnetwork/stream-model'
+import type { Repository } from '../../state-management/repository.js'
+import tmp from 'tmp-promise'
+
+const PROFILE_MODEL = StreamID.fromString(
+  'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+)
+const POST_MODEL = StreamID.fromString(
+  'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
+)
+const COMMENT_MODEL = StreamID.fromString(
+  'kjzl6hvfrbw6c86gt9j415yw2x8stmkotcrzpeutrbkp42i4z90gp5ibptz4sso'
+)
+const MODELS = [PROFILE_MODEL, POST_MODEL, COMMENT_MODEL]
+
+const DEFINITIONS: Record<string, Partial<ModelDefinition>> = {
+  [PROFILE_MODEL.toString()]: {
+    views: {
+      posts: { type: 'relationFrom', model: POST_MODEL.toString(), property: 'authorId' },
+    },
+  },
+  [POST_MODEL.toString()]: {
+    relations: { authorId: { type: 'document', model: PROFILE_MODEL.toString() } },
+    views: {
+      author: { type: 'relationDocument', model: PROFILE_MODEL.toString(), property: 'authorId' },
+      comments: { type: 'relationFrom', model: COMMENT_MODEL.toString(), property: 'postId' },
+      version: { type: 'documentVersion' },
+    },
+  },
+  [COMMENT_MODEL.toString()]: {
+    relations: {
+      postId: { type: 'document', model: POST_MODEL.toString() },
+      authorId: { type: 'account' },
+    },
+  },
+}
+
+const INDEX_MODEL_ARGS: Array<IndexModelArgs> = MODELS.map((model) => ({
+  model: model,
+  relations: DEFINITIONS[model.toString()].relations,
+}))
+
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let dbConnection: Knex
+let indexApi: DatabaseIndexApi
+let expander: RelationExpander
+let states: Map<string, StreamState>
+let createdAt: number
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+/**
+ * Create a stream of +model+ with +content+, indexed after the previously created streams.
+ */
+async function createStream(model: StreamID, content: Record<string, any>): Promise<string> {
+  const state: StreamState = {
+    type: 3,
+    content: content,
+    metadata: { controllers: ['did:key:foo'], model: model },
+    signature: SignatureStatus.GENESIS,
+    anchorStatus: AnchorStatus.NOT_REQUESTED,
+    log: [{ type: CommitType.GENESIS, cid: TestUtils.randomCID() }],
+  }
+  const streamId = new StreamID(state.type, state.log[0].cid)
+  states.set(streamId.toString(), state)
+  createdAt += 1000
+  await indexApi.indexStream({
+    model: model,
+    streamID: streamId,
+    controller: 'did:key:foo',
+    streamContent: content,
+    tip: state.log[0].cid,
+    lastAnchor: null,
+    firstAnchor: null,
+    createdAt: new Date(createdAt),
+  })
+  return streamId.toString()
+}
+
+async function prepare(api: DatabaseIndexApi) {
+  indexApi = api
+  indexApi.setSyncQueryApi({ syncComplete: () => true })
+  await indexApi.init()
+  await indexApi.indexModels(INDEX_MODEL_ARGS)
+  states = new Map()
+  createdAt = Date.now()
+  const fauxRepository = {
+    streamState: async (streamId: StreamID) => states.get(streamId.toString()),
+    load: async (streamId: StreamID) => ({
+      state: { content: DEFINITIONS[streamId.toString()] },
+    }),
+  } as unknown as Repository
+  expander = new RelationExpander(indexApi, fauxRepository)
+}
+
+const asNode = (streamId: string) => ({ node: states.get(streamId) })
+
+const contentOf = (related: unknown) => {
+  const node = related as RelatedNode<StreamState | null>
+  return node.node.content
+}
+
+function expansionTests() {
+  test('expand document relations and relationDocument views', async () => {
+    const alice = await createStream(PROFILE_MODEL, { name: 'alice' })
+    const post = await createStream(POST_MODEL, { authorId: alice, title: 'hello' })
+    const unknown = new StreamID(3, TestUtils.randomCID()).toString()
+    const orphan = await createStream(POST_MODEL, { authorId: unknown, title: 'lost author' })
+    const nodes = [asNode(post), asNode(orphan)]
+    await expander.expand(POST_MODEL, nodes, { authorId: true, author: true })
+    expect(contentOf(nodes[0].relations.authorId)).toEqual({ name: 'alice' })
+    expect(contentOf(nodes[0].relations.author)).toEqual({ name: 'alice' })
+    // Related documents missing from the state store are returned as null nodes
+    expect(nodes[1].relations).toEqual({ authorId: { node: null }, author: { node: null } })
+  })
+
+  test('expand relationFrom views in insertion order', async () => {
+    const alice = await createStream(PROFILE_MODEL, { name: 'alice' })
+    const post = await createStream(POST_MODEL, { authorId: alice, title: 'hello' })
+    const other = await createStream(POST_MODEL, { authorId: alice, title: 'other' })
+    const comments = []
+    for (let i = 0; i < 3; i++) {
+      comments.push(
+        await createStream(COMMENT_MODEL, {
+          postId: post,
+          authorId: 'did:key:foo',
+          text: `comment ${i}`,
+        })
+      )
+    }
+    await createStream(COMMENT_MODEL, { postId: other, authorId: 'did:key:foo', text: 'elsewhere' })
+    const nodes = [asNode(post)]
+    await expander.expand(POST_MODEL, nodes, { comments: true })
+    const related = nodes[0].relations.comments as Array<RelatedNode<StreamState | null>>
+    expect(related.map((node) => node.node.content.text)).toEqual([
+      'comment 0',
+      'comment 1',
+      'comment 2',
+    ])
+  })
+
+  test('expand nested relations', async () => {
+    const alice = await createStream(PROFILE_MODEL, { name: 'alice' })
+    const post = await createStream(POST_MODEL, { authorId: alice, title: 'hello' })
+    const comment = await createStream(COMMENT_MODEL, {
+      postId: post,
+      authorId: 'did:key:foo',
+      text: 'nice',
+    })
+    const nodes = [asNode(comment)]
+    await expander.expand(COMMENT_MODEL, nodes, {
+      postId: { author: { posts: true } },
+    })
+    const relatedPost = nodes[0].relations.postId as RelatedNode<StreamState | null>
+    expect(relatedPost.node.content.title).toEqual('hello')
+    const author = relatedPost.relations.author as RelatedNode<StreamState | null>
+    expect(author.node.content).toEqual({ name: 'alice' })
+    const posts = author.relations.posts as Array<RelatedNode<StreamState | null>>
+    expect(posts.map((node) => node.node.content.title)).toEqual(['hello'])
+  })
+
+  test('throw on relations that could not be expanded', async () => {
+    const alice = await createStream(PROFILE_MODEL, { name: 'alice' })
+    const post = await createStream(POST_MODEL, { authorId: alice, title: 'hello' })
+    const comment = await createStream(COMMENT_MODEL, {
+      postId: post,
+      authorId: 'did:key:foo',
+      text: 'nice',
+    })
+    await expect(expander.expand(POST_MODEL, [asNode(post)], { title: true })).rejects.toThrow(
+      InvalidRelationExpansionError
+    )
+    await expect(expander.expand(POST_MODEL, [asNode(post)], { version: true })).rejects.toThrow(
+      InvalidRelationExpansionError
+    )
+    await expect(
+      expander.expand(COMMENT_MODEL, [asNode(comment)], { authorId: true })
+    ).rejects.toThrow(InvalidRelationExpansionError)
+  })
+}
+
+describe('assertValidRelationExpansion', () => {
+  test('accept nested expansions up to the maximum depth', () => {
+    expect(() => assertValidRelationExpansion({ a: true, b: { c: { d: true } } })).not.toThrow()
+  })
+
+  test('throw on malformed expansions', () => {
+    expect(() => assertValidRelationExpansion(['a'])).toThrow(InvalidRelationExpansionError)
+    expect(() => assertValidRelationExpansion({ a: 'yes' })).toThrow(InvalidRelationExpansionError)
+    expect(() => assertValidRelationExpansion({ a: { b: { c: { d: true } } } })).toThrow(
+      /Invalid relation expansion a.b.c: relations could be expanded at most 3 levels deep/
+    )
+  })
+})
+
+describe('postgres', () => {
+  beforeAll(async () => {
+    await pgSetup()
+  })
+
+  beforeEach(async () => {
+    dbConnection = knex({
+      client: 'pg',
+      connection: process.env.DATABASE_URL,
+    })
+    await prepare(new PostgresIndexApi(dbConnection, true, logger, Networks.INMEMORY))
+  })
+
+  afterEach(async () => {
+    for (const model of MODELS) {
+      await dbConnection.schema.dropTableIfExists(model.toString())
+    }
+    await dbConnection.destroy()
+  })
+
+  afterAll(async () => {
+    await pgTeardown()
+  })
+
+  expansionTests()
+})
+
+describe('sqlite', () => {
+  let tmpFolder: tmp.DirectoryResult
+
+  beforeEach(async () => {
+    tmpFolder = await tmp.dir({ unsafeCleanup: true })
+    dbConnection = knex({
+      client: 'sqlite3',
+      useNullAsDefault: true,
+      connection: {
+        filename: `${tmpFolder.path}/tmp-ceramic.sqlite`,
+      },
+    })
+    await prepare(new SqliteIndexApi(dbConnection, true, logger, Networks.INMEMORY))
+  })
+
+  afterEach(async () => {
+    await dbConnection.destroy()
+    await tmpFolder.cleanup()
+  })
+
+  expansionTests()
+})
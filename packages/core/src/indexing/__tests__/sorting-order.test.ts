@@ -0,0 +1,155 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import { IDatabaseIndexApi, IndexStreamArgs } from '../database-index-api.js'
+import { chunks } from '../../__tests__/chunks.util.js'
+import { InvalidCursorError } from '../sorting-order.js'
+import { InvalidQuerySortingError } from '../invalid-query-sorting.error.js'
+import { jest } from '@jest/globals'
+import {
+  ALL_BACKENDS,
+  describeIndexBackends,
+  populate,
+  readLinkedFixture,
+} from './index-backends.util.js'
+import { LoggerProvider, SortOrder } from '@ceramicnetwork/common'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const RELATIONS = { linkedDoc: { type: 'document' as const, model: MODEL_ID } }
+const PAGE_SIZE = 4
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let indexApi: IDatabaseIndexApi
+let rows: Array<IndexStreamArgs>
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+/**
+ * Index fixture rows with duplicated values of `linkedDoc` relation.
+ */
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  rows = await readLinkedFixture()
+  await populate(indexApi, [{ model: MODEL, relations: RELATIONS }], rows)
+}
+
+/**
+ * Expected StreamIDs sorted by +sortValue+ then by StreamID. `null` is larger than any value.
+ */
+function expectedOrder(
+  sortValue: (row: IndexStreamArgs) => string | number | null,
+  order: SortOrder
+): Array<string> {
+  const compareValues = (a: string | number | null, b: string | number | null) => {
+    if (a === b) return 0
+    if (a === null) return 1
+    if (b === null) return -1
+    return a < b ? -1 : 1
+  }
+  return [...rows]
+    .sort((a, b) => {
+      const direction = order === 'ASC' ? 1 : -1
+      const byValue = direction * compareValues(sortValue(a), sortValue(b))
+      if (byValue !== 0) return byValue
+      return a.streamID.toString() < b.streamID.toString() ? -1 : 1
+    })
+    .map((row) => row.streamID.toString())
+}
+
+const byLinkedDoc = (row: IndexStreamArgs) => row.streamContent.linkedDoc
+const byLastAnchor = (row: IndexStreamArgs) => row.lastAnchor?.valueOf() ?? null
+
+function sortingTests() {
+  test('forward pagination by relation', async () => {
+    const expected = chunks(expectedOrder(byLinkedDoc, 'DESC'), PAGE_SIZE)
+    let afterCursor: string | undefined = undefined
+    for (let i = 0; i < expected.length; i++) {
+      const result = await indexApi.page({
+        model: MODEL,
+        sorting: { linkedDoc: 'DESC' },
+        first: PAGE_SIZE,
+        after: afterCursor,
+      })
+      afterCursor = result.pageInfo.endCursor
+      expect(result.edges.map((e) => String(e.node))).toEqual(expected[i])
+      expect(result.pageInfo.hasNextPage).toEqual(Boolean(expected[i + 1]))
+      expect(result.pageInfo.hasPreviousPage).toEqual(false)
+    }
+  })
+
+  test('backward pagination by anchor time', async () => {
+    const expected = chunks(expectedOrder(byLastAnchor, 'ASC').reverse(), PAGE_SIZE).map((arr) =>
+      arr.reverse()
+    )
+    let beforeCursor: string | undefined = undefined
+    for (let i = 0; i < expected.length; i++) {
+      const result = await indexApi.page({
+        model: MODEL,
+        sorting: { last_anchored_at: 'ASC' },
+        last: PAGE_SIZE,
+        before: beforeCursor,
+      })
+      beforeCursor = result.pageInfo.startCursor
+      expect(result.edges.map((e) => String(e.node))).toEqual(expected[i])
+      expect(result.pageInfo.hasNextPage).toEqual(false)
+      expect(result.pageInfo.hasPreviousPage).toEqual(Boolean(expected[i + 1]))
+    }
+  })
+
+  test('using edge cursor with several sorting fields', async () => {
+    const sorting = { linkedDoc: 'ASC' as const, last_anchored_at: 'DESC' as const }
+    const firstPage = await indexApi.page({ model: MODEL, sorting, first: rows.length })
+    const all = firstPage.edges.map((e) => String(e.node))
+    const after = await indexApi.page({
+      model: MODEL,
+      sorting,
+      first: 3,
+      after: firstPage.edges[4].cursor,
+    })
+    expect(after.edges.map((e) => String(e.node))).toEqual(all.slice(5, 8))
+    const before = await indexApi.page({
+      model: MODEL,
+      sorting,
+      last: 3,
+      before: firstPage.edges[4].cursor,
+    })
+    expect(before.edges.map((e) => String(e.node))).toEqual(all.slice(1, 4))
+  })
+
+  test('filtered by account', async () => {
+    const account = 'did:key:foo'
+    const expected = expectedOrder(byLinkedDoc, 'ASC').filter((streamId) => {
+      return rows.find((row) => row.streamID.toString() === streamId).controller === account
+    })
+    const result = await indexApi.page({
+      model: MODEL,
+      account: account,
+      sorting: { linkedDoc: 'ASC' },
+      first: rows.length,
+    })
+    expect(result.edges.map((e) => String(e.node))).toEqual(expected)
+  })
+
+  test('throw on invalid sorting', async () => {
+    await expect(
+      indexApi.page({ model: MODEL, sorting: { unknown: 'ASC' }, first: PAGE_SIZE })
+    ).rejects.toThrow(InvalidQuerySortingError)
+    await expect(
+      indexApi.page({ model: MODEL, sorting: { linkedDoc: 'UP' as SortOrder }, first: PAGE_SIZE })
+    ).rejects.toThrow(InvalidQuerySortingError)
+  })
+
+  test('throw on cursor from another sorting', async () => {
+    const page = await indexApi.page({ model: MODEL, first: PAGE_SIZE })
+    await expect(
+      indexApi.page({
+        model: MODEL,
+        sorting: { linkedDoc: 'ASC' },
+        first: PAGE_SIZE,
+        after: page.pageInfo.endCursor,
+      })
+    ).rejects.toThrow(InvalidCursorError)
+  })
+}
+
+describeIndexBackends(ALL_BACKENDS, { logger, prepare, tables: [MODEL_ID] }, () => {
+  sortingTests()
+})
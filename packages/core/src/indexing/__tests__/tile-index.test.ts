@@ -0,0 +1,158 @@
+import { CommitID, StreamID } from '@ceramicnetwork/streamid'
+import { IDatabaseIndexApi, INDEXED_MODEL_CONFIG_TABLE_NAME } from '../database-index-api.js'
+import { IndexTileArgs, TILE_TABLE_NAME, TILE_TAGS_TABLE_NAME } from '../tile-index.js'
+import { CONFIG_TABLE_NAME, MIGRATIONS_TABLE_NAME } from '../config.js'
+import { chunks } from '../../__tests__/chunks.util.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import { jest } from '@jest/globals'
+import {
+  IndexBackend,
+  IndexBackendContext,
+  SQL_BACKENDS,
+  describeIndexBackends,
+  populate,
+} from './index-backends.util.js'
+import { LoggerProvider, TestUtils } from '@ceramicnetwork/common'
+
+const SCHEMA = CommitID.make(new StreamID(0, TestUtils.randomCID()), TestUtils.randomCID())
+const TILES_COUNT = 12
+const PAGE_SIZE = 5
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+let indexApi: IDatabaseIndexApi
+let tiles: Array<IndexTileArgs>
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+/**
+ * Index +TILES_COUNT+ TileDocuments, alternating between two families and two controllers. Every
+ * third TileDocument has the schema.
+ */
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  await populate(indexApi, [])
+  await indexApi.initTileIndex()
+  tiles = Array.from({ length: TILES_COUNT }, (_, i) => ({
+    streamID: new StreamID(0, TestUtils.randomCID()),
+    controller: i % 2 === 0 ? 'did:key:foo' : 'did:key:bar',
+    family: i % 2 === 0 ? 'notes' : 'profiles',
+    tags: i % 4 === 0 ? ['pinned', 'public'] : ['public'],
+    ...(i % 3 === 0 && { schema: SCHEMA.toString() }),
+  }))
+  for (const tile of tiles) {
+    await indexApi.indexTile(tile)
+  }
+}
+
+const streamIds = (expected: Array<IndexTileArgs>) => {
+  return expected.map((tile) => tile.streamID.toString())
+}
+
+async function pageStreamIds(query: Parameters<IDatabaseIndexApi['tiles']>[0]) {
+  const page = await indexApi.tiles(query)
+  return page.edges.map((edge) => edge.node.toString())
+}
+
+function tileIndexTests(context: IndexBackendContext) {
+  test('index TileDocuments in the order they first got indexed', async () => {
+    await indexApi.indexTile({ ...tiles[0], family: 'archive' })
+    await expect(pageStreamIds({ first: TILES_COUNT })).resolves.toEqual(streamIds(tiles))
+    await expect(pageStreamIds({ family: 'archive', first: TILES_COUNT })).resolves.toEqual(
+      streamIds([tiles[0]])
+    )
+  })
+
+  test('forward and backward pagination', async () => {
+    const expected = chunks(streamIds(tiles), PAGE_SIZE)
+    let after: string | undefined = undefined
+    for (let i = 0; i < expected.length; i++) {
+      const page = await indexApi.tiles({ first: PAGE_SIZE, after })
+      after = page.pageInfo.endCursor
+      expect(page.edges.map((edge) => edge.node.toString())).toEqual(expected[i])
+      expect(page.pageInfo.hasNextPage).toEqual(Boolean(expected[i + 1]))
+    }
+    const expectedBackward = chunks(streamIds(tiles).reverse(), PAGE_SIZE).map((chunk) => {
+      return chunk.reverse()
+    })
+    let before: string | undefined = undefined
+    for (let i = 0; i < expectedBackward.length; i++) {
+      const page = await indexApi.tiles({ last: PAGE_SIZE, before })
+      before = page.pageInfo.startCursor
+      expect(page.edges.map((edge) => edge.node.toString())).toEqual(expectedBackward[i])
+      expect(page.pageInfo.hasPreviousPage).toEqual(Boolean(expectedBackward[i + 1]))
+    }
+  })
+
+  test('filter by family, tags, schema and controller', async () => {
+    await expect(pageStreamIds({ family: 'notes', first: TILES_COUNT })).resolves.toEqual(
+      streamIds(tiles.filter((tile) => tile.family === 'notes'))
+    )
+    await expect(
+      pageStreamIds({ tags: ['pinned', 'public'], first: TILES_COUNT })
+    ).resolves.toEqual(streamIds(tiles.filter((tile) => tile.tags.includes('pinned'))))
+    await expect(pageStreamIds({ schema: SCHEMA, first: TILES_COUNT })).resolves.toEqual(
+      streamIds(tiles.filter((tile) => tile.schema))
+    )
+    await expect(
+      pageStreamIds({ controller: 'did:key:bar', schema: SCHEMA.toString(), first: TILES_COUNT })
+    ).resolves.toEqual(
+      streamIds(tiles.filter((tile) => tile.schema && tile.controller === 'did:key:bar'))
+    )
+  })
+
+  test('replace tags of updated TileDocuments', async () => {
+    await indexApi.indexTile({ ...tiles[0], tags: ['archived'] })
+    await expect(pageStreamIds({ tags: ['archived'], first: TILES_COUNT })).resolves.toEqual(
+      streamIds([tiles[0]])
+    )
+    await expect(pageStreamIds({ tags: ['pinned'], first: TILES_COUNT })).resolves.not.toContain(
+      tiles[0].streamID.toString()
+    )
+  })
+
+  test('remove TileDocuments along with their tags', async () => {
+    await indexApi.removeTile(tiles[0].streamID)
+    await expect(pageStreamIds({ first: TILES_COUNT })).resolves.toEqual(streamIds(tiles.slice(1)))
+    await expect(
+      context.dbConnection(TILE_TAGS_TABLE_NAME).where({ stream_id: tiles[0].streamID.toString() })
+    ).resolves.toEqual([])
+    // Removing a TileDocument that is not indexed is a no-op
+    await expect(indexApi.removeTile(tiles[0].streamID)).resolves.toBeUndefined()
+  })
+}
+
+describeIndexBackends(
+  SQL_BACKENDS,
+  {
+    logger,
+    prepare,
+    tables: [
+      CONFIG_TABLE_NAME,
+      INDEXED_MODEL_CONFIG_TABLE_NAME,
+      MIGRATIONS_TABLE_NAME,
+      TILE_TABLE_NAME,
+      TILE_TAGS_TABLE_NAME,
+    ],
+  },
+  (context) => {
+    tileIndexTests(context)
+
+    test('throw if TileDocuments are not indexed', async () => {
+      const api = context.makeIndexApi()
+      await expect(api.tiles({ first: 10 })).rejects.toThrow(
+        /Query failed: TileDocuments are not indexed/
+      )
+    })
+  }
+)
+
+describeIndexBackends([IndexBackend.LEVELDB], { logger }, (context) => {
+  test('throw as the TileDocument index is not supported', async () => {
+    const api = context.makeIndexApi()
+    await populate(api, [])
+    const tile = { streamID: new StreamID(0, TestUtils.randomCID()), controller: 'did:key:foo' }
+    await expect(api.initTileIndex()).rejects.toThrow(UnsupportedIndexFeatureError)
+    await expect(api.indexTile(tile)).rejects.toThrow(UnsupportedIndexFeatureError)
+    await expect(api.removeTile(tile.streamID)).rejects.toThrow(UnsupportedIndexFeatureError)
+    await expect(api.tiles({ first: PAGE_SIZE })).rejects.toThrow(UnsupportedIndexFeatureError)
+  })
+})
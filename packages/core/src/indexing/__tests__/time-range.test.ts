@@ -0,0 +1,175 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import { IDatabaseIndexApi, IndexStreamArgs } from '../database-index-api.js'
+import { chunks } from '../../__tests__/chunks.util.js'
+import { InvalidQueryTimeRangeError } from '../invalid-query-time-range.error.js'
+import { UnsupportedIndexFeatureError } from '../unsupported-index-feature.error.js'
+import { jest } from '@jest/globals'
+import {
+  LINKED_DOCS,
+  IndexBackend,
+  SQL_BACKENDS,
+  describeIndexBackends,
+  populate,
+  readLinkedFixture,
+} from './index-backends.util.js'
+import { LoggerProvider, TimeRange } from '@ceramicnetwork/common'
+
+const MODEL_ID = 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd'
+const MODEL = StreamID.fromString(MODEL_ID)
+const RELATIONS = { linkedDoc: { type: 'document' as const, model: MODEL_ID } }
+const PAGE_SIZE = 4
+const logger = new LoggerProvider().getDiagnosticsLogger()
+
+type Row = IndexStreamArgs & { createdAt: Date; updatedAt: Date }
+
+let indexApi: IDatabaseIndexApi
+let rows: Array<Row>
+jest.setTimeout(150000) // 2.5mins timeout for initial docker fetch+init
+
+/**
+ * Index fixture rows. Rows are updated in the reverse order of their creation.
+ */
+async function prepare(api: IDatabaseIndexApi) {
+  indexApi = api
+  const fixture = await readLinkedFixture(LINKED_DOCS.slice(0, 2))
+  rows = fixture.map((row, i) => ({
+    ...row,
+    firstAnchor: row.lastAnchor ? new Date(row.lastAnchor.valueOf() - 1000) : null,
+    createdAt: row.createdAt,
+    updatedAt: new Date(20000000 - i * 1000),
+  }))
+  await populate(indexApi, [{ model: MODEL, relations: RELATIONS }], rows)
+}
+
+const within = (date: Date | null | undefined, range: TimeRange) => {
+  if (!date) return false
+  if (range.since && date < range.since) return false
+  if (range.until && date >= range.until) return false
+  return true
+}
+
+const streamIds = (selected: Array<Row>) => selected.map((row) => row.streamID.toString())
+
+function timeRangeTests() {
+  test('count entries within time ranges', async () => {
+    const created = { since: rows[3].createdAt, until: rows[10].createdAt }
+    await expect(
+      indexApi.count({ model: MODEL, timeRanges: { created_at: created } })
+    ).resolves.toEqual(7)
+
+    const anchored = { since: new Date(9950 * 1000) }
+    const expected = rows.filter((row) => within(row.lastAnchor, anchored))
+    expect(expected.length).toBeGreaterThan(0)
+    await expect(
+      indexApi.count({ model: MODEL, timeRanges: { last_anchored_at: anchored } })
+    ).resolves.toEqual(expected.length)
+
+    // Entries never anchored do not match a window on anchor time
+    const anytime = { since: new Date(0) }
+    await expect(
+      indexApi.count({ model: MODEL, timeRanges: { first_anchored_at: anytime } })
+    ).resolves.toEqual(rows.filter((row) => row.firstAnchor).length)
+  })
+
+  test('combine time ranges with account and filters', async () => {
+    const account = 'did:key:foo'
+    const updated = { until: rows[5].updatedAt }
+    const created = { since: rows[2].createdAt }
+    const expected = rows.filter((row) => {
+      return (
+        row.controller === account &&
+        row.streamContent.linkedDoc === 'doc-a' &&
+        within(row.updatedAt, updated) &&
+        within(row.createdAt, created)
+      )
+    })
+    const query = {
+      model: MODEL,
+      account,
+      filter: { linkedDoc: 'doc-a' },
+      timeRanges: { updated_at: updated, created_at: created },
+    }
+    await expect(indexApi.count(query)).resolves.toEqual(expected.length)
+    const page = await indexApi.page({ ...query, first: rows.length })
+    expect(page.edges.map((e) => String(e.node))).toEqual(streamIds(expected))
+  })
+
+  test('forward pagination by update time within a window', async () => {
+    const updated = { since: rows[17].updatedAt, until: rows[2].updatedAt }
+    // Rows are updated in the reverse order of their creation
+    const expected = chunks(streamIds(rows.slice(3, 18).reverse()), PAGE_SIZE)
+    let afterCursor: string | undefined = undefined
+    for (let i = 0; i < expected.length; i++) {
+      const result = await indexApi.page({
+        model: MODEL,
+        timeRanges: { updated_at: updated },
+        sorting: { updated_at: 'ASC' },
+        first: PAGE_SIZE,
+        after: afterCursor,
+      })
+      afterCursor = result.pageInfo.endCursor
+      expect(result.edges.map((e) => String(e.node))).toEqual(expected[i])
+      expect(result.pageInfo.hasNextPage).toEqual(Boolean(expected[i + 1]))
+    }
+  })
+
+  test('backward pagination by creation time', async () => {
+    const expected = chunks(streamIds(rows), PAGE_SIZE).map((arr) => arr.reverse())
+    let beforeCursor: string | undefined = undefined
+    for (let i = 0; i < expected.length; i++) {
+      const result = await indexApi.page({
+        model: MODEL,
+        sorting: { created_at: 'DESC' },
+        last: PAGE_SIZE,
+        before: beforeCursor,
+      })
+      beforeCursor = result.pageInfo.startCursor
+      expect(result.edges.map((e) => String(e.node))).toEqual(expected[i])
+      expect(result.pageInfo.hasPreviousPage).toEqual(Boolean(expected[i + 1]))
+    }
+  })
+
+  test('throw on invalid time ranges', async () => {
+    await expect(
+      indexApi.count({ model: MODEL, timeRanges: { indexed_at: {} } as any })
+    ).rejects.toThrow(InvalidQueryTimeRangeError)
+    await expect(
+      indexApi.count({ model: MODEL, timeRanges: { created_at: { since: 'yesterday' } } as any })
+    ).rejects.toThrow(InvalidQueryTimeRangeError)
+    await expect(
+      indexApi.page({
+        model: MODEL,
+        timeRanges: { created_at: { after: new Date() } } as any,
+        first: PAGE_SIZE,
+      })
+    ).rejects.toThrow(InvalidQueryTimeRangeError)
+  })
+}
+
+describeIndexBackends(SQL_BACKENDS, { logger, prepare, tables: [MODEL_ID] }, () => {
+  timeRangeTests()
+
+  test('aggregate within time ranges', async () => {
+    const created = { until: rows[6].createdAt }
+    const results = await indexApi.aggregate({
+      model: MODEL,
+      timeRanges: { created_at: created },
+      aggregations: { total: { function: 'count' } },
+    })
+    expect(results).toEqual([{ group: {}, values: { total: 6 } }])
+  })
+})
+
+describeIndexBackends([IndexBackend.LEVELDB], { logger, prepare }, () => {
+  timeRangeTests()
+
+  test('throw on aggregation within time ranges', async () => {
+    await expect(
+      indexApi.aggregate({
+        model: MODEL,
+        timeRanges: { created_at: { until: rows[6].createdAt } },
+        aggregations: { total: { function: 'count' } },
+      })
+    ).rejects.toThrow(UnsupportedIndexFeatureError)
+  })
+})
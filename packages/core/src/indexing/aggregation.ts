@@ -0,0 +1,178 @@
+import type { Knex } from 'knex'
+import type {
+  Aggregation,
+  AggregationFunction,
+  AggregationQuery,
+  AggregationResult,
+  FilterValue,
+} from '@ceramicnetwork/common'
+import type { ModelIndexableType } from '@ceramicnetwork/stream-model'
+import { InvalidQueryAggregationError } from './invalid-query-aggregation.error.js'
+import { applyQueryFilters } from './query-filter.js'
+import { addColumnPrefix } from './column-name.util.js'
+
+const AGGREGATION_FUNCTIONS: Array<AggregationFunction> = ['count', 'min', 'max', 'sum', 'avg']
+
+/**
+ * Functions that only make sense for numeric fields.
+ */
+const NUMERIC_FUNCTIONS: Array<AggregationFunction> = ['sum', 'avg']
+
+const NUMERIC_TYPES: Array<ModelIndexableType> = ['integer', 'number']
+
+/**
+ * Types of fields of a model that have a dedicated column in the index.
+ */
+export type ColumnFieldTypes = Record<string, ModelIndexableType>
+
+/**
+ * Check that +query+ requests at least one aggregation, that aggregations use supported
+ * functions on fields of +fieldTypes+, and that entries are grouped by fields of +fieldTypes+.
+ *
+ * @param query - Aggregation query.
+ * @param fieldTypes - Fields of a model that have a dedicated column in the index, with their types.
+ * @throws InvalidQueryAggregationError if aggregations are not valid.
+ */
+export function assertValidQueryAggregations(
+  query: AggregationQuery,
+  fieldTypes: ColumnFieldTypes
+): void {
+  const aggregations = Object.entries(query.aggregations ?? {})
+  if (aggregations.length === 0) {
+    throw new InvalidQueryAggregationError('', `no aggregations provided`)
+  }
+  for (const [name, aggregation] of aggregations) {
+    if (!AGGREGATION_FUNCTIONS.includes(aggregation?.function)) {
+      throw new InvalidQueryAggregationError(
+        name,
+        `expected function to be one of ${AGGREGATION_FUNCTIONS.join(', ')}`
+      )
+    }
+    if (aggregation.field === undefined) {
+      if (aggregation.function !== 'count') {
+        throw new InvalidQueryAggregationError(name, `${aggregation.function} requires a field`)
+      }
+      continue
+    }
+    const fieldType = fieldTypes[aggregation.field]
+    if (!fieldType) {
+      throw new InvalidQueryAggregationError(name, `field ${aggregation.field} is not indexed`)
+    }
+    if (NUMERIC_FUNCTIONS.includes(aggregation.function) && !NUMERIC_TYPES.includes(fieldType)) {
+      throw new InvalidQueryAggregationError(
+        name,
+        `${aggregation.function} requires a numeric field, ${aggregation.field} is ${fieldType}`
+      )
+    }
+  }
+  if (query.groupBy === undefined) return
+  if (!Array.isArray(query.groupBy)) {
+    throw new InvalidQueryAggregationError('groupBy', `expected an array of field names`)
+  }
+  for (const field of query.groupBy) {
+    if (!fieldTypes[field]) {
+      throw new InvalidQueryAggregationError('groupBy', `field ${field} is not indexed`)
+    }
+  }
+}
+
+/**
+ * Convert +value+ of a column, as returned by the database, to a value of +type+.
+ * SQLite stores booleans as integers, and Postgres returns 64-bit integers as strings.
+ */
+function asFieldValue(value: unknown, type: ModelIndexableType): FilterValue | null {
+  if (value === null || value === undefined) return null
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return Number(value)
+    case 'boolean':
+      return Boolean(value)
+    default:
+      return String(value)
+  }
+}
+
+function asAggregatedValue(
+  value: unknown,
+  aggregation: Aggregation,
+  fieldTypes: ColumnFieldTypes
+): FilterValue | null {
+  if (value === null || value === undefined) return null
+  switch (aggregation.function) {
+    case 'min':
+    case 'max':
+      return asFieldValue(value, fieldTypes[aggregation.field])
+    default:
+      return Number(value)
+  }
+}
+
+function selectAggregation(
+  builder: Knex.QueryBuilder,
+  fn: AggregationFunction,
+  aliased: Record<string, string>
+): Knex.QueryBuilder {
+  switch (fn) {
+    case 'count':
+      return builder.count(aliased)
+    case 'min':
+      return builder.min(aliased)
+    case 'max':
+      return builder.max(aliased)
+    case 'sum':
+      return builder.sum(aliased)
+    case 'avg':
+      return builder.avg(aliased)
+  }
+}
+
+/**
+ * Aggregate indexed fields, optionally grouped by values of indexed fields.
+ */
+export class Aggregations {
+  constructor(private readonly dbConnection: Knex) {}
+
+  /**
+   * @param query - Aggregation query.
+   * @param source - Table or derived table to query.
+   * @param fieldTypes - Fields of the model that have a dedicated column in the index, with their types.
+   */
+  async aggregate(
+    query: AggregationQuery,
+    source: string | Knex.QueryBuilder,
+    fieldTypes: ColumnFieldTypes
+  ): Promise<Array<AggregationResult>> {
+    const aggregations = Object.entries(query.aggregations)
+    const groupBy = query.groupBy ?? []
+    const groupColumns = groupBy.map(addColumnPrefix)
+    // Aggregations are aliased by position, so that aggregation names are not restricted
+    const alias = (i: number) => `aggregation_${i}`
+    let base = this.dbConnection.from(source).select(...groupColumns)
+    aggregations.forEach(([, aggregation], i) => {
+      const column = aggregation.field ? addColumnPrefix(aggregation.field) : '*'
+      base = selectAggregation(base, aggregation.function, { [alias(i)]: column })
+    })
+    if (groupColumns.length > 0) {
+      base = base.groupBy(groupColumns).orderBy(groupColumns)
+    }
+    if (query.account) {
+      base = base.where({ controller_did: query.account })
+    }
+    base = applyQueryFilters(base, query.filter)
+    const rows: Array<Record<string, unknown>> = await base
+    return rows.map((row) => {
+      return {
+        group: Object.fromEntries(
+          groupBy.map((field, i) => [field, asFieldValue(row[groupColumns[i]], fieldTypes[field])])
+        ),
+        values: Object.fromEntries(
+          aggregations.map(([name, aggregation], i) => [
+            name,
+            asAggregatedValue(row[alias(i)], aggregation, fieldTypes),
+          ])
+        ),
+      }
+    })
+  }
+}
@@ -1,4 +1,6 @@
-import { type DatabaseIndexApi, PostgresIndexApi, SqliteIndexApi } from './database-index-api.js'
+import { type IDatabaseIndexApi, PostgresIndexApi, SqliteIndexApi } from './database-index-api.js'
+import { LevelIndexApi } from './level-index-api.js'
+import { LevelDbStore } from '../store/level-db-store.js'
 import knex from 'knex'
 import { DiagnosticsLogger, Networks } from '@ceramicnetwork/common'
 import * as fs from 'fs'
@@ -23,6 +25,22 @@ export type IndexingConfig = {
    * Setting this to true allows a Ceramic node to sync historical data for actively indexed models
    */
   enableHistoricalSync: boolean
+
+  /**
+   * Log SQL statements and duration of index queries.
+   */
+  logQueries?: boolean
+
+  /**
+   * Only log index queries taking at least that many milliseconds.
+   */
+  slowQueryThreshold?: number
+
+  /**
+   * Index the pinned TileDocuments by family, tags, schema and controller.
+   * The index is brought in line with the pinned TileDocuments when the node starts.
+   */
+  indexTiles?: boolean
 }
 
 export class UnsupportedDatabaseProtocolError extends Error {
@@ -52,9 +70,13 @@ export function buildIndexing(
   indexingConfig: IndexingConfig,
   logger: DiagnosticsLogger,
   network: Networks
-): DatabaseIndexApi<Date | number> {
+): IDatabaseIndexApi {
   const connectionString = parseURL(indexingConfig.db)
   const protocol = connectionString.protocol.replace(/:$/, '')
+  const queryLogOptions = {
+    logQueries: indexingConfig.logQueries,
+    slowQueryThreshold: indexingConfig.slowQueryThreshold,
+  }
   switch (protocol) {
     case 'sqlite':
     case 'sqlite3': {
@@ -79,7 +101,8 @@ export function buildIndexing(
         dbConnection,
         indexingConfig.allowQueriesBeforeHistoricalSync,
         logger,
-        network
+        network,
+        queryLogOptions
       )
     }
     case 'postgres':
@@ -94,6 +117,17 @@ export function buildIndexing(
         dataSource,
         indexingConfig.allowQueriesBeforeHistoricalSync,
         logger,
+        network,
+        queryLogOptions
+      )
+    }
+    case 'leveldb': {
+      logger.imp('Initializing LevelDB index store')
+      const store = new LevelDbStore(connectionString.pathname, network)
+      return new LevelIndexApi(
+        store,
+        indexingConfig.allowQueriesBeforeHistoricalSync,
+        logger,
         network
       )
     }
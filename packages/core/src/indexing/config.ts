@@ -2,3 +2,8 @@
  * Ceramic node config table
  */
 export const CONFIG_TABLE_NAME = 'ceramic_config'
+
+/**
+ * Versions of the index schema migrations applied to the database
+ */
+export const MIGRATIONS_TABLE_NAME = 'ceramic_migrations'
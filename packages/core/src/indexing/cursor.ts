@@ -0,0 +1,26 @@
+import * as uint8arrays from 'uint8arrays'
+
+/**
+ * Contains functions to transform (parse and stringify) GraphQL cursors
+ * as per [GraphQL Cursor Connections Spec](https://relay.dev/graphql/connections.htm).
+ */
+export abstract class Cursor {
+  /**
+   * Decode cursor from base64url as JSON.
+   */
+  static parse(cursor: string): any {
+    return JSON.parse(uint8arrays.toString(uint8arrays.fromString(cursor, 'base64url')))
+  }
+
+  /**
+   * base64url-encode cursor from +input+ object.
+   * Return `undefined` if +input+ object is `undefined` or `null`.
+   */
+  static stringify(input: any): string | undefined {
+    if (input) {
+      return uint8arrays.toString(uint8arrays.fromString(JSON.stringify(input)), 'base64url')
+    } else {
+      return undefined
+    }
+  }
+}
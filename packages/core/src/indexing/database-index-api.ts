@@ -1,21 +1,53 @@
 import { StreamID } from '@ceramicnetwork/streamid'
 import type {
+  AggregationQuery,
+  AggregationResult,
   BaseQuery,
-  Pagination,
+  DocumentVersion,
+  HistoryQuery,
+  TileQuery,
+  IndexChange,
+  ModelIndexFilter,
+  PaginationQuery,
   Page,
   DiagnosticsLogger,
+  IndexQueryPlan,
   Networks,
 } from '@ceramicnetwork/common'
 import { Knex } from 'knex'
 import type { CID } from 'multiformats/cid'
-import { ModelRelationsDefinition } from '@ceramicnetwork/stream-model'
+import type { ModelIndexableType, ModelRelationsDefinition } from '@ceramicnetwork/stream-model'
 import { InsertionOrder } from './insertion-order.js'
+import { SortingOrder, assertValidQuerySorting } from './sorting-order.js'
 import { asTableName } from './as-table-name.util.js'
 import { IndexQueryNotAvailableError } from './index-query-not-available.error.js'
 import { TablesManager, PostgresTablesManager, SqliteTablesManager } from './tables-manager.js'
 import { addColumnPrefix } from './column-name.util.js'
+import { applyQueryFilters, assertValidQueryFilters } from './query-filter.js'
+import {
+  RELEVANCE_SORT_KEYS,
+  SEARCH_RANK_COLUMN,
+  asFts5Query,
+  assertSearchNotSorted,
+  assertValidQuerySearch,
+} from './full-text-search.js'
+import {
+  SEARCH_VECTOR_COLUMN,
+  TEXT_SEARCH_CONFIG,
+  fullTextTableName,
+} from './migrations/1-create-model-table.js'
+import { InvalidQuerySearchError } from './invalid-query-search.error.js'
+import { IndexSubscriptions } from './index-subscriptions.js'
+import { Aggregations, ColumnFieldTypes, assertValidQueryAggregations } from './aggregation.js'
+import { InvalidRelationExpansionError } from './invalid-relation-expansion.error.js'
+import { DocumentHistory } from './document-history.js'
+import { TileIndex, type IndexTileArgs } from './tile-index.js'
+import { applyQueryTimeRanges, assertValidQueryTimeRanges } from './time-range.js'
+import { matchesIndexFilter } from './index-filter.js'
+import { QueryLog, QueryLogOptions, type LoggedStatement } from './query-log.js'
 import { ISyncQueryApi } from '../sync/interfaces.js'
 import cloneDeep from 'lodash.clonedeep'
+import { Observable } from 'rxjs'
 
 export const INDEXED_MODEL_CONFIG_TABLE_NAME = 'ceramic_models'
 
@@ -27,6 +59,10 @@ export interface IndexStreamArgs {
   readonly tip: CID
   readonly lastAnchor: Date | null
   readonly firstAnchor: Date | null
+  // Whether the MID is deleted by a tombstone commit
+  readonly deleted?: boolean
+  // DID that signed the latest update of the MID, when the model delegates writes
+  readonly lastWriter?: string
 }
 
 /**
@@ -38,6 +74,24 @@ export interface IndexStreamArgs {
 export interface IndexModelArgs {
   readonly model: StreamID
   readonly relations?: ModelRelationsDefinition
+  // Top-level scalar fields of MID content stored in dedicated columns, mapped to their types
+  readonly indexedFields?: Record<string, ModelIndexableType>
+  // Top-level string fields of MID content indexed for full-text search
+  readonly fullTextFields?: Array<string>
+  // Record every indexed version of MIDs of the model
+  readonly recordHistory?: boolean
+  // Only index MIDs of the model matching the filter
+  readonly filter?: ModelIndexFilter
+}
+
+/**
+ * Entry of a model table, as compared against the state of the stream by the index consistency
+ * checker.
+ */
+export type IndexedEntry = {
+  streamId: string
+  tip: string
+  content: Record<string, any>
 }
 
 type IndexedData<DateType> = {
@@ -49,17 +103,165 @@ type IndexedData<DateType> = {
   first_anchored_at: DateType
   created_at: DateType
   updated_at: DateType
+  is_deleted: boolean
+  last_writer: string | null
+}
+
+/**
+ * Index backend, storing and querying the content of MIDs of indexed models.
+ */
+export interface IDatabaseIndexApi {
+  setSyncQueryApi(api: ISyncQueryApi): void
+
+  /**
+   * Prepare the backend to begin indexing the given models.
+   */
+  indexModels(models: Array<IndexModelArgs>): Promise<void>
+
+  /**
+   * Mark a list of models as no longer indexed.
+   */
+  stopIndexingModels(models: Array<StreamID>): Promise<void>
+
+  /**
+   * True if a MID with +controller+ and +content+ matches the filter of +model+, if any.
+   */
+  matchesIndexFilter(model: StreamID, controller: string, content: Record<string, any>): boolean
+
+  /**
+   * Insert or update the index entry of a stream.
+   */
+  indexStream(indexingArgs: IndexStreamArgs & { createdAt?: Date; updatedAt?: Date }): Promise<void>
+
+  /**
+   * Entries of the index of +model+, ordered by StreamID. Returns at most +limit+ entries with
+   * StreamID greater than +after+.
+   */
+  indexedEntries(model: StreamID, limit: number, after?: string): Promise<Array<IndexedEntry>>
+
+  /**
+   * Subset of +streamIds+ that have an entry in the index of +model+.
+   */
+  indexedStreamIds(model: StreamID, streamIds: Array<string>): Promise<Set<string>>
+
+  /**
+   * Remove entries of +streamIds+ from the index of +model+.
+   */
+  removeStreams(model: StreamID, streamIds: Array<string>): Promise<void>
+
+  /**
+   * Remove every entry from the index of +model+, so that it could be rebuilt from scratch.
+   */
+  clearModel(model: StreamID): Promise<void>
+
+  /**
+   * Models actively indexed by the node.
+   */
+  getIndexedModels(): Array<StreamID>
+  getIndexedFieldsFromDatabase(): Promise<Record<string, Array<string>>>
+  getIndexFiltersFromDatabase(): Promise<Record<string, ModelIndexFilter>>
+  getHistoryModelsFromDatabase(): Promise<Array<string>>
+  getModelsNoLongerIndexed(): Promise<Array<StreamID>>
+
+  count(query: BaseQuery): Promise<number>
+  aggregate(query: AggregationQuery): Promise<Array<AggregationResult>>
+  page(query: PaginationQuery): Promise<Page<StreamID>>
+  history(query: HistoryQuery): Promise<Page<DocumentVersion>>
+  subscribe(query: BaseQuery): Observable<IndexChange<StreamID>>
+
+  /**
+   * Prepare the backend to index TileDocuments.
+   */
+  initTileIndex(): Promise<void>
+
+  /**
+   * Insert or update the index entry of a TileDocument.
+   */
+  indexTile(args: IndexTileArgs): Promise<void>
+
+  /**
+   * Remove the index entry of a TileDocument.
+   */
+  removeTile(streamID: StreamID): Promise<void>
+
+  /**
+   * StreamIDs of the indexed TileDocuments matching +query+, in the order they first got indexed.
+   */
+  tiles(query: TileQuery): Promise<Page<StreamID>>
+
+  /**
+   * Run +query+ as `page` does, and explain the plans the database chose for its SQL statements.
+   */
+  explain(query: PaginationQuery): Promise<Array<IndexQueryPlan>>
+
+  /**
+   * StreamIDs of the documents referenced by the relation +field+ of +streamIds+ documents of
+   * +model+, keyed by StreamID of the referencing document.
+   */
+  relatedDocuments(
+    model: StreamID | string,
+    field: string,
+    streamIds: Array<string>
+  ): Promise<Map<string, string>>
+
+  /**
+   * StreamIDs of the documents of +model+ referencing +streamIds+ through their relation +field+,
+   * keyed by StreamID of the referenced document, at most +limit+ for each referenced document.
+   */
+  relatingDocuments(
+    model: StreamID | string,
+    field: string,
+    streamIds: Array<string>,
+    limit: number
+  ): Promise<Map<string, Array<string>>>
+
+  /**
+   * Run startup operations.
+   */
+  init(): Promise<void>
+
+  /**
+   * Release the underlying storage.
+   */
+  close(): Promise<void>
+}
+
+/**
+ * Format a logged SQL statement, with its bindings and duration.
+ */
+function formatStatement(statement: LoggedStatement): string {
+  return `${statement.sql} ${JSON.stringify(statement.bindings)} (${statement.duration}ms)`
 }
 
 /**
  * Base class for an index backend.
  */
-export abstract class DatabaseIndexApi<DateType = Date | number> {
+export abstract class DatabaseIndexApi<DateType extends Date | number = Date | number>
+  implements IDatabaseIndexApi
+{
   private readonly insertionOrder: InsertionOrder
+  private readonly sortingOrder: SortingOrder
+  private readonly subscriptions: IndexSubscriptions
+  private readonly aggregations: Aggregations
+  private readonly documentHistory: DocumentHistory
+  private readonly tileIndex: TileIndex
   private indexedModels: Array<StreamID> = []
   // Maps Model streamIDs to the list of fields in the content of MIDs that the model has a relation
   // to
   private readonly modelRelations = new Map<string, Array<string>>()
+  // Maps Model streamIDs to the scalar fields in the content of MIDs that are indexed, with their
+  // types
+  private readonly modelIndexedFields = new Map<string, Record<string, ModelIndexableType>>()
+  // Maps Model streamIDs to the list of string fields in the content of MIDs that are indexed for
+  // full-text search
+  private readonly modelFullTextFields = new Map<string, Array<string>>()
+  // Model streamIDs for which every indexed version of MIDs is recorded
+  private readonly modelsWithHistory = new Set<string>()
+  // Maps Model streamIDs to the filter MIDs have to match to be indexed
+  private readonly modelFilters = new Map<string, ModelIndexFilter>()
+  // Whether TileDocuments are indexed
+  private tilesIndexed = false
+  private readonly queryLog: QueryLog
   tablesManager: TablesManager
   syncApi: ISyncQueryApi
 
@@ -67,9 +269,16 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
     protected readonly dbConnection: Knex,
     private readonly allowQueriesBeforeHistoricalSync: boolean,
     private readonly logger: DiagnosticsLogger,
-    private readonly network: Networks
+    private readonly network: Networks,
+    private readonly queryLogOptions: QueryLogOptions = {}
   ) {
+    this.queryLog = new QueryLog(dbConnection)
     this.insertionOrder = new InsertionOrder(dbConnection)
+    this.sortingOrder = new SortingOrder(dbConnection)
+    this.subscriptions = new IndexSubscriptions(dbConnection, (query) => this.querySource(query))
+    this.aggregations = new Aggregations(dbConnection)
+    this.documentHistory = new DocumentHistory(dbConnection, (date) => this.asDatabaseTime(date))
+    this.tileIndex = new TileIndex(dbConnection)
   }
 
   abstract getIndexedData(
@@ -77,6 +286,44 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
   ): IndexedData<DateType>
   abstract now(): DateType
 
+  /**
+   * Convert +date+ to the type of timestamp columns of the database.
+   */
+  abstract asDatabaseTime(date: Date): DateType
+
+  /**
+   * Select entries of the model table matching full-text +search+, along with their relevance
+   * as `search_rank` column.
+   */
+  abstract searchMatches(tableName: string, search: string): Knex.QueryBuilder
+
+  /**
+   * Update the full-text search index for a stream, after the stream is indexed.
+   */
+  protected abstract indexSearchDocument(
+    tableName: string,
+    indexingArgs: IndexStreamArgs,
+    fullTextFields: Array<string>
+  ): Promise<void>
+
+  /**
+   * Remove streams from the full-text search index, before they are removed from the model table.
+   */
+  protected abstract removeSearchDocuments(
+    tableName: string,
+    streamIds: Array<string>
+  ): Promise<void>
+
+  /**
+   * Remove every entry of the model table +tableName+ from the full-text search index.
+   */
+  protected abstract clearSearchDocuments(tableName: string): Promise<void>
+
+  /**
+   * Output of `EXPLAIN` for a +statement+, as logged by knex.
+   */
+  protected abstract explainStatement(statement: LoggedStatement): Promise<unknown>
+
   setSyncQueryApi(api: ISyncQueryApi) {
     this.syncApi = api
   }
@@ -96,8 +343,32 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
       if (!foundModelToIndex) {
         this.indexedModels.push(modelArgs.model)
       }
+      // Replace the whole configuration of the model, a later call can narrow it
+      const key = modelArgs.model.toString()
       if (modelArgs.relations) {
-        this.modelRelations.set(modelArgs.model.toString(), Object.keys(modelArgs.relations))
+        this.modelRelations.set(key, Object.keys(modelArgs.relations))
+      } else {
+        this.modelRelations.delete(key)
+      }
+      if (modelArgs.indexedFields) {
+        this.modelIndexedFields.set(key, modelArgs.indexedFields)
+      } else {
+        this.modelIndexedFields.delete(key)
+      }
+      if (modelArgs.fullTextFields) {
+        this.modelFullTextFields.set(key, modelArgs.fullTextFields)
+      } else {
+        this.modelFullTextFields.delete(key)
+      }
+      if (modelArgs.recordHistory) {
+        this.modelsWithHistory.add(key)
+      } else {
+        this.modelsWithHistory.delete(key)
+      }
+      if (modelArgs.filter) {
+        this.modelFilters.set(key, modelArgs.filter)
+      } else {
+        this.modelFilters.delete(key)
       }
     }
   }
@@ -106,6 +377,9 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
     if (models.length === 0) return
     await this.tablesManager.initMidTables(models)
     await this.tablesManager.verifyTables(models)
+    if (models.some((indexModelArgs) => indexModelArgs.recordHistory)) {
+      await this.tablesManager.initHistoryTable()
+    }
     //
     // : CDB-1866 - populate the updated_by field properly when auth is implemented
     await this.dbConnection(INDEXED_MODEL_CONFIG_TABLE_NAME)
@@ -114,6 +388,11 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
           return {
             model: indexModelArgs.model.toString(),
             updated_by: '0', // TODO: FIXME: CDB-1866 - <FIXME: PUT ADMIN DID WHEN AUTH IS IMPLEMENTED>',
+            indexed_fields: indexModelArgs.indexedFields
+              ? JSON.stringify(Object.keys(indexModelArgs.indexedFields))
+              : null,
+            record_history: Boolean(indexModelArgs.recordHistory),
+            index_filter: indexModelArgs.filter ? JSON.stringify(indexModelArgs.filter) : null,
           }
         })
       )
@@ -122,6 +401,9 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
         updated_at: this.now(),
         is_indexed: true,
         updated_by: '0', // TODO: FIXME: CDB-1866 - <FIXME: PUT ADMIN DID WHEN AUTH IS IMPLEMENTED>',
+        indexed_fields: this.dbConnection.raw('excluded.indexed_fields'),
+        record_history: this.dbConnection.raw('excluded.record_history'),
+        index_filter: this.dbConnection.raw('excluded.index_filter'),
       })
   }
 
@@ -158,23 +440,130 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
       })
   }
 
+  /**
+   * True if a MID with +controller+ and +content+ matches the filter of +model+, if any.
+   */
+  matchesIndexFilter(model: StreamID, controller: string, content: Record<string, any>): boolean {
+    const filter = this.modelFilters.get(model.toString())
+    return !filter || matchesIndexFilter(filter, controller, content)
+  }
+
   /**
    * This method inserts the stream if it is not present in the index, or updates
    * the 'content' if the stream already exists in the index.
+   * Streams not matching the filter of their model are removed from the index instead.
    * @param indexingArgs
    */
   async indexStream(
     indexingArgs: IndexStreamArgs & { createdAt?: Date; updatedAt?: Date }
   ): Promise<void> {
+    if (
+      !this.matchesIndexFilter(
+        indexingArgs.model,
+        indexingArgs.controller,
+        indexingArgs.streamContent
+      )
+    ) {
+      // A previous version of the stream could have matched the filter
+      await this.removeStreams(indexingArgs.model, [indexingArgs.streamID.toString()])
+      return
+    }
     const tableName = asTableName(indexingArgs.model)
     const indexedData = this.getIndexedData(indexingArgs)
     const fields = this.modelRelations.get(indexingArgs.model.toString()) ?? []
     for (const field of fields) {
       indexedData[addColumnPrefix(field)] = indexingArgs.streamContent[field]
     }
+    const indexedFields = this.modelIndexedFields.get(indexingArgs.model.toString()) ?? {}
+    for (const field of Object.keys(indexedFields)) {
+      indexedData[addColumnPrefix(field)] = indexingArgs.streamContent[field] ?? null
+    }
     const toMerge = cloneDeep(indexedData)
     delete toMerge.created_at
-    await this.dbConnection(tableName).insert(indexedData).onConflict('stream_id').merge(toMerge)
+    const fullTextFields = this.modelFullTextFields.get(indexingArgs.model.toString())
+    await this.subscriptions.trackChanges(indexingArgs.model, indexingArgs.streamID, async () => {
+      await this.dbConnection(tableName).insert(indexedData).onConflict('stream_id').merge(toMerge)
+      if (fullTextFields) {
+        await this.indexSearchDocument(tableName, indexingArgs, fullTextFields)
+      }
+    })
+    if (this.modelsWithHistory.has(indexingArgs.model.toString())) {
+      await this.documentHistory.record(indexingArgs.model, {
+        stream_id: indexedData.stream_id,
+        controller_did: indexedData.controller_did,
+        stream_content: indexedData.stream_content,
+        tip: indexedData.tip,
+        last_anchored_at: indexedData.last_anchored_at,
+        created_at: indexedData.updated_at,
+      })
+    }
+  }
+
+  /**
+   * Entries of the table of +model+, ordered by StreamID. Returns at most +limit+ entries with
+   * StreamID greater than +after+.
+   */
+  async indexedEntries(
+    model: StreamID,
+    limit: number,
+    after?: string
+  ): Promise<Array<IndexedEntry>> {
+    let query = this.dbConnection
+      .from(asTableName(model))
+      .select('stream_id', 'tip', 'stream_content')
+      .orderBy('stream_id')
+      .limit(limit)
+    if (after) {
+      query = query.where('stream_id', '>', after)
+    }
+    const rows: Array<{ stream_id: string; tip: string; stream_content: unknown }> = await query
+    return rows.map((row) => ({
+      streamId: row.stream_id,
+      tip: row.tip,
+      content:
+        typeof row.stream_content === 'string'
+          ? JSON.parse(row.stream_content)
+          : (row.stream_content as Record<string, any>),
+    }))
+  }
+
+  /**
+   * Subset of +streamIds+ that have an entry in the table of +model+.
+   */
+  async indexedStreamIds(model: StreamID, streamIds: Array<string>): Promise<Set<string>> {
+    const rows: Array<{ stream_id: string }> = await this.dbConnection
+      .from(asTableName(model))
+      .select('stream_id')
+      .whereIn('stream_id', streamIds)
+    return new Set(rows.map((row) => row.stream_id))
+  }
+
+  /**
+   * Remove entries of +streamIds+ from the index of +model+. Subscribers to queries on the model
+   * get notified of the removal.
+   */
+  async removeStreams(model: StreamID, streamIds: Array<string>): Promise<void> {
+    const tableName = asTableName(model)
+    const fullTextFields = this.modelFullTextFields.get(model.toString())
+    for (const streamId of streamIds) {
+      await this.subscriptions.trackChanges(model, StreamID.fromString(streamId), async () => {
+        if (fullTextFields) {
+          await this.removeSearchDocuments(tableName, [streamId])
+        }
+        await this.dbConnection(tableName).where({ stream_id: streamId }).delete()
+      })
+    }
+  }
+
+  /**
+   * Remove every entry from the table of +model+, along with its full-text search documents.
+   */
+  async clearModel(model: StreamID): Promise<void> {
+    const tableName = asTableName(model)
+    if (this.modelFullTextFields.has(model.toString())) {
+      await this.clearSearchDocuments(tableName)
+    }
+    await this.dbConnection(tableName).delete()
   }
 
   /**
@@ -199,6 +588,41 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
     })
   }
 
+  /**
+   * Get scalar fields indexed for each model, as persisted in the database, keyed by model StreamID.
+   */
+  async getIndexedFieldsFromDatabase(): Promise<Record<string, Array<string>>> {
+    const rows: Array<{ model: string; indexed_fields: string | null }> = await this.dbConnection(
+      INDEXED_MODEL_CONFIG_TABLE_NAME
+    )
+      .select('model', 'indexed_fields')
+      .whereNotNull('indexed_fields')
+    return Object.fromEntries(rows.map((row) => [row.model, JSON.parse(row.indexed_fields)]))
+  }
+
+  /**
+   * Get filters restricting the MIDs to index for each model, as persisted in the database, keyed
+   * by model StreamID.
+   */
+  async getIndexFiltersFromDatabase(): Promise<Record<string, ModelIndexFilter>> {
+    const rows: Array<{ model: string; index_filter: string | null }> = await this.dbConnection(
+      INDEXED_MODEL_CONFIG_TABLE_NAME
+    )
+      .select('model', 'index_filter')
+      .whereNotNull('index_filter')
+    return Object.fromEntries(rows.map((row) => [row.model, JSON.parse(row.index_filter)]))
+  }
+
+  /**
+   * Get StreamIDs of models for which the history of MIDs is recorded, as persisted in the database.
+   */
+  async getHistoryModelsFromDatabase(): Promise<Array<string>> {
+    const rows: Array<{ model: string }> = await this.dbConnection(INDEXED_MODEL_CONFIG_TABLE_NAME)
+      .select('model')
+      .where({ record_history: true })
+    return rows.map((row) => row.model)
+  }
+
   async getModelsNoLongerIndexed(): Promise<Array<StreamID>> {
     return (
       await this.dbConnection(INDEXED_MODEL_CONFIG_TABLE_NAME).select('model').where({
@@ -246,6 +670,72 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
     }
   }
 
+  /**
+   * Fields of MID content that have a dedicated column in the index: relations and indexed
+   * scalar fields.
+   */
+  private indexedColumnFields(model: StreamID | string): Array<string> {
+    return Object.keys(this.indexedColumnTypes(model))
+  }
+
+  /**
+   * Types of the fields of MID content that have a dedicated column in the index. Relations are
+   * stored as StreamID strings.
+   */
+  private indexedColumnTypes(model: StreamID | string): ColumnFieldTypes {
+    const relations = this.modelRelations.get(model.toString()) ?? []
+    const indexedFields = this.modelIndexedFields.get(model.toString()) ?? {}
+    const types: ColumnFieldTypes = {}
+    for (const field of relations) {
+      types[field] = 'string'
+    }
+    return Object.assign(types, indexedFields)
+  }
+
+  /**
+   * Ensures that the query filters are well-formed and only target indexed fields of the model,
+   * and throws if not.
+   */
+  assertQueryFiltersValid(query: BaseQuery): void {
+    if (!query.filter) return
+    assertValidQueryFilters(query.filter, this.indexedColumnFields(query.model))
+  }
+
+  /**
+   * Ensures that the query time ranges only target timestamps of entries, and throws if not.
+   */
+  assertQueryTimeRangesValid(query: BaseQuery): void {
+    if (!query.timeRanges) return
+    assertValidQueryTimeRanges(query.timeRanges)
+  }
+
+  /**
+   * Ensures that the query sorting only targets indexed fields of the model or timestamps of
+   * entries, and throws if not.
+   */
+  assertQuerySortingValid(query: PaginationQuery): void {
+    if (!query.sorting) return
+    assertValidQuerySorting(query.sorting, this.indexedColumnFields(query.model))
+  }
+
+  /**
+   * Ensures that the query search is well-formed and targets a model with fields indexed for
+   * full-text search, and throws if not.
+   */
+  assertQuerySearchValid(query: PaginationQuery | BaseQuery): void {
+    if (query.search === undefined) return
+    const fullTextFields = this.modelFullTextFields.get(query.model.toString()) ?? []
+    assertValidQuerySearch(query, fullTextFields)
+  }
+
+  /**
+   * Ensures that the query aggregations use supported functions on indexed fields of the model,
+   * and that entries are only grouped by indexed fields, and throws if not.
+   */
+  assertQueryAggregationsValid(query: AggregationQuery): void {
+    assertValidQueryAggregations(query, this.indexedColumnTypes(query.model))
+  }
+
   abstract getCountFromResult(response: Array<Record<string, string | number>>): number
 
   /**
@@ -253,28 +743,249 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
    */
   async count(query: BaseQuery): Promise<number> {
     await this.assertModelQueryable(query.model)
+    this.assertQueryFiltersValid(query)
+    this.assertQueryTimeRangesValid(query)
+    this.assertQuerySearchValid(query)
+    return this.logged('count', query, () => this.countInDatabase(query))
+  }
 
-    const tableName = asTableName(query.model)
-    let dbQuery = this.dbConnection(tableName).count('*')
+  private async countInDatabase(query: BaseQuery): Promise<number> {
+    let dbQuery = this.dbConnection.from(this.querySource(query)).count('*')
     if (query.account) {
       dbQuery = dbQuery.where({ controller_did: query.account })
     }
-    if (query.filter) {
-      for (const [key, value] of Object.entries(query.filter)) {
-        const filterObj = {}
-        filterObj[addColumnPrefix(key)] = value
-        dbQuery = dbQuery.andWhere(filterObj)
-      }
-    }
+    dbQuery = applyQueryFilters(dbQuery, query.filter)
     return dbQuery.then((response) => this.getCountFromResult(response))
   }
 
+  /**
+   * Aggregate indexed fields of suitable indexed records, optionally grouped by indexed fields.
+   */
+  async aggregate(query: AggregationQuery): Promise<Array<AggregationResult>> {
+    await this.assertModelQueryable(query.model)
+    this.assertQueryFiltersValid(query)
+    this.assertQueryTimeRangesValid(query)
+    this.assertQuerySearchValid(query)
+    this.assertQueryAggregationsValid(query)
+    return this.aggregations.aggregate(
+      query,
+      this.querySource(query),
+      this.indexedColumnTypes(query.model)
+    )
+  }
+
+  /**
+   * StreamIDs of the documents referenced by the relation +field+ of +streamIds+ documents of
+   * +model+, keyed by StreamID of the referencing document. Documents without the relation set are
+   * omitted.
+   */
+  async relatedDocuments(
+    model: StreamID | string,
+    field: string,
+    streamIds: Array<string>
+  ): Promise<Map<string, string>> {
+    await this.assertRelationQueryable(model, field)
+    const column = addColumnPrefix(field)
+    const rows: Array<Record<string, string | null>> = await this.dbConnection
+      .from(asTableName(model))
+      .select('stream_id', column)
+      .whereIn('stream_id', streamIds)
+      .whereNotNull(column)
+    return new Map(rows.map((row) => [row.stream_id, row[column]]))
+  }
+
+  /**
+   * StreamIDs of the documents of +model+ referencing +streamIds+ through their relation +field+,
+   * keyed by StreamID of the referenced document. At most +limit+ documents are returned for each
+   * referenced document, in insertion order.
+   */
+  async relatingDocuments(
+    model: StreamID | string,
+    field: string,
+    streamIds: Array<string>,
+    limit: number
+  ): Promise<Map<string, Array<string>>> {
+    await this.assertRelationQueryable(model, field)
+    const column = addColumnPrefix(field)
+    const ranked = this.dbConnection
+      .from(asTableName(model))
+      .select('stream_id', `${column} as related_id`)
+      .select(
+        this.dbConnection.raw(
+          'row_number() over (partition by ?? order by created_at, stream_id) as related_rank',
+          [column]
+        )
+      )
+      .whereIn(column, streamIds)
+      .where('is_deleted', false)
+      .as('ranked')
+    const rows: Array<{ stream_id: string; related_id: string }> = await this.dbConnection
+      .from(ranked)
+      .select('stream_id', 'related_id')
+      .where('related_rank', '<=', limit)
+      .orderBy(['related_id', 'related_rank'])
+    const result = new Map<string, Array<string>>()
+    for (const row of rows) {
+      const relating = result.get(row.related_id) ?? []
+      relating.push(row.stream_id)
+      result.set(row.related_id, relating)
+    }
+    return result
+  }
+
+  private async assertRelationQueryable(model: StreamID | string, field: string): Promise<void> {
+    await this.assertModelQueryable(model)
+    const relations = this.modelRelations.get(model.toString()) ?? []
+    if (!relations.includes(field)) {
+      throw new InvalidRelationExpansionError(field, `not a relation of Model ${model.toString()}`)
+    }
+  }
+
+  /**
+   * Table to select entries matching +query+ from: the model table, or the entries matching the
+   * full-text search of the query, restricted to the time ranges of the query. Deleted entries are
+   * left out, unless the query includes them.
+   */
+  private querySource(query: BaseQuery): string | Knex.QueryBuilder {
+    const tableName = asTableName(query.model)
+    const source =
+      query.search === undefined
+        ? tableName
+        : this.searchMatches(tableName, query.search).as('matches')
+    if (!query.timeRanges && query.includeDeleted) return source
+    let entries = this.dbConnection.from(source).select('*')
+    if (!query.includeDeleted) {
+      entries = entries.where('is_deleted', false)
+    }
+    if (query.timeRanges) {
+      entries = applyQueryTimeRanges(entries, query.timeRanges, (date) => this.asDatabaseTime(date))
+    }
+    return entries.as('entries')
+  }
+
   /**
    * Query the index.
    */
-  async page(query: BaseQuery & Pagination): Promise<Page<StreamID>> {
+  async page(query: PaginationQuery): Promise<Page<StreamID>> {
     await this.assertModelQueryable(query.model)
-    return this.insertionOrder.page(query)
+    this.assertQueryFiltersValid(query)
+    this.assertQueryTimeRangesValid(query)
+    return this.logged('page', query, () => this.pageInDatabase(query))
+  }
+
+  private async pageInDatabase(query: PaginationQuery): Promise<Page<StreamID>> {
+    if (query.search !== undefined) {
+      this.assertQuerySearchValid(query)
+      assertSearchNotSorted(query)
+      return this.sortingOrder.page(query, RELEVANCE_SORT_KEYS, this.querySource(query))
+    }
+    if (query.sorting && Object.keys(query.sorting).length > 0) {
+      this.assertQuerySortingValid(query)
+      return this.sortingOrder.page(query, undefined, this.querySource(query))
+    }
+    return this.insertionOrder.page(query, this.querySource(query))
+  }
+
+  /**
+   * Run +query+ as `page` does, and explain the plans the database chose for the SQL statements
+   * it ran.
+   */
+  async explain(query: PaginationQuery): Promise<Array<IndexQueryPlan>> {
+    const { statements } = await this.queryLog.record(() => this.page(query))
+    const plans: Array<IndexQueryPlan> = []
+    for (const statement of statements) {
+      const plan = await this.explainStatement(statement)
+      plans.push({ sql: statement.sql, bindings: statement.bindings, plan })
+    }
+    return plans
+  }
+
+  /**
+   * Run +fn+ for a +kind+ index query. If query logging is enabled, log the SQL statements it ran
+   * when it takes at least the slow-query threshold.
+   */
+  private async logged<T>(kind: string, query: BaseQuery, fn: () => Promise<T>): Promise<T> {
+    if (!this.queryLogOptions.logQueries) return fn()
+    const { result, statements, duration } = await this.queryLog.record(fn)
+    if (duration >= (this.queryLogOptions.slowQueryThreshold ?? 0)) {
+      this.logger.imp(
+        `Index ${kind} query on Model ${query.model.toString()} took ${duration}ms: ${statements
+          .map(formatStatement)
+          .join('; ')}`
+      )
+    }
+    return result
+  }
+
+  /**
+   * Versions of MIDs matching +query+, in the order they got indexed.
+   */
+  async history(query: HistoryQuery): Promise<Page<DocumentVersion>> {
+    await this.assertModelQueryable(query.model)
+    if (!this.modelsWithHistory.has(query.model.toString())) {
+      throw new Error(`Query failed: History of Model ${query.model.toString()} is not recorded`)
+    }
+    return this.documentHistory.page(query)
+  }
+
+  /**
+   * Create the tables indexing TileDocuments, and start accepting `indexTile` calls.
+   */
+  async initTileIndex(): Promise<void> {
+    await this.tablesManager.initTileTables()
+    this.tilesIndexed = true
+  }
+
+  /**
+   * Insert or update the entry of a TileDocument in the index.
+   */
+  async indexTile(args: IndexTileArgs): Promise<void> {
+    if (!this.tilesIndexed) return
+    await this.tileIndex.record(args)
+  }
+
+  /**
+   * Remove the entry of a TileDocument from the index.
+   */
+  async removeTile(streamID: StreamID): Promise<void> {
+    if (!this.tilesIndexed) return
+    await this.tileIndex.remove(streamID)
+  }
+
+  /**
+   * StreamIDs of TileDocuments matching +query+, in the order they first got indexed.
+   */
+  async tiles(query: TileQuery): Promise<Page<StreamID>> {
+    if (!this.tilesIndexed) {
+      throw new Error(`Query failed: TileDocuments are not indexed`)
+    }
+    return this.tileIndex.page(query)
+  }
+
+  /**
+   * Emit changes of the entries matching +query+, as streams get indexed.
+   */
+  subscribe(query: BaseQuery): Observable<IndexChange<StreamID>> {
+    return new Observable((subscriber) => {
+      let unsubscribe: (() => void) | undefined
+      this.assertQuerySubscribable(query)
+        .then(() => {
+          if (!subscriber.closed) {
+            unsubscribe = this.subscriptions.add(query, subscriber)
+          }
+        })
+        .catch((error) => subscriber.error(error))
+      return () => unsubscribe?.()
+    })
+  }
+
+  private async assertQuerySubscribable(query: BaseQuery): Promise<void> {
+    await this.assertModelQueryable(query.model)
+    this.assertQueryFiltersValid(query)
+    this.assertQueryTimeRangesValid(query)
+    if (query.search !== undefined) {
+      throw new InvalidQuerySearchError('not supported in subscriptions')
+    }
   }
 
   /**
@@ -282,6 +993,7 @@ export abstract class DatabaseIndexApi<DateType = Date | number> {
    */
   async init(): Promise<void> {
     await this.tablesManager.initConfigTables(this.network)
+    await this.tablesManager.runMigrations()
     this.indexedModels = await this.getIndexedModelsFromDatabase()
   }
 
@@ -298,9 +1010,10 @@ export class PostgresIndexApi extends DatabaseIndexApi<Date> {
     dbConnection: Knex,
     allowQueriesBeforeHistoricalSync: boolean,
     logger: DiagnosticsLogger,
-    network: Networks
+    network: Networks,
+    queryLogOptions: QueryLogOptions = {}
   ) {
-    super(dbConnection, allowQueriesBeforeHistoricalSync, logger, network)
+    super(dbConnection, allowQueriesBeforeHistoricalSync, logger, network, queryLogOptions)
     this.tablesManager = new PostgresTablesManager(dbConnection, logger)
   }
 
@@ -309,10 +1022,53 @@ export class PostgresIndexApi extends DatabaseIndexApi<Date> {
     return new Date()
   }
 
+  asDatabaseTime(date: Date): Date {
+    return date
+  }
+
   getCountFromResult(response: Array<Record<string, string | number>>): number {
     return Number(response[0]['count'])
   }
 
+  searchMatches(tableName: string, search: string): Knex.QueryBuilder {
+    const tsQuery = this.dbConnection.raw(`plainto_tsquery(?, ?)`, [TEXT_SEARCH_CONFIG, search])
+    // Rank as double precision, so that it is represented exactly in a cursor
+    return this.dbConnection(tableName)
+      .select(
+        `${tableName}.*`,
+        this.dbConnection.raw(`ts_rank(??, ?)::float8 AS ??`, [
+          SEARCH_VECTOR_COLUMN,
+          tsQuery,
+          SEARCH_RANK_COLUMN,
+        ])
+      )
+      .whereRaw(`?? @@ ?`, [SEARCH_VECTOR_COLUMN, tsQuery])
+  }
+
+  protected async indexSearchDocument(): Promise<void> {
+    // The full-text search document is a generated column, updated by Postgres itself
+  }
+
+  protected async removeSearchDocuments(): Promise<void> {
+    // The full-text search document is removed along with the entry
+  }
+
+  protected async clearSearchDocuments(): Promise<void> {
+    // The full-text search documents are removed along with the entries
+  }
+
+  protected async explainStatement(statement: LoggedStatement): Promise<unknown> {
+    if (!statement.query) {
+      throw new Error(
+        `Unable to explain statement ${statement.sql}, it was not run by a query builder`
+      )
+    }
+    // The statement is rendered by its knex builder with bindings inlined, so that placeholders
+    // do not have to be translated from the Postgres positional ones knex logs
+    const result = await this.dbConnection.raw(`EXPLAIN (FORMAT JSON) ${statement.query}`)
+    return result.rows[0]['QUERY PLAN']
+  }
+
   getIndexedData(
     indexingArgs: IndexStreamArgs & { createdAt?: Date; updatedAt?: Date }
   ): IndexedData<Date> {
@@ -326,6 +1082,8 @@ export class PostgresIndexApi extends DatabaseIndexApi<Date> {
       first_anchored_at: indexingArgs.firstAnchor,
       created_at: indexingArgs.createdAt || now,
       updated_at: indexingArgs.updatedAt || now,
+      is_deleted: Boolean(indexingArgs.deleted),
+      last_writer: indexingArgs.lastWriter ?? null,
     }
   }
 }
@@ -346,9 +1104,10 @@ export class SqliteIndexApi extends DatabaseIndexApi<number> {
     dbConnection: Knex,
     allowQueriesBeforeHistoricalSync: boolean,
     logger: DiagnosticsLogger,
-    network: Networks
+    network: Networks,
+    queryLogOptions: QueryLogOptions = {}
   ) {
-    super(dbConnection, allowQueriesBeforeHistoricalSync, logger, network)
+    super(dbConnection, allowQueriesBeforeHistoricalSync, logger, network, queryLogOptions)
     this.tablesManager = new SqliteTablesManager(dbConnection, logger)
   }
 
@@ -356,10 +1115,60 @@ export class SqliteIndexApi extends DatabaseIndexApi<number> {
     return new Date().valueOf()
   }
 
+  asDatabaseTime(date: Date): number {
+    return asTimestamp(date)
+  }
+
   getCountFromResult(response: Array<Record<string, string | number>>): number {
     return Number(response[0]['count(*)'])
   }
 
+  searchMatches(tableName: string, search: string): Knex.QueryBuilder {
+    const ftsTableName = fullTextTableName(tableName)
+    // FTS5 bm25 is smaller for more relevant entries
+    return this.dbConnection(tableName)
+      .select(
+        `${tableName}.*`,
+        this.dbConnection.raw(`-bm25(??) AS ??`, [ftsTableName, SEARCH_RANK_COLUMN])
+      )
+      .join(ftsTableName, `${ftsTableName}.stream_id`, `${tableName}.stream_id`)
+      .whereRaw(`?? MATCH ?`, [ftsTableName, asFts5Query(search)])
+  }
+
+  protected async indexSearchDocument(
+    tableName: string,
+    indexingArgs: IndexStreamArgs,
+    fullTextFields: Array<string>
+  ): Promise<void> {
+    const ftsTableName = fullTextTableName(tableName)
+    const streamId = indexingArgs.streamID.toString()
+    const document = { stream_id: streamId }
+    for (const field of fullTextFields) {
+      const value = indexingArgs.streamContent[field]
+      document[field] = typeof value === 'string' ? value : null
+    }
+    await this.dbConnection(ftsTableName).where({ stream_id: streamId }).delete()
+    await this.dbConnection(ftsTableName).insert(document)
+  }
+
+  protected async removeSearchDocuments(
+    tableName: string,
+    streamIds: Array<string>
+  ): Promise<void> {
+    await this.dbConnection(fullTextTableName(tableName)).whereIn('stream_id', streamIds).delete()
+  }
+
+  protected async clearSearchDocuments(tableName: string): Promise<void> {
+    await this.dbConnection(fullTextTableName(tableName)).delete()
+  }
+
+  protected async explainStatement(statement: LoggedStatement): Promise<unknown> {
+    return this.dbConnection.raw(
+      `EXPLAIN QUERY PLAN ${statement.sql}`,
+      statement.bindings as Array<Knex.RawBinding>
+    )
+  }
+
   getIndexedData(
     indexingArgs: IndexStreamArgs & { createdAt?: Date; updatedAt?: Date }
   ): IndexedData<number> {
@@ -373,6 +1182,8 @@ export class SqliteIndexApi extends DatabaseIndexApi<number> {
       first_anchored_at: asTimestamp(indexingArgs.firstAnchor),
       created_at: asTimestamp(indexingArgs.createdAt) || now,
       updated_at: asTimestamp(indexingArgs.updatedAt) || now,
+      is_deleted: Boolean(indexingArgs.deleted),
+      last_writer: indexingArgs.lastWriter ?? null,
     }
   }
 }
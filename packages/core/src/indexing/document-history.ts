@@ -0,0 +1,139 @@
+import type { Knex } from 'knex'
+import { CommitID, StreamID } from '@ceramicnetwork/streamid'
+import type { DocumentVersion, HistoryQuery, Page } from '@ceramicnetwork/common'
+import { CID } from 'multiformats/cid'
+import { PaginationKind, parsePagination } from './parse-pagination.js'
+import { UnsupportedOrderingError } from './unsupported-ordering-error.js'
+import { Cursor } from './cursor.js'
+
+/**
+ * Table recording every indexed version of documents of models indexed with history
+ */
+export const HISTORY_TABLE_NAME = 'ceramic_history'
+
+/**
+ * Version of a document to record, with column values as stored in the model table.
+ */
+export type HistoryEntry = {
+  stream_id: string
+  controller_did: string
+  stream_content: unknown
+  tip: string
+  last_anchored_at: unknown
+  created_at: unknown
+}
+
+type Selected = HistoryEntry & { id: number; model: string }
+
+/**
+ * Convert a timestamp column, stored as `Date` on Postgres and as a number on SQLite, to `Date`.
+ */
+function asDate(value: unknown): Date | null {
+  if (value === null || value === undefined) return null
+  return new Date(value as Date | number)
+}
+
+function asDocumentVersion(row: Selected): DocumentVersion {
+  const streamId = StreamID.fromString(row.stream_id)
+  return {
+    streamId: streamId,
+    commitId: CommitID.make(streamId, CID.parse(row.tip)),
+    controller: row.controller_did,
+    content:
+      typeof row.stream_content === 'string'
+        ? JSON.parse(row.stream_content)
+        : (row.stream_content as Record<string, any>),
+    anchoredAt: asDate(row.last_anchored_at),
+    indexedAt: asDate(row.created_at),
+  }
+}
+
+/**
+ * History of the versions of documents, in the order they got indexed.
+ *
+ * A cursor for the history is a JSON having the `id` of the version entry.
+ */
+export class DocumentHistory {
+  /**
+   * @param dbConnection - Connection to the index database.
+   * @param asDatabaseTime - Convert `Date` to the type of timestamp columns of the database.
+   */
+  constructor(
+    private readonly dbConnection: Knex,
+    private readonly asDatabaseTime: (date: Date) => Date | number
+  ) {}
+
+  /**
+   * Record +entry+ as a version of a document of +model+. Versions at the same tip are recorded
+   * once.
+   */
+  async record(model: StreamID, entry: HistoryEntry): Promise<void> {
+    await this.dbConnection(HISTORY_TABLE_NAME)
+      .insert({ model: model.toString(), ...entry })
+      .onConflict(['stream_id', 'tip'])
+      .ignore()
+  }
+
+  async page(query: HistoryQuery): Promise<Page<DocumentVersion>> {
+    const pagination = parsePagination(query)
+    let base = this.dbConnection
+      .from(HISTORY_TABLE_NAME)
+      .select('*')
+      .where({ model: query.model.toString() })
+    if (query.streamId) {
+      base = base.where({ stream_id: query.streamId.toString() })
+    }
+    if (query.account) {
+      base = base.where({ controller_did: query.account })
+    }
+    if (query.since) {
+      base = base.where('created_at', '>=', this.asDatabaseTime(query.since))
+    }
+    if (query.until) {
+      base = base.where('created_at', '<', this.asDatabaseTime(query.until))
+    }
+    const paginationKind = pagination.kind
+    switch (paginationKind) {
+      case PaginationKind.FORWARD: {
+        const limit = pagination.first
+        if (pagination.after) {
+          base = base.where('id', '>', Cursor.parse(pagination.after).id)
+        }
+        const response: Array<Selected> = await base.orderBy('id', 'asc').limit(limit + 1)
+        const entries = response.slice(0, limit)
+        return this.asPage(entries, response.length > limit, false)
+      }
+      case PaginationKind.BACKWARD: {
+        const limit = pagination.last
+        if (pagination.before) {
+          base = base.where('id', '<', Cursor.parse(pagination.before).id)
+        }
+        const response: Array<Selected> = await base.orderBy('id', 'desc').limit(limit + 1)
+        const entries = response.slice(0, limit).reverse()
+        return this.asPage(entries, false, response.length > limit)
+      }
+      default:
+        throw new UnsupportedOrderingError(paginationKind)
+    }
+  }
+
+  private asPage(
+    entries: Array<Selected>,
+    hasNextPage: boolean,
+    hasPreviousPage: boolean
+  ): Page<DocumentVersion> {
+    const edges = entries.map((row) => ({
+      cursor: Cursor.stringify({ id: row.id }),
+      node: asDocumentVersion(row),
+    }))
+    return {
+      edges: edges,
+      pageInfo: {
+        hasNextPage: hasNextPage,
+        hasPreviousPage: hasPreviousPage,
+        startCursor: edges[0]?.cursor,
+        endCursor: edges[edges.length - 1]?.cursor,
+      },
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import type { BaseQuery, PaginationQuery } from '@ceramicnetwork/common'
+import { InvalidQuerySearchError } from './invalid-query-search.error.js'
+import { SortKey, TIEBREAKER } from './sorting-order.js'
+
+/**
+ * Column containing relevance of an entry for a full-text search. Larger is more relevant.
+ */
+export const SEARCH_RANK_COLUMN = 'search_rank'
+
+/**
+ * Full-text search results are ordered by relevance, then by StreamID.
+ */
+export const RELEVANCE_SORT_KEYS: Array<SortKey> = [
+  { column: SEARCH_RANK_COLUMN, order: 'DESC' },
+  TIEBREAKER,
+]
+
+/**
+ * Check that +query+ contains a non-empty search, for a model that has +searchableFields+.
+ *
+ * @param query - Index query with `search` field.
+ * @param searchableFields - Fields of a model indexed for full-text search.
+ * @throws InvalidQuerySearchError if search is not valid.
+ */
+export function assertValidQuerySearch(query: BaseQuery, searchableFields: Array<string>): void {
+  if (typeof query.search !== 'string' || query.search.trim().length === 0) {
+    throw new InvalidQuerySearchError(`expected a non-empty string`)
+  }
+  if (searchableFields.length === 0) {
+    throw new InvalidQuerySearchError(
+      `model ${query.model} has no fields indexed for full-text search`
+    )
+  }
+}
+
+/**
+ * Check that a +query+ with full-text search does not request another sorting, as its results are
+ * ordered by relevance.
+ *
+ * @throws InvalidQuerySearchError if the query has both a search and a sorting.
+ */
+export function assertSearchNotSorted(query: PaginationQuery): void {
+  if (query.sorting && Object.keys(query.sorting).length > 0) {
+    throw new InvalidQuerySearchError(`results are ordered by relevance, sorting is not supported`)
+  }
+}
+
+/**
+ * Convert +search+ to an FTS5 query matching entries that contain every term of the search.
+ * Terms are quoted, so that characters like `-` or `*` are not interpreted as FTS5 operators.
+ */
+export function asFts5Query(search: string): string {
+  return search
+    .trim()
+    .split(/\s+/)
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(' ')
+}
@@ -0,0 +1,121 @@
+import { isDeepStrictEqual } from 'node:util'
+import { StreamID } from '@ceramicnetwork/streamid'
+import type { DiagnosticsLogger, ModelIndexCheckReport, StreamState } from '@ceramicnetwork/common'
+import type { IDatabaseIndexApi, IndexedEntry } from './database-index-api.js'
+import type { Repository } from '../state-management/repository.js'
+import { RunningState } from '../state-management/running-state.js'
+
+const CHECK_BATCH_SIZE = 100
+
+/**
+ * True if +entry+ is indexed at the tip and content of +state+.
+ */
+function isIndexedAt(entry: IndexedEntry, state: StreamState): boolean {
+  const tip = state.log[state.log.length - 1].cid.toString()
+  // Compare the content as it is stored in the index, as JSON
+  const content = JSON.parse(JSON.stringify(state.content))
+  return entry.tip === tip && isDeepStrictEqual(entry.content, content)
+}
+
+/**
+ * Compares the index of a model against the state of the streams stored on the node, to find
+ * entries that drifted from the streams. That could happen if the node stops between applying a
+ * commit to a stream and indexing the stream.
+ */
+export class IndexConsistencyChecker {
+  constructor(
+    private readonly databaseIndexApi: IDatabaseIndexApi,
+    private readonly repository: Repository,
+    private readonly logger: DiagnosticsLogger,
+    private readonly collectionModels: (model: StreamID) => Array<StreamID> = (model) => [model]
+  ) {}
+
+  /**
+   * Report entries of the index of +model+ that are missing, stale or orphaned. If +repair+ is
+   * true, index the missing and stale streams again, and remove the orphaned entries.
+   */
+  async check(model: StreamID, repair = false): Promise<ModelIndexCheckReport> {
+    const report: ModelIndexCheckReport = {
+      model: model.toString(),
+      checkedEntries: 0,
+      missing: [],
+      stale: [],
+      orphaned: [],
+      repaired: false,
+    }
+    await this.checkEntries(model, report)
+    await this.findMissing(model, report)
+    this.logger.imp(
+      `Checked index of Model ${report.model}: ${report.checkedEntries} entries, ${report.missing.length} missing, ${report.stale.length} stale, ${report.orphaned.length} orphaned`
+    )
+    if (repair) {
+      await this.repair(model, report)
+      report.repaired = true
+      this.logger.imp(`Repaired index of Model ${report.model}`)
+    }
+    return report
+  }
+
+  /**
+   * Compare every entry of the model table against the state of the stream.
+   */
+  private async checkEntries(model: StreamID, report: ModelIndexCheckReport): Promise<void> {
+    let entries = await this.databaseIndexApi.indexedEntries(model, CHECK_BATCH_SIZE)
+    while (entries.length > 0) {
+      for (const entry of entries) {
+        const state = await this.repository.streamState(StreamID.fromString(entry.streamId))
+        if (!state || !this.shouldBeIndexed(model, state)) {
+          report.orphaned.push(entry.streamId)
+        } else if (!isIndexedAt(entry, state)) {
+          report.stale.push(entry.streamId)
+        }
+      }
+      report.checkedEntries += entries.length
+      const last = entries[entries.length - 1].streamId
+      entries = await this.databaseIndexApi.indexedEntries(model, CHECK_BATCH_SIZE, last)
+    }
+  }
+
+  /**
+   * Find streams of the model in the state store that have no entry in the model table.
+   */
+  private async findMissing(model: StreamID, report: ModelIndexCheckReport): Promise<void> {
+    const stateStore = this.repository.pinStore.stateStore
+    let batch = await stateStore.list(CHECK_BATCH_SIZE)
+    while (batch.length > 0) {
+      const streamIds = batch
+        .filter((entry) => this.shouldBeIndexed(model, entry.value))
+        .map((entry) => entry.key.toString())
+      if (streamIds.length > 0) {
+        const indexed = await this.databaseIndexApi.indexedStreamIds(model, streamIds)
+        report.missing.push(...streamIds.filter((streamId) => !indexed.has(streamId)))
+      }
+      batch = await stateStore.list(CHECK_BATCH_SIZE, batch[batch.length - 1].key)
+    }
+  }
+
+  /**
+   * True if +state+ is of a model of the collection of +model+, and matches the index filter of
+   * the model.
+   */
+  private shouldBeIndexed(model: StreamID, state: StreamState): boolean {
+    const stateModel = state.metadata.model
+    return (
+      stateModel != null &&
+      this.collectionModels(model).some((streamId) => streamId.equals(stateModel)) &&
+      this.databaseIndexApi.matchesIndexFilter(model, state.metadata.controllers[0], state.content)
+    )
+  }
+
+  private async repair(model: StreamID, report: ModelIndexCheckReport): Promise<void> {
+    for (const streamId of [...report.missing, ...report.stale]) {
+      let state$ = this.repository.inmemory.get(streamId)
+      if (!state$) {
+        const state = await this.repository.streamState(StreamID.fromString(streamId))
+        state$ = new RunningState(state, true)
+      }
+      await this.repository.indexStreamIfNeeded(state$)
+    }
+    await this.databaseIndexApi.removeStreams(model, report.orphaned)
+  }
+}
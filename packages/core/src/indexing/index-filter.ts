@@ -0,0 +1,62 @@
+import type { FilterValue, ModelIndexFilter } from '@ceramicnetwork/common'
+import { InvalidIndexFilterError } from './invalid-index-filter.error.js'
+
+function isFilterValue(input: unknown): input is FilterValue {
+  return typeof input === 'string' || typeof input === 'number' || typeof input === 'boolean'
+}
+
+/**
+ * Check that +filter+ for +model+ only restricts controllers and top-level content fields.
+ *
+ * @throws InvalidIndexFilterError if the filter is not valid.
+ */
+export function assertValidIndexFilter(
+  model: string,
+  filter: unknown
+): asserts filter is ModelIndexFilter {
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    throw new InvalidIndexFilterError(model, `expected an object`)
+  }
+  for (const [key, value] of Object.entries(filter)) {
+    switch (key) {
+      case 'controllers':
+        if (
+          !Array.isArray(value) ||
+          value.length === 0 ||
+          !value.every((controller) => typeof controller === 'string')
+        ) {
+          throw new InvalidIndexFilterError(model, `controllers expects a non-empty array of DIDs`)
+        }
+        break
+      case 'content':
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          throw new InvalidIndexFilterError(model, `content expects an object`)
+        }
+        for (const [field, fieldValue] of Object.entries(value)) {
+          if (!isFilterValue(fieldValue)) {
+            throw new InvalidIndexFilterError(
+              model,
+              `content field ${field} expects a scalar value`
+            )
+          }
+        }
+        break
+      default:
+        throw new InvalidIndexFilterError(model, `unsupported condition ${key}`)
+    }
+  }
+}
+
+/**
+ * True if a document with +controller+ and +content+ matches every condition of +filter+.
+ */
+export function matchesIndexFilter(
+  filter: ModelIndexFilter,
+  controller: string,
+  content: Record<string, any>
+): boolean {
+  if (filter.controllers && !filter.controllers.includes(controller)) {
+    return false
+  }
+  return Object.entries(filter.content ?? {}).every(([field, value]) => content?.[field] === value)
+}
@@ -0,0 +1,106 @@
+import type { Knex } from 'knex'
+import { StreamID } from '@ceramicnetwork/streamid'
+import type { BaseQuery, IndexChange, IndexChangeType } from '@ceramicnetwork/common'
+import type { Subscriber } from 'rxjs'
+import { applyQueryFilters } from './query-filter.js'
+import { Cursor } from './cursor.js'
+
+type Selected = { stream_id: string; last_anchored_at: number; created_at: number }
+
+type IndexSubscription = {
+  query: BaseQuery
+  subscriber: Subscriber<IndexChange<StreamID>>
+}
+
+/**
+ * Kind of change for an entry, given if it matched a query before and after an update.
+ */
+function changeType(
+  before: Selected | undefined,
+  after: Selected | undefined
+): IndexChangeType | undefined {
+  if (before && after) return 'updated'
+  if (after) return 'added'
+  if (before) return 'removed'
+  return undefined
+}
+
+/**
+ * Live index queries. Notifies subscribers when an indexed stream starts matching, keeps matching
+ * or stops matching their query.
+ */
+export class IndexSubscriptions {
+  // Maps Model streamIDs to the subscriptions to queries on the model
+  private readonly byModel = new Map<string, Set<IndexSubscription>>()
+
+  /**
+   * @param dbConnection - Connection to the index database.
+   * @param querySource - Table or derived table to select entries matching a query from.
+   */
+  constructor(
+    private readonly dbConnection: Knex,
+    private readonly querySource: (query: BaseQuery) => string | Knex.QueryBuilder
+  ) {}
+
+  /**
+   * Start notifying +subscriber+ of changes of entries matching +query+.
+   * Returns a function that stops the notifications.
+   */
+  add(query: BaseQuery, subscriber: Subscriber<IndexChange<StreamID>>): () => void {
+    const model = query.model.toString()
+    const subscription = { query, subscriber }
+    const subscriptions = this.byModel.get(model) ?? new Set<IndexSubscription>()
+    subscriptions.add(subscription)
+    this.byModel.set(model, subscriptions)
+    return () => {
+      subscriptions.delete(subscription)
+      if (subscriptions.size === 0 && this.byModel.get(model) === subscriptions) {
+        this.byModel.delete(model)
+      }
+    }
+  }
+
+  /**
+   * Run +write+ of a stream to the index, and notify subscribers to queries on +model+ if the
+   * write changes an entry matching their query.
+   */
+  async trackChanges(
+    model: StreamID,
+    streamId: StreamID,
+    write: () => Promise<void>
+  ): Promise<void> {
+    const subscriptions = Array.from(this.byModel.get(model.toString()) ?? [])
+    if (subscriptions.length === 0) {
+      return write()
+    }
+    const matching = () => {
+      return Promise.all(subscriptions.map((s) => this.matchingEntry(s.query, streamId)))
+    }
+    const before = await matching()
+    await write()
+    const after = await matching()
+    subscriptions.forEach((subscription, i) => {
+      const type = changeType(before[i], after[i])
+      if (!type) return
+      const entry = after[i] ?? before[i]
+      subscription.subscriber.next({
+        type: type,
+        edge: { cursor: Cursor.stringify(entry), node: streamId },
+      })
+    })
+  }
+
+  /**
+   * Entry for +streamId+ if it matches +query+, selected as for a page in insertion order.
+   */
+  private matchingEntry(query: BaseQuery, streamId: StreamID): Promise<Selected | undefined> {
+    let base = this.dbConnection
+      .from(this.querySource(query))
+      .select('stream_id', 'last_anchored_at', 'created_at')
+      .where({ stream_id: streamId.toString() })
+    if (query.account) {
+      base = base.where({ controller_did: query.account })
+    }
+    return applyQueryFilters(base, query.filter).first()
+  }
+}
@@ -1,5 +1,4 @@
 import type { Knex } from 'knex'
-import * as uint8arrays from 'uint8arrays'
 import { StreamID } from '@ceramicnetwork/streamid'
 import type { BaseQuery, Page, Pagination } from '@ceramicnetwork/common'
 import {
@@ -10,41 +9,17 @@ import {
 } from './parse-pagination.js'
 import { asTableName } from './as-table-name.util.js'
 import { UnsupportedOrderingError } from './unsupported-ordering-error.js'
-import { addColumnPrefix } from './column-name.util.js'
+import { applyQueryFilters } from './query-filter.js'
+import { Cursor } from './cursor.js'
 
 type Selected = { stream_id: string; last_anchored_at: number; created_at: number }
 
 /**
- * Contains functions to transform (parse and stringify) GraphQL cursors
- * as per [GraphQL Cursor Connections Spec](https://relay.dev/graphql/connections.htm).
+ * Prepare insertion cursor.
  *
  * A cursor for insertion order is a JSON having `created_at` field as number.
  */
-abstract class Cursor {
-  /**
-   * Decode cursor from base64url as JSON.
-   */
-  static parse(cursor: string): any {
-    return JSON.parse(uint8arrays.toString(uint8arrays.fromString(cursor, 'base64url')))
-  }
-
-  /**
-   * base64url-encode cursor from +input+ object.
-   * Return `undefined` if +input+ object is `undefined` or `null`.
-   */
-  static stringify(input: any): string | undefined {
-    if (input) {
-      return uint8arrays.toString(uint8arrays.fromString(JSON.stringify(input)), 'base64url')
-    } else {
-      return undefined
-    }
-  }
-}
-
-/**
- * Prepare insertion cursor.
- */
-function asInsertionCursor(input: { created_at: number } | undefined) {
+export function asInsertionCursor(input: { created_at: number } | undefined) {
   if (!input) return undefined
   return { created_at: input.created_at }
 }
@@ -69,13 +44,20 @@ const INSERTION_ORDER = [{ column: 'created_at', order: 'ASC' }]
 export class InsertionOrder {
   constructor(private readonly dbConnection: Knex) {}
 
-  async page(query: BaseQuery & Pagination): Promise<Page<StreamID>> {
+  /**
+   * @param query - Index query.
+   * @param source - Table or derived table to query, model table by default.
+   */
+  async page(
+    query: BaseQuery & Pagination,
+    source: string | Knex.QueryBuilder = asTableName(query.model)
+  ): Promise<Page<StreamID>> {
     const pagination = parsePagination(query)
     const paginationKind = pagination.kind
     switch (paginationKind) {
       case PaginationKind.FORWARD: {
         const limit = pagination.first
-        const response: Array<Selected> = await this.forwardQuery(query, pagination)
+        const response: Array<Selected> = await this.forwardQuery(query, source, pagination)
         const entries = response.slice(0, limit)
         const firstEntry = entries[0]
         const lastEntry = entries[entries.length - 1]
@@ -96,7 +78,7 @@ export class InsertionOrder {
       }
       case PaginationKind.BACKWARD: {
         const limit = pagination.last
-        const response: Array<Selected> = await this.backwardQuery(query, pagination)
+        const response: Array<Selected> = await this.backwardQuery(query, source, pagination)
         const entries = response.slice(-limit)
         const firstEntry = entries[0]
         const lastEntry = entries[entries.length - 1]
@@ -125,24 +107,18 @@ export class InsertionOrder {
    */
   private forwardQuery(
     query: BaseQuery,
+    source: string | Knex.QueryBuilder,
     pagination: ForwardPaginationQuery
   ): Knex.QueryBuilder<unknown, Array<Selected>> {
-    const tableName = asTableName(query.model)
     let base = this.dbConnection
-      .from(tableName)
+      .from(source)
       .select('stream_id', 'last_anchored_at', 'created_at')
       .orderBy(INSERTION_ORDER)
       .limit(pagination.first + 1)
     if (query.account) {
       base = base.where({ controller_did: query.account })
     }
-    if (query.filter) {
-      for (const [key, value] of Object.entries(query.filter)) {
-        const filterObj = {}
-        filterObj[addColumnPrefix(key)] = value
-        base = base.andWhere(filterObj)
-      }
-    }
+    base = applyQueryFilters(base, query.filter)
     if (pagination.after) {
       const after = Cursor.parse(pagination.after)
       return base.where('created_at', '>', after.created_at)
@@ -156,9 +132,9 @@ export class InsertionOrder {
    */
   private backwardQuery(
     query: BaseQuery,
+    source: string | Knex.QueryBuilder,
     pagination: BackwardPaginationQuery
   ): Knex.QueryBuilder<unknown, Array<Selected>> {
-    const tableName = asTableName(query.model)
     const limit = pagination.last
     const identity = <T>(a: T) => a
     const base = (
@@ -168,7 +144,7 @@ export class InsertionOrder {
         .select('*')
         .from((builder) => {
           let subquery = builder
-            .from(tableName)
+            .from(source)
             .select('stream_id', 'last_anchored_at', 'created_at')
             .orderBy(reverseOrder(INSERTION_ORDER))
             .limit(limit + 1) // To know if we have more entries to query
@@ -176,13 +152,7 @@ export class InsertionOrder {
           if (query.account) {
             subquery = subquery.where({ controller_did: query.account })
           }
-          if (query.filter) {
-            for (const [key, value] of Object.entries(query.filter)) {
-              const filterObj = {}
-              filterObj[addColumnPrefix(key)] = value
-              subquery = subquery.andWhere(filterObj)
-            }
-          }
+          subquery = applyQueryFilters(subquery, query.filter)
           return withWhereCallback(subquery)
         })
         .orderBy(INSERTION_ORDER)
@@ -0,0 +1,8 @@
+/**
+ * Indicates a malformed filter restricting the documents of a model to index.
+ */
+export class InvalidIndexFilterError extends Error {
+  constructor(model: string, reason: string) {
+    super(`Invalid index filter for Model ${model}: ${reason}`)
+  }
+}
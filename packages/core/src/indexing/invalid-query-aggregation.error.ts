@@ -0,0 +1,8 @@
+/**
+ * Indicates a malformed aggregation in an index query.
+ */
+export class InvalidQueryAggregationError extends Error {
+  constructor(name: string, reason: string) {
+    super(`Invalid aggregation ${name}: ${reason}`)
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Indicates a malformed filter in an index query.
+ */
+export class InvalidQueryFilterError extends Error {
+  constructor(field: string, reason: string) {
+    super(`Invalid filter on field ${field}: ${reason}`)
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Indicates a malformed full-text search in an index query.
+ */
+export class InvalidQuerySearchError extends Error {
+  constructor(reason: string) {
+    super(`Invalid search: ${reason}`)
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Indicates a malformed sorting in an index query.
+ */
+export class InvalidQuerySortingError extends Error {
+  constructor(field: string, reason: string) {
+    super(`Invalid sorting on field ${field}: ${reason}`)
+  }
+}
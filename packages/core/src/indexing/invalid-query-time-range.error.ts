@@ -0,0 +1,8 @@
+/**
+ * Indicates a malformed time range in an index query.
+ */
+export class InvalidQueryTimeRangeError extends Error {
+  constructor(field: string, reason: string) {
+    super(`Invalid time range on ${field}: ${reason}`)
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Indicates a relation expansion of an index query that could not be resolved.
+ */
+export class InvalidRelationExpansionError extends Error {
+  constructor(field: string, reason: string) {
+    super(`Invalid relation expansion ${field}: ${reason}`)
+  }
+}
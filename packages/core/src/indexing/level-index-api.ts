@@ -0,0 +1,856 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import type {
+  AggregationResult,
+  BaseQuery,
+  DiagnosticsLogger,
+  DocumentVersion,
+  IndexChange,
+  IndexQueryPlan,
+  ModelIndexFilter,
+  Networks,
+  Page,
+  PageInfo,
+  PaginationQuery,
+} from '@ceramicnetwork/common'
+import type { ModelIndexableType } from '@ceramicnetwork/stream-model'
+import { Observable } from 'rxjs'
+import type {
+  IDatabaseIndexApi,
+  IndexModelArgs,
+  IndexStreamArgs,
+  IndexedEntry,
+} from './database-index-api.js'
+import type { IKVStore, IKVStoreFindResult } from '../store/ikv-store.js'
+import type { ISyncQueryApi } from '../sync/interfaces.js'
+import { IndexQueryNotAvailableError } from './index-query-not-available.error.js'
+import { InvalidRelationExpansionError } from './invalid-relation-expansion.error.js'
+import { UnsupportedIndexFeatureError } from './unsupported-index-feature.error.js'
+import { UnsupportedOrderingError } from './unsupported-ordering-error.js'
+import { addColumnPrefix } from './column-name.util.js'
+import { assertValidQueryFilters, matchesQueryFilters } from './query-filter.js'
+import { assertValidQueryTimeRanges, isWithinQueryTimeRanges } from './time-range.js'
+import {
+  InvalidCursorError,
+  SortKey,
+  asSortingCursor,
+  assertValidQuerySorting,
+  reverseSortKeys,
+  sortKeys,
+} from './sorting-order.js'
+import { asInsertionCursor } from './insertion-order.js'
+import { PaginationKind, parsePagination } from './parse-pagination.js'
+import { matchesIndexFilter } from './index-filter.js'
+import { Cursor } from './cursor.js'
+
+const BACKEND_NAME = 'LevelDB'
+
+/**
+ * Name of the key-value store holding the index, next to the other stores of the node.
+ */
+const USE_CASE_NAME = 'index'
+
+/**
+ * Number of entries read from the store at once when scanning a range of keys.
+ */
+const SCAN_BATCH_SIZE = 1000
+
+const NETWORK_KEY = 'config/network'
+const MODEL_KEY_PREFIX = 'model/'
+
+/**
+ * Number of digits of the creation time in the keys ordering entries, so that the keys are ordered
+ * as the times are.
+ */
+const TIMESTAMP_WIDTH = 16
+
+/**
+ * Entry of the config of indexed models, equivalent of a row of `ceramic_models` table.
+ */
+type ModelConfig = {
+  model: string
+  is_indexed: boolean
+  indexed_fields: Array<string> | null
+  index_filter: ModelIndexFilter | null
+  created_at: number
+  updated_at: number
+}
+
+/**
+ * Index entry of a MID, equivalent of a row of a model table. Timestamps are numbers of
+ * milliseconds, as in SQLite.
+ */
+type Row = {
+  stream_id: string
+  controller_did: string
+  stream_content: Record<string, any>
+  tip: string
+  last_anchored_at: number | null
+  first_anchored_at: number | null
+  created_at: number
+  updated_at: number
+  // Missing from entries indexed before MIDs could be deleted
+  is_deleted?: boolean
+  // Missing from entries indexed before models could delegate writes
+  last_writer?: string | null
+}
+
+/**
+ * Entry along with the values of the fields that have a dedicated column in the SQL backends.
+ */
+type SelectedRow = Row & Record<string, any>
+
+function modelKey(model: StreamID | string): string {
+  return `${MODEL_KEY_PREFIX}${model.toString()}`
+}
+
+function entryKeyPrefix(model: StreamID | string): string {
+  return `entry/${model.toString()}/`
+}
+
+function entryKey(model: StreamID | string, streamId: string): string {
+  return `${entryKeyPrefix(model)}${streamId}`
+}
+
+/**
+ * Prefix of the secondary keys of the entries of +model+ in insertion order, or of the entries of
+ * +controller+ only if given.
+ */
+function insertionKeyPrefix(model: StreamID | string, controller?: string): string {
+  if (controller) return `controller/${model.toString()}/${controller}/`
+  return `order/${model.toString()}/`
+}
+
+/**
+ * Beginning of the secondary keys after +prefix+ of entries created at +createdAt+.
+ */
+function insertionKeyStart(prefix: string, createdAt: number): string {
+  return `${prefix}${String(createdAt).padStart(TIMESTAMP_WIDTH, '0')}`
+}
+
+/**
+ * Secondary keys of +row+, by which the entries of +model+ are found in insertion order, overall
+ * and by controller: entries created first come first, then ordered by StreamID.
+ */
+function insertionKeys(model: StreamID | string, row: Row): Array<string> {
+  return [insertionKeyPrefix(model), insertionKeyPrefix(model, row.controller_did)].map(
+    (prefix) => `${insertionKeyStart(prefix, row.created_at)}/${row.stream_id}`
+  )
+}
+
+/**
+ * Smallest key greater than all the keys starting with +prefix+.
+ */
+function prefixEnd(prefix: string): string {
+  const last = prefix.charCodeAt(prefix.length - 1)
+  return `${prefix.slice(0, -1)}${String.fromCharCode(last + 1)}`
+}
+
+/**
+ * Compare column values the way the SQL backends order them: `NULL` is larger than any other value.
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const isNullA = a === null || a === undefined
+  const isNullB = b === null || b === undefined
+  if (isNullA || isNullB) return Number(isNullA) - Number(isNullB)
+  if (a < b) return -1
+  if (a > b) return 1
+  return 0
+}
+
+function compareByKeys(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+  keys: Array<SortKey>
+): number {
+  for (const key of keys) {
+    const result = compareValues(a[key.column], b[key.column])
+    if (result !== 0) return key.order === 'ASC' ? result : -result
+  }
+  return 0
+}
+
+/**
+ * Up to +limit+ of +rows+ ordered by +keys+, following +cursor+.
+ */
+function following(
+  rows: Array<SelectedRow>,
+  keys: Array<SortKey>,
+  cursor: string | undefined,
+  limit: number
+): Array<SelectedRow> {
+  let selected = [...rows].sort((a, b) => compareByKeys(a, b, keys))
+  if (cursor) {
+    const parsed = Cursor.parse(cursor)
+    if (!keys.every((key) => key.column in parsed)) {
+      throw new InvalidCursorError(cursor)
+    }
+    selected = selected.filter((row) => compareByKeys(row, parsed, keys) > 0)
+  }
+  return selected.slice(0, limit)
+}
+
+/**
+ * Index backend on top of a key-value store, so that it does not need a native database driver.
+ *
+ * The config of each model and the entries of MIDs are stored under their own key. Secondary keys
+ * order the entries of a model by creation time, overall and by controller, so that pages in
+ * insertion order only load the entries they go through. Other queries scan the entries of the
+ * model, and select and order them in memory, with the same semantics as the SQL backends.
+ * Full-text search, aggregations, document history, the TileDocument index and subscriptions are
+ * not supported.
+ */
+export class LevelIndexApi implements IDatabaseIndexApi {
+  private indexedModels: Array<StreamID> = []
+  // Maps Model streamIDs to the list of fields in the content of MIDs that the model has a relation
+  // to
+  private readonly modelRelations = new Map<string, Array<string>>()
+  // Maps Model streamIDs to the scalar fields in the content of MIDs that are indexed, with their
+  // types
+  private readonly modelIndexedFields = new Map<string, Record<string, ModelIndexableType>>()
+  // Maps Model streamIDs to the filter MIDs have to match to be indexed
+  private readonly modelFilters = new Map<string, ModelIndexFilter>()
+  syncApi: ISyncQueryApi
+
+  constructor(
+    private readonly store: IKVStore,
+    private readonly allowQueriesBeforeHistoricalSync: boolean,
+    private readonly logger: DiagnosticsLogger,
+    private readonly network: Networks
+  ) {}
+
+  setSyncQueryApi(api: ISyncQueryApi) {
+    this.syncApi = api
+  }
+
+  private async load<T>(key: string): Promise<T | null> {
+    try {
+      return await this.store.get(key, USE_CASE_NAME)
+    } catch (err) {
+      if (err.notFound) {
+        return null // return null for non-existent entry
+      }
+      throw err
+    }
+  }
+
+  /**
+   * Entries with keys starting with +prefix+, ordered by key. Returns at most +limit+ entries with
+   * keys greater than +after+.
+   */
+  private async scan(
+    prefix: string,
+    after: string = prefix,
+    limit = Infinity
+  ): Promise<Array<IKVStoreFindResult>> {
+    const result: Array<IKVStoreFindResult> = []
+    let gt = after
+    while (result.length < limit) {
+      const batchSize = Math.min(SCAN_BATCH_SIZE, limit - result.length)
+      const batch = await this.store.find({ gt, limit: batchSize, useCaseName: USE_CASE_NAME })
+      const matching = batch.filter((entry) => entry.key.startsWith(prefix))
+      result.push(...matching)
+      if (batch.length < batchSize || matching.length < batch.length) break
+      gt = batch[batch.length - 1].key
+    }
+    return result
+  }
+
+  private async modelConfigs(): Promise<Array<ModelConfig>> {
+    const entries = await this.scan(MODEL_KEY_PREFIX)
+    return entries.map((entry) => entry.value)
+  }
+
+  private async rows(model: StreamID | string): Promise<Array<Row>> {
+    const entries = await this.scan(entryKeyPrefix(model))
+    return entries.map((entry) => entry.value)
+  }
+
+  /**
+   * +row+ along with the values of the fields that have a dedicated column in the SQL backends.
+   */
+  private withIndexedColumns(model: StreamID | string, row: Row): SelectedRow {
+    const columns: SelectedRow = { ...row }
+    for (const field of this.indexedColumnFields(model)) {
+      columns[addColumnPrefix(field)] = row.stream_content[field] ?? null
+    }
+    return columns
+  }
+
+  /**
+   * Prepare the store to begin indexing the given models.
+   * @param models
+   */
+  async indexModels(models: Array<IndexModelArgs>): Promise<void> {
+    if (models.some((indexModelArgs) => indexModelArgs.recordHistory)) {
+      throw new UnsupportedIndexFeatureError('recording document history', BACKEND_NAME)
+    }
+    const now = Date.now()
+    for (const modelArgs of models) {
+      const existing = await this.load<ModelConfig>(modelKey(modelArgs.model))
+      const config: ModelConfig = {
+        model: modelArgs.model.toString(),
+        is_indexed: true,
+        indexed_fields: modelArgs.indexedFields ? Object.keys(modelArgs.indexedFields) : null,
+        index_filter: modelArgs.filter ?? null,
+        created_at: existing?.created_at ?? now,
+        updated_at: now,
+      }
+      await this.store.put(modelKey(modelArgs.model), config, USE_CASE_NAME)
+    }
+    for (const modelArgs of models) {
+      await this.assertNoOngoingSyncForModel(modelArgs.model)
+      const foundModelToIndex = this.indexedModels.find((indexedModel) =>
+        indexedModel.equals(modelArgs.model)
+      )
+      if (!foundModelToIndex) {
+        this.indexedModels.push(modelArgs.model)
+      }
+      // Replace the whole configuration of the model, a later call can narrow it
+      const key = modelArgs.model.toString()
+      if (modelArgs.relations) {
+        this.modelRelations.set(key, Object.keys(modelArgs.relations))
+      } else {
+        this.modelRelations.delete(key)
+      }
+      if (modelArgs.indexedFields) {
+        this.modelIndexedFields.set(key, modelArgs.indexedFields)
+      } else {
+        this.modelIndexedFields.delete(key)
+      }
+      if (modelArgs.filter) {
+        this.modelFilters.set(key, modelArgs.filter)
+      } else {
+        this.modelFilters.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Mark a list of models as no longer indexed.
+   *
+   * @param models
+   */
+  async stopIndexingModels(models: Array<StreamID>): Promise<void> {
+    const now = Date.now()
+    for (const model of models) {
+      const existing = await this.load<ModelConfig>(modelKey(model))
+      const config: ModelConfig = {
+        model: model.toString(),
+        indexed_fields: null,
+        index_filter: null,
+        created_at: now,
+        ...existing,
+        is_indexed: false,
+        updated_at: now,
+      }
+      await this.store.put(modelKey(model), config, USE_CASE_NAME)
+    }
+    this.indexedModels = this.indexedModels.filter(
+      (modelStreamID) => !models.some((streamID) => streamID.equals(modelStreamID))
+    )
+  }
+
+  matchesIndexFilter(model: StreamID, controller: string, content: Record<string, any>): boolean {
+    const filter = this.modelFilters.get(model.toString())
+    return !filter || matchesIndexFilter(filter, controller, content)
+  }
+
+  /**
+   * This method inserts the stream if it is not present in the index, or updates
+   * the 'content' if the stream already exists in the index.
+   * Streams not matching the filter of their model are removed from the index instead.
+   * @param indexingArgs
+   */
+  async indexStream(
+    indexingArgs: IndexStreamArgs & { createdAt?: Date; updatedAt?: Date }
+  ): Promise<void> {
+    const streamId = indexingArgs.streamID.toString()
+    if (
+      !this.matchesIndexFilter(
+        indexingArgs.model,
+        indexingArgs.controller,
+        indexingArgs.streamContent
+      )
+    ) {
+      // A previous version of the stream could have matched the filter
+      await this.removeStreams(indexingArgs.model, [streamId])
+      return
+    }
+    const key = entryKey(indexingArgs.model, streamId)
+    const existing = await this.load<Row>(key)
+    const now = Date.now()
+    const row: Row = {
+      stream_id: streamId,
+      controller_did: indexingArgs.controller.toString(),
+      stream_content: indexingArgs.streamContent,
+      tip: indexingArgs.tip.toString(),
+      last_anchored_at: indexingArgs.lastAnchor?.valueOf() ?? null,
+      first_anchored_at: indexingArgs.firstAnchor?.valueOf() ?? null,
+      created_at: existing?.created_at ?? indexingArgs.createdAt?.valueOf() ?? now,
+      updated_at: indexingArgs.updatedAt?.valueOf() ?? now,
+      is_deleted: Boolean(indexingArgs.deleted),
+      last_writer: indexingArgs.lastWriter ?? null,
+    }
+    const keys = insertionKeys(indexingArgs.model, row)
+    const staleKeys = existing ? insertionKeys(indexingArgs.model, existing) : []
+    for (const staleKey of staleKeys.filter((staleKey) => !keys.includes(staleKey))) {
+      await this.store.del(staleKey, USE_CASE_NAME)
+    }
+    await this.store.put(key, row, USE_CASE_NAME)
+    for (const insertionKey of keys) {
+      await this.store.put(insertionKey, streamId, USE_CASE_NAME)
+    }
+  }
+
+  async indexedEntries(
+    model: StreamID,
+    limit: number,
+    after?: string
+  ): Promise<Array<IndexedEntry>> {
+    const start = after ? entryKey(model, after) : entryKeyPrefix(model)
+    const entries = await this.scan(entryKeyPrefix(model), start, limit)
+    return entries.map(({ value }: { value: Row }) => ({
+      streamId: value.stream_id,
+      tip: value.tip,
+      content: value.stream_content,
+    }))
+  }
+
+  async indexedStreamIds(model: StreamID, streamIds: Array<string>): Promise<Set<string>> {
+    const result = new Set<string>()
+    for (const streamId of streamIds) {
+      if (await this.load<Row>(entryKey(model, streamId))) {
+        result.add(streamId)
+      }
+    }
+    return result
+  }
+
+  async removeStreams(model: StreamID, streamIds: Array<string>): Promise<void> {
+    for (const streamId of streamIds) {
+      const key = entryKey(model, streamId)
+      const existing = await this.load<Row>(key)
+      if (!existing) continue
+      for (const insertionKey of insertionKeys(model, existing)) {
+        await this.store.del(insertionKey, USE_CASE_NAME)
+      }
+      await this.store.del(key, USE_CASE_NAME)
+    }
+  }
+
+  async clearModel(model: StreamID): Promise<void> {
+    for (const entry of await this.scan(entryKeyPrefix(model))) {
+      for (const insertionKey of insertionKeys(model, entry.value)) {
+        await this.store.del(insertionKey, USE_CASE_NAME)
+      }
+      await this.store.del(entry.key, USE_CASE_NAME)
+    }
+  }
+
+  /**
+   * Get all models actively indexed by node
+   */
+  getIndexedModels(): Array<StreamID> {
+    return this.indexedModels
+  }
+
+  async getIndexedFieldsFromDatabase(): Promise<Record<string, Array<string>>> {
+    const configs = await this.modelConfigs()
+    return Object.fromEntries(
+      configs
+        .filter((config) => config.indexed_fields)
+        .map((config) => [config.model, config.indexed_fields])
+    )
+  }
+
+  async getIndexFiltersFromDatabase(): Promise<Record<string, ModelIndexFilter>> {
+    const configs = await this.modelConfigs()
+    return Object.fromEntries(
+      configs
+        .filter((config) => config.index_filter)
+        .map((config) => [config.model, config.index_filter])
+    )
+  }
+
+  async getHistoryModelsFromDatabase(): Promise<Array<string>> {
+    // History of MIDs is never recorded
+    return []
+  }
+
+  async getModelsNoLongerIndexed(): Promise<Array<StreamID>> {
+    const configs = await this.modelConfigs()
+    return configs
+      .filter((config) => !config.is_indexed)
+      .map((config) => StreamID.fromString(config.model))
+  }
+
+  /**
+   * Ensures that the given model StreamID can be queried and throws if not.
+   */
+  async assertModelQueryable(modelStreamId: StreamID | string) {
+    const model = modelStreamId.toString()
+    if (!this.indexedModels.some((indexedModel) => indexedModel.toString() == model)) {
+      const err = new Error(`Query failed: Model ${model} is not indexed on this node`)
+      this.logger.debug(err)
+      throw err
+    }
+    await this.assertNoOngoingSyncForModel(modelStreamId)
+  }
+
+  /**
+   * Assert that there is no ongoing historical sync for a model
+   * @param modelStreamId
+   */
+  async assertNoOngoingSyncForModel(modelStreamId: StreamID | string): Promise<void> {
+    if (
+      !this.allowQueriesBeforeHistoricalSync &&
+      !(await this.syncApi.syncComplete(modelStreamId.toString()))
+    ) {
+      throw new IndexQueryNotAvailableError(modelStreamId)
+    }
+  }
+
+  /**
+   * Fields of MID content that have a dedicated column in the SQL backends: relations and indexed
+   * scalar fields. Only those could be used to filter and sort entries.
+   */
+  private indexedColumnFields(model: StreamID | string): Array<string> {
+    const relations = this.modelRelations.get(model.toString()) ?? []
+    const indexedFields = this.modelIndexedFields.get(model.toString()) ?? {}
+    return [...new Set([...relations, ...Object.keys(indexedFields)])]
+  }
+
+  /**
+   * Ensures that the query is well-formed and only uses features supported by the backend, and
+   * throws if not.
+   */
+  private assertQueryValid(query: BaseQuery): void {
+    if (query.filter) {
+      assertValidQueryFilters(query.filter, this.indexedColumnFields(query.model))
+    }
+    if (query.timeRanges) {
+      assertValidQueryTimeRanges(query.timeRanges)
+    }
+    if (query.search !== undefined) {
+      throw new UnsupportedIndexFeatureError('full-text search', BACKEND_NAME)
+    }
+  }
+
+  /**
+   * +row+ with the values of its indexed fields if it matches account, filters and time ranges of
+   * +query+. Deleted entries are left out, unless the query includes them.
+   */
+  private selectRow(query: BaseQuery, row: Row): SelectedRow | undefined {
+    if (row.is_deleted && !query.includeDeleted) return undefined
+    if (query.account && row.controller_did !== query.account) return undefined
+    const selected = this.withIndexedColumns(query.model, row)
+    if (!matchesQueryFilters(selected, query.filter)) return undefined
+    if (!isWithinQueryTimeRanges(selected, query.timeRanges)) return undefined
+    return selected
+  }
+
+  /**
+   * Entries of the model matching +query+. Only the entries of the account of the query are loaded,
+   * if any.
+   */
+  private async selectRows(query: BaseQuery): Promise<Array<SelectedRow>> {
+    const selected: Array<SelectedRow> = []
+    const select = (row: Row) => {
+      const selectedRow = this.selectRow(query, row)
+      if (selectedRow) selected.push(selectedRow)
+    }
+    if (query.account) {
+      await this.walkInsertionOrder(query.model, { controller: query.account }, (row) => {
+        select(row)
+        return true
+      })
+    } else {
+      const rows = await this.rows(query.model)
+      rows.forEach(select)
+    }
+    return selected
+  }
+
+  /**
+   * Visit the entries of +model+ in insertion order, through their secondary keys, until +visit+
+   * returns false.
+   *
+   * @param model - Model of the entries.
+   * @param options.controller - Only visit the entries of the controller.
+   * @param options.reverse - Visit the entries in reverse insertion order.
+   * @param options.createdAt - Only visit the entries created after, or before if reversed.
+   * @param visit - Called with each entry, returns whether to visit the next one.
+   */
+  private async walkInsertionOrder(
+    model: StreamID | string,
+    options: { controller?: string; reverse?: boolean; createdAt?: number },
+    visit: (row: Row) => boolean
+  ): Promise<void> {
+    const prefix = insertionKeyPrefix(model, options.controller)
+    let gt = prefix
+    let lt = prefixEnd(prefix)
+    if (options.createdAt !== undefined) {
+      if (options.reverse) {
+        lt = insertionKeyStart(prefix, options.createdAt)
+      } else {
+        gt = insertionKeyStart(prefix, options.createdAt + 1)
+      }
+    }
+    for (;;) {
+      const batch = await this.store.find({
+        gt,
+        lt,
+        reverse: options.reverse,
+        limit: SCAN_BATCH_SIZE,
+        useCaseName: USE_CASE_NAME,
+      })
+      for (const { value: streamId } of batch) {
+        const row = await this.load<Row>(entryKey(model, streamId))
+        if (row && !visit(row)) return
+      }
+      if (batch.length < SCAN_BATCH_SIZE) return
+      const last = batch[batch.length - 1].key
+      if (options.reverse) {
+        lt = last
+      } else {
+        gt = last
+      }
+    }
+  }
+
+  /**
+   * Up to +limit+ entries of the model matching +query+ in insertion order, or in reverse
+   * insertion order, following +cursor+.
+   */
+  private async followingInInsertionOrder(
+    query: BaseQuery,
+    reverse: boolean,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<Array<SelectedRow>> {
+    let createdAt: number | undefined
+    if (cursor) {
+      const parsed = Cursor.parse(cursor)
+      // Only the creation time is part of an insertion order cursor
+      if (typeof parsed.created_at !== 'number') {
+        throw new InvalidCursorError(cursor)
+      }
+      createdAt = parsed.created_at
+    }
+    const selected: Array<SelectedRow> = []
+    const options = { controller: query.account, reverse, createdAt }
+    await this.walkInsertionOrder(query.model, options, (row) => {
+      const selectedRow = this.selectRow(query, row)
+      if (selectedRow) selected.push(selectedRow)
+      return selected.length < limit
+    })
+    return selected
+  }
+
+  /**
+   * Return number of suitable indexed records.
+   */
+  async count(query: BaseQuery): Promise<number> {
+    await this.assertModelQueryable(query.model)
+    this.assertQueryValid(query)
+    const rows = await this.selectRows(query)
+    return rows.length
+  }
+
+  async aggregate(): Promise<Array<AggregationResult>> {
+    throw new UnsupportedIndexFeatureError('aggregations', BACKEND_NAME)
+  }
+
+  async relatedDocuments(
+    model: StreamID | string,
+    field: string,
+    streamIds: Array<string>
+  ): Promise<Map<string, string>> {
+    await this.assertRelationQueryable(model, field)
+    const result = new Map<string, string>()
+    for (const streamId of streamIds) {
+      const row = await this.load<Row>(entryKey(model, streamId))
+      const related = row?.stream_content[field]
+      if (related !== null && related !== undefined) {
+        result.set(streamId, related)
+      }
+    }
+    return result
+  }
+
+  async relatingDocuments(
+    model: StreamID | string,
+    field: string,
+    streamIds: Array<string>,
+    limit: number
+  ): Promise<Map<string, Array<string>>> {
+    await this.assertRelationQueryable(model, field)
+    const result = new Map<string, Array<string>>()
+    if (limit <= 0) return result
+    const documentsCount = new Set(streamIds).size
+    let complete = 0
+    await this.walkInsertionOrder(model, {}, (row) => {
+      const related = row.stream_content[field]
+      if (row.is_deleted || !streamIds.includes(related)) return true
+      const relating = result.get(related) ?? []
+      if (relating.length < limit) {
+        relating.push(row.stream_id)
+        result.set(related, relating)
+        if (relating.length === limit) complete += 1
+      }
+      // Stop once every document has as many relating documents as requested
+      return complete < documentsCount
+    })
+    return result
+  }
+
+  private async assertRelationQueryable(model: StreamID | string, field: string): Promise<void> {
+    await this.assertModelQueryable(model)
+    const relations = this.modelRelations.get(model.toString()) ?? []
+    if (!relations.includes(field)) {
+      throw new InvalidRelationExpansionError(field, `not a relation of Model ${model.toString()}`)
+    }
+  }
+
+  /**
+   * Query the index, in insertion order or ordered by the sorting of the query.
+   */
+  async page(query: PaginationQuery): Promise<Page<StreamID>> {
+    await this.assertModelQueryable(query.model)
+    this.assertQueryValid(query)
+    if (query.sorting && Object.keys(query.sorting).length > 0) {
+      assertValidQuerySorting(query.sorting, this.indexedColumnFields(query.model))
+      const keys = sortKeys(query.sorting)
+      const rows = await this.selectRows(query)
+      const asCursor = (row: SelectedRow) => asSortingCursor(row, keys)
+      return this.paginate(
+        query,
+        async (reverse, cursor, limit) => {
+          const order = reverse ? reverseSortKeys(keys) : keys
+          return following(rows, order, cursor, limit)
+        },
+        asCursor,
+        asCursor
+      )
+    }
+    return this.paginate(
+      query,
+      (reverse, cursor, limit) => this.followingInInsertionOrder(query, reverse, cursor, limit),
+      (row) => ({
+        stream_id: row.stream_id,
+        last_anchored_at: row.last_anchored_at,
+        created_at: row.created_at,
+      }),
+      asInsertionCursor
+    )
+  }
+
+  /**
+   * Page of the entries matching +query+.
+   *
+   * @param query - Index query with pagination.
+   * @param select - Up to +limit+ entries matching the query following +cursor+, in the order of
+   *   the page or in reverse order.
+   * @param asEdgeCursor - Cursor of an entry, for edges of the page.
+   * @param asPageCursor - Cursor of an entry, for start and end of the page.
+   */
+  private async paginate(
+    query: PaginationQuery,
+    select: (
+      reverse: boolean,
+      cursor: string | undefined,
+      limit: number
+    ) => Promise<Array<SelectedRow>>,
+    asEdgeCursor: (row: SelectedRow) => Record<string, any>,
+    asPageCursor: (row: SelectedRow | undefined) => Record<string, any> | undefined
+  ): Promise<Page<StreamID>> {
+    const pagination = parsePagination(query)
+    const paginationKind = pagination.kind
+    let entries: Array<SelectedRow>
+    let pageInfo: Pick<PageInfo, 'hasNextPage' | 'hasPreviousPage'>
+    switch (paginationKind) {
+      case PaginationKind.FORWARD: {
+        const limit = pagination.first
+        const response = await select(false, pagination.after, limit + 1)
+        entries = response.slice(0, limit)
+        pageInfo = { hasNextPage: response.length > limit, hasPreviousPage: false }
+        break
+      }
+      case PaginationKind.BACKWARD: {
+        // Traverse in reverse order, then restore the requested order for the found entries
+        const limit = pagination.last
+        const response = await select(true, pagination.before, limit + 1)
+        entries = response.slice(0, limit).reverse()
+        pageInfo = { hasNextPage: false, hasPreviousPage: response.length > limit }
+        break
+      }
+      default:
+        throw new UnsupportedOrderingError(paginationKind)
+    }
+    return {
+      edges: entries.map((row) => {
+        return {
+          cursor: Cursor.stringify(asEdgeCursor(row)),
+          node: StreamID.fromString(row.stream_id),
+        }
+      }),
+      pageInfo: {
+        ...pageInfo,
+        endCursor: Cursor.stringify(asPageCursor(entries[entries.length - 1])),
+        startCursor: Cursor.stringify(asPageCursor(entries[0])),
+      },
+    }
+  }
+
+  async history(): Promise<Page<DocumentVersion>> {
+    throw new UnsupportedIndexFeatureError('document history', BACKEND_NAME)
+  }
+
+  async initTileIndex(): Promise<void> {
+    throw new UnsupportedIndexFeatureError('TileDocument index', BACKEND_NAME)
+  }
+
+  async indexTile(): Promise<void> {
+    throw new UnsupportedIndexFeatureError('TileDocument index', BACKEND_NAME)
+  }
+
+  async removeTile(): Promise<void> {
+    throw new UnsupportedIndexFeatureError('TileDocument index', BACKEND_NAME)
+  }
+
+  async tiles(): Promise<Page<StreamID>> {
+    throw new UnsupportedIndexFeatureError('TileDocument index', BACKEND_NAME)
+  }
+
+  async explain(): Promise<Array<IndexQueryPlan>> {
+    throw new UnsupportedIndexFeatureError('query plans', BACKEND_NAME)
+  }
+
+  subscribe(): Observable<IndexChange<StreamID>> {
+    return new Observable((subscriber) => {
+      subscriber.error(new UnsupportedIndexFeatureError('subscriptions', BACKEND_NAME))
+    })
+  }
+
+  /**
+   * Check or persist the network the index is used for, and load the indexed models.
+   */
+  async init(): Promise<void> {
+    const network = await this.load<string>(NETWORK_KEY)
+    if (network === null) {
+      await this.store.put(NETWORK_KEY, this.network, USE_CASE_NAME)
+    } else if (network !== this.network) {
+      throw new Error(
+        `Initialization failed for ${BACKEND_NAME} index. The database is configured to use the network ${network} but the current network is ${this.network}.`
+      )
+    }
+    const configs = await this.modelConfigs()
+    this.indexedModels = configs
+      .filter((config) => config.is_indexed)
+      .map((config) => StreamID.fromString(config.model))
+  }
+
+  async close(): Promise<void> {
+    await this.store.close(USE_CASE_NAME)
+  }
+}
@@ -1,28 +1,54 @@
 import type {
+  AggregationQuery,
+  AggregationResult,
   BaseQuery,
+  DocumentVersion,
+  HistoryQuery,
+  TileQuery,
   IndexApi,
+  IndexChange,
+  IndexQueryPlan,
+  ModelIndexCheckReport,
+  ModelIndexingOptions,
   Page,
   PaginationQuery,
   StreamState,
   DiagnosticsLogger,
 } from '@ceramicnetwork/common'
-import type { DatabaseIndexApi, IndexModelArgs } from './database-index-api.js'
+import type { IDatabaseIndexApi, IndexModelArgs } from './database-index-api.js'
 import type { Repository } from '../state-management/repository.js'
 import { IndexStreamArgs } from './database-index-api.js'
+import type { IndexTileArgs } from './tile-index.js'
 import { StreamID } from '@ceramicnetwork/streamid'
 import { IndexingConfig } from './build-indexing.js'
 import { makeIndexApi } from '../initialization/make-index-api.js'
 import { Networks } from '@ceramicnetwork/common'
 import { Model } from '@ceramicnetwork/stream-model'
+import type { ModelDefinition, ModelIndexableType } from '@ceramicnetwork/stream-model'
 import { ISyncQueryApi } from '../sync/interfaces.js'
+import { concatMap, EMPTY, Observable } from 'rxjs'
+import { RelationExpander, assertValidRelationExpansion } from './relation-expansion.js'
+import { IndexConsistencyChecker } from './index-consistency-checker.js'
+import { assertValidIndexFilter } from './index-filter.js'
+import { SetRelationViolationError } from './set-relation-violation.error.js'
+import { ModelInstanceDocument } from '@ceramicnetwork/stream-model-instance'
+import type { SetFieldValue } from '@ceramicnetwork/stream-model-instance'
+import { TileDocument } from '@ceramicnetwork/stream-tile'
+import { RunningState } from '../state-management/running-state.js'
+
+const TILES_RECONCILE_BATCH_SIZE = 100
 
 /**
  * Takes a Model StreamID, loads it, and returns the IndexModelArgs necessary to prepare the
  * database for indexing that model.
+ *
+ * Scalar fields declared in the `indices` of the model are indexed along with +extraIndexedFields+.
+ * Fields declared with `fullText` index are indexed for full-text search.
  */
 async function _getIndexModelArgs(
   modelStreamId: StreamID,
-  repository: Repository
+  repository: Repository,
+  extraIndexedFields: Array<string> = []
 ): Promise<IndexModelArgs> {
   if (modelStreamId.type != Model.STREAM_TYPE_ID && !modelStreamId.equals(Model.MODEL)) {
     throw new Error(`Cannot index ${modelStreamId.toString()}, it is not a Model StreamID`)
@@ -30,22 +56,104 @@ async function _getIndexModelArgs(
 
   if (modelStreamId.type == Model.STREAM_TYPE_ID) {
     const modelState = await repository.load(modelStreamId, {})
-    const content = modelState.state.next?.content ?? modelState.state.content
+    const content: ModelDefinition = modelState.state.next?.content ?? modelState.state.content
     Model.assertVersionValid(content, 'major')
-    if (content.relations) {
-      return { model: modelStreamId, relations: content.relations }
+    const indices = Object.entries(content.indices ?? {})
+    const scalarFields = indices.filter(([, index]) => index.type === 'scalar')
+    const fullTextFields = indices
+      .filter(([, index]) => index.type === 'fullText')
+      .map(([fieldName]) => fieldName)
+    const fieldsToIndex = new Set([
+      ...scalarFields.map(([fieldName]) => fieldName),
+      ...extraIndexedFields,
+    ])
+    const indexedFields: Record<string, ModelIndexableType> = {}
+    for (const fieldName of fieldsToIndex) {
+      try {
+        indexedFields[fieldName] = Model.indexableFieldType(content, fieldName)
+      } catch (err) {
+        throw new Error(`Cannot index model ${modelStreamId.toString()}: ${err.message}`)
+      }
+    }
+    return {
+      model: modelStreamId,
+      ...(content.relations && { relations: content.relations }),
+      ...(fieldsToIndex.size > 0 && { indexedFields }),
+      ...(fullTextFields.length > 0 && { fullTextFields }),
     }
   }
 
+  if (extraIndexedFields.length > 0) {
+    throw new Error(`Cannot index fields of ${modelStreamId.toString()}, it has no schema`)
+  }
   return { model: modelStreamId }
 }
 
+/**
+ * Takes a Model StreamID, and returns the StreamIDs of the Models it supersedes, directly or
+ * through the Models they supersede, from the most recent one.
+ */
+async function _getSupersededModels(
+  modelStreamId: StreamID,
+  repository: Repository
+): Promise<Array<StreamID>> {
+  const supersededModels: Array<StreamID> = []
+  let current = modelStreamId
+  while (current.type == Model.STREAM_TYPE_ID) {
+    const modelState = await repository.load(current, {})
+    const content: ModelDefinition = modelState.state.next?.content ?? modelState.state.content
+    const superseded = Model.supersededModel(content)
+    if (!superseded) break
+    supersededModels.push(superseded)
+    current = superseded
+  }
+  return supersededModels
+}
+
+/**
+ * Takes a Model StreamID, and returns the StreamIDs of the interface Models it implements.
+ */
+async function _getImplementedModels(
+  modelStreamId: StreamID,
+  repository: Repository
+): Promise<Array<StreamID>> {
+  if (modelStreamId.type != Model.STREAM_TYPE_ID) return []
+  const modelState = await repository.load(modelStreamId, {})
+  const content: ModelDefinition = modelState.state.next?.content ?? modelState.state.content
+  return Model.implementedModels(content)
+}
+
+/**
+ * Takes a Model StreamID, and returns the fields of its 'set' accountRelation, if it has one.
+ */
+async function _getSetFields(
+  modelStreamId: StreamID,
+  repository: Repository
+): Promise<Array<string> | null> {
+  if (modelStreamId.type != Model.STREAM_TYPE_ID) return null
+  const modelState = await repository.load(modelStreamId, {})
+  const content: ModelDefinition = modelState.state.next?.content ?? modelState.state.content
+  return content.accountRelation.type === 'set' ? content.accountRelation.fields : null
+}
+
 /**
  * API to query an index.
  */
 export class LocalIndexApi implements IndexApi {
-  private readonly databaseIndexApi: DatabaseIndexApi | undefined
+  private readonly databaseIndexApi: IDatabaseIndexApi | undefined
+  private readonly relationExpander: RelationExpander | undefined
+  private readonly consistencyChecker: IndexConsistencyChecker | undefined
+  // Maps indexed Model StreamIDs to the Models they supersede, whose MIDs are indexed and queried
+  // along with the MIDs of the indexed Model
+  private readonly supersededModels = new Map<string, Array<StreamID>>()
+  // Maps indexed Model StreamIDs to the interface Models they implement, whose collections include
+  // the MIDs of the indexed Model
+  private readonly implementedModels = new Map<string, Array<StreamID>>()
+  // Maps indexed Model StreamIDs with a 'set' accountRelation to the fields of the relation
+  private readonly setFields = new Map<string, Array<string>>()
   public readonly enabled: boolean
+  // Whether TileDocuments are indexed
+  public readonly tilesEnabled: boolean
 
   constructor(
     private readonly indexingConfig: IndexingConfig,
@@ -54,7 +162,17 @@ export class LocalIndexApi implements IndexApi {
     networkName: Networks
   ) {
     this.databaseIndexApi = makeIndexApi(indexingConfig, networkName, logger)
+    if (this.databaseIndexApi) {
+      this.relationExpander = new RelationExpander(this.databaseIndexApi, repository)
+      this.consistencyChecker = new IndexConsistencyChecker(
+        this.databaseIndexApi,
+        repository,
+        logger,
+        (model) => this.collectionModels(model)
+      )
+    }
     this.enabled = indexingConfig != null && !indexingConfig.disableComposedb
+    this.tilesEnabled = Boolean(this.databaseIndexApi && indexingConfig?.indexTiles)
   }
 
   setSyncQueryApi(api: ISyncQueryApi) {
@@ -63,40 +181,122 @@ export class LocalIndexApi implements IndexApi {
     }
   }
 
+  /**
+   * True if MIDs of +args+ Model are indexed, as part of the collection of an indexed Model.
+   */
   shouldIndexStream(args: StreamID): boolean {
-    if (!this.databaseIndexApi) {
-      return false
+    return this.collectionsOf(args).length > 0
+  }
+
+  /**
+   * Models whose MIDs are indexed and queried as the collection of +model+: the Model itself and
+   * the Models it supersedes and, if +model+ is an interface, the indexed Models implementing it
+   * along with the Models they supersede.
+   */
+  collectionModels(model: StreamID): Array<StreamID> {
+    const lineage = this.lineageModels(model)
+    const collection = new Map(lineage.map((streamId) => [streamId.toString(), streamId]))
+    for (const indexedModel of this.indexedModels()) {
+      const implemented = this.implementedModels.get(indexedModel.toString()) ?? []
+      if (implemented.some((streamId) => lineage.some((m) => m.equals(streamId)))) {
+        for (const streamId of this.lineageModels(indexedModel)) {
+          collection.set(streamId.toString(), streamId)
+        }
+      }
     }
+    return [...collection.values()]
+  }
 
-    return this.databaseIndexApi.getIndexedModels().some(function (streamId) {
-      return streamId.equals(args)
-    })
+  /**
+   * +model+ and the Models it supersedes.
+   */
+  private lineageModels(model: StreamID): Array<StreamID> {
+    return [model, ...(this.supersededModels.get(model.toString()) ?? [])]
   }
 
   /**
-   * Add stream to index in appropriate model table
+   * Indexed Models whose collection includes the MIDs of +model+.
+   */
+  private collectionsOf(model: StreamID): Array<StreamID> {
+    return this.indexedModels().filter((indexedModel) =>
+      this.collectionModels(indexedModel).some((streamId) => streamId.equals(model))
+    )
+  }
+
+  /**
+   * Add stream to index in appropriate model table, and in the tables of the models superseding
+   * its model and of the interfaces it implements.
    * @param args
    */
   async indexStream(args: IndexStreamArgs): Promise<void> {
     // only index streams with active models in config
-    if (!this.shouldIndexStream(args.model)) {
-      return
+    const collections = this.collectionsOf(args.model)
+    // Interfaces do not share the accountRelation of the Models implementing them
+    const lineage = collections.find((collection) =>
+      this.lineageModels(collection).some((streamId) => streamId.equals(args.model))
+    )
+    if (lineage) {
+      await this.assertSetRelationValid(args, lineage)
+    }
+    for (const model of collections) {
+      await this.databaseIndexApi.indexStream({ ...args, model })
     }
-    await this.databaseIndexApi.indexStream(args)
+  }
+
+  /**
+   * Throws if the Model of +args+ has a 'set' accountRelation, and the MID is not the deterministic
+   * MID of its controller for the values of the set fields it holds. Superseding Models keep the
+   * accountRelation, so the set fields of the +collection+ Model apply to the MID.
+   */
+  private async assertSetRelationValid(args: IndexStreamArgs, collection: StreamID): Promise<void> {
+    const fields = this.setFields.get(collection.toString())
+    if (!fields) return
+    const values: Array<SetFieldValue> = fields.map((field) => args.streamContent[field])
+    // Documents are created without content, before they hold the values of the set fields
+    if (values.every((value) => value === undefined)) return
+    const expected = await ModelInstanceDocument.setStreamId(args.model, args.controller, values)
+    if (!expected.equals(args.streamID)) {
+      throw new SetRelationViolationError(args.streamID.toString(), args.model.toString(), values)
+    }
+  }
+
+  /**
+   * Remove every entry from the index of +model+, so that it could be rebuilt from scratch.
+   */
+  async clearModel(model: StreamID): Promise<void> {
+    await this.databaseIndexApi?.clearModel(model)
   }
 
   async count(query: BaseQuery): Promise<number> {
     return this.databaseIndexApi.count(query)
   }
 
+  /**
+   * Aggregate indexed fields of the entries matching +query+.
+   */
+  async aggregate(query: AggregationQuery): Promise<Array<AggregationResult>> {
+    if (!this.databaseIndexApi) {
+      this.logger.warn(
+        `Indexing is not configured. Unable to serve aggregation ${JSON.stringify(query)}`
+      )
+      return []
+    }
+    return this.databaseIndexApi.aggregate(query)
+  }
+
   /**
    * Query the index. Ask an indexing database for a list of StreamIDs,
    * and convert them to corresponding StreamState instances via `Repository::streamState`.
    *
    * We assume that a state store always contains StreamState for an indexed stream, but we return null iff it's not to avoid throwing errors at DApps
+   *
+   * Relations requested by `query.expand` are resolved on the returned edges.
    */
   async query(query: PaginationQuery): Promise<Page<StreamState | null>> {
     if (this.databaseIndexApi) {
+      if (query.expand !== undefined) {
+        assertValidRelationExpansion(query.expand)
+      }
       const page = await this.databaseIndexApi.page(query)
       const edges = await Promise.all(
         // For database queries we bypass the stream cache and repository loading queue
@@ -120,6 +320,9 @@ export class LocalIndexApi implements IndexApi {
           }
         })
       )
+      if (query.expand !== undefined) {
+        await this.relationExpander.expand(query.model, edges, query.expand)
+      }
       return {
         edges: edges,
         pageInfo: page.pageInfo,
@@ -136,21 +339,138 @@ export class LocalIndexApi implements IndexApi {
     }
   }
 
+  /**
+   * Subscribe to changes of the entries matching +query+, and convert the StreamIDs reported by
+   * the indexing database to corresponding StreamState instances via `Repository::streamState`.
+   */
+  subscribe(query: BaseQuery): Observable<IndexChange<StreamState | null>> {
+    if (!this.databaseIndexApi) {
+      this.logger.warn(
+        `Indexing is not configured. Unable to serve subscription ${JSON.stringify(query)}`
+      )
+      return EMPTY
+    }
+    return this.databaseIndexApi.subscribe(query).pipe(
+      concatMap(async (change) => {
+        const node = await this.repository.streamState(change.edge.node)
+        return {
+          type: change.type,
+          edge: { cursor: change.edge.cursor, node: node ?? null },
+        }
+      })
+    )
+  }
+
+  /**
+   * Run +query+ against the index, and explain the plans the database chose for its SQL
+   * statements.
+   */
+  async explain(query: PaginationQuery): Promise<Array<IndexQueryPlan>> {
+    if (!this.databaseIndexApi) {
+      throw new Error(
+        `Indexing is not configured. Unable to explain query ${JSON.stringify(query)}`
+      )
+    }
+    return this.databaseIndexApi.explain(query)
+  }
+
   indexedModels(): Array<StreamID> {
     return this.databaseIndexApi?.getIndexedModels() || []
   }
 
-  async indexModels(models?: Array<StreamID>): Promise<void> {
+  /**
+   * Versions of documents matching +query+, as recorded by the index.
+   */
+  async history(query: HistoryQuery): Promise<Page<DocumentVersion>> {
+    if (!this.databaseIndexApi) {
+      this.logger.warn(`Indexing is not configured. Unable to serve query ${JSON.stringify(query)}`)
+      return {
+        edges: [],
+        pageInfo: {
+          hasNextPage: false,
+          hasPreviousPage: false,
+        },
+      }
+    }
+    return this.databaseIndexApi.history(query)
+  }
+
+  /**
+   * Add a TileDocument to the index, if TileDocuments are indexed.
+   */
+  async indexTile(args: IndexTileArgs): Promise<void> {
+    if (!this.tilesEnabled) return
+    await this.databaseIndexApi.indexTile(args)
+  }
+
+  /**
+   * Remove a TileDocument from the index, if TileDocuments are indexed.
+   */
+  async removeTile(streamID: StreamID): Promise<void> {
+    if (!this.tilesEnabled) return
+    await this.databaseIndexApi.removeTile(streamID)
+  }
+
+  /**
+   * Query the index of TileDocuments, and convert the StreamIDs to corresponding StreamState
+   * instances via `Repository::streamState`. Indexed TileDocuments are pinned, so null is only
+   * returned if the state store lost their state.
+   */
+  async tiles(query: TileQuery): Promise<Page<StreamState | null>> {
+    if (!this.databaseIndexApi) {
+      this.logger.warn(`Indexing is not configured. Unable to serve query ${JSON.stringify(query)}`)
+      return {
+        edges: [],
+        pageInfo: {
+          hasNextPage: false,
+          hasPreviousPage: false,
+        },
+      }
+    }
+    const page = await this.databaseIndexApi.tiles(query)
+    const edges = await Promise.all(
+      page.edges.map(async (edge) => {
+        const node = await this.repository.streamState(edge.node)
+        if (!node) {
+          this.logger.warn(
+            `Did not find stream state for TileDocument ${
+              edge.node
+            } in our state store when serving an indexed query ${JSON.stringify(query)}`
+          )
+        }
+        return { cursor: edge.cursor, node: node ?? null }
+      })
+    )
+    return { edges, pageInfo: page.pageInfo }
+  }
+
+  /**
+   * Prepare the database to index the given models. Scalar fields indexed previously are kept
+   * indexed, in addition to the ones requested in +options+. Same for recording the history of
+   * documents. A filter requested in +options+ replaces the one persisted for the model.
+   */
+  async indexModels(models?: Array<StreamID>, options: ModelIndexingOptions = {}): Promise<void> {
     if (!models) {
       return
     }
 
     const modelsNoLongerIndexed = await this.databaseIndexApi?.getModelsNoLongerIndexed()
+    const persistedIndexedFields = await this.databaseIndexApi?.getIndexedFieldsFromDatabase()
+    const persistedHistoryModels = await this.databaseIndexApi?.getHistoryModelsFromDatabase()
+    const persistedFilters = await this.databaseIndexApi?.getIndexFiltersFromDatabase()
 
     const indexModelsArgs = []
     for (const modelStreamId of models) {
       this.logger.imp(`Starting indexing for Model ${modelStreamId.toString()}`)
-      const indexModelArgs = await _getIndexModelArgs(modelStreamId, this.repository)
+      const extraIndexedFields = [
+        ...(persistedIndexedFields?.[modelStreamId.toString()] ?? []),
+        ...(options.indexedFields?.[modelStreamId.toString()] ?? []),
+      ]
+      const indexModelArgs = await _getIndexModelArgs(
+        modelStreamId,
+        this.repository,
+        extraIndexedFields
+      )
       if (modelsNoLongerIndexed) {
         const modelNoLongerIndexed = modelsNoLongerIndexed.some(function (streamId) {
           return streamId.equals(modelStreamId)
@@ -162,14 +482,57 @@ export class LocalIndexApi implements IndexApi {
           )
         }
       }
-      indexModelsArgs.push(indexModelArgs)
+      const recordHistory = [
+        ...(persistedHistoryModels ?? []),
+        ...(options.history ?? []),
+      ].includes(modelStreamId.toString())
+      const filter =
+        options.filters?.[modelStreamId.toString()] ?? persistedFilters?.[modelStreamId.toString()]
+      if (filter) {
+        assertValidIndexFilter(modelStreamId.toString(), filter)
+      }
+      indexModelsArgs.push({
+        ...indexModelArgs,
+        ...(recordHistory && { recordHistory }),
+        ...(filter && { filter }),
+      })
     }
     await this.databaseIndexApi?.indexModels(indexModelsArgs)
+    for (const modelStreamId of models) {
+      const supersededModels = await _getSupersededModels(modelStreamId, this.repository)
+      if (supersededModels.length > 0) {
+        this.supersededModels.set(modelStreamId.toString(), supersededModels)
+      }
+      const implementedModels = await _getImplementedModels(modelStreamId, this.repository)
+      if (implementedModels.length > 0) {
+        this.implementedModels.set(modelStreamId.toString(), implementedModels)
+      }
+      const setFields = await _getSetFields(modelStreamId, this.repository)
+      if (setFields) {
+        this.setFields.set(modelStreamId.toString(), setFields)
+      }
+    }
+  }
+
+  /**
+   * Compare the index of +model+ against the streams stored on the node. If +repair+ is true,
+   * index the missing and stale streams again, and remove the orphaned entries.
+   */
+  async checkModel(model: StreamID, repair = false): Promise<ModelIndexCheckReport> {
+    if (!this.indexedModels().some((indexedModel) => indexedModel.equals(model))) {
+      throw new Error(`Cannot check index of model ${model.toString()}, it is not indexed`)
+    }
+    return this.consistencyChecker.check(model, repair)
   }
 
   async stopIndexingModels(models: Array<StreamID>): Promise<void> {
     this.logger.imp(`Stopping indexing for Models: ${models.map(String).join(',')}`)
     await this.databaseIndexApi?.stopIndexingModels(models)
+    for (const model of models) {
+      this.supersededModels.delete(model.toString())
+      this.implementedModels.delete(model.toString())
+      this.setFields.delete(model.toString())
+    }
   }
 
   async init(): Promise<void> {
@@ -177,6 +540,10 @@ export class LocalIndexApi implements IndexApi {
       return
     }
     await this.databaseIndexApi.init()
+    if (this.tilesEnabled) {
+      await this.databaseIndexApi.initTileIndex()
+      await this.reconcileTiles()
+    }
     // Load the set of indexed models from the database and pass them
     // back to the DatabaseIndexApi so that it can populate its internal state.
     // TODO(CDB-2132):  Fix this fragile and circular DatabaseApi initialization
@@ -184,6 +551,38 @@ export class LocalIndexApi implements IndexApi {
     await this.indexModels(modelsToIndex)
   }
 
+  /**
+   * Bring the tile index in line with the pin store: pins can change while TileDocuments are not
+   * indexed, so index the pinned TileDocuments, and remove the entries of the ones no longer pinned.
+   */
+  private async reconcileTiles(): Promise<void> {
+    const stateStore = this.repository.pinStore.stateStore
+    let batch = await stateStore.list(TILES_RECONCILE_BATCH_SIZE)
+    while (batch.length > 0) {
+      for (const { value: state } of batch) {
+        if (state.type !== TileDocument.STREAM_TYPE_ID) continue
+        await this.repository.indexStreamIfNeeded(new RunningState(state, true))
+      }
+      batch = await stateStore.list(TILES_RECONCILE_BATCH_SIZE, batch[batch.length - 1].key)
+    }
+    let removed = 0
+    let after: string | undefined = undefined
+    let hasNextPage = true
+    while (hasNextPage) {
+      const page = await this.databaseIndexApi.tiles({ first: TILES_RECONCILE_BATCH_SIZE, after })
+      for (const { node: streamId } of page.edges) {
+        if (await stateStore.load(streamId)) continue
+        await this.databaseIndexApi.removeTile(streamId)
+        removed += 1
+      }
+      after = page.pageInfo.endCursor
+      hasNextPage = page.pageInfo.hasNextPage
+    }
+    if (removed > 0) {
+      this.logger.imp(`Removed ${removed} TileDocuments no longer pinned from the index`)
+    }
+  }
+
   async close(): Promise<void> {
     await this.databaseIndexApi?.close()
   }
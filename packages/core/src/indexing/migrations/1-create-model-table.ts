@@ -10,21 +10,42 @@ export enum DatabaseType {
 }
 
 /**
- * The expected type for the data in the column.  For now only supports STRING as the only extra
- * columns we create are for relations which are always strings.  In the future though we may allow
- * models to specify arbitrary fields in the content to be indexed, in which case we may want to
- * support other types as well.
+ * The expected type for the data in the column.  Columns for relations are always strings, while
+ * columns for indexed scalar fields follow the type of the field in the model schema.
  */
 export enum ColumnType {
   STRING,
+  INTEGER,
+  FLOAT,
+  BOOLEAN,
 }
 
 /**
  * Schema information about extra columns that should be created when creating a model table.
+ * Columns are not nullable unless specified otherwise.
  */
 export type ColumnInfo = {
   name: string
   type: ColumnType
+  nullable?: boolean
+}
+
+/**
+ * Postgres column containing the full-text search document of a MID, generated from the content.
+ */
+export const SEARCH_VECTOR_COLUMN = 'search_vector'
+
+/**
+ * Text search configuration used for full-text search on Postgres. 'simple' does not stem words or
+ * remove stop words, so it works for content in any language, same as the default FTS5 tokenizer.
+ */
+export const TEXT_SEARCH_CONFIG = 'simple'
+
+/**
+ * Name of the SQLite FTS5 table used for full-text search over MIDs of a model table.
+ */
+export function fullTextTableName(tableName: string): string {
+  return `fts_${tableName}`
 }
 
 export type TableIndex = {
@@ -139,28 +160,53 @@ export function getDefaultCDBDatabaseConfig(networkName: string): { [key: string
   }
 }
 
+function createExtraColumn(table: Knex.TableBuilder, columnName: string, type: ColumnType) {
+  switch (type) {
+    case ColumnType.STRING:
+      return table.string(columnName, 1024)
+    case ColumnType.INTEGER:
+      return table.bigInteger(columnName)
+    case ColumnType.FLOAT:
+      return table.double(columnName)
+    case ColumnType.BOOLEAN:
+      return table.boolean(columnName)
+    default:
+      throw new UnreachableCaseError(type, `Invalid column type`)
+  }
+}
+
 function createExtraColumns(
-  table: Knex.CreateTableBuilder,
+  table: Knex.TableBuilder,
   indexName: string,
   extraColumns: Array<ColumnInfo>
 ): void {
   for (const column of extraColumns) {
     const columnName = addColumnPrefix(column.name)
-    switch (column.type) {
-      case ColumnType.STRING:
-        table.string(columnName, 1024).notNullable()
-        table.index([columnName], `idx_${indexName}_${columnName}`)
-        break
-      default:
-        throw new UnreachableCaseError(column.type, `Invalid column type`)
+    const columnBuilder = createExtraColumn(table, columnName, column.type)
+    if (column.nullable) {
+      columnBuilder.nullable()
+    } else {
+      columnBuilder.notNullable()
     }
+    table.index([columnName], `idx_${indexName}_${columnName}`)
   }
 }
 
+/**
+ * Postgres expression to build the full-text search document from +fullTextFields+ of the content.
+ */
+function postgresSearchDocument(fullTextFields: Array<string>): string {
+  const fields = fullTextFields.map((field) => {
+    return `coalesce(stream_content ->> '${field.replace(/'/g, "''")}', '')`
+  })
+  return `to_tsvector('${TEXT_SEARCH_CONFIG}', ${fields.join(` || ' ' || `)})`
+}
+
 export async function createPostgresModelTable(
   dataSource: Knex,
   tableName: string,
-  extraColumns: Array<ColumnInfo>
+  extraColumns: Array<ColumnInfo>,
+  fullTextFields: Array<string> = []
 ): Promise<void> {
   await dataSource.schema.createTable(tableName, function (table) {
     const idx = indices(tableName)
@@ -176,6 +222,18 @@ export async function createPostgresModelTable(
     table.dateTime('first_anchored_at').nullable()
     table.dateTime('created_at').notNullable().defaultTo(dataSource.fn.now())
     table.dateTime('updated_at').notNullable().defaultTo(dataSource.fn.now())
+    table.boolean('is_deleted').notNullable().defaultTo(false)
+    table.string('last_writer', 1024).nullable()
+
+    if (fullTextFields.length > 0) {
+      table.specificType(
+        SEARCH_VECTOR_COLUMN,
+        `tsvector GENERATED ALWAYS AS (${postgresSearchDocument(fullTextFields)}) STORED`
+      )
+      table.index([SEARCH_VECTOR_COLUMN], `idx_${idx.indexName}_${SEARCH_VECTOR_COLUMN}`, {
+        indexType: 'gin',
+      })
+    }
 
     createExtraColumns(table, idx.indexName, extraColumns)
 
@@ -190,7 +248,8 @@ export async function createPostgresModelTable(
 export async function createSqliteModelTable(
   dataSource: Knex,
   tableName: string,
-  extraColumns: Array<ColumnInfo>
+  extraColumns: Array<ColumnInfo>,
+  fullTextFields: Array<string> = []
 ): Promise<void> {
   await dataSource.schema.createTable(tableName, (table) => {
     const idx = indices(tableName)
@@ -203,6 +262,8 @@ export async function createSqliteModelTable(
     table.integer('first_anchored_at').nullable()
     table.integer('created_at').notNullable()
     table.integer('updated_at').notNullable()
+    table.boolean('is_deleted').notNullable().defaultTo(false)
+    table.string('last_writer', 1024).nullable()
 
     createExtraColumns(table, tableName, extraColumns)
 
@@ -212,6 +273,102 @@ export async function createSqliteModelTable(
       })
     }
   })
+
+  if (fullTextFields.length > 0) {
+    const columns = fullTextFields.map(() => '??').join(', ')
+    await dataSource.raw(`CREATE VIRTUAL TABLE ?? USING fts5(stream_id UNINDEXED, ${columns})`, [
+      fullTextTableName(tableName),
+      ...fullTextFields,
+    ])
+  }
+}
+
+/**
+ * Add extra columns, along with their indices, to an existing Postgres model table.
+ */
+export async function addPostgresModelColumns(
+  dataSource: Knex,
+  tableName: string,
+  extraColumns: Array<ColumnInfo>
+): Promise<void> {
+  await dataSource.schema.alterTable(tableName, (table) => {
+    createExtraColumns(table, indices(tableName).indexName, extraColumns)
+  })
+}
+
+/**
+ * Add extra columns, along with their indices, to an existing SQLite model table.
+ */
+export async function addSqliteModelColumns(
+  dataSource: Knex,
+  tableName: string,
+  extraColumns: Array<ColumnInfo>
+): Promise<void> {
+  await dataSource.schema.alterTable(tableName, (table) => {
+    createExtraColumns(table, tableName, extraColumns)
+  })
+}
+
+/**
+ * Create the table recording every indexed version of documents of models indexed with history.
+ */
+export async function createHistoryTable(
+  dataSource: Knex,
+  tableName: string,
+  dbType: DatabaseType
+): Promise<void> {
+  await dataSource.schema.createTable(tableName, (table) => {
+    table.increments('id').primary()
+    table.string('model', 1024).notNullable()
+    table.string('stream_id', 1024).notNullable()
+    table.string('controller_did', 1024).notNullable()
+    table.string('tip').notNullable()
+    switch (dbType) {
+      case DatabaseType.POSTGRES:
+        table.jsonb('stream_content').notNullable()
+        table.dateTime('last_anchored_at').nullable()
+        table.dateTime('created_at').notNullable()
+        break
+      case DatabaseType.SQLITE:
+        table.string('stream_content').notNullable()
+        table.integer('last_anchored_at').nullable()
+        table.integer('created_at').notNullable()
+        break
+      default:
+        throw new UnreachableCaseError(dbType, `Invalid database type`)
+    }
+    table.unique(['stream_id', 'tip'], { indexName: `constr_history_stream_id_tip_unique` })
+    table.index(['model', 'created_at'], `idx_history_model_created_at`)
+  })
+}
+
+/**
+ * Create the tables indexing TileDocuments by family, schema and controller, and by tag.
+ */
+export async function createTileTables(
+  dataSource: Knex,
+  tableName: string,
+  tagsTableName: string
+): Promise<void> {
+  await dataSource.schema.createTable(tableName, (table) => {
+    table.increments('id').primary()
+    table
+      .string('stream_id', 1024)
+      .notNullable()
+      .unique({ indexName: `constr_tiles_stream_id_unique` })
+    table.string('controller_did', 1024).notNullable()
+    table.string('family', 1024).nullable()
+    table.string('schema', 1024).nullable()
+    table.index(['family'], `idx_tiles_family`)
+    table.index(['schema'], `idx_tiles_schema`)
+    table.index(['controller_did'], `idx_tiles_controller_did`)
+  })
+  await dataSource.schema.createTable(tagsTableName, (table) => {
+    table.string('stream_id', 1024).notNullable()
+    table.string('tag', 1024).notNullable()
+    table.unique(['stream_id', 'tag'], { indexName: `constr_tile_tags_stream_id_tag_unique` })
+    table.index(['tag'], `idx_tile_tags_tag`)
+  })
 }
 
 export async function createConfigTable(dataSource: Knex, tableName: string, network: Networks) {
@@ -227,6 +384,9 @@ export async function createConfigTable(dataSource: Knex, tableName: string, net
         table.dateTime('created_at').notNullable().defaultTo(dataSource.fn.now())
         table.dateTime('updated_at').notNullable().defaultTo(dataSource.fn.now())
         table.string('updated_by', 1024).notNullable()
+        table.text('indexed_fields').nullable()
+        table.boolean('record_history').notNullable().defaultTo(false)
+        table.text('index_filter').nullable()
 
         table.index(['is_indexed'], `idx_ceramic_is_indexed`, {
           storageEngineIndexType: 'hash',
@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+import type { Migration } from './migration.js'
+import { INDEXED_MODEL_CONFIG_TABLE_NAME } from '../database-index-api.js'
+
+/**
+ * Add the `indexed_fields` column to a model indexing config table created before scalar fields
+ * could be indexed.
+ */
+async function addIndexedFieldsConfigColumn(dataSource: Knex): Promise<void> {
+  const exists = await dataSource.schema.hasColumn(
+    INDEXED_MODEL_CONFIG_TABLE_NAME,
+    'indexed_fields'
+  )
+  if (exists) return
+  await dataSource.schema.alterTable(INDEXED_MODEL_CONFIG_TABLE_NAME, (table) => {
+    table.text('indexed_fields').nullable()
+  })
+}
+
+export const addIndexedFieldsConfigColumnMigration: Migration = {
+  version: 2,
+  name: 'add-indexed-fields-config-column',
+  config: addIndexedFieldsConfigColumn,
+}
@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+import type { Migration } from './migration.js'
+import { INDEXED_MODEL_CONFIG_TABLE_NAME } from '../database-index-api.js'
+
+/**
+ * Add the `record_history` column to a model indexing config table created before the history of
+ * documents could be recorded.
+ */
+async function addRecordHistoryConfigColumn(dataSource: Knex): Promise<void> {
+  const exists = await dataSource.schema.hasColumn(
+    INDEXED_MODEL_CONFIG_TABLE_NAME,
+    'record_history'
+  )
+  if (exists) return
+  await dataSource.schema.alterTable(INDEXED_MODEL_CONFIG_TABLE_NAME, (table) => {
+    table.boolean('record_history').notNullable().defaultTo(false)
+  })
+}
+
+export const addRecordHistoryConfigColumnMigration: Migration = {
+  version: 3,
+  name: 'add-record-history-config-column',
+  config: addRecordHistoryConfigColumn,
+}
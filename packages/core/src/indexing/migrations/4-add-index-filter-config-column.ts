@@ -0,0 +1,21 @@
+import type { Knex } from 'knex'
+import type { Migration } from './migration.js'
+import { INDEXED_MODEL_CONFIG_TABLE_NAME } from '../database-index-api.js'
+
+/**
+ * Add the `index_filter` column to a model indexing config table created before models could be
+ * indexed partially.
+ */
+async function addIndexFilterConfigColumn(dataSource: Knex): Promise<void> {
+  const exists = await dataSource.schema.hasColumn(INDEXED_MODEL_CONFIG_TABLE_NAME, 'index_filter')
+  if (exists) return
+  await dataSource.schema.alterTable(INDEXED_MODEL_CONFIG_TABLE_NAME, (table) => {
+    table.text('index_filter').nullable()
+  })
+}
+
+export const addIndexFilterConfigColumnMigration: Migration = {
+  version: 4,
+  name: 'add-index-filter-config-column',
+  config: addIndexFilterConfigColumn,
+}
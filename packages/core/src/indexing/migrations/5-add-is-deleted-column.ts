@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+import type { Migration } from './migration.js'
+import type { DatabaseType } from './1-create-model-table.js'
+
+/**
+ * Add the `is_deleted` column to a mid table created before MIDs could be deleted.
+ */
+async function addIsDeletedColumn(
+  dataSource: Knex,
+  _dbType: DatabaseType,
+  tableName: string
+): Promise<void> {
+  const exists = await dataSource.schema.hasColumn(tableName, 'is_deleted')
+  if (exists) return
+  await dataSource.schema.alterTable(tableName, (table) => {
+    table.boolean('is_deleted').notNullable().defaultTo(false)
+  })
+}
+
+export const addIsDeletedColumnMigration: Migration = {
+  version: 5,
+  name: 'add-is-deleted-column',
+  midTable: addIsDeletedColumn,
+}
@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+import type { Migration } from './migration.js'
+import type { DatabaseType } from './1-create-model-table.js'
+
+/**
+ * Add the `last_writer` column to a mid table created before models could delegate writes.
+ */
+async function addLastWriterColumn(
+  dataSource: Knex,
+  _dbType: DatabaseType,
+  tableName: string
+): Promise<void> {
+  const exists = await dataSource.schema.hasColumn(tableName, 'last_writer')
+  if (exists) return
+  await dataSource.schema.alterTable(tableName, (table) => {
+    table.string('last_writer', 1024).nullable()
+  })
+}
+
+export const addLastWriterColumnMigration: Migration = {
+  version: 6,
+  name: 'add-last-writer-column',
+  midTable: addLastWriterColumn,
+}
@@ -1,4 +1,4 @@
-import { DatabaseType } from './1-create-model-table.js'
+import { ColumnType, DatabaseType } from './1-create-model-table.js'
 
 // Copied from Knex but not exported
 interface ColumnInfo {
@@ -9,7 +9,11 @@ interface ColumnInfo {
 }
 type TableInfo = Record<string, ColumnInfo>
 type TableName = 'COMMON_TABLE' | 'CONFIG_TABLE_MODEL_INDEX' | 'CONFIG_TABLE'
-type StructuresRecord = Record<TableName, TableInfo> & { RELATION_COLUMN: ColumnInfo }
+type StructuresRecord = Record<TableName, TableInfo> & {
+  RELATION_COLUMN: ColumnInfo
+  INDEXED_FIELD_COLUMNS: Record<ColumnType, ColumnInfo>
+  SEARCH_VECTOR_COLUMN?: ColumnInfo
+}
 
 export const STRUCTURES: Record<DatabaseType, StructuresRecord> = {
   [DatabaseType.POSTGRES]: {
@@ -23,6 +27,46 @@ export const STRUCTURES: Record<DatabaseType, StructuresRecord> = {
       nullable: false,
       defaultValue: null,
     },
+    /**
+     * Expected Postgres structure for the full-text search column.
+     * Used to verify table integrity during node startup and after indexing a new model.
+     */
+    SEARCH_VECTOR_COLUMN: {
+      type: 'tsvector',
+      maxLength: null,
+      nullable: true,
+      defaultValue: null,
+    },
+    /**
+     * Expected Postgres structure for columns for indexed scalar fields, per column type.
+     * Used to verify table integrity during node startup and after indexing a new model.
+     */
+    INDEXED_FIELD_COLUMNS: {
+      [ColumnType.STRING]: {
+        type: 'character varying',
+        maxLength: 1024,
+        nullable: true,
+        defaultValue: null,
+      },
+      [ColumnType.INTEGER]: {
+        type: 'bigint',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
+      [ColumnType.FLOAT]: {
+        type: 'double precision',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
+      [ColumnType.BOOLEAN]: {
+        type: 'boolean',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
+    },
     /**
      * Valid Postgres table structure for mid tables
      * Used to verify table integrity during node startup and after indexing a new model
@@ -76,6 +120,18 @@ export const STRUCTURES: Record<DatabaseType, StructuresRecord> = {
         nullable: false,
         defaultValue: 'CURRENT_TIMESTAMP',
       },
+      is_deleted: {
+        type: 'boolean',
+        maxLength: null,
+        nullable: false,
+        defaultValue: 'false',
+      },
+      last_writer: {
+        type: 'character varying',
+        maxLength: 1024,
+        nullable: true,
+        defaultValue: null,
+      },
     },
     /**
      * Valid Postgres table structure for model indexing config table
@@ -118,6 +174,24 @@ export const STRUCTURES: Record<DatabaseType, StructuresRecord> = {
         nullable: false,
         defaultValue: null,
       },
+      indexed_fields: {
+        type: 'text',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
+      record_history: {
+        type: 'boolean',
+        maxLength: null,
+        nullable: false,
+        defaultValue: 'false',
+      },
+      index_filter: {
+        type: 'text',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
     },
     /**
      * Valid Postgres table structure for config table
@@ -167,6 +241,36 @@ export const STRUCTURES: Record<DatabaseType, StructuresRecord> = {
       nullable: false,
       defaultValue: null,
     },
+    /**
+     * Expected SQLite structure for columns for indexed scalar fields, per column type.
+     * Used to verify table integrity during node startup and after indexing a new model.
+     */
+    INDEXED_FIELD_COLUMNS: {
+      [ColumnType.STRING]: {
+        type: 'varchar',
+        maxLength: '1024',
+        nullable: true,
+        defaultValue: null,
+      },
+      [ColumnType.INTEGER]: {
+        type: 'bigint',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
+      [ColumnType.FLOAT]: {
+        type: 'float',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
+      [ColumnType.BOOLEAN]: {
+        type: 'boolean',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
+    },
     /**
      * Valid SQLite table structure for mid tables
      * Used to verify table integrity during node startup and after indexing a new model.
@@ -220,6 +324,18 @@ export const STRUCTURES: Record<DatabaseType, StructuresRecord> = {
         nullable: false,
         defaultValue: null,
       },
+      is_deleted: {
+        type: 'boolean',
+        maxLength: null,
+        nullable: false,
+        defaultValue: "'0'",
+      },
+      last_writer: {
+        type: 'varchar',
+        maxLength: '1024',
+        nullable: true,
+        defaultValue: null,
+      },
     },
     /**
      * Valid SQLite table structure for model indexing config table
@@ -262,6 +378,24 @@ export const STRUCTURES: Record<DatabaseType, StructuresRecord> = {
         nullable: false,
         defaultValue: null,
       },
+      indexed_fields: {
+        type: 'text',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
+      record_history: {
+        type: 'boolean',
+        maxLength: null,
+        nullable: false,
+        defaultValue: "'0'",
+      },
+      index_filter: {
+        type: 'text',
+        maxLength: null,
+        nullable: true,
+        defaultValue: null,
+      },
     },
     /**
      * Valid SQLite table structure for config table
@@ -0,0 +1,92 @@
+import type { Knex } from 'knex'
+import type { DiagnosticsLogger } from '@ceramicnetwork/common'
+import type { Migration } from './migration.js'
+import type { DatabaseType } from './1-create-model-table.js'
+import { addIndexedFieldsConfigColumnMigration } from './2-add-indexed-fields-config-column.js'
+import { addRecordHistoryConfigColumnMigration } from './3-add-record-history-config-column.js'
+import { addIndexFilterConfigColumnMigration } from './4-add-index-filter-config-column.js'
+import { addIsDeletedColumnMigration } from './5-add-is-deleted-column.js'
+import { addLastWriterColumnMigration } from './6-add-last-writer-column.js'
+import { MIGRATIONS_TABLE_NAME } from '../config.js'
+
+/**
+ * Migrations of the index schema, in order.
+ */
+export const MIGRATIONS: Array<Migration> = [
+  addIndexedFieldsConfigColumnMigration,
+  addRecordHistoryConfigColumnMigration,
+  addIndexFilterConfigColumnMigration,
+  addIsDeletedColumnMigration,
+  addLastWriterColumnMigration,
+]
+
+/**
+ * Applies pending migrations to the config tables and mid tables of the index, and records their
+ * versions in the `ceramic_migrations` table.
+ */
+export class MigrationRunner {
+  constructor(
+    private readonly dataSource: Knex,
+    private readonly dbType: DatabaseType,
+    private readonly logger: DiagnosticsLogger,
+    private readonly migrations: Array<Migration> = MIGRATIONS
+  ) {}
+
+  /**
+   * Apply the migrations that are not applied yet, in order of their versions, to the config tables
+   * and to +midTables+. A migration that fails is rolled back, and the next migrations are not
+   * applied.
+   */
+  async run(midTables: Array<string>): Promise<void> {
+    await this.initMigrationsTable()
+    const applied = await this.appliedVersions()
+    const latest = Math.max(0, ...this.migrations.map((migration) => migration.version))
+    const unknown = applied.filter((version) => version > latest)
+    if (unknown.length > 0) {
+      this.logger.warn(
+        `ComposeDB index has migrations ${unknown.join(', ')} applied by a more recent node version`
+      )
+    }
+    const pending = this.migrations
+      .filter((migration) => !applied.includes(migration.version))
+      .sort((a, b) => a.version - b.version)
+    for (const migration of pending) {
+      this.logger.imp(
+        `Applying ComposeDB index migration ${migration.version}-${migration.name} to ${midTables.length} tables`
+      )
+      await this.dataSource.transaction(async (trx) => {
+        await migration.config?.(trx, this.dbType)
+        if (migration.midTable) {
+          for (const tableName of midTables) {
+            await migration.midTable(trx, this.dbType, tableName)
+          }
+        }
+        await trx(MIGRATIONS_TABLE_NAME).insert({
+          version: migration.version,
+          name: migration.name,
+        })
+      })
+    }
+  }
+
+  /**
+   * Versions of the migrations applied to the database, in ascending order.
+   */
+  async appliedVersions(): Promise<Array<number>> {
+    const rows: Array<{ version: number }> = await this.dataSource(MIGRATIONS_TABLE_NAME)
+      .select('version')
+      .orderBy('version')
+    return rows.map((row) => Number(row.version))
+  }
+
+  private async initMigrationsTable(): Promise<void> {
+    const exists = await this.dataSource.schema.hasTable(MIGRATIONS_TABLE_NAME)
+    if (exists) return
+    this.logger.imp(`Creating ComposeDB config table: ${MIGRATIONS_TABLE_NAME}`)
+    await this.dataSource.schema.createTable(MIGRATIONS_TABLE_NAME, (table) => {
+      table.integer('version').notNullable().primary()
+      table.string('name', 1024).notNullable()
+      table.dateTime('applied_at').notNullable().defaultTo(this.dataSource.fn.now())
+    })
+  }
+}
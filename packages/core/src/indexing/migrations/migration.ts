@@ -0,0 +1,25 @@
+import type { Knex } from 'knex'
+import type { DatabaseType } from './1-create-model-table.js'
+
+/**
+ * Change to the schema of the index tables, applied once to existing databases.
+ *
+ * Migrations are applied in the order of their versions, each in a database transaction. Tables
+ * created after a migration is applied already have the latest schema, so migrations must be
+ * idempotent: they check the current schema before changing it.
+ */
+export type Migration = {
+  /**
+   * Position of the migration. Version 1 is the initial schema, see `1-create-model-table.ts`.
+   */
+  readonly version: number
+  readonly name: string
+  /**
+   * Update the config tables.
+   */
+  readonly config?: (dataSource: Knex, dbType: DatabaseType) => Promise<void>
+  /**
+   * Update the mid table +tableName+. Called for every existing mid table.
+   */
+  readonly midTable?: (dataSource: Knex, dbType: DatabaseType, tableName: string) => Promise<void>
+}
@@ -0,0 +1,166 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import type { DiagnosticsLogger, ModelReindexStatus } from '@ceramicnetwork/common'
+import type { Repository } from '../state-management/repository.js'
+import type { ModelReindexProgress } from '../store/model-reindex-store.js'
+import { RunningState } from '../state-management/running-state.js'
+
+const REINDEX_BATCH_SIZE = 100
+
+/**
+ * Rebuilds the index of models from the streams in the state store, without relying on
+ * historical sync.
+ *
+ * Progress is saved to the `ModelReindexStore` after every batch of streams, so that an
+ * interrupted reindexing resumes where it stopped when the node restarts. Streams that fail to be
+ * indexed are logged and counted, and do not stop the reindexing.
+ */
+export class ModelReindexer {
+  /**
+   * Reindexing currently running, keyed by model StreamID
+   */
+  readonly #running = new Map<string, Promise<void>>()
+
+  /**
+   * Models for which the reindexing should stop before the next stream
+   */
+  readonly #cancelled = new Set<string>()
+
+  /**
+   * true iff the reindexer is in the process of closing
+   */
+  #shouldBeClosed = false
+
+  constructor(
+    private readonly repository: Repository,
+    private readonly logger: DiagnosticsLogger
+  ) {}
+
+  /**
+   * Start reindexing +model+ from scratch in the background. A reindexing already running for
+   * the model is stopped first. The entries of the model are removed from the index before it is
+   * repopulated, so that entries of streams no longer in the state store do not survive.
+   */
+  async reindex(model: StreamID): Promise<void> {
+    if (!this.repository.index.indexedModels().some((indexed) => indexed.equals(model))) {
+      throw new Error(`Cannot reindex model ${model.toString()}, it is not indexed`)
+    }
+    await this.stop(model.toString())
+    // Recreates the model tables if they were dropped
+    await this.repository.index.indexModels([model])
+    await this.repository.index.clearModel(model)
+    const progress: ModelReindexProgress = {
+      model: model.toString(),
+      processedStreams: 0,
+      indexedStreams: 0,
+      failedStreams: 0,
+      completed: false,
+    }
+    await this.repository.modelReindexStore.save(model, progress)
+    this.logger.imp(`Starting reindexing of Model ${model.toString()}`)
+    this.start(model, progress)
+  }
+
+  /**
+   * Resume reindexing interrupted by a node restart.
+   */
+  async resume(): Promise<void> {
+    const all = await this.repository.modelReindexStore.list()
+    for (const progress of all) {
+      if (progress.completed || this.#running.has(progress.model)) continue
+      const model = this.repository.index
+        .indexedModels()
+        .find((indexed) => indexed.toString() === progress.model)
+      if (!model) {
+        this.logger.warn(`Not resuming reindexing of Model ${progress.model}, it is not indexed`)
+        continue
+      }
+      this.logger.imp(
+        `Resuming reindexing of Model ${progress.model} after ${progress.processedStreams} streams`
+      )
+      this.start(model, progress)
+    }
+  }
+
+  /**
+   * Progress of all the reindexing requested on this node.
+   */
+  async status(): Promise<Array<ModelReindexStatus>> {
+    const all = await this.repository.modelReindexStore.list()
+    return all.map((progress) => ({
+      model: progress.model,
+      processedStreams: progress.processedStreams,
+      indexedStreams: progress.indexedStreams,
+      // Progress saved before failures were counted has none
+      failedStreams: progress.failedStreams ?? 0,
+      completed: progress.completed,
+    }))
+  }
+
+  async close(): Promise<void> {
+    this.logger.debug('Closing ModelReindexer')
+    this.#shouldBeClosed = true
+    await Promise.all(Array.from(this.#running.keys()).map((model) => this.stop(model)))
+    this.logger.debug('ModelReindexer closed')
+  }
+
+  private start(model: StreamID, progress: ModelReindexProgress): void {
+    const key = model.toString()
+    const running = this.run(model, progress)
+      .catch((error) => {
+        this.logger.err(`Error while reindexing Model ${key}: ${error}`)
+      })
+      .finally(() => {
+        this.#running.delete(key)
+        this.#cancelled.delete(key)
+      })
+    this.#running.set(key, running)
+  }
+
+  private async stop(model: string): Promise<void> {
+    const running = this.#running.get(model)
+    if (!running) return
+    this.#cancelled.add(model)
+    await running
+  }
+
+  private async run(model: StreamID, progress: ModelReindexProgress): Promise<void> {
+    const key = model.toString()
+    const stateStore = this.repository.pinStore.stateStore
+    let gt = progress.lastStreamId ? StreamID.fromString(progress.lastStreamId) : undefined
+    // MIDs of the models superseded by the model, or implementing it, are reindexed along with its
+    // own MIDs
+    const collection = this.repository.index.collectionModels(model).map(String)
+    let batch = await stateStore.list(REINDEX_BATCH_SIZE, gt)
+    while (batch.length > 0) {
+      for (const { key: streamId, value: state } of batch) {
+        if (this.#cancelled.has(key) || this.#shouldBeClosed) return
+        if (collection.includes(state.metadata.model?.toString())) {
+          const state$ =
+            this.repository.inmemory.get(streamId.toString()) ?? new RunningState(state, true)
+          try {
+            await this.repository.indexStreamIfNeeded(state$)
+            progress.indexedStreams += 1
+          } catch (error) {
+            this.logger.warn(
+              `Skipping stream ${streamId.toString()} while reindexing Model ${key}: ${error}`
+            )
+            progress.failedStreams = (progress.failedStreams ?? 0) + 1
+          }
+        }
+        progress.processedStreams += 1
+        gt = streamId
+      }
+      progress.lastStreamId = gt.toString()
+      await this.repository.modelReindexStore.save(model, progress)
+      this.logger.verbose(
+        `Reindexing of Model ${key}: ${progress.indexedStreams} streams indexed out of ${progress.processedStreams} processed`
+      )
+      batch = await stateStore.list(REINDEX_BATCH_SIZE, gt)
+    }
+    progress.completed = true
+    await this.repository.modelReindexStore.save(model, progress)
+    this.logger.imp(
+      `Finished reindexing of Model ${key}: ${progress.indexedStreams} streams indexed, ${progress.failedStreams} failed`
+    )
+  }
+}
@@ -0,0 +1,226 @@
+import type { Knex } from 'knex'
+import type { FieldFilter, FilterValue, QueryFilter } from '@ceramicnetwork/common'
+import { addColumnPrefix } from './column-name.util.js'
+import { InvalidQueryFilterError } from './invalid-query-filter.error.js'
+
+/**
+ * Maximum number of values allowed for `in` and `notIn` operators.
+ */
+const MAX_SET_SIZE = 500
+
+const COMPARISON_OPERATORS = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+}
+
+function isFilterValue(input: unknown): input is FilterValue {
+  return typeof input === 'string' || typeof input === 'number' || typeof input === 'boolean'
+}
+
+/**
+ * Operator of a field filter along with its operand, discriminated on the operator.
+ */
+type FilterOperation = {
+  [Operator in keyof FieldFilter]-?: [Operator, NonNullable<FieldFilter[Operator]>]
+}[keyof FieldFilter]
+
+/**
+ * Operations of a validated field +filter+, skipping operators without operand.
+ */
+function filterOperations(filter: FieldFilter): Array<FilterOperation> {
+  return Object.entries(filter).filter(([, operand]) => {
+    return operand !== undefined
+  }) as Array<FilterOperation>
+}
+
+function isFilterValueArray(input: unknown): input is Array<FilterValue> {
+  return Array.isArray(input) && input.every(isFilterValue)
+}
+
+/**
+ * Check that +filter+ is a well-formed filter on +field+.
+ *
+ * @throws InvalidQueryFilterError if it is not.
+ */
+function assertValidQueryFilter(field: string, filter: unknown): asserts filter is QueryFilter {
+  if (isFilterValue(filter)) return
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    throw new InvalidQueryFilterError(field, `expected a scalar value or an object with operators`)
+  }
+  const operators = Object.entries(filter)
+  if (operators.length === 0) {
+    throw new InvalidQueryFilterError(field, `no operators provided`)
+  }
+  for (const [operator, value] of operators) {
+    switch (operator) {
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        if (!isFilterValue(value)) {
+          throw new InvalidQueryFilterError(field, `operator ${operator} expects a scalar value`)
+        }
+        break
+      case 'in':
+      case 'notIn':
+        if (!isFilterValueArray(value)) {
+          throw new InvalidQueryFilterError(
+            field,
+            `operator ${operator} expects an array of scalar values`
+          )
+        }
+        if (value.length > MAX_SET_SIZE) {
+          throw new InvalidQueryFilterError(
+            field,
+            `operator ${operator} accepts at most ${MAX_SET_SIZE} values, got ${value.length}`
+          )
+        }
+        break
+      case 'isNull':
+        if (typeof value !== 'boolean') {
+          throw new InvalidQueryFilterError(field, `operator isNull expects a boolean`)
+        }
+        break
+      case 'not':
+        assertValidQueryFilter(field, value)
+        break
+      default:
+        throw new InvalidQueryFilterError(field, `unsupported operator ${operator}`)
+    }
+  }
+}
+
+/**
+ * Check that +filters+ only use supported operators, and only target +filterableFields+.
+ *
+ * @param filters - Filters from an index query, keyed by field name.
+ * @param filterableFields - Fields of a model that have a dedicated column in the index.
+ * @throws InvalidQueryFilterError if a filter is not valid.
+ */
+export function assertValidQueryFilters(
+  filters: Record<string, unknown>,
+  filterableFields: Array<string>
+): void {
+  const columns = filterableFields.map(addColumnPrefix)
+  for (const [field, filter] of Object.entries(filters)) {
+    if (!columns.includes(addColumnPrefix(field))) {
+      throw new InvalidQueryFilterError(field, `field is not indexed`)
+    }
+    assertValidQueryFilter(field, filter)
+  }
+}
+
+function applyFieldFilter(
+  builder: Knex.QueryBuilder,
+  column: string,
+  filter: QueryFilter
+): Knex.QueryBuilder {
+  if (isFilterValue(filter)) {
+    return builder.where(column, filter)
+  }
+  let result = builder
+  for (const [operator, value] of filterOperations(filter)) {
+    switch (operator) {
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        result = result.where(column, COMPARISON_OPERATORS[operator], value)
+        break
+      case 'in':
+        result = result.whereIn(column, value)
+        break
+      case 'notIn':
+        result = result.whereNotIn(column, value)
+        break
+      case 'isNull':
+        result = value ? result.whereNull(column) : result.whereNotNull(column)
+        break
+      case 'not':
+        result = result.whereNot((subquery) => {
+          applyFieldFilter(subquery, column, value)
+        })
+        break
+    }
+  }
+  return result
+}
+
+/**
+ * Add `where` clauses corresponding to +filters+ to the query.
+ * Expects the filters to be validated with `assertValidQueryFilters`.
+ */
+export function applyQueryFilters<T extends Knex.QueryBuilder>(
+  builder: T,
+  filters: Record<string, QueryFilter> | undefined
+): T {
+  if (!filters) return builder
+  let result: Knex.QueryBuilder = builder
+  for (const [field, filter] of Object.entries(filters)) {
+    result = applyFieldFilter(result, addColumnPrefix(field), filter)
+  }
+  return result as T
+}
+
+/**
+ * Evaluate +filter+ on a column +value+ the way SQL does: a comparison with `NULL` is unknown,
+ * represented as `null`, and negating unknown stays unknown.
+ */
+function evaluateFieldFilter(value: unknown, filter: QueryFilter): boolean | null {
+  if (isFilterValue(filter)) {
+    return value === null || value === undefined ? null : value === filter
+  }
+  let result: boolean | null = true
+  for (const [operator, operand] of filterOperations(filter)) {
+    let evaluated: boolean | null
+    if (operator === 'isNull') {
+      evaluated = (value === null || value === undefined) === operand
+    } else if (operator === 'not') {
+      const negated = evaluateFieldFilter(value, operand)
+      evaluated = negated === null ? null : !negated
+    } else if (value === null || value === undefined) {
+      evaluated = null
+    } else {
+      switch (operator) {
+        case 'gt':
+          evaluated = value > operand
+          break
+        case 'gte':
+          evaluated = value >= operand
+          break
+        case 'lt':
+          evaluated = value < operand
+          break
+        case 'lte':
+          evaluated = value <= operand
+          break
+        case 'in':
+          evaluated = operand.some((item) => item === value)
+          break
+        case 'notIn':
+          evaluated = !operand.some((item) => item === value)
+          break
+      }
+    }
+    // SQL AND: false wins over unknown, unknown wins over true
+    if (evaluated === false) return false
+    if (evaluated === null) result = null
+  }
+  return result
+}
+
+/**
+ * True if +row+ of a model table satisfies +filters+, as `applyQueryFilters` would select it.
+ * Expects the filters to be validated with `assertValidQueryFilters`.
+ */
+export function matchesQueryFilters(
+  row: Record<string, unknown>,
+  filters: Record<string, QueryFilter> | undefined
+): boolean {
+  if (!filters) return true
+  return Object.entries(filters).every(([field, filter]) => {
+    return evaluateFieldFilter(row[addColumnPrefix(field)], filter) === true
+  })
+}
@@ -0,0 +1,97 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { Knex } from 'knex'
+
+/**
+ * SQL statement run by the index database, with its duration in milliseconds.
+ */
+export type LoggedStatement = {
+  sql: string
+  bindings: Array<unknown>
+  duration: number
+  // Statement with its bindings inlined, as rendered by the knex builder that ran it
+  query?: string
+}
+
+/**
+ * Settings of the opt-in logging of index queries.
+ */
+export type QueryLogOptions = {
+  /**
+   * Log SQL statements and duration of `count` and `page` index queries.
+   */
+  logQueries?: boolean
+
+  /**
+   * Only log index queries taking at least that many milliseconds. Every query is logged by default.
+   */
+  slowQueryThreshold?: number
+}
+
+type QueryEventData = {
+  __knexQueryUid?: string
+  sql: string
+  bindings?: Array<unknown>
+}
+
+/**
+ * Records SQL statements knex runs on behalf of an index query. A statement is attributed to the
+ * index query through the async context it runs in, so that concurrent index queries do not mix.
+ */
+export class QueryLog {
+  private readonly context = new AsyncLocalStorage<Array<LoggedStatement>>()
+  // Statements started and not yet completed, by knex query id
+  private readonly started = new Map<
+    string,
+    { statement: LoggedStatement; startedAt: number; statements: Array<LoggedStatement> }
+  >()
+
+  private listening = false
+
+  constructor(private readonly dbConnection: Knex) {}
+
+  /**
+   * Listen to knex query events, once the first statements are recorded.
+   */
+  private listen(): void {
+    if (this.listening) return
+    this.listening = true
+    this.dbConnection.on('query', (data: QueryEventData) => {
+      const statements = this.context.getStore()
+      if (!statements || !data.__knexQueryUid) return
+      const statement = { sql: data.sql, bindings: data.bindings ?? [], duration: 0 }
+      this.started.set(data.__knexQueryUid, { statement, startedAt: Date.now(), statements })
+    })
+    const complete = (_: unknown, data: QueryEventData, builder?: Knex.QueryBuilder | Knex.Raw) => {
+      const started = this.started.get(data.__knexQueryUid)
+      if (!started) return
+      this.started.delete(data.__knexQueryUid)
+      started.statement.duration = Date.now() - started.startedAt
+      if (builder) {
+        started.statement.query = builder.toQuery()
+      }
+      started.statements.push(started.statement)
+    }
+    this.dbConnection.on('query-response', complete)
+    this.dbConnection.on('query-error', complete)
+  }
+
+  /**
+   * Run +fn+, and record the SQL statements it runs. Statements recorded by a nested call are also
+   * recorded by the enclosing one.
+   */
+  async record<T>(
+    fn: () => Promise<T>
+  ): Promise<{ result: T; statements: Array<LoggedStatement>; duration: number }> {
+    this.listen()
+    const enclosing = this.context.getStore()
+    const statements: Array<LoggedStatement> = []
+    const startedAt = Date.now()
+    try {
+      // Await in the context, so that a lazy query builder returned by +fn+ also runs in it
+      const result = await this.context.run(statements, async () => await fn())
+      return { result, statements, duration: Date.now() - startedAt }
+    } finally {
+      enclosing?.push(...statements)
+    }
+  }
+}
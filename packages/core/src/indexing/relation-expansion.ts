@@ -0,0 +1,171 @@
+import type { RelatedNode, RelationExpansion, StreamState } from '@ceramicnetwork/common'
+import { StreamUtils } from '@ceramicnetwork/common'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { Model } from '@ceramicnetwork/stream-model'
+import type { ModelDefinition } from '@ceramicnetwork/stream-model'
+import type { IDatabaseIndexApi } from './database-index-api.js'
+import type { Repository } from '../state-management/repository.js'
+import { InvalidRelationExpansionError } from './invalid-relation-expansion.error.js'
+
+/**
+ * Maximum number of nested relation expansions in a query.
+ */
+export const MAX_EXPANSION_DEPTH = 3
+
+/**
+ * Maximum number of documents returned for an inverse relation of a document.
+ */
+export const MAX_RELATING_DOCUMENTS = 100
+
+type ExpandedNode = RelatedNode<StreamState | null>
+
+/**
+ * How to resolve a relation from the index:
+ * - `model`: Model of the table holding the relation column,
+ * - `column`: relation field of `model`,
+ * - `inverse`: if documents of `model` reference the expanded documents, rather than being
+ *   referenced by them,
+ * - `relatedModel`: Model of the related documents.
+ */
+type RelationResolution = {
+  model: string
+  column: string
+  inverse: boolean
+  relatedModel: string
+}
+
+/**
+ * Check that +expansion+ is an object of relation names mapped to `true` or to nested expansions,
+ * nested at most +MAX_EXPANSION_DEPTH+ levels.
+ *
+ * @throws InvalidRelationExpansionError if the expansion is malformed or too deep.
+ */
+export function assertValidRelationExpansion(expansion: unknown, path = '', depth = 1): void {
+  if (typeof expansion !== 'object' || expansion === null || Array.isArray(expansion)) {
+    throw new InvalidRelationExpansionError(path, `expected an object of relation names`)
+  }
+  if (depth > MAX_EXPANSION_DEPTH) {
+    throw new InvalidRelationExpansionError(
+      path,
+      `relations could be expanded at most ${MAX_EXPANSION_DEPTH} levels deep`
+    )
+  }
+  for (const [field, nested] of Object.entries(expansion)) {
+    const fieldPath = path ? `${path}.${field}` : field
+    if (nested === true) continue
+    assertValidRelationExpansion(nested, fieldPath, depth + 1)
+  }
+}
+
+/**
+ * How to resolve relation +field+ of +model+ with +definition+ from the index.
+ */
+function resolveRelation(
+  model: string,
+  definition: ModelDefinition | undefined,
+  field: string
+): RelationResolution {
+  const relation = definition?.relations?.[field]
+  if (relation?.type === 'document') {
+    return { model, column: field, inverse: false, relatedModel: relation.model }
+  }
+  const view = definition?.views?.[field]
+  if (view?.type === 'relationDocument') {
+    return { model, column: view.property, inverse: false, relatedModel: view.model }
+  }
+  if (view?.type === 'relationFrom') {
+    return { model: view.model, column: view.property, inverse: true, relatedModel: view.model }
+  }
+  throw new InvalidRelationExpansionError(
+    field,
+    `not a document relation, relationDocument view or relationFrom view of Model ${model}`
+  )
+}
+
+/**
+ * Resolves relations of documents returned by an index query, joining on the relation columns of
+ * the index, so that clients get related documents in the same response.
+ */
+export class RelationExpander {
+  constructor(
+    private readonly databaseIndexApi: IDatabaseIndexApi,
+    private readonly repository: Repository
+  ) {}
+
+  /**
+   * Set the documents related to +nodes+ of +model+ as requested by +expansion+, on `relations`
+   * of the nodes. Nodes without a stream state are left as is.
+   */
+  async expand(
+    model: StreamID | string,
+    nodes: Array<ExpandedNode>,
+    expansion: RelationExpansion
+  ): Promise<void> {
+    const expandable = nodes.filter((node) => node.node)
+    if (expandable.length === 0) return
+    const streamIds = expandable.map((node) => StreamUtils.streamIdFromState(node.node).toString())
+    const definition = await this.loadModelDefinition(model)
+    for (const [field, nested] of Object.entries(expansion)) {
+      const resolution = resolveRelation(model.toString(), definition, field)
+      const related = resolution.inverse
+        ? await this.relatingNodes(resolution, streamIds)
+        : await this.relatedNodes(resolution, streamIds)
+      expandable.forEach((node, i) => {
+        node.relations = { ...node.relations, [field]: related[i] }
+      })
+      if (nested !== true) {
+        const relatedNodes = related.flat().filter((node) => node !== null)
+        await this.expand(resolution.relatedModel, relatedNodes, nested)
+      }
+    }
+  }
+
+  private async relatedNodes(
+    resolution: RelationResolution,
+    streamIds: Array<string>
+  ): Promise<Array<ExpandedNode | null>> {
+    const related = await this.databaseIndexApi.relatedDocuments(
+      resolution.model,
+      resolution.column,
+      streamIds
+    )
+    return Promise.all(
+      streamIds.map(async (streamId) => {
+        const relatedId = related.get(streamId)
+        return relatedId ? { node: await this.loadState(relatedId) } : null
+      })
+    )
+  }
+
+  private async relatingNodes(
+    resolution: RelationResolution,
+    streamIds: Array<string>
+  ): Promise<Array<Array<ExpandedNode>>> {
+    const relating = await this.databaseIndexApi.relatingDocuments(
+      resolution.model,
+      resolution.column,
+      streamIds,
+      MAX_RELATING_DOCUMENTS
+    )
+    return Promise.all(
+      streamIds.map((streamId) => {
+        const relatingIds = relating.get(streamId) ?? []
+        return Promise.all(relatingIds.map(async (id) => ({ node: await this.loadState(id) })))
+      })
+    )
+  }
+
+  private async loadState(streamId: string): Promise<StreamState | null> {
+    const state = await this.repository.streamState(StreamID.fromString(streamId))
+    return state ?? null
+  }
+
+  private async loadModelDefinition(
+    model: StreamID | string
+  ): Promise<ModelDefinition | undefined> {
+    const modelStreamId = StreamID.fromString(model.toString())
+    if (modelStreamId.equals(Model.MODEL)) return undefined
+    const modelState = await this.repository.load(modelStreamId, {})
+    return modelState.state.next?.content ?? modelState.state.content
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Indicates a MID that is not the only MID of its controller for the values of the fields of the
+ * 'set' accountRelation of its Model.
+ */
+export class SetRelationViolationError extends Error {
+  constructor(streamId: string, model: string, values: Array<unknown>) {
+    super(
+      `Cannot index MID ${streamId}: it is not the MID of its controller for values ${JSON.stringify(
+        values
+      )} of the set fields of Model ${model}`
+    )
+  }
+}
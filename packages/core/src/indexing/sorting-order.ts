@@ -0,0 +1,254 @@
+import type { Knex } from 'knex'
+import { StreamID } from '@ceramicnetwork/streamid'
+import type { Page, PageInfo, PaginationQuery, SortOrder, Sorting } from '@ceramicnetwork/common'
+import { PaginationKind, parsePagination } from './parse-pagination.js'
+import { asTableName } from './as-table-name.util.js'
+import { UnsupportedOrderingError } from './unsupported-ordering-error.js'
+import { InvalidQuerySortingError } from './invalid-query-sorting.error.js'
+import { applyQueryFilters } from './query-filter.js'
+import { addColumnPrefix } from './column-name.util.js'
+import { Cursor } from './cursor.js'
+import { TIME_FIELDS } from './time-range.js'
+
+/**
+ * Fields of stream metadata that could be used for sorting, in addition to indexed model fields.
+ * Entries without an anchor timestamp come after anchored entries in ascending order.
+ */
+export const SORTABLE_METADATA_FIELDS: Array<string> = TIME_FIELDS
+
+const SORT_ORDERS: Array<SortOrder> = ['ASC', 'DESC']
+
+/**
+ * Thrown if a cursor does not correspond to the requested sorting.
+ */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Cursor ${cursor} does not match requested sorting`)
+  }
+}
+
+export type SortKey = { column: string; order: SortOrder }
+
+type Selected = Record<string, any> & { stream_id: string }
+
+/**
+ * Value of a sorting column, as stored in a cursor.
+ */
+type CursorValue = string | number | boolean | null
+
+/**
+ * Entries with the same values of sorting fields are ordered by StreamID.
+ */
+export const TIEBREAKER: SortKey = { column: 'stream_id', order: 'ASC' }
+
+/**
+ * Name of the database column for a sortable +field+.
+ */
+function asSortingColumn(field: string): string {
+  return SORTABLE_METADATA_FIELDS.includes(field) ? field : addColumnPrefix(field)
+}
+
+/**
+ * Check that +sorting+ only uses supported sort orders, and only targets +sortableFields+
+ * or stream metadata fields.
+ *
+ * @param sorting - Sorting from an index query.
+ * @param sortableFields - Fields of a model that have a dedicated column in the index.
+ * @throws InvalidQuerySortingError if sorting is not valid.
+ */
+export function assertValidQuerySorting(sorting: Sorting, sortableFields: Array<string>): void {
+  const columns = sortableFields.map(addColumnPrefix).concat(SORTABLE_METADATA_FIELDS)
+  for (const [field, order] of Object.entries(sorting)) {
+    if (!columns.includes(asSortingColumn(field))) {
+      throw new InvalidQuerySortingError(field, `field is not indexed`)
+    }
+    if (!SORT_ORDERS.includes(order)) {
+      throw new InvalidQuerySortingError(field, `expected one of ${SORT_ORDERS.join(', ')}`)
+    }
+  }
+}
+
+/**
+ * Keys to order entries by for +sorting+, with StreamID as a tiebreaker.
+ */
+export function sortKeys(sorting: Sorting): Array<SortKey> {
+  const keys = Object.entries(sorting).map(([field, order]) => {
+    return { column: asSortingColumn(field), order: order }
+  })
+  return [...keys, TIEBREAKER]
+}
+
+export function reverseSortKeys(keys: Array<SortKey>): Array<SortKey> {
+  return keys.map((key) => ({ ...key, order: key.order === 'ASC' ? 'DESC' : 'ASC' }))
+}
+
+/**
+ * Order by +keys+. `NULL` is considered larger than any other value.
+ */
+function orderBy(builder: Knex.QueryBuilder, keys: Array<SortKey>): Knex.QueryBuilder {
+  let result = builder
+  for (const key of keys) {
+    const nulls = key.order === 'ASC' ? 'LAST' : 'FIRST'
+    result = result.orderByRaw(`?? ${key.order} NULLS ${nulls}`, [key.column])
+  }
+  return result
+}
+
+function whereEqual(builder: Knex.QueryBuilder, column: string, value: CursorValue): void {
+  if (value === null) {
+    builder.whereNull(column)
+  } else {
+    builder.where(column, value)
+  }
+}
+
+/**
+ * Select entries that follow +value+ according to +key+ order.
+ */
+function whereFollows(builder: Knex.QueryBuilder, key: SortKey, value: CursorValue): void {
+  if (key.order === 'ASC') {
+    if (value === null) {
+      // Nothing is larger than NULL
+      builder.whereRaw('1 = 0')
+    } else {
+      builder.where((q) => q.where(key.column, '>', value).orWhereNull(key.column))
+    }
+  } else {
+    if (value === null) {
+      builder.whereNotNull(key.column)
+    } else {
+      builder.where(key.column, '<', value)
+    }
+  }
+}
+
+/**
+ * Select entries that follow +cursor+ according to +keys+ order.
+ * For keys `(a, b)` that is `a follows cursor.a OR (a = cursor.a AND b follows cursor.b)`.
+ */
+function whereAfterCursor(
+  builder: Knex.QueryBuilder,
+  keys: Array<SortKey>,
+  cursor: Record<string, CursorValue>
+): Knex.QueryBuilder {
+  return builder.where((outer) => {
+    keys.forEach((key, i) => {
+      outer.orWhere((inner) => {
+        for (const previous of keys.slice(0, i)) {
+          whereEqual(inner, previous.column, cursor[previous.column])
+        }
+        whereFollows(inner, key, cursor[key.column])
+      })
+    })
+  })
+}
+
+/**
+ * Prepare sorting cursor: values of the sorting columns, and StreamID as a tiebreaker.
+ */
+export function asSortingCursor(input: Selected | undefined, keys: Array<SortKey>) {
+  if (!input) return undefined
+  return Object.fromEntries(keys.map((key) => [key.column, input[key.column] ?? null]))
+}
+
+/**
+ * Order by values of indexed fields, as requested in `sorting` field of a query.
+ */
+export class SortingOrder {
+  constructor(private readonly dbConnection: Knex) {}
+
+  /**
+   * @param query - Index query.
+   * @param keys - Columns to order by, derived from `sorting` field of the query by default.
+   * @param source - Table or derived table to query, model table by default.
+   */
+  async page(
+    query: PaginationQuery,
+    keys: Array<SortKey> = sortKeys(query.sorting || {}),
+    source: string | Knex.QueryBuilder = asTableName(query.model)
+  ): Promise<Page<StreamID>> {
+    const pagination = parsePagination(query)
+    const paginationKind = pagination.kind
+    switch (paginationKind) {
+      case PaginationKind.FORWARD: {
+        const limit = pagination.first
+        const response = await this.sortedQuery(query, source, keys, limit, pagination.after)
+        const entries = response.slice(0, limit)
+        return this.asPage(entries, keys, {
+          hasNextPage: response.length > limit,
+          hasPreviousPage: false,
+        })
+      }
+      case PaginationKind.BACKWARD: {
+        // Traverse in reverse order, then restore the requested order for the found entries
+        const limit = pagination.last
+        const response = await this.sortedQuery(
+          query,
+          source,
+          reverseSortKeys(keys),
+          limit,
+          pagination.before
+        )
+        const entries = response.slice(0, limit).reverse()
+        return this.asPage(entries, keys, {
+          hasNextPage: false,
+          hasPreviousPage: response.length > limit,
+        })
+      }
+      default:
+        throw new UnsupportedOrderingError(paginationKind)
+    }
+  }
+
+  /**
+   * Query up to `limit + 1` entries following +cursor+, to know if we have more entries to query.
+   */
+  private sortedQuery(
+    query: PaginationQuery,
+    source: string | Knex.QueryBuilder,
+    keys: Array<SortKey>,
+    limit: number,
+    cursor: string | undefined
+  ): Knex.QueryBuilder<unknown, Array<Selected>> {
+    const columns = new Set(keys.map((key) => key.column))
+    let base = this.dbConnection
+      .from(source)
+      .select(...columns)
+      .limit(limit + 1)
+    base = orderBy(base, keys)
+    if (query.account) {
+      base = base.where({ controller_did: query.account })
+    }
+    base = applyQueryFilters(base, query.filter)
+    if (cursor) {
+      const parsed = Cursor.parse(cursor)
+      if (!keys.every((key) => key.column in parsed)) {
+        throw new InvalidCursorError(cursor)
+      }
+      base = whereAfterCursor(base, keys, parsed)
+    }
+    return base
+  }
+
+  private asPage(
+    entries: Array<Selected>,
+    keys: Array<SortKey>,
+    pageInfo: Pick<PageInfo, 'hasNextPage' | 'hasPreviousPage'>
+  ): Page<StreamID> {
+    const firstEntry = entries[0]
+    const lastEntry = entries[entries.length - 1]
+    return {
+      edges: entries.map((row) => {
+        return {
+          cursor: Cursor.stringify(asSortingCursor(row, keys)),
+          node: StreamID.fromString(row.stream_id),
+        }
+      }),
+      pageInfo: {
+        ...pageInfo,
+        endCursor: Cursor.stringify(asSortingCursor(lastEntry, keys)),
+        startCursor: Cursor.stringify(asSortingCursor(firstEntry, keys)),
+      },
+    }
+  }
+}
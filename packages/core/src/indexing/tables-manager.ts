@@ -2,19 +2,29 @@ import {
   DatabaseType,
   ColumnInfo,
   ColumnType,
+  addPostgresModelColumns,
+  addSqliteModelColumns,
   createConfigTable,
+  createHistoryTable,
+  createTileTables,
   createPostgresModelTable,
   createSqliteModelTable,
+  fullTextTableName,
   indices,
+  SEARCH_VECTOR_COLUMN,
 } from './migrations/1-create-model-table.js'
 import { asTableName } from './as-table-name.util.js'
 import { Knex } from 'knex'
-import { Model, ModelRelationsDefinition } from '@ceramicnetwork/stream-model'
+import { Model, ModelIndexableType, ModelRelationsDefinition } from '@ceramicnetwork/stream-model'
 import { DiagnosticsLogger, Networks } from '@ceramicnetwork/common'
 import { INDEXED_MODEL_CONFIG_TABLE_NAME, IndexModelArgs } from './database-index-api.js'
 import { STRUCTURES } from './migrations/cdb-schema-verification.js'
 import { CONFIG_TABLE_NAME } from './config.js'
 import { addColumnPrefix } from './column-name.util.js'
+import { MigrationRunner } from './migrations/migration-runner.js'
+import type { Migration } from './migrations/migration.js'
+import { HISTORY_TABLE_NAME } from './document-history.js'
+import { TILE_TABLE_NAME, TILE_TAGS_TABLE_NAME } from './tile-index.js'
 
 /**
  * ComposeDB Config Table Type
@@ -36,6 +46,41 @@ function relationsDefinitionsToColumnInfo(relations?: ModelRelationsDefinition):
   })
 }
 
+const INDEXED_FIELD_COLUMN_TYPES: Record<ModelIndexableType, ColumnType> = {
+  string: ColumnType.STRING,
+  integer: ColumnType.INTEGER,
+  number: ColumnType.FLOAT,
+  boolean: ColumnType.BOOLEAN,
+}
+
+/**
+ * Create a list of db column info for scalar fields indexed in a given model
+ */
+function indexedFieldsToColumnInfo(
+  indexedFields?: Record<string, ModelIndexableType>
+): Array<ColumnInfo> {
+  if (!indexedFields) {
+    return []
+  }
+  return Object.entries(indexedFields).map(([fieldName, type]) => {
+    return {
+      name: addColumnPrefix(fieldName),
+      type: INDEXED_FIELD_COLUMN_TYPES[type],
+      nullable: true,
+    }
+  })
+}
+
+/**
+ * Create a list of db column info for all extra columns of a mid table for a given model
+ */
+function modelIndexArgsToColumnInfo(modelIndexArgs: IndexModelArgs): Array<ColumnInfo> {
+  return [
+    ...relationsDefinitionsToColumnInfo(modelIndexArgs.relations),
+    ...indexedFieldsToColumnInfo(modelIndexArgs.indexedFields),
+  ]
+}
+
 export class TablesManager {
   constructor(
     readonly dbType: DatabaseType,
@@ -65,6 +110,57 @@ export class TablesManager {
     throw new Error('Must be implemented in extending class')
   }
 
+  /**
+   * Determine if a mid table has the full-text search index we expect
+   * @param tableName
+   */
+  async hasFullTextIndex(tableName: string): Promise<boolean> {
+    throw new Error('Must be implemented in extending class')
+  }
+
+  /**
+   * Add extra columns with corresponding indexes to an existing mid table
+   */
+  async addMidColumns(tableName: string, columns: Array<ColumnInfo>): Promise<void> {
+    throw new Error('Must be implemented in extending class')
+  }
+
+  /**
+   * Fill columns of indexed fields with values from the content of already indexed streams
+   */
+  async backfillIndexedFields(
+    tableName: string,
+    indexedFields: Record<string, ModelIndexableType>
+  ): Promise<void> {
+    throw new Error('Must be implemented in extending class')
+  }
+
+  /**
+   * Add columns for indexed fields that are missing from an existing mid table, e.g. when a field
+   * is indexed for a model that is already indexed, and backfill them.
+   */
+  async addMissingIndexedFields(tableName: string, modelIndexArgs: IndexModelArgs): Promise<void> {
+    if (!modelIndexArgs.indexedFields) {
+      return
+    }
+    const existingColumns = await this.dataSource.table(tableName).columnInfo()
+    const missingFields = Object.fromEntries(
+      Object.entries(modelIndexArgs.indexedFields).filter(
+        ([fieldName]) => !existingColumns[addColumnPrefix(fieldName)]
+      )
+    )
+    if (Object.keys(missingFields).length === 0) {
+      return
+    }
+    this.logger.imp(
+      `Adding indexed fields ${Object.keys(missingFields).join(
+        ', '
+      )} to ComposeDB Indexing table for model: ${tableName}`
+    )
+    await this.addMidColumns(tableName, indexedFieldsToColumnInfo(missingFields))
+    await this.backfillIndexedFields(tableName, missingFields)
+  }
+
   /**
    * List existing config tables.
    */
@@ -112,6 +208,36 @@ export class TablesManager {
     }
   }
 
+  /**
+   * Create the table recording versions of documents, if it does not exist yet
+   */
+  async initHistoryTable(): Promise<void> {
+    const exists = await this.dataSource.schema.hasTable(HISTORY_TABLE_NAME)
+    if (exists) return
+    this.logger.imp(`Creating ComposeDB history table: ${HISTORY_TABLE_NAME}`)
+    await createHistoryTable(this.dataSource, HISTORY_TABLE_NAME, this.dbType)
+  }
+
+  /**
+   * Create the tables indexing TileDocuments, if they do not exist yet
+   */
+  async initTileTables(): Promise<void> {
+    const exists = await this.dataSource.schema.hasTable(TILE_TABLE_NAME)
+    if (exists) return
+    this.logger.imp(
+      `Creating ComposeDB TileDocument tables: ${TILE_TABLE_NAME}, ${TILE_TAGS_TABLE_NAME}`
+    )
+    await createTileTables(this.dataSource, TILE_TABLE_NAME, TILE_TAGS_TABLE_NAME)
+  }
+
+  /**
+   * Apply pending schema migrations to config tables and existing mid tables
+   */
+  async runMigrations(migrations?: Array<Migration>): Promise<void> {
+    const runner = new MigrationRunner(this.dataSource, this.dbType, this.logger, migrations)
+    await runner.run(await this.listMidTables())
+  }
+
   /**
    * ComposeDB configuration table schema verification
    */
@@ -163,11 +289,19 @@ export class TablesManager {
     // Clone the COMMON_TABLE_STRUCTURE object that has the fields expected for all tables so we can
     // extend it with the model-specific fields expected
     const expectedTableStructure = Object.assign({}, STRUCTURES[this.dbType].COMMON_TABLE)
+    const searchVectorColumn = STRUCTURES[this.dbType].SEARCH_VECTOR_COLUMN
+    if (modelIndexArgs.fullTextFields?.length && searchVectorColumn) {
+      expectedTableStructure[SEARCH_VECTOR_COLUMN] = searchVectorColumn
+    }
     if (modelIndexArgs.relations) {
       for (const relation of Object.keys(modelIndexArgs.relations)) {
         expectedTableStructure[addColumnPrefix(relation)] = STRUCTURES[this.dbType].RELATION_COLUMN
       }
     }
+    for (const column of indexedFieldsToColumnInfo(modelIndexArgs.indexedFields)) {
+      expectedTableStructure[column.name] =
+        STRUCTURES[this.dbType].INDEXED_FIELD_COLUMNS[column.type]
+    }
     const validSchema = JSON.stringify(expectedTableStructure)
 
     const columns = await this.dataSource.table(tableName).columnInfo()
@@ -182,6 +316,12 @@ export class TablesManager {
         `Schema verification failed for index: ${tableName}. Please make sure latest migrations have been applied.`
       )
     }
+
+    if (modelIndexArgs.fullTextFields?.length && !(await this.hasFullTextIndex(tableName))) {
+      throw new Error(
+        `Schema verification failed for index: ${tableName}. Please make sure latest migrations have been applied.`
+      )
+    }
   }
 
   /**
@@ -192,6 +332,16 @@ export class TablesManager {
   }
 }
 
+/**
+ * Postgres types to cast JSON values of indexed fields to.
+ */
+const POSTGRES_CASTS: Record<ModelIndexableType, string> = {
+  string: 'varchar',
+  integer: 'numeric::bigint',
+  number: 'double precision',
+  boolean: 'boolean',
+}
+
 export class PostgresTablesManager extends TablesManager {
   constructor(dataSource: Knex, logger: DiagnosticsLogger) {
     super(DatabaseType.POSTGRES, dataSource, logger)
@@ -235,9 +385,42 @@ export class PostgresTablesManager extends TablesManager {
     const exists = await this.dataSource.schema.hasTable(tableName)
     if (!exists) {
       this.logger.imp(`Creating ComposeDB Indexing table for model: ${tableName}`)
-      const relationColumns = relationsDefinitionsToColumnInfo(modelIndexArgs.relations)
-      await createPostgresModelTable(this.dataSource, tableName, relationColumns)
+      const extraColumns = modelIndexArgsToColumnInfo(modelIndexArgs)
+      await createPostgresModelTable(
+        this.dataSource,
+        tableName,
+        extraColumns,
+        modelIndexArgs.fullTextFields
+      )
+    } else {
+      await this.addMissingIndexedFields(tableName, modelIndexArgs)
+    }
+  }
+
+  /**
+   * Add extra columns with corresponding indexes to an existing mid table
+   */
+  async addMidColumns(tableName: string, columns: Array<ColumnInfo>): Promise<void> {
+    await addPostgresModelColumns(this.dataSource, tableName, columns)
+  }
+
+  /**
+   * Fill columns of indexed fields with values from the content of already indexed streams.
+   * Values of unexpected JSON types are stored as NULL.
+   */
+  async backfillIndexedFields(
+    tableName: string,
+    indexedFields: Record<string, ModelIndexableType>
+  ): Promise<void> {
+    const update = {}
+    for (const [fieldName, type] of Object.entries(indexedFields)) {
+      const jsonType = type === 'integer' ? 'number' : type
+      update[addColumnPrefix(fieldName)] = this.dataSource.raw(
+        `CASE WHEN jsonb_typeof(stream_content -> ?) = ? THEN (stream_content ->> ?)::${POSTGRES_CASTS[type]} END`,
+        [fieldName, jsonType, fieldName]
+      )
     }
+    await this.dataSource(tableName).update(update)
   }
 
   /**
@@ -267,6 +450,29 @@ where
   `)
     return expectedIndices.length == actualIndices.rowCount
   }
+
+  /**
+   * Determine if a mid table has the full-text search index we expect
+   * @param tableName
+   */
+  async hasFullTextIndex(tableName: string): Promise<boolean> {
+    const indexName = `idx_${indices(tableName).indexName}_${SEARCH_VECTOR_COLUMN}`
+    const result = await this.dataSource
+      .select('indexname')
+      .from('pg_indexes')
+      .where({ tablename: tableName, indexname: indexName })
+    return result.length === 1
+  }
+}
+
+/**
+ * SQLite JSON types that match values of indexed fields.
+ */
+const SQLITE_JSON_TYPES: Record<ModelIndexableType, string> = {
+  string: `'text'`,
+  integer: `'integer'`,
+  number: `'integer', 'real'`,
+  boolean: `'true', 'false'`,
 }
 
 export class SqliteTablesManager extends TablesManager {
@@ -304,11 +510,43 @@ export class SqliteTablesManager extends TablesManager {
   async initMidTable(modelIndexArgs: IndexModelArgs, existingTables: Array<string>) {
     const tableName = asTableName(modelIndexArgs.model)
     if (existingTables.includes(tableName)) {
+      await this.addMissingIndexedFields(tableName, modelIndexArgs)
       return
     }
     this.logger.imp(`Creating ComposeDB Indexing table for model: ${tableName}`)
-    const relationColumns = relationsDefinitionsToColumnInfo(modelIndexArgs.relations)
-    await createSqliteModelTable(this.dataSource, tableName, relationColumns)
+    const extraColumns = modelIndexArgsToColumnInfo(modelIndexArgs)
+    await createSqliteModelTable(
+      this.dataSource,
+      tableName,
+      extraColumns,
+      modelIndexArgs.fullTextFields
+    )
+  }
+
+  /**
+   * Add extra columns with corresponding indexes to an existing mid table
+   */
+  async addMidColumns(tableName: string, columns: Array<ColumnInfo>): Promise<void> {
+    await addSqliteModelColumns(this.dataSource, tableName, columns)
+  }
+
+  /**
+   * Fill columns of indexed fields with values from the content of already indexed streams.
+   * Values of unexpected JSON types are stored as NULL.
+   */
+  async backfillIndexedFields(
+    tableName: string,
+    indexedFields: Record<string, ModelIndexableType>
+  ): Promise<void> {
+    const update = {}
+    for (const [fieldName, type] of Object.entries(indexedFields)) {
+      const path = `$.${JSON.stringify(fieldName)}`
+      update[addColumnPrefix(fieldName)] = this.dataSource.raw(
+        `CASE WHEN json_type(stream_content, ?) IN (${SQLITE_JSON_TYPES[type]}) THEN json_extract(stream_content, ?) END`,
+        [path, path]
+      )
+    }
+    await this.dataSource(tableName).update(update)
   }
 
   /**
@@ -328,4 +566,12 @@ and name in (${sqlIndices})
   `)
     return expectedIndices.length == actualIndices.length
   }
+
+  /**
+   * Determine if a mid table has the FTS5 table we expect
+   * @param tableName
+   */
+  async hasFullTextIndex(tableName: string): Promise<boolean> {
+    return this.dataSource.schema.hasTable(fullTextTableName(tableName))
+  }
 }
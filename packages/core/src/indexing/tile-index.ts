@@ -0,0 +1,136 @@
+import type { Knex } from 'knex'
+import { StreamID } from '@ceramicnetwork/streamid'
+import type { Page, TileQuery } from '@ceramicnetwork/common'
+import { PaginationKind, parsePagination } from './parse-pagination.js'
+import { UnsupportedOrderingError } from './unsupported-ordering-error.js'
+import { Cursor } from './cursor.js'
+
+/**
+ * Table indexing TileDocuments by family, schema and controller
+ */
+export const TILE_TABLE_NAME = 'ceramic_tiles'
+
+/**
+ * Table indexing TileDocuments by tag, one row per tag of a TileDocument
+ */
+export const TILE_TAGS_TABLE_NAME = 'ceramic_tile_tags'
+
+/**
+ * Arguments for indexing a TileDocument.
+ */
+export type IndexTileArgs = {
+  readonly streamID: StreamID
+  readonly controller: string
+  readonly family?: string
+  readonly tags?: Array<string>
+  // CommitID of the schema, as a string
+  readonly schema?: string
+}
+
+type Selected = { id: number; stream_id: string }
+
+/**
+ * Index of TileDocuments, in the order they first got indexed.
+ *
+ * A cursor for the index is a JSON having the `id` of the TileDocument entry.
+ */
+export class TileIndex {
+  constructor(private readonly dbConnection: Knex) {}
+
+  /**
+   * Insert or update the entry of a TileDocument, along with its tags.
+   */
+  async record(args: IndexTileArgs): Promise<void> {
+    const streamId = args.streamID.toString()
+    const entry = {
+      controller_did: args.controller,
+      family: args.family ?? null,
+      schema: args.schema ?? null,
+    }
+    const tags = [...new Set(args.tags ?? [])]
+    await this.dbConnection.transaction(async (trx) => {
+      await trx(TILE_TABLE_NAME)
+        .insert({ stream_id: streamId, ...entry })
+        .onConflict('stream_id')
+        .merge(entry)
+      await trx(TILE_TAGS_TABLE_NAME).where({ stream_id: streamId }).delete()
+      if (tags.length > 0) {
+        await trx(TILE_TAGS_TABLE_NAME).insert(tags.map((tag) => ({ stream_id: streamId, tag })))
+      }
+    })
+  }
+
+  /**
+   * Remove the entry of a TileDocument, along with its tags.
+   */
+  async remove(streamID: StreamID): Promise<void> {
+    const streamId = streamID.toString()
+    await this.dbConnection.transaction(async (trx) => {
+      await trx(TILE_TAGS_TABLE_NAME).where({ stream_id: streamId }).delete()
+      await trx(TILE_TABLE_NAME).where({ stream_id: streamId }).delete()
+    })
+  }
+
+  async page(query: TileQuery): Promise<Page<StreamID>> {
+    const pagination = parsePagination(query)
+    let base = this.dbConnection.from(TILE_TABLE_NAME).select('id', 'stream_id')
+    if (query.family) {
+      base = base.where({ family: query.family })
+    }
+    if (query.schema) {
+      base = base.where({ schema: query.schema.toString() })
+    }
+    if (query.controller) {
+      base = base.where({ controller_did: query.controller })
+    }
+    for (const tag of new Set(query.tags ?? [])) {
+      base = base.whereIn(
+        'stream_id',
+        this.dbConnection.from(TILE_TAGS_TABLE_NAME).select('stream_id').where({ tag })
+      )
+    }
+    const paginationKind = pagination.kind
+    switch (paginationKind) {
+      case PaginationKind.FORWARD: {
+        const limit = pagination.first
+        if (pagination.after) {
+          base = base.where('id', '>', Cursor.parse(pagination.after).id)
+        }
+        const response: Array<Selected> = await base.orderBy('id', 'asc').limit(limit + 1)
+        const entries = response.slice(0, limit)
+        return this.asPage(entries, response.length > limit, false)
+      }
+      case PaginationKind.BACKWARD: {
+        const limit = pagination.last
+        if (pagination.before) {
+          base = base.where('id', '<', Cursor.parse(pagination.before).id)
+        }
+        const response: Array<Selected> = await base.orderBy('id', 'desc').limit(limit + 1)
+        const entries = response.slice(0, limit).reverse()
+        return this.asPage(entries, false, response.length > limit)
+      }
+      default:
+        throw new UnsupportedOrderingError(paginationKind)
+    }
+  }
+
+  private asPage(
+    entries: Array<Selected>,
+    hasNextPage: boolean,
+    hasPreviousPage: boolean
+  ): Page<StreamID> {
+    const edges = entries.map((row) => ({
+      cursor: Cursor.stringify({ id: row.id }),
+      node: StreamID.fromString(row.stream_id),
+    }))
+    return {
+      edges: edges,
+      pageInfo: {
+        hasNextPage: hasNextPage,
+        hasPreviousPage: hasPreviousPage,
+        startCursor: edges[0]?.cursor,
+        endCursor: edges[edges.length - 1]?.cursor,
+      },
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import type { Knex } from 'knex'
+import type { TimeField, TimeRange } from '@ceramicnetwork/common'
+import { InvalidQueryTimeRangeError } from './invalid-query-time-range.error.js'
+
+/**
+ * Timestamp columns of the model tables that entries could be filtered and sorted by.
+ */
+export const TIME_FIELDS: Array<TimeField> = [
+  'created_at',
+  'updated_at',
+  'first_anchored_at',
+  'last_anchored_at',
+]
+
+const TIME_RANGE_BOUNDS = ['since', 'until']
+
+function isValidDate(input: unknown): input is Date {
+  return input instanceof Date && !isNaN(input.valueOf())
+}
+
+/**
+ * Check that +timeRanges+ only target timestamps of entries, and that the bounds are valid dates.
+ *
+ * @throws InvalidQueryTimeRangeError if time ranges are not valid.
+ */
+export function assertValidQueryTimeRanges(
+  timeRanges: Partial<Record<TimeField, TimeRange>>
+): void {
+  for (const [field, range] of Object.entries(timeRanges)) {
+    if (!TIME_FIELDS.includes(field as TimeField)) {
+      throw new InvalidQueryTimeRangeError(field, `expected one of ${TIME_FIELDS.join(', ')}`)
+    }
+    if (typeof range !== 'object' || range === null || Array.isArray(range)) {
+      throw new InvalidQueryTimeRangeError(field, `expected an object with since or until`)
+    }
+    for (const [bound, value] of Object.entries(range)) {
+      if (!TIME_RANGE_BOUNDS.includes(bound)) {
+        throw new InvalidQueryTimeRangeError(field, `unsupported bound ${bound}`)
+      }
+      if (value !== undefined && !isValidDate(value)) {
+        throw new InvalidQueryTimeRangeError(field, `bound ${bound} expects a date`)
+      }
+    }
+  }
+}
+
+/**
+ * Restrict +builder+ to entries with timestamps within +timeRanges+.
+ *
+ * @param builder - Query on a model table.
+ * @param timeRanges - Time ranges from an index query, assumed valid.
+ * @param asDatabaseTime - Convert a date to the type of timestamp columns of the database.
+ */
+export function applyQueryTimeRanges(
+  builder: Knex.QueryBuilder,
+  timeRanges: Partial<Record<TimeField, TimeRange>> | undefined,
+  asDatabaseTime: (date: Date) => Date | number
+): Knex.QueryBuilder {
+  if (!timeRanges) return builder
+  let result = builder
+  for (const [field, range] of Object.entries(timeRanges)) {
+    if (range.since) {
+      result = result.where(field, '>=', asDatabaseTime(range.since))
+    }
+    if (range.until) {
+      result = result.where(field, '<', asDatabaseTime(range.until))
+    }
+  }
+  return result
+}
+
+/**
+ * True if timestamps of +row+ of a model table fall within +timeRanges+, as
+ * `applyQueryTimeRanges` would select it.
+ *
+ * @param row - Entry of a model table, with timestamps as numbers of milliseconds.
+ * @param timeRanges - Time ranges from an index query, assumed valid.
+ */
+export function isWithinQueryTimeRanges(
+  row: Record<string, unknown>,
+  timeRanges: Partial<Record<TimeField, TimeRange>> | undefined
+): boolean {
+  if (!timeRanges) return true
+  return Object.entries(timeRanges).every(([field, range]) => {
+    const value = row[field]
+    if (typeof value !== 'number') return false
+    if (range.since && value < range.since.valueOf()) return false
+    if (range.until && value >= range.until.valueOf()) return false
+    return true
+  })
+}
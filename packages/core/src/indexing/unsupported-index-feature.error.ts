@@ -0,0 +1,8 @@
+/**
+ * Indicates an index query or indexing option the index backend does not support.
+ */
+export class UnsupportedIndexFeatureError extends Error {
+  constructor(feature: string, backend: string) {
+    super(`Not supported by the ${backend} index backend: ${feature}`)
+  }
+}
@@ -1,7 +1,7 @@
 import type { DiagnosticsLogger } from '@ceramicnetwork/common'
 import { Networks } from '@ceramicnetwork/common'
 import { buildIndexing, IndexingConfig } from '../indexing/build-indexing.js'
-import { DatabaseIndexApi, SqliteIndexApi } from '../indexing/database-index-api.js'
+import { IDatabaseIndexApi, SqliteIndexApi } from '../indexing/database-index-api.js'
 
 /**
  * Make IndexAPI instance. Call `buildIndexing` inside.
@@ -10,7 +10,7 @@ export function makeIndexApi(
   indexingConfig: IndexingConfig | undefined,
   network: Networks,
   logger: DiagnosticsLogger
-): DatabaseIndexApi | undefined {
+): IDatabaseIndexApi | undefined {
   if (!indexingConfig) {
     logger.warn(
       `ComposeDB Indexing is not configured. Please add the indexing settings to your config file`
@@ -1,7 +1,17 @@
-import { AdminApi, NodeStatusResponse, PinApi } from '@ceramicnetwork/common'
+import {
+  AdminApi,
+  IndexQueryPlan,
+  ModelIndexCheckReport,
+  ModelIndexingOptions,
+  ModelReindexStatus,
+  NodeStatusResponse,
+  PaginationQuery,
+  PinApi,
+} from '@ceramicnetwork/common'
 import { StreamID } from '@ceramicnetwork/streamid'
 import { LocalIndexApi } from './indexing/local-index-api.js'
 import { SyncApi } from './sync/sync-api.js'
+import { ModelReindexer } from './indexing/model-reindexer.js'
 
 type NodeStatusFn = () => Promise<NodeStatusResponse>
 
@@ -13,16 +23,33 @@ export class LocalAdminApi implements AdminApi {
     private readonly indexApi: LocalIndexApi,
     private readonly syncApi: SyncApi,
     private readonly nodeStatusFn: NodeStatusFn, // TODO(CDB-2293): circular dependency back into Ceramic
-    private readonly pinApi: PinApi
+    private readonly pinApi: PinApi,
+    private readonly modelReindexer: ModelReindexer
   ) {}
 
   async nodeStatus(): Promise<NodeStatusResponse> {
     return this.nodeStatusFn()
   }
 
-  async startIndexingModels(modelsIDs: Array<StreamID>): Promise<void> {
-    await this.indexApi.indexModels(modelsIDs)
-    await this.syncApi.startModelSync(modelsIDs.map((id) => id.toString()))
+  async startIndexingModels(
+    modelsIDs: Array<StreamID>,
+    options?: ModelIndexingOptions
+  ): Promise<void> {
+    // Copied, as the index API can update the array it returns in place
+    const alreadyIndexed = [...this.indexApi.indexedModels()]
+    await this.indexApi.indexModels(modelsIDs, options)
+    // MIDs of the models superseded by the indexed models, or implementing them, are part of their
+    // collections
+    const modelsToSync = modelsIDs.flatMap((id) => this.indexApi.collectionModels(id))
+    await this.syncApi.startModelSync(modelsToSync.map((id) => id.toString()))
+    // MIDs of the models superseded by a newly indexed model, or implementing it, can already be on
+    // the node, and are only written to the new model tables once reindexed from the state store
+    for (const id of modelsIDs) {
+      const isNew = !alreadyIndexed.some((indexed) => indexed.equals(id))
+      if (isNew && this.indexApi.collectionModels(id).length > 1) {
+        await this.modelReindexer.reindex(id)
+      }
+    }
   }
 
   getIndexedModels(): Promise<Array<StreamID>> {
@@ -30,10 +57,29 @@ export class LocalAdminApi implements AdminApi {
   }
 
   async stopIndexingModels(modelsIDs: Array<StreamID>): Promise<void> {
-    await Promise.all([
-      this.indexApi.stopIndexingModels(modelsIDs),
-      this.syncApi.stopModelSync(modelsIDs.map((id) => id.toString())),
-    ])
+    const collectionModels = modelsIDs.flatMap((id) => this.indexApi.collectionModels(id))
+    await this.indexApi.stopIndexingModels(modelsIDs)
+    // Superseded models stay synced if they are part of the collection of another indexed model
+    const modelsToStopSyncing = collectionModels.filter(
+      (id) => !this.indexApi.shouldIndexStream(id)
+    )
+    await this.syncApi.stopModelSync(modelsToStopSyncing.map((id) => id.toString()))
+  }
+
+  reindexModel(modelId: StreamID): Promise<void> {
+    return this.modelReindexer.reindex(modelId)
+  }
+
+  getReindexStatus(): Promise<Array<ModelReindexStatus>> {
+    return this.modelReindexer.status()
+  }
+
+  checkModelIndex(modelId: StreamID, repair = false): Promise<ModelIndexCheckReport> {
+    return this.indexApi.checkModel(modelId, repair)
+  }
+
+  explainQuery(query: PaginationQuery): Promise<Array<IndexQueryPlan>> {
+    return this.indexApi.explain(query)
   }
 
   get pin(): PinApi {
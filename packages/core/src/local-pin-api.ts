@@ -17,6 +17,8 @@ export class LocalPinApi implements PinApi {
       sync: SyncOptions.PREFER_CACHE,
     })
     await this.repository.pin(state$, force)
+    // Pinned TileDocuments are indexed
+    await this.repository.indexStreamIfNeeded(state$)
     this.repository.stateManager.markPinnedAndSynced(state$.id)
     this.logger.verbose(`Pinned stream ${streamId.toString()}`)
   }
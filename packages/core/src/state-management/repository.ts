@@ -29,12 +29,15 @@ import { Utils } from '../utils.js'
 import { LocalIndexApi } from '../indexing/local-index-api.js'
 import { IKVStore } from '../store/ikv-store.js'
 import { AnchorRequestStore } from '../store/anchor-request-store.js'
+import { ModelReindexStore } from '../store/model-reindex-store.js'
+import { TileDocument } from '@ceramicnetwork/stream-tile'
 
 export type RepositoryDependencies = {
   dispatcher: Dispatcher
   pinStore: PinStore
   keyValueStore: IKVStore
   anchorRequestStore: AnchorRequestStore
+  modelReindexStore: ModelReindexStore
   context: Context
   handlers: HandlersMap
   anchorService: AnchorService
@@ -116,6 +119,7 @@ export class Repository {
   async init(): Promise<void> {
     await this.pinStore.open(this.#deps.keyValueStore)
     await this.anchorRequestStore.open(this.#deps.keyValueStore)
+    await this.modelReindexStore.open(this.#deps.keyValueStore)
     await this.index.init()
   }
 
@@ -127,6 +131,10 @@ export class Repository {
     return this.#deps.anchorRequestStore
   }
 
+  get modelReindexStore(): ModelReindexStore {
+    return this.#deps.modelReindexStore
+  }
+
   get index(): LocalIndexApi {
     return this.#deps.indexing
   }
@@ -422,7 +430,10 @@ export class Repository {
     }
 
     this.stateManager.markUnpinned(state$.id)
-    return this.#deps.pinStore.rm(state$)
+    await this.#deps.pinStore.rm(state$)
+    if (state$.value.type === TileDocument.STREAM_TYPE_ID) {
+      await this.index.removeTile(state$.id)
+    }
   }
 
   /**
@@ -455,10 +466,23 @@ export class Repository {
   }
 
   /**
-   * Helper function to add stream to db index if it has a 'model' in its metadata.
+   * Helper function to add stream to db index if it has a 'model' in its metadata, or if it is a
+   * pinned TileDocument.
    * @public
    */
   public async indexStreamIfNeeded(state$: RunningState): Promise<void> {
+    if (state$.value.type === TileDocument.STREAM_TYPE_ID) {
+      if (!state$.isPinned) return
+      const metadata = state$.value.metadata
+      await this.index.indexTile({
+        streamID: state$.id,
+        controller: metadata.controllers[0],
+        family: metadata.family,
+        tags: metadata.tags,
+        schema: metadata.schema,
+      })
+      return
+    }
     if (!state$.value.metadata.model) {
       return
     }
@@ -480,6 +504,8 @@ export class Repository {
       tip: state$.tip,
       lastAnchor: lastAnchor,
       firstAnchor: firstAnchor,
+      deleted: Boolean(state$.value.metadata.deleted),
+      lastWriter: state$.value.metadata.lastWriter,
     }
 
     await this.index.indexStream(STREAM_CONTENT)
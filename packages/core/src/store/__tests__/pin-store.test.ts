@@ -6,6 +6,7 @@ import {
   SignatureStatus,
   Stream,
   PinningBackend,
+  PinOptions,
   StreamState,
   CommitType,
   TestUtils,
@@ -17,17 +18,23 @@ import { StreamID } from '@ceramicnetwork/streamid'
 import cloneDeep from 'lodash.clonedeep'
 import { IKVStore } from '../ikv-store.js'
 import { StreamStateStore } from '../stream-state-store.js'
+import { LevelDbStore } from '../level-db-store.js'
+import tmp from 'tmp-promise'
 
 let stateStore: StreamStateStore
 let storeWrapperTemplate: IKVStore
 let pinning: PinningBackend
+let tmpFolder: tmp.DirectoryResult
+let levelStore: LevelDbStore
 const NETWORK = 'fakeNetwork'
 
 const FAKE_STREAM_ID = StreamID.fromString(
   'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
 )
 
-beforeEach(() => {
+beforeEach(async () => {
+  tmpFolder = await tmp.dir({ unsafeCleanup: true })
+  levelStore = new LevelDbStore(tmpFolder.path, NETWORK)
   storeWrapperTemplate = {
     init: jest.fn(),
     close: jest.fn(),
@@ -57,6 +64,10 @@ beforeEach(() => {
   }
 })
 
+afterEach(async () => {
+  await tmpFolder.cleanup()
+})
+
 const state: StreamState = {
   type: 0,
   content: { num: 0 },
@@ -70,6 +81,33 @@ const state: StreamState = {
   ],
 }
 
+const ATTACHMENT_CID = CID.parse('QmcyyLvDzCrduuvGVUQEh1DzFvM7UWGfc9sUg87PjjYCw7')
+const OTHER_ATTACHMENT_CID = CID.parse('QmNPqfxJDLPJFMhkUexLv431HNTfQBqh45unLg8ByBfa7h')
+
+// State of a MID attaching the given CIDs, and a stream loader returning its Model
+const midWithAttachments = (attachments: Array<CID>) => {
+  const modelState = cloneDeep(state)
+  modelState.content = {
+    name: 'Post',
+    schema: { properties: { images: { type: 'array', items: { type: 'string' } } } },
+    attachmentFields: ['images'],
+  }
+  const modelRunningState = { state: modelState, markAsPinned: jest.fn() }
+  const midState = cloneDeep(state)
+  midState.metadata.model = FAKE_STREAM_ID
+  midState.content = { images: attachments.map(String) }
+  midState.log[0].cid = CID.parse('QmdmQXB2mzChmMeKY47C43LxUdg1NDJ5MWcKMKxDu7RgQm')
+  const loadStream = jest.fn(async () => modelRunningState)
+  return { midState, modelRunningState, loadStream }
+}
+
+// PinStore recording the DAGs attached to MIDs in a LevelDB store
+const makePinStore = async (loadStream: (streamId: StreamID) => Promise<any>) => {
+  const pinStore = new PinStore(stateStore, pinning, jest.fn(), jest.fn(), loadStream)
+  await pinStore.attachmentStore.open(levelStore)
+  return pinStore
+}
+
 class FakeType extends Stream {
   isReadOnly = true
   makeReadOnly() {
@@ -307,7 +345,7 @@ describe('#add', () => {
       }
     })
 
-    const pinStore = new PinStore(stateStore, pinning, jest.fn(), jest.fn(), loadStream)
+    const pinStore = await makePinStore(loadStream)
     const runningState = new RunningState(midState, false)
     const runningStateSpy = jest.spyOn(runningState, 'markAsPinned')
     await pinStore.add(runningState)
@@ -325,6 +363,101 @@ describe('#add', () => {
   })
 })
 
+describe('attachments', () => {
+  test('pin DAGs attached to a MID', async () => {
+    const { midState, modelRunningState, loadStream } = midWithAttachments([ATTACHMENT_CID])
+    const pinStore = await makePinStore(loadStream)
+    const runningState = new RunningState(midState, false)
+    await pinStore.add(runningState)
+    expect(pinning.pin).toBeCalledTimes(3)
+    const pinned = pinning.pin.mock.calls.map(([cid]) => cid.toString())
+    expect(pinned).toEqual([
+      midState.log[0].cid.toString(),
+      ATTACHMENT_CID.toString(),
+      modelRunningState.state.log[0].cid.toString(),
+    ])
+    expect(pinning.pin).toBeCalledWith(ATTACHMENT_CID, { recursive: true, timeout: 300000 })
+    expect(pinning.unpin).not.toBeCalled()
+    await expect(pinStore.attachmentStore.attached(runningState.id)).resolves.toEqual([
+      ATTACHMENT_CID,
+    ])
+  })
+
+  test('bound the time to pin DAGs attached to a MID', async () => {
+    const { midState, loadStream } = midWithAttachments([ATTACHMENT_CID])
+    process.env.CERAMIC_ATTACHMENT_PIN_TIMEOUT = '1000'
+    const pinStore = await makePinStore(loadStream).finally(() => {
+      delete process.env.CERAMIC_ATTACHMENT_PIN_TIMEOUT
+    })
+    pinning.pin = jest.fn(async (cid: CID, options?: PinOptions) => {
+      if (options?.timeout) throw new Error(`pinning ${cid} timed out`)
+    })
+    const runningState = new RunningState(midState, false)
+    await expect(pinStore.add(runningState)).rejects.toThrow(`pinning ${ATTACHMENT_CID} timed out`)
+    expect(pinning.pin).toBeCalledWith(ATTACHMENT_CID, { recursive: true, timeout: 1000 })
+    expect(stateStore.saveFromStreamStateHolder).not.toBeCalled()
+    await expect(pinStore.attachmentStore.attached(runningState.id)).resolves.toEqual([])
+  })
+
+  test('unpin DAGs no longer attached to a MID', async () => {
+    const { midState, loadStream } = midWithAttachments([ATTACHMENT_CID, OTHER_ATTACHMENT_CID])
+    const pinStore = await makePinStore(loadStream)
+    await pinStore.add(new RunningState(midState, false))
+    const updatedState = cloneDeep(midState)
+    updatedState.content = { images: [OTHER_ATTACHMENT_CID.toString()] }
+    await pinStore.add(new RunningState(updatedState, false))
+    expect(pinning.unpin).toBeCalledTimes(1)
+    expect(pinning.unpin.mock.calls[0][0].toString()).toEqual(ATTACHMENT_CID.toString())
+  })
+
+  test('surface failures to unpin DAGs no longer attached to a MID', async () => {
+    const { midState, loadStream } = midWithAttachments([ATTACHMENT_CID])
+    const pinStore = await makePinStore(loadStream)
+    await pinStore.add(new RunningState(midState, false))
+    const updatedState = cloneDeep(midState)
+    updatedState.content = { images: [] }
+    pinning.unpin = jest.fn(() => Promise.reject(new Error('unpin failed')))
+    await expect(pinStore.add(new RunningState(updatedState, false))).rejects.toThrow(
+      'unpin failed'
+    )
+    // Only the model stream and the first state of the MID got saved
+    expect(stateStore.saveFromStreamStateHolder).toBeCalledTimes(2)
+  })
+
+  test('keep DAGs attached to other pinned MIDs', async () => {
+    const { midState, loadStream } = midWithAttachments([ATTACHMENT_CID, OTHER_ATTACHMENT_CID])
+    const otherMidState = cloneDeep(midState)
+    otherMidState.content = { images: [ATTACHMENT_CID.toString()] }
+    otherMidState.log[0].cid = CID.parse('QmbQDovX7wRe9ek7u6QXe9zgCXkTzoUSsTFJEkrYV1HrVR')
+    const pinStore = await makePinStore(loadStream)
+    await pinStore.add(new RunningState(midState, false))
+    await pinStore.add(new RunningState(otherMidState, false))
+    await pinStore.rm(new RunningState(midState, true))
+    const unpinned = pinning.unpin.mock.calls.map(([cid]) => cid.toString())
+    expect(unpinned).toEqual([midState.log[0].cid.toString(), OTHER_ATTACHMENT_CID.toString()])
+
+    // Once no other pinned MID attaches it, the shared DAG gets unpinned
+    pinning.unpin.mockClear()
+    await pinStore.rm(new RunningState(otherMidState, true))
+    const unpinnedLast = pinning.unpin.mock.calls.map(([cid]) => cid.toString())
+    expect(unpinnedLast).toEqual([otherMidState.log[0].cid.toString(), ATTACHMENT_CID.toString()])
+  })
+
+  test('rm unpins DAGs attached to a MID without loading its Model', async () => {
+    const { midState, loadStream } = midWithAttachments([ATTACHMENT_CID])
+    const pinStore = await makePinStore(loadStream)
+    const runningState = new RunningState(midState, false)
+    await pinStore.add(runningState)
+    loadStream.mockRejectedValue(new Error('Model not available'))
+    await pinStore.rm(runningState)
+    expect(pinning.unpin).toBeCalledTimes(2)
+    const unpinned = pinning.unpin.mock.calls.map(([cid]) => cid.toString())
+    expect(unpinned).toEqual([midState.log[0].cid.toString(), ATTACHMENT_CID.toString()])
+    expect(stateStore.remove).toBeCalledWith(runningState.id)
+    await expect(pinStore.attachmentStore.attached(runningState.id)).resolves.toEqual([])
+  })
+})
+
 describe('#rm', () => {
   test('basic rm', async () => {
     const pinStore = new PinStore(stateStore, pinning, jest.fn(), jest.fn(), jest.fn())
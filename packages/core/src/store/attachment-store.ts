@@ -0,0 +1,80 @@
+import { CID } from 'multiformats/cid'
+import { StreamID } from '@ceramicnetwork/streamid'
+import { Mutex } from 'await-semaphore'
+import { ObjectStore } from './object-store.js'
+
+function generateKey(object: string): string {
+  return object
+}
+
+function serialize(value: Array<string>): any {
+  return JSON.stringify(value)
+}
+
+function deserialize(serialized: any): Array<string> {
+  return JSON.parse(serialized)
+}
+
+function streamKey(streamId: StreamID): string {
+  return `stream/${streamId.toString()}`
+}
+
+function cidKey(cid: string): string {
+  return `cid/${cid}`
+}
+
+/**
+ * An object-value store keeping track of the DAGs attached to pinned MIDs: the CIDs each stream
+ * attaches, and the streams referencing each CID. A DAG can be unpinned once no stream references
+ * it anymore.
+ */
+export class AttachmentStore extends ObjectStore<string, Array<string>> {
+  // Updates of the streams referencing a CID are read-modify-write operations
+  readonly #lock = new Mutex()
+
+  constructor() {
+    super(generateKey, serialize, deserialize)
+    this.useCaseName = 'attachments'
+  }
+
+  /**
+   * CIDs of the DAGs +streamId+ attaches.
+   */
+  async attached(streamId: StreamID): Promise<Array<CID>> {
+    const cids = (await this.load(streamKey(streamId))) ?? []
+    return cids.map((cid) => CID.parse(cid))
+  }
+
+  /**
+   * Record that +streamId+ attaches exactly the DAGs of +attachments+.
+   *
+   * @returns CIDs the stream attached before, and no stream references anymore.
+   */
+  async update(streamId: StreamID, attachments: Array<CID>): Promise<Array<CID>> {
+    return this.#lock.use(async () => {
+      const id = streamId.toString()
+      const previous = (await this.load(streamKey(streamId))) ?? []
+      const current = [...new Set(attachments.map(String))]
+      for (const cid of current.filter((cid) => !previous.includes(cid))) {
+        const streams = (await this.load(cidKey(cid))) ?? []
+        if (!streams.includes(id)) await this.save(cidKey(cid), [...streams, id])
+      }
+      const released: Array<CID> = []
+      for (const cid of previous.filter((cid) => !current.includes(cid))) {
+        const streams = ((await this.load(cidKey(cid))) ?? []).filter((stream) => stream !== id)
+        if (streams.length > 0) {
+          await this.save(cidKey(cid), streams)
+        } else {
+          await this.remove(cidKey(cid))
+          released.push(CID.parse(cid))
+        }
+      }
+      if (current.length > 0) {
+        await this.save(streamKey(streamId), current)
+      } else {
+        await this.remove(streamKey(streamId))
+      }
+      return released
+    })
+  }
+}
@@ -1,6 +1,9 @@
 export type StoreSearchParams = {
   limit?: number
   gt?: string
+  lt?: string
+  // Find entries in descending order of their keys
+  reverse?: boolean
   useCaseName?: string
 }
 
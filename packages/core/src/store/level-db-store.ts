@@ -119,6 +119,8 @@ export class LevelDbStore implements IKVStore {
       limit: params?.limit,
     }
     if (params?.gt) searchParams.gt = params.gt
+    if (params?.lt) searchParams.lt = params.lt
+    if (params?.reverse) searchParams.reverse = true
     const store = await this.#storeMap.get(params?.useCaseName)
     return await store.stream(searchParams)
   }
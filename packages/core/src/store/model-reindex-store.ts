@@ -0,0 +1,40 @@
+import { StreamID } from '@ceramicnetwork/streamid'
+import type { ModelReindexStatus } from '@ceramicnetwork/common'
+import { ObjectStore } from './object-store.js'
+
+export type ModelReindexProgress = ModelReindexStatus & {
+  /**
+   * Last stream read from the state store, reindexing resumes after it
+   */
+  lastStreamId?: string
+}
+
+function generateKey(object: StreamID): string {
+  return object.toString()
+}
+
+function serialize(value: ModelReindexProgress): any {
+  return JSON.stringify(value)
+}
+
+function deserialize(serialized: any): ModelReindexProgress {
+  return JSON.parse(serialized)
+}
+
+/**
+ * An object-value store being able to save, retrieve and delete the progress of models reindexing
+ * identified by model stream ids
+ *
+ * Progress is saved after every batch of streams, so that reindexing can be resumed after a restart.
+ */
+export class ModelReindexStore extends ObjectStore<StreamID, ModelReindexProgress> {
+  constructor() {
+    super(generateKey, serialize, deserialize)
+    this.useCaseName = 'model-reindex'
+  }
+
+  async list(): Promise<Array<ModelReindexProgress>> {
+    const results = await this.store.find({ useCaseName: this.useCaseName })
+    return results.map((result) => deserialize(result.value))
+  }
+}
@@ -1,19 +1,24 @@
-import { base64urlToJSON, PinningBackend, StreamUtils } from '@ceramicnetwork/common'
+import { base64urlToJSON, PinningBackend, StreamState, StreamUtils } from '@ceramicnetwork/common'
 import { CID } from 'multiformats/cid'
 import { StreamID } from '@ceramicnetwork/streamid'
 import { RunningState } from '../state-management/running-state.js'
 import { Model } from '@ceramicnetwork/stream-model'
 import { IKVStore } from './ikv-store.js'
 import { StreamStateStore } from './stream-state-store.js'
+import { AttachmentStore } from './attachment-store.js'
 import { Semaphore } from 'await-semaphore'
 
 const DEFAULT_CONCURRENT_PIN_LIMIT = 50
+// Attached DAGs are fetched whole to be pinned, and can be arbitrarily large
+const DEFAULT_ATTACHMENT_PIN_TIMEOUT = 300000 // 5 minutes
 
 /**
  * Encapsulates logic for pinning streams
  */
 export class PinStore {
   private readonly semaphore: Semaphore
+  private readonly attachmentPinTimeout: number
+  readonly attachmentStore = new AttachmentStore()
 
   constructor(
     readonly stateStore: StreamStateStore,
@@ -27,15 +32,20 @@ export class PinStore {
       ? parseInt(process.env.CERAMIC_CONCURRENT_PINS_LIMIT)
       : concurrentPinsLimit
     this.semaphore = new Semaphore(concurrencyLimit)
+    this.attachmentPinTimeout = process.env.CERAMIC_ATTACHMENT_PIN_TIMEOUT
+      ? parseInt(process.env.CERAMIC_ATTACHMENT_PIN_TIMEOUT)
+      : DEFAULT_ATTACHMENT_PIN_TIMEOUT
   }
 
   async open(store: IKVStore): Promise<void> {
     await this.stateStore.open(store)
+    await this.attachmentStore.open(store)
     this.pinning.open()
   }
 
   async close(): Promise<void> {
     await this.stateStore.close()
+    await this.attachmentStore.close()
     await this.pinning.close()
   }
 
@@ -51,6 +61,12 @@ export class PinStore {
    *  StreamState that aren't contained within `pinnedCommits`
    * @param force - optional boolean that if set to true forces all commits in the stream to pinned,
    * regardless of whether they have been previously pinned
+   *
+   * The DAGs attached to a MID by the attachment fields of its Model are recursively pinned along
+   * with the stream. Pinning fails if an attached DAG is not fetched within
+   * `CERAMIC_ATTACHMENT_PIN_TIMEOUT` milliseconds, 5 minutes by default. DAGs the previously pinned state attached and the current state no longer
+   * attaches are unpinned, unless other pinned streams attach them, as the `AttachmentStore`
+   * records.
    */
   async add(runningState: RunningState, force?: boolean): Promise<void> {
     const commitLog = runningState.state.log.map((logEntry) => logEntry.cid)
@@ -62,16 +78,33 @@ export class PinStore {
       return
     }
 
+    const model = runningState.state.metadata.model
+    // TODO(NET-1645): Check for UNLOADABLE StreamType instead of hard-coded MODEL
+    const modelStream =
+      model && !model.equals(Model.MODEL) ? await this.loadStream(model) : undefined
+
     const points = await this.getComponentCIDsOfCommits(newCommits)
-    await Promise.all(points.map((point) => this.semaphore.use(() => this.pinning.pin(point))))
+    const attachments = this.getAttachmentCIDs(runningState.state, modelStream)
+    await Promise.all([
+      ...points.map((point) => this.semaphore.use(() => this.pinning.pin(point))),
+      ...attachments.map((attachment) => {
+        return this.semaphore.use(() => {
+          return this.pinning.pin(attachment, {
+            recursive: true,
+            timeout: this.attachmentPinTimeout,
+          })
+        })
+      }),
+    ])
+
+    if (modelStream) {
+      await this.updateAttachments(runningState.id, attachments)
+    }
 
     await this.stateStore.saveFromStreamStateHolder(runningState)
     runningState.markAsPinned()
 
-    const model = runningState.state.metadata.model
-    // TODO(NET-1645): Check for UNLOADABLE StreamType instead of hard-coded MODEL
-    if (model && !model.equals(Model.MODEL)) {
-      const modelStream = await this.loadStream(model)
+    if (modelStream) {
       await this.add(modelStream) // recursive call to also pin the model stream
     }
   }
@@ -83,7 +116,8 @@ export class PinStore {
    * intentionally leaves the CIDs that make up the anchor proof and anchor merkle tree pinned.
    * This is to avoid accidentally unpinning data that is needed by other streams, in the case where
    * there are multiple pinned streams that contain anchor commits from the same anchor batch
-   * and therefore share the same anchor proof and merkle tree.
+   * and therefore share the same anchor proof and merkle tree. The DAGs attached to a MID are
+   * unpinned along with the stream, unless other pinned streams attach them.
    * @param runningState
    */
   async rm(runningState: RunningState): Promise<void> {
@@ -92,6 +126,11 @@ export class PinStore {
     Promise.all(points.map((point) => this.pinning.unpin(point))).catch(() => {
       // Do Nothing
     })
+    // The attached DAGs are recorded, so the Model of the MID does not have to be loaded
+    const model = runningState.state.metadata.model
+    if (model && !model.equals(Model.MODEL)) {
+      await this.updateAttachments(runningState.id, [])
+    }
     await this.stateStore.remove(runningState.id)
     runningState.markAsUnpinned()
   }
@@ -100,6 +139,32 @@ export class PinStore {
     return this.stateStore.listStoredStreamIDs(streamId)
   }
 
+  /**
+   * CIDs of the DAGs attached to a MID by the attachment fields of its Model.
+   * @param state - state of the MID
+   * @param modelStream - Model of the MID, if any
+   * @protected
+   */
+  protected getAttachmentCIDs(
+    state: StreamState,
+    modelStream: RunningState | undefined
+  ): Array<CID> {
+    if (!modelStream) return []
+    return Model.attachments(modelStream.state.content, state.content)
+  }
+
+  /**
+   * Records the DAGs +streamId+ attaches, and unpins the DAGs it no longer attaches that no other
+   * pinned stream attaches.
+   * @param streamId - the stream attaching the DAGs
+   * @param attachments - CIDs of the DAGs the stream attaches now
+   * @protected
+   */
+  protected async updateAttachments(streamId: StreamID, attachments: Array<CID>): Promise<void> {
+    const released = await this.attachmentStore.update(streamId, attachments)
+    await Promise.all(released.map((cid) => this.pinning.unpin(cid)))
+  }
+
   /**
    * Takes an array of CIDs, corresponding to commits in a stream log, and returns all CIDs that
    * would need to be pinned in order to pin all data necessary to keep the corresponding Stream
@@ -9,6 +9,11 @@ import {
 import { ObjectStore } from './object-store.js'
 import { IKVStore } from './ikv-store.js'
 
+export type StreamStateStoreListResult = {
+  key: StreamID
+  value: StreamState
+}
+
 function generateKey(object: StreamID): string {
   return object.toString()
 }
@@ -71,4 +76,19 @@ export class StreamStateStore extends ObjectStore<StreamID, StreamState> {
       return exists ? [streamId.toString()] : []
     }
   }
+
+  /**
+   * List stored stream states, ordered by StreamID.
+   * @param limit - maximum number of entries to return
+   * @param gt - only return entries for StreamIDs after this one
+   */
+  async list(limit?: number, gt?: StreamID): Promise<Array<StreamStateStoreListResult>> {
+    const results = await this.store.find({ limit: limit, gt: gt ? generateKey(gt) : undefined })
+    return results.map((result) => {
+      return {
+        key: StreamID.fromString(result.key),
+        value: deserialize(result.value),
+      }
+    })
+  }
 }
@@ -118,6 +118,26 @@ test('addModelsToIndex()', async () => {
   expect(jwsResult.payload.requestBody.models[0]).toEqual(MODEL.toString())
 })
 
+test('addModelsToIndex() with indexed fields', async () => {
+  const adminApi = new RemoteAdminApi(FAUX_ENDPOINT, getDidFn)
+  const fauxFetch = jest.fn(async () => SUCCESS_RESPONSE) as typeof fetchJson
+  ;(adminApi as any)._fetchJson = fauxFetch
+  const indexedFields = { [MODEL.toString()]: ['title'] }
+  await adminApi.startIndexingModels([MODEL], { indexedFields })
+  const jwsResult = await did.verifyJWS(fauxFetch.mock.calls[1][1].body.jws)
+  expect(jwsResult.payload.requestBody.models).toEqual([MODEL.toString()])
+  expect(jwsResult.payload.requestBody.indexedFields).toEqual(indexedFields)
+})
+
+test('addModelsToIndex() with history', async () => {
+  const adminApi = new RemoteAdminApi(FAUX_ENDPOINT, getDidFn)
+  const fauxFetch = jest.fn(async () => SUCCESS_RESPONSE) as typeof fetchJson
+  ;(adminApi as any)._fetchJson = fauxFetch
+  await adminApi.startIndexingModels([MODEL], { history: [MODEL.toString()] })
+  const jwsResult = await did.verifyJWS(fauxFetch.mock.calls[1][1].body.jws)
+  expect(jwsResult.payload.requestBody.history).toEqual([MODEL.toString()])
+})
+
 test('removeModelsFromIndex()', async () => {
   const adminApi = new RemoteAdminApi(FAUX_ENDPOINT, getDidFn)
   const fauxFetch = jest.fn(async () => SUCCESS_RESPONSE) as typeof fetchJson
@@ -135,6 +155,87 @@ test('removeModelsFromIndex()', async () => {
   expect(jwsResult.payload.requestBody.models[0]).toEqual(MODEL.toString())
 })
 
+test('reindexModel()', async () => {
+  const adminApi = new RemoteAdminApi(FAUX_ENDPOINT, getDidFn)
+  const fauxFetch = jest.fn(async () => SUCCESS_RESPONSE) as typeof fetchJson
+  ;(adminApi as any)._fetchJson = fauxFetch
+  await adminApi.reindexModel(MODEL)
+  expect(fauxFetch.mock.calls[0][0]).toEqual(new URL(`https://example.com/admin/getCode`))
+  expect(fauxFetch.mock.calls[1][0]).toEqual(new URL(`https://example.com/admin/models/reindex`))
+  const sentPayload = fauxFetch.mock.calls[1][1]
+  expect(sentPayload.method).toEqual('post')
+
+  const jwsResult = await did.verifyJWS(sentPayload.body.jws)
+  expect(jwsResult.kid).toEqual(expectedKid)
+  expect(jwsResult.payload.requestPath).toEqual('/admin/models/reindex')
+  expect(jwsResult.payload.requestBody.models).toEqual([MODEL.toString()])
+})
+
+test('getReindexStatus()', async () => {
+  const adminApi = new RemoteAdminApi(FAUX_ENDPOINT, getDidFn)
+  const status = {
+    model: MODEL.toString(),
+    processedStreams: 3,
+    indexedStreams: 1,
+    failedStreams: 0,
+    completed: true,
+  }
+  const fauxFetch = jest.fn(async () => ({ models: [status] })) as typeof fetchJson
+  ;(adminApi as any)._fetchJson = fauxFetch
+  await expect(adminApi.getReindexStatus()).resolves.toEqual([status])
+  expect(fauxFetch.mock.calls[1][0]).toEqual(new URL(`https://example.com/admin/models/reindex`))
+  const sentJws = fauxFetch.mock.calls[1][1].headers.Authorization.split('Basic ')[1]
+
+  const jwsResult = await did.verifyJWS(sentJws)
+  expect(jwsResult.kid).toEqual(expectedKid)
+})
+
+test('checkModelIndex()', async () => {
+  const adminApi = new RemoteAdminApi(FAUX_ENDPOINT, getDidFn)
+  const report = {
+    model: MODEL.toString(),
+    checkedEntries: 3,
+    missing: [],
+    stale: [],
+    orphaned: [],
+    repaired: true,
+  }
+  const fauxFetch = jest.fn(async () => ({ reports: [report] })) as typeof fetchJson
+  ;(adminApi as any)._fetchJson = fauxFetch
+  await expect(adminApi.checkModelIndex(MODEL, true)).resolves.toEqual(report)
+  expect(fauxFetch.mock.calls[1][0]).toEqual(new URL(`https://example.com/admin/models/check`))
+  const sentPayload = fauxFetch.mock.calls[1][1]
+  expect(sentPayload.method).toEqual('post')
+
+  const jwsResult = await did.verifyJWS(sentPayload.body.jws)
+  expect(jwsResult.kid).toEqual(expectedKid)
+  expect(jwsResult.payload.requestPath).toEqual('/admin/models/check')
+  expect(jwsResult.payload.requestBody.models).toEqual([MODEL.toString()])
+  expect(jwsResult.payload.requestBody.repair).toBe(true)
+})
+
+test('explainQuery()', async () => {
+  const adminApi = new RemoteAdminApi(FAUX_ENDPOINT, getDidFn)
+  const plans = [{ sql: 'select * from "model"', bindings: [5], plan: [] }]
+  const fauxFetch = jest.fn(async () => ({ plans })) as typeof fetchJson
+  ;(adminApi as any)._fetchJson = fauxFetch
+  await expect(
+    adminApi.explainQuery({ model: MODEL, account: 'did:key:foo', first: 5 })
+  ).resolves.toEqual(plans)
+  expect(fauxFetch.mock.calls[1][0]).toEqual(new URL(`https://example.com/admin/explain`))
+  const sentPayload = fauxFetch.mock.calls[1][1]
+  expect(sentPayload.method).toEqual('post')
+
+  const jwsResult = await did.verifyJWS(sentPayload.body.jws)
+  expect(jwsResult.kid).toEqual(expectedKid)
+  expect(jwsResult.payload.requestPath).toEqual('/admin/explain')
+  expect(jwsResult.payload.requestBody.query).toEqual({
+    model: MODEL.toString(),
+    account: 'did:key:foo',
+    first: 5,
+  })
+})
+
 describe('Admin Pin API', () => {
   const STREAM = new StreamID(1, TestUtils.randomCID())
 
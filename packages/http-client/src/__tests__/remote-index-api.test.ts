@@ -1,7 +1,17 @@
 import { jest } from '@jest/globals'
 import { RemoteIndexApi } from '../remote-index-api.js'
-import { CommitType, fetchJson, Page, StreamState, TestUtils } from '@ceramicnetwork/common'
-import { StreamID } from '@ceramicnetwork/streamid'
+import {
+  CommitType,
+  fetchEvents,
+  fetchJson,
+  Page,
+  ServerSentEvent,
+  StreamState,
+  StreamUtils,
+  TestUtils,
+} from '@ceramicnetwork/common'
+import { firstValueFrom, toArray } from 'rxjs'
+import { CommitID, StreamID } from '@ceramicnetwork/streamid'
 
 const FAUX_ENDPOINT = new URL('https://example.com')
 const MODEL = new StreamID(1, TestUtils.randomCID())
@@ -51,6 +61,19 @@ test('model, account in query', async () => {
   })
 })
 
+test('filter in query', async () => {
+  const fauxFetch = jest.fn(async () => EMPTY_RESPONSE) as typeof fetchJson
+  const indexApi = new RemoteIndexApi(FAUX_ENDPOINT)
+  ;(indexApi as any)._fetchJson = fauxFetch
+  const filter = { linkedDoc: { in: ['foo', 'bar'] }, otherDoc: { gte: 'baz' } }
+  const result = await indexApi.query({ model: MODEL, filter, first: 5 })
+  expect(result).toEqual(EMPTY_RESPONSE)
+  expect(fauxFetch).toBeCalledWith(new URL(`https://example.com/collection`), {
+    method: 'POST',
+    body: { model: MODEL.toString(), first: 5, filter },
+  })
+})
+
 test('serialize stream state', async () => {
   const response: Page<StreamState> = {
     ...EMPTY_RESPONSE,
@@ -67,3 +90,154 @@ test('serialize stream state', async () => {
   const result = await indexApi.query({ model: MODEL, account: 'did:key:foo', first: 5 })
   expect(result.edges[0].node).toEqual(FAUX_STREAM_STATE)
 })
+
+test('deserialize expanded relations', async () => {
+  const serializedState = StreamUtils.serializeState(FAUX_STREAM_STATE)
+  const response = {
+    ...EMPTY_RESPONSE,
+    edges: [
+      {
+        cursor: 'some-opaque-string',
+        node: serializedState,
+        relations: {
+          author: { node: serializedState, relations: { posts: [{ node: serializedState }] } },
+          editor: null,
+        },
+      },
+    ],
+  }
+  const fauxFetch = jest.fn(async () => response) as typeof fetchJson
+  const indexApi = new RemoteIndexApi(FAUX_ENDPOINT)
+  ;(indexApi as any)._fetchJson = fauxFetch
+  const expand = { author: { posts: true as const }, editor: true as const }
+  const result = await indexApi.query({ model: MODEL, first: 5, expand })
+  expect(fauxFetch).toBeCalledWith(new URL(`https://example.com/collection`), {
+    method: 'POST',
+    body: { model: MODEL.toString(), first: 5, expand },
+  })
+  expect(result.edges[0].relations).toEqual({
+    author: { node: FAUX_STREAM_STATE, relations: { posts: [{ node: FAUX_STREAM_STATE }] } },
+    editor: null,
+  })
+})
+
+test('aggregation query', async () => {
+  const results = [{ group: { linkedDoc: 'foo' }, values: { total: 3 } }]
+  const fauxFetch = jest.fn(async () => ({ results })) as typeof fetchJson
+  const indexApi = new RemoteIndexApi(FAUX_ENDPOINT)
+  ;(indexApi as any)._fetchJson = fauxFetch
+  const aggregations = { total: { function: 'count' as const } }
+  const result = await indexApi.aggregate({ model: MODEL, aggregations, groupBy: ['linkedDoc'] })
+  expect(result).toEqual(results)
+  expect(fauxFetch).toBeCalledWith(new URL(`https://example.com/collection/aggregate`), {
+    method: 'POST',
+    body: { model: MODEL.toString(), aggregations, groupBy: ['linkedDoc'] },
+  })
+})
+
+test('history query', async () => {
+  const streamId = new StreamID(3, TestUtils.randomCID())
+  const commitId = CommitID.make(streamId, TestUtils.randomCID())
+  const indexedAt = new Date('2023-01-02T00:00:00.000Z')
+  const fauxFetch = jest.fn(async () => ({
+    edges: [
+      {
+        cursor: 'cursor',
+        node: {
+          streamId: streamId.toString(),
+          commitId: commitId.toString(),
+          controller: 'did:key:foo',
+          content: { title: 'hello' },
+          anchoredAt: null,
+          indexedAt: indexedAt.toISOString(),
+        },
+      },
+    ],
+    pageInfo: EMPTY_RESPONSE.pageInfo,
+  })) as typeof fetchJson
+  const indexApi = new RemoteIndexApi(FAUX_ENDPOINT)
+  ;(indexApi as any)._fetchJson = fauxFetch
+  const since = new Date('2023-01-01T00:00:00.000Z')
+  const page = await indexApi.history({ model: MODEL, since, first: 5 })
+  expect(page.edges).toEqual([
+    {
+      cursor: 'cursor',
+      node: {
+        streamId,
+        commitId,
+        controller: 'did:key:foo',
+        content: { title: 'hello' },
+        anchoredAt: null,
+        indexedAt,
+      },
+    },
+  ])
+  expect(fauxFetch).toBeCalledWith(new URL(`https://example.com/collection/history`), {
+    method: 'POST',
+    body: { model: MODEL.toString(), since, first: 5 },
+  })
+})
+
+test('TileDocument query', async () => {
+  const schema = CommitID.make(new StreamID(0, TestUtils.randomCID()), TestUtils.randomCID())
+  const fauxFetch = jest.fn(async () => ({
+    edges: [
+      { cursor: 'cursor-1', node: StreamUtils.serializeState(FAUX_STREAM_STATE) },
+      { cursor: 'cursor-2', node: null },
+    ],
+    pageInfo: EMPTY_RESPONSE.pageInfo,
+  })) as typeof fetchJson
+  const indexApi = new RemoteIndexApi(FAUX_ENDPOINT)
+  ;(indexApi as any)._fetchJson = fauxFetch
+  const page = await indexApi.tiles({ family: 'notes', tags: ['public'], schema, first: 5 })
+  expect(page.edges).toEqual([
+    { cursor: 'cursor-1', node: FAUX_STREAM_STATE },
+    { cursor: 'cursor-2', node: null },
+  ])
+  expect(fauxFetch).toBeCalledWith(new URL(`https://example.com/collection/tiles`), {
+    method: 'POST',
+    body: { family: 'notes', tags: ['public'], schema: schema.toString(), first: 5 },
+  })
+})
+
+describe('subscribe', () => {
+  const serializedState = StreamUtils.serializeState(FAUX_STREAM_STATE)
+
+  async function* fauxEvents(events: Array<ServerSentEvent>) {
+    for (const event of events) {
+      yield event
+    }
+  }
+
+  test('emit changes from server-sent events', async () => {
+    const change = { type: 'added', edge: { cursor: 'cursor', node: serializedState } }
+    const fauxFetchEvents = jest.fn(() => {
+      return fauxEvents([{ event: 'message', data: JSON.stringify(change) }])
+    }) as unknown as typeof fetchEvents
+    const indexApi = new RemoteIndexApi(FAUX_ENDPOINT)
+    ;(indexApi as any)._fetchEvents = fauxFetchEvents
+    const filter = { linkedDoc: 'foo' }
+    const changes = await firstValueFrom(
+      indexApi.subscribe({ model: MODEL, account: 'did:key:foo', filter }).pipe(toArray())
+    )
+    expect(changes).toEqual([
+      { type: 'added', edge: { cursor: 'cursor', node: FAUX_STREAM_STATE } },
+    ])
+    const url = (fauxFetchEvents as jest.Mock).mock.calls[0][0] as URL
+    expect(url.pathname).toEqual('/collection/subscribe')
+    expect(url.searchParams.get('model')).toEqual(MODEL.toString())
+    expect(url.searchParams.get('account')).toEqual('did:key:foo')
+    expect(url.searchParams.get('filter')).toEqual(JSON.stringify(filter))
+  })
+
+  test('fail on error event', async () => {
+    const fauxFetchEvents = jest.fn(() => {
+      return fauxEvents([{ event: 'error', data: JSON.stringify({ error: 'Invalid filter' }) }])
+    }) as unknown as typeof fetchEvents
+    const indexApi = new RemoteIndexApi(FAUX_ENDPOINT)
+    ;(indexApi as any)._fetchEvents = fauxFetchEvents
+    await expect(firstValueFrom(indexApi.subscribe({ model: MODEL }))).rejects.toThrow(
+      'Invalid filter'
+    )
+  })
+})
@@ -1,8 +1,18 @@
-import { AdminApi, fetchJson, PinApi, NodeStatusResponse } from '@ceramicnetwork/common'
+import {
+  AdminApi,
+  fetchJson,
+  PinApi,
+  NodeStatusResponse,
+  ModelIndexCheckReport,
+  ModelIndexingOptions,
+  ModelReindexStatus,
+  IndexQueryPlan,
+  PaginationQuery,
+} from '@ceramicnetwork/common'
 import { RemotePinApi } from './remote-pin-api.js'
 import { StreamID } from '@ceramicnetwork/streamid'
 import { DID } from 'dids'
-import { MissingDIDError } from './utils.js'
+import { MissingDIDError, serializeObjectForHttpPost } from './utils.js'
 
 /**
  * AdminApi for Ceramic http client.
@@ -13,8 +23,11 @@ export class RemoteAdminApi implements AdminApi {
   private readonly _pinApi: PinApi
 
   readonly modelsPath = './admin/models'
+  readonly reindexPath = './admin/models/reindex'
+  readonly checkPath = './admin/models/check'
   readonly getCodePath = './admin/getCode'
   readonly nodeStatusPath = './admin/status'
+  readonly explainPath = './admin/explain'
 
   constructor(private readonly _apiUrl: URL, private readonly _getDidFn: () => DID) {
     this._pinApi = new RemotePinApi(this._apiUrl, this._getDidFn)
@@ -28,10 +41,22 @@ export class RemoteAdminApi implements AdminApi {
     return new URL(this.modelsPath, this._apiUrl)
   }
 
+  private getReindexUrl(): URL {
+    return new URL(this.reindexPath, this._apiUrl)
+  }
+
+  private getCheckUrl(): URL {
+    return new URL(this.checkPath, this._apiUrl)
+  }
+
   private getStatusUrl(): URL {
     return new URL(this.nodeStatusPath, this._apiUrl)
   }
 
+  private getExplainUrl(): URL {
+    return new URL(this.explainPath, this._apiUrl)
+  }
+
   private async buildJWS(
     actingDid: DID,
     code: string,
@@ -64,9 +89,12 @@ export class RemoteAdminApi implements AdminApi {
     })
   }
 
-  async startIndexingModels(modelsIDs: Array<StreamID>): Promise<void> {
+  async startIndexingModels(
+    modelsIDs: Array<StreamID>,
+    options: ModelIndexingOptions = {}
+  ): Promise<void> {
     const code = await this.generateCode()
-    const body = modelIDsAsRequestBody(modelsIDs)
+    const body = { ...modelIDsAsRequestBody(modelsIDs), ...options }
     await this._fetchJson(this.getModelsUrl(), {
       method: 'post',
       body: {
@@ -102,13 +130,60 @@ export class RemoteAdminApi implements AdminApi {
     })
   }
 
+  async reindexModel(modelId: StreamID): Promise<void> {
+    const code = await this.generateCode()
+    const body = modelIDsAsRequestBody([modelId])
+    await this._fetchJson(this.getReindexUrl(), {
+      method: 'post',
+      body: {
+        jws: await this.buildJWS(this._getDidFn(), code, this.getReindexUrl().pathname, body),
+      },
+    })
+  }
+
+  async getReindexStatus(): Promise<Array<ModelReindexStatus>> {
+    const code = await this.generateCode()
+    const response = await this._fetchJson(this.getReindexUrl(), {
+      headers: {
+        Authorization: `Basic ${await this.buildJWS(
+          this._getDidFn(),
+          code,
+          this.getReindexUrl().pathname
+        )}`,
+      },
+    })
+    return response.models
+  }
+
+  async checkModelIndex(modelId: StreamID, repair = false): Promise<ModelIndexCheckReport> {
+    const code = await this.generateCode()
+    const body = { ...modelIDsAsRequestBody([modelId]), repair }
+    const response = await this._fetchJson(this.getCheckUrl(), {
+      method: 'post',
+      body: {
+        jws: await this.buildJWS(this._getDidFn(), code, this.getCheckUrl().pathname, body),
+      },
+    })
+    return response.reports[0]
+  }
+
+  async explainQuery(query: PaginationQuery): Promise<Array<IndexQueryPlan>> {
+    const code = await this.generateCode()
+    const body = { query: serializeObjectForHttpPost(query) }
+    const response = await this._fetchJson(this.getExplainUrl(), {
+      method: 'post',
+      body: {
+        jws: await this.buildJWS(this._getDidFn(), code, this.getExplainUrl().pathname, body),
+      },
+    })
+    return response.plans
+  }
+
   get pin(): PinApi {
     return this._pinApi
   }
 }
 
 function modelIDsAsRequestBody(modelIDs: Array<StreamID>): Record<string, Array<string>> {
-  return modelIDs
-    ? { models: modelIDs.map((streamID) => streamID.toString()) }
-    : undefined
+  return modelIDs ? { models: modelIDs.map((streamID) => streamID.toString()) } : undefined
 }
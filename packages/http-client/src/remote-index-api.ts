@@ -1,12 +1,20 @@
 import type {
+  AggregationQuery,
+  AggregationResult,
   BaseQuery,
+  DocumentVersion,
+  HistoryQuery,
   IndexApi,
+  IndexChange,
   Page,
   PaginationQuery,
   StreamState,
+  TileQuery,
 } from '@ceramicnetwork/common'
-import { StreamUtils, fetchJson } from '@ceramicnetwork/common'
-import { serializeObjectForHttpPost } from './utils.js'
+import { StreamUtils, fetchEvents, fetchJson } from '@ceramicnetwork/common'
+import { Observable } from 'rxjs'
+import { CommitID, StreamID } from '@ceramicnetwork/streamid'
+import { serializeObjectForHttpPost, serializeObjectToSearchParams } from './utils.js'
 
 /**
  * IndexAPI implementation on top of HTTP endpoint.
@@ -14,12 +22,21 @@ import { serializeObjectForHttpPost } from './utils.js'
 export class RemoteIndexApi implements IndexApi {
   // Stored as a member to make it easier to inject a mock in unit tests
   private readonly _fetchJson: typeof fetchJson = fetchJson
+  private readonly _fetchEvents: typeof fetchEvents = fetchEvents
   private readonly _collectionURL: URL
   private readonly _countURL: URL
+  private readonly _aggregateURL: URL
+  private readonly _historyURL: URL
+  private readonly _tilesURL: URL
+  private readonly _subscribeURL: URL
 
   constructor(apiUrl: URL) {
     this._collectionURL = new URL('./collection', apiUrl)
     this._countURL = new URL('./collection/count', apiUrl)
+    this._aggregateURL = new URL('./collection/aggregate', apiUrl)
+    this._historyURL = new URL('./collection/history', apiUrl)
+    this._tilesURL = new URL('./collection/tiles', apiUrl)
+    this._subscribeURL = new URL('./collection/subscribe', apiUrl)
   }
 
   async count(query: BaseQuery): Promise<number> {
@@ -30,6 +47,17 @@ export class RemoteIndexApi implements IndexApi {
     return response.count
   }
 
+  /**
+   * Issue an aggregation query to `/collection/aggregate` endpoint.
+   */
+  async aggregate(query: AggregationQuery): Promise<Array<AggregationResult>> {
+    const response = await this._fetchJson(this._aggregateURL, {
+      method: 'POST',
+      body: serializeObjectForHttpPost(query),
+    })
+    return response.results
+  }
+
   /**
    * Issue a query to `/collection` endpoint.
    */
@@ -42,6 +70,34 @@ export class RemoteIndexApi implements IndexApi {
       return {
         cursor: e.cursor,
         node: StreamUtils.deserializeState(e.node),
+        ...(e.relations && { relations: StreamUtils.deserializeRelations(e.relations) }),
+      }
+    })
+    return {
+      edges: edges,
+      pageInfo: response.pageInfo,
+    }
+  }
+
+  /**
+   * Issue a history query to `/collection/history` endpoint.
+   */
+  async history(query: HistoryQuery): Promise<Page<DocumentVersion>> {
+    const response = await this._fetchJson(this._historyURL, {
+      method: 'POST',
+      body: serializeObjectForHttpPost(query),
+    })
+    const edges = response.edges.map((e) => {
+      return {
+        cursor: e.cursor,
+        node: {
+          streamId: StreamID.fromString(e.node.streamId),
+          commitId: CommitID.fromString(e.node.commitId),
+          controller: e.node.controller,
+          content: e.node.content,
+          anchoredAt: e.node.anchoredAt ? new Date(e.node.anchoredAt) : null,
+          indexedAt: new Date(e.node.indexedAt),
+        },
       }
     })
     return {
@@ -49,4 +105,59 @@ export class RemoteIndexApi implements IndexApi {
       pageInfo: response.pageInfo,
     }
   }
+
+  /**
+   * Issue a TileDocument query to `/collection/tiles` endpoint.
+   */
+  async tiles(query: TileQuery): Promise<Page<StreamState | null>> {
+    const response = await this._fetchJson(this._tilesURL, {
+      method: 'POST',
+      body: serializeObjectForHttpPost({
+        ...query,
+        ...(query.schema && { schema: query.schema.toString() }),
+      }),
+    })
+    const edges = response.edges.map((e) => {
+      return {
+        cursor: e.cursor,
+        node: StreamUtils.deserializeState(e.node),
+      }
+    })
+    return {
+      edges: edges,
+      pageInfo: response.pageInfo,
+    }
+  }
+
+  /**
+   * Listen to Server-Sent Events of `/collection/subscribe` endpoint.
+   * Unsubscribing closes the connection.
+   */
+  subscribe(query: BaseQuery): Observable<IndexChange<StreamState | null>> {
+    return new Observable((subscriber) => {
+      const controller = new AbortController()
+      const url = serializeObjectToSearchParams(this._subscribeURL, query)
+      const consume = async () => {
+        for await (const event of this._fetchEvents(url, { signal: controller.signal })) {
+          const data = JSON.parse(event.data)
+          if (event.event === 'error') {
+            throw new Error(data.error)
+          }
+          subscriber.next({
+            type: data.type,
+            edge: {
+              cursor: data.edge.cursor,
+              node: StreamUtils.deserializeState(data.edge.node),
+            },
+          })
+        }
+      }
+      consume()
+        .then(() => subscriber.complete())
+        .catch((error) => {
+          if (!controller.signal.aborted) subscriber.error(error)
+        })
+      return () => controller.abort()
+    })
+  }
 }
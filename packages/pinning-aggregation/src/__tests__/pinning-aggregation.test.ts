@@ -163,6 +163,15 @@ describe('#pin', () => {
     expect(aggregation.backends[1].pin).toBeCalled()
   })
 
+  test('pass options to all backends', async () => {
+    const aggregation = PinningAggregation.build(ipfs, doubleFakeConnectionStrings, [FakePinning])
+    aggregation.backends[0].pin = jest.fn()
+    aggregation.backends[1].pin = jest.fn()
+    await aggregation.pin(cid, { recursive: true })
+    expect(aggregation.backends[0].pin).toBeCalledWith(cid, { recursive: true })
+    expect(aggregation.backends[1].pin).toBeCalledWith(cid, { recursive: true })
+  })
+
   test('throw if backend fails', async () => {
     const aggregation = PinningAggregation.build(ipfs, doubleFakeConnectionStrings, [FakePinning])
     aggregation.backends[0].pin = jest.fn(() => {
@@ -4,6 +4,7 @@ import type {
   PinningBackend,
   PinningBackendStatic,
   PinningInfo,
+  PinOptions,
   IpfsApi,
 } from '@ceramicnetwork/common'
 import { toString } from 'uint8arrays/to-string'
@@ -77,8 +78,8 @@ export class PinningAggregation implements PinningBackend {
    * Pin stream.
    * Async semantics: every call should succeed.
    */
-  async pin(cid: CID): Promise<void> {
-    await Promise.all(this.backends.map(async (service) => service.pin(cid)))
+  async pin(cid: CID, options?: PinOptions): Promise<void> {
+    await Promise.all(this.backends.map(async (service) => service.pin(cid, options)))
   }
 
   /**
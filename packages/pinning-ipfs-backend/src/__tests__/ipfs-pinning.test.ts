@@ -72,6 +72,36 @@ describe('#pin', () => {
     expect(add).toBeCalledWith(cid, { recursive: false })
   })
 
+  test('pin the whole DAG if recursive', async () => {
+    const add = jest.fn()
+    const ipfs = {
+      pin: {
+        add: add,
+      },
+    } as unknown as IPFS
+
+    const pinning = new IpfsPinning('ipfs+context', ipfs)
+    pinning.open()
+    const cid = CID.parse('QmSnuWmxptJZdLJpKRarxBMS2Ju2oANVrgbr2xWbie9b2D')
+    await pinning.pin(cid, { recursive: true })
+    expect(add).toBeCalledWith(cid, { recursive: true })
+  })
+
+  test('pass the timeout to ipfs', async () => {
+    const add = jest.fn()
+    const ipfs = {
+      pin: {
+        add: add,
+      },
+    } as unknown as IPFS
+
+    const pinning = new IpfsPinning('ipfs+context', ipfs)
+    pinning.open()
+    const cid = CID.parse('QmSnuWmxptJZdLJpKRarxBMS2Ju2oANVrgbr2xWbie9b2D')
+    await pinning.pin(cid, { recursive: true, timeout: 1000 })
+    expect(add).toBeCalledWith(cid, { recursive: true, timeout: 1000 })
+  })
+
   test('silently pass if no IPFS instance', async () => {
     const ipfs = null
     const pinning = new IpfsPinning('ipfs+context', ipfs)
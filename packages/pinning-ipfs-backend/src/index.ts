@@ -1,4 +1,10 @@
-import type { CidList, PinningBackend, PinningInfo, IpfsApi } from '@ceramicnetwork/common'
+import type {
+  CidList,
+  PinningBackend,
+  PinningInfo,
+  PinOptions,
+  IpfsApi,
+} from '@ceramicnetwork/common'
 import type { CID } from 'multiformats/cid'
 import * as sha256 from '@stablelib/sha256'
 import { toString } from 'uint8arrays/to-string'
@@ -75,8 +81,11 @@ export class IpfsPinning implements PinningBackend {
     // Do Nothing
   }
 
-  async pin(cid: CID): Promise<void> {
-    await this.#ipfs?.pin.add(cid, { recursive: false })
+  async pin(cid: CID, options?: PinOptions): Promise<void> {
+    await this.#ipfs?.pin.add(cid, {
+      recursive: options?.recursive ?? false,
+      timeout: options?.timeout,
+    })
   }
 
   async unpin(cid: CID): Promise<void> {
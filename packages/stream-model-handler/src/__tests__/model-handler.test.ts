@@ -21,6 +21,7 @@ import {
   RawCommit,
 } from '@ceramicnetwork/common'
 import { parse as parseDidUrl } from 'did-resolver'
+import { StreamID } from '@ceramicnetwork/streamid'
 
 jest.unstable_mockModule('did-jwt', () => {
   return {
@@ -109,6 +110,54 @@ const CONTENT_WITH_INVALID_VIEWS: ModelDefinition = {
   },
 }
 
+const FINAL_CONTENT_WITH_INDICES: ModelDefinition = {
+  ...FINAL_CONTENT,
+  indices: {
+    stringPropName: { type: 'scalar' },
+  },
+}
+
+const CONTENT_WITH_INVALID_INDICES: ModelDefinition = {
+  ...FINAL_CONTENT,
+  indices: {
+    missingPropName: { type: 'scalar' },
+  },
+}
+
+const CONTENT_WITH_INVALID_ACCOUNT_RELATION: ModelDefinition = {
+  ...FINAL_CONTENT,
+  accountRelation: { type: 'set', fields: ['missingPropName'] },
+}
+
+const CONTENT_WITH_INVALID_IMMUTABLE_FIELDS: ModelDefinition = {
+  ...FINAL_CONTENT,
+  immutableFields: ['missingPropName'],
+}
+
+const CONTENT_WITH_INVALID_WRITERS: ModelDefinition = {
+  ...FINAL_CONTENT,
+  writers: [{ type: 'field', field: 'missingPropName' }],
+}
+
+const CONTENT_WITH_INVALID_ATTACHMENT_FIELDS: ModelDefinition = {
+  ...FINAL_CONTENT,
+  attachmentFields: ['missingPropName'],
+}
+
+const SUPERSEDED_MODEL = new StreamID(Model.STREAM_TYPE_ID, FAKE_CID_4)
+
+const CONTENT_SUPERSEDING_FINAL_CONTENT: ModelDefinition = {
+  ...FINAL_CONTENT,
+  supersedes: SUPERSEDED_MODEL.toString(),
+  schema: {
+    ...FINAL_CONTENT.schema,
+    properties: {
+      ...FINAL_CONTENT.schema.properties,
+      numberPropName: { type: 'number' },
+    },
+  },
+}
+
 const CONTENT_WITH_INVALID_SCHEMA = {
   name: 'MyModel',
   version: Model.VERSION,
@@ -363,6 +412,131 @@ describe('ModelHandler', () => {
     expect(streamState).toMatchSnapshot()
   })
 
+  it('applies genesis commits with indices properties correctly', async () => {
+    const commit = (await Model._makeGenesis(
+      context.api,
+      FINAL_CONTENT_WITH_INDICES
+    )) as SignedCommitContainer
+    await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+    const payload = dagCBOR.decode(commit.linkedBlock)
+    await context.ipfs.dag.put(payload, commit.jws.link)
+
+    const commitData = {
+      cid: FAKE_CID_1,
+      type: CommitType.GENESIS,
+      commit: payload,
+      envelope: commit.jws,
+    }
+    const streamState = await handler.applyCommit(commitData, context)
+    expect(streamState.content.indices).toEqual(FINAL_CONTENT_WITH_INDICES.indices)
+  })
+
+  it('fails to apply genesis commits if indices validation fails', async () => {
+    const commit = (await Model._makeGenesis(
+      context.api,
+      CONTENT_WITH_INVALID_INDICES
+    )) as SignedCommitContainer
+    await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+    const payload = dagCBOR.decode(commit.linkedBlock)
+    await context.ipfs.dag.put(payload, commit.jws.link)
+
+    const commitData = {
+      cid: FAKE_CID_1,
+      type: CommitType.GENESIS,
+      commit: payload,
+      envelope: commit.jws,
+    }
+    await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+      `Cannot index field missingPropName: it is not defined in the schema`
+    )
+  })
+
+  it('fails to apply genesis commits if account relation validation fails', async () => {
+    const commit = (await Model._makeGenesis(
+      context.api,
+      CONTENT_WITH_INVALID_ACCOUNT_RELATION
+    )) as SignedCommitContainer
+    await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+    const payload = dagCBOR.decode(commit.linkedBlock)
+    await context.ipfs.dag.put(payload, commit.jws.link)
+
+    const commitData = {
+      cid: FAKE_CID_1,
+      type: CommitType.GENESIS,
+      commit: payload,
+      envelope: commit.jws,
+    }
+    await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+      `Account relation on field missingPropName: expected a required field defined in the schema`
+    )
+  })
+
+  it('fails to apply genesis commits if immutable fields validation fails', async () => {
+    const commit = (await Model._makeGenesis(
+      context.api,
+      CONTENT_WITH_INVALID_IMMUTABLE_FIELDS
+    )) as SignedCommitContainer
+    await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+    const payload = dagCBOR.decode(commit.linkedBlock)
+    await context.ipfs.dag.put(payload, commit.jws.link)
+
+    const commitData = {
+      cid: FAKE_CID_1,
+      type: CommitType.GENESIS,
+      commit: payload,
+      envelope: commit.jws,
+    }
+    await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+      `Immutable field missingPropName: expected a field defined in the schema`
+    )
+  })
+
+  it('fails to apply genesis commits if writers validation fails', async () => {
+    const commit = (await Model._makeGenesis(
+      context.api,
+      CONTENT_WITH_INVALID_WRITERS
+    )) as SignedCommitContainer
+    await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+    const payload = dagCBOR.decode(commit.linkedBlock)
+    await context.ipfs.dag.put(payload, commit.jws.link)
+
+    const commitData = {
+      cid: FAKE_CID_1,
+      type: CommitType.GENESIS,
+      commit: payload,
+      envelope: commit.jws,
+    }
+    await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+      `Writers on field missingPropName: expected a field of type string or array of strings defined in the schema`
+    )
+  })
+
+  it('fails to apply genesis commits if attachment fields validation fails', async () => {
+    const commit = (await Model._makeGenesis(
+      context.api,
+      CONTENT_WITH_INVALID_ATTACHMENT_FIELDS
+    )) as SignedCommitContainer
+    await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+    const payload = dagCBOR.decode(commit.linkedBlock)
+    await context.ipfs.dag.put(payload, commit.jws.link)
+
+    const commitData = {
+      cid: FAKE_CID_1,
+      type: CommitType.GENESIS,
+      commit: payload,
+      envelope: commit.jws,
+    }
+    await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+      `Attachment field missingPropName: expected a field of type string or array of strings defined in the schema`
+    )
+  })
+
   it('fails to apply genesis commits with invalid schema', async () => {
     const commit = (await Model._makeGenesis(
       context.api,
@@ -405,6 +579,129 @@ describe('ModelHandler', () => {
     )
   })
 
+  describe('superseding a Model', () => {
+    const applyGenesis = async (content: ModelDefinition) => {
+      const commit = (await Model._makeGenesis(context.api, content)) as SignedCommitContainer
+      await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+      const payload = dagCBOR.decode(commit.linkedBlock)
+      await context.ipfs.dag.put(payload, commit.jws.link)
+
+      const commitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit: payload,
+        envelope: commit.jws,
+      }
+      return handler.applyCommit(commitData, context)
+    }
+
+    const mockSuperseded = (controller: string) => {
+      const loadStream = jest.fn(async () => ({
+        state: { metadata: { controllers: [controller] } },
+        content: FINAL_CONTENT,
+      }))
+      context.api.loadStream = loadStream as unknown as CeramicApi['loadStream']
+      return loadStream
+    }
+
+    afterEach(() => {
+      delete context.api.loadStream
+    })
+
+    it('applies genesis commits superseding a compatible Model', async () => {
+      const loadStream = mockSuperseded(DID_ID)
+      const streamState = await applyGenesis(CONTENT_SUPERSEDING_FINAL_CONTENT)
+      expect(streamState.content.supersedes).toEqual(SUPERSEDED_MODEL.toString())
+      expect(loadStream).toHaveBeenCalledWith(SUPERSEDED_MODEL)
+    })
+
+    it('fails to apply genesis commits superseding an incompatible Model', async () => {
+      mockSuperseded(DID_ID)
+      const content = cloneDeep(CONTENT_SUPERSEDING_FINAL_CONTENT)
+      content.schema.required = ['stringPropName', 'numberPropName']
+      await expect(applyGenesis(content)).rejects.toThrow(
+        `Model MyModel cannot supersede Model MyModel: the property numberPropName cannot be required`
+      )
+    })
+
+    it('fails to apply genesis commits superseding a Model of another controller', async () => {
+      mockSuperseded('did:key:other')
+      await expect(applyGenesis(CONTENT_SUPERSEDING_FINAL_CONTENT)).rejects.toThrow(
+        /they must have the same controller/
+      )
+    })
+
+    it('fails to apply genesis commits superseding a stream that is not a Model', async () => {
+      const content = {
+        ...CONTENT_SUPERSEDING_FINAL_CONTENT,
+        supersedes: new StreamID('tile', FAKE_CID_4).toString(),
+      }
+      await expect(applyGenesis(content)).rejects.toThrow(/which is not a Model StreamID/)
+    })
+  })
+
+  describe('implementing interfaces', () => {
+    const INTERFACE_MODEL = SUPERSEDED_MODEL
+    const IMPLEMENTING_CONTENT: ModelDefinition = {
+      ...FINAL_CONTENT,
+      implements: [INTERFACE_MODEL.toString()],
+    }
+
+    const applyGenesis = async (content: ModelDefinition) => {
+      const commit = (await Model._makeGenesis(context.api, content)) as SignedCommitContainer
+      await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+      const payload = dagCBOR.decode(commit.linkedBlock)
+      await context.ipfs.dag.put(payload, commit.jws.link)
+
+      const commitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit: payload,
+        envelope: commit.jws,
+      }
+      return handler.applyCommit(commitData, context)
+    }
+
+    const mockInterface = (content: ModelDefinition) => {
+      const loadStream = jest.fn(async () => ({ content }))
+      context.api.loadStream = loadStream as unknown as CeramicApi['loadStream']
+      return loadStream
+    }
+
+    afterEach(() => {
+      delete context.api.loadStream
+    })
+
+    it('applies genesis commits of interfaces', async () => {
+      const streamState = await applyGenesis({ ...FINAL_CONTENT, interface: true })
+      expect(streamState.content.interface).toBe(true)
+    })
+
+    it('applies genesis commits implementing a compatible interface', async () => {
+      const loadStream = mockInterface({ ...FINAL_CONTENT, interface: true })
+      const streamState = await applyGenesis(IMPLEMENTING_CONTENT)
+      expect(streamState.content.implements).toEqual([INTERFACE_MODEL.toString()])
+      expect(loadStream).toHaveBeenCalledWith(INTERFACE_MODEL)
+    })
+
+    it('fails to apply genesis commits implementing an incompatible interface', async () => {
+      const content = cloneDeep(FINAL_CONTENT)
+      content.interface = true
+      content.schema.properties.numberPropName = { type: 'number' }
+      mockInterface(content)
+      await expect(applyGenesis(IMPLEMENTING_CONTENT)).rejects.toThrow(
+        `Model MyModel cannot implement Model MyModel: the property numberPropName must be the same`
+      )
+    })
+
+    it('fails to apply genesis commits implementing a Model that is not an interface', async () => {
+      mockInterface(FINAL_CONTENT)
+      await expect(applyGenesis(IMPLEMENTING_CONTENT)).rejects.toThrow(/it is not an interface/)
+    })
+  })
+
   it('fails to apply signed commit', async () => {
     await expect(handler.applyCommit({}, context, {})).rejects.toThrow(
       `Cannot update a finalized Model`
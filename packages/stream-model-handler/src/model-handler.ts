@@ -1,4 +1,5 @@
 import { Model } from '@ceramicnetwork/stream-model'
+import type { ModelDefinition } from '@ceramicnetwork/stream-model'
 import {
   AnchorStatus,
   CommitData,
@@ -26,6 +27,13 @@ const ALLOWED_CONTENT_KEYS = new Set([
   'accountRelation',
   'relations',
   'views',
+  'indices',
+  'supersedes',
+  'interface',
+  'implements',
+  'immutableFields',
+  'writers',
+  'attachmentFields',
 ])
 
 /**
@@ -120,7 +128,12 @@ export class ModelHandler implements StreamHandler<Model> {
     Model.assertComplete(payload.data)
     // Only check for major version compatibility here, less restrictive
     Model.assertVersionValid(payload.data, 'major')
+    Model.assertAccountRelationValid(payload.data)
     Model.assertRelationsValid(payload.data)
+    Model.assertIndicesValid(payload.data)
+    Model.assertImmutableFieldsValid(payload.data)
+    Model.assertWritersValid(payload.data)
+    Model.assertAttachmentFieldsValid(payload.data)
 
     const modelStreamId = StreamID.fromBytes(payload.header.model)
     if (!modelStreamId.equals(Model.MODEL)) {
@@ -143,10 +156,53 @@ export class ModelHandler implements StreamHandler<Model> {
     if (state.content.views) {
       this._viewsValidator.validateViews(state.content.views, state.content.schema)
     }
+    await this._assertSupersedesValid(payload.data, controller, context)
+    await this._assertImplementsValid(payload.data, context)
 
     return state
   }
 
+  /**
+   * Asserts that a Model superseding another Model is backward compatible with it, and has the
+   * same controller.
+   * @param content - Model definition
+   * @param controller - Controller of the Model
+   * @param context - Ceramic context
+   * @private
+   */
+  async _assertSupersedesValid(
+    content: ModelDefinition,
+    controller: string,
+    context: Context
+  ): Promise<void> {
+    const supersededModel = Model.supersededModel(content)
+    if (!supersededModel) {
+      return
+    }
+    const superseded = await context.api.loadStream<Model>(supersededModel)
+    if (superseded.state.metadata.controllers[0] !== controller) {
+      throw new Error(
+        `Model ${
+          content.name
+        } cannot supersede Model ${supersededModel.toString()}: they must have the same controller`
+      )
+    }
+    Model.assertSupersedesValid(content, superseded.content)
+  }
+
+  /**
+   * Asserts that a Model is compatible with the interface Models it implements.
+   * @param content - Model definition
+   * @param context - Ceramic context
+   * @private
+   */
+  async _assertImplementsValid(content: ModelDefinition, context: Context): Promise<void> {
+    for (const implementedModel of Model.implementedModels(content)) {
+      const implemented = await context.api.loadStream<Model>(implementedModel)
+      Model.assertImplementsValid(content, implemented.content)
+    }
+  }
+
   /**
    * Applies anchor commit
    * @param commitData - Anchor commit
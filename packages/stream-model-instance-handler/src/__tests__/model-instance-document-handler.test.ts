@@ -10,7 +10,11 @@ import * as uint8arrays from 'uint8arrays'
 import * as sha256 from '@stablelib/sha256'
 import cloneDeep from 'lodash.clonedeep'
 import jsonpatch from 'fast-json-patch'
-import { ModelInstanceDocument } from '@ceramicnetwork/stream-model-instance'
+import {
+  ModelInstanceDocument,
+  TOMBSTONE_HEADER,
+  encodeSetFieldValues,
+} from '@ceramicnetwork/stream-model-instance'
 import { Model, ModelDefinition } from '@ceramicnetwork/stream-model'
 import {
   CeramicApi,
@@ -23,6 +27,8 @@ import {
   CeramicSigner,
   GenesisCommit,
   RawCommit,
+  StreamState,
+  CommitHeader,
 } from '@ceramicnetwork/common'
 import { parse as parseDidUrl } from 'did-resolver'
 import { StreamID } from '@ceramicnetwork/streamid'
@@ -57,6 +63,12 @@ const FAKE_CID_2 = CID.parse('bafybeig6xv5nwphfmvcnektpnojts44jqcuam7bmye2pb54ad
 const FAKE_CID_3 = CID.parse('bafybeig6xv5nwphfmvcnektpnojts55jqcuam7bmye2pb54adnrtccjlsu')
 const FAKE_CID_4 = CID.parse('bafybeig6xv5nwphfmvcnektpnojts66jqcuam7bmye2pb54adnrtccjlsu')
 const FAKE_CID_BLOB = CID.parse('bafybeig6xv5nwphfmvcnektpnojts77jqcuam7bmye2pb54adnrtccjlsu')
+const FAKE_CID_IMMUTABLE = CID.parse('bafybeig6xv5nwphfmvcnektpnojtssajqcuam7bmye2pb54adnrtccjlsu')
+const FAKE_CID_WRITERS = CID.parse('bafybeig6xv5nwphfmvcnektpnojttttjqcuam7bmye2pb54adnrtccjlsu')
+const FAKE_CID_ISSUER = CID.parse('bafybeig6xv5nwphfmvcnektpnojtuuujqcuam7bmye2pb54adnrtccjlsu')
+const FAKE_CID_ATTACHMENTS = CID.parse(
+  'bafybeig6xv5nwphfmvcnektpnojtvvvjqcuam7bmye2pb54adnrtccjlsu'
+)
 const DID_ID = 'did:3:k2t6wyfsu4pg0t2n4j8ms3s33xsgqjhtto04mvq8w5a2v5xo48idyz38l7ydki'
 const FAKE_MODEL_ID = StreamID.fromString(
   'kjzl6hvfrbw6cbclh3fplllid7yvf18w05xw41wvuf9b4lk6q9jkq7d1o01wg6v'
@@ -64,6 +76,12 @@ const FAKE_MODEL_ID = StreamID.fromString(
 const FAKE_MODEL_ID2 = StreamID.fromString(
   'kjzl6hvfrbw6c9aememmuuc3xj3xy0zvzbxstv8dnhl6f3jg7mqeengdgdist5a'
 )
+const FAKE_MODEL_IDSET = new StreamID(Model.STREAM_TYPE_ID, FAKE_CID_4)
+const FAKE_MODEL_IDINTERFACE = new StreamID(Model.STREAM_TYPE_ID, FAKE_CID_3)
+const FAKE_MODEL_IDIMMUTABLE = new StreamID(Model.STREAM_TYPE_ID, FAKE_CID_IMMUTABLE)
+const FAKE_MODEL_IDWRITERS = new StreamID(Model.STREAM_TYPE_ID, FAKE_CID_WRITERS)
+const FAKE_MODEL_IDISSUER = new StreamID(Model.STREAM_TYPE_ID, FAKE_CID_ISSUER)
+const FAKE_MODEL_IDATTACHMENTS = new StreamID(Model.STREAM_TYPE_ID, FAKE_CID_ATTACHMENTS)
 const FAKE_MODEL_IDBLOB = StreamID.fromString(
   'kjzl6hvfrbw6c9aememmuuc3xj3xy0zvzbxstv8dnhl6f3jg7mqeengdgdist5b'
 )
@@ -74,6 +92,7 @@ const CONTENT2 = { myData: 2 }
 const METADATA = { controller: DID_ID, model: FAKE_MODEL_ID }
 const METADATA_BLOB = { controller: DID_ID, model: FAKE_MODEL_IDBLOB, deterministic: false }
 const DETERMINISTIC_METADATA = { controller: DID_ID, model: FAKE_MODEL_ID2, deterministic: true }
+const SET_METADATA = { controller: DID_ID, model: FAKE_MODEL_IDSET, deterministic: true }
 
 const jwsForVersion0 = {
   payload: 'bbbb',
@@ -234,6 +253,82 @@ const MODEL_DEFINITION_SINGLE: ModelDefinition = {
   },
 }
 
+const MODEL_DEFINITION_SET: ModelDefinition = {
+  name: 'MyReaction',
+  version: Model.VERSION,
+  accountRelation: { type: 'set', fields: ['postID', 'kind'] },
+  schema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      postID: { type: 'string' },
+      kind: { type: 'string', maxLength: 20 },
+      note: { type: 'string' },
+    },
+    required: ['postID', 'kind'],
+  },
+}
+
+const MODEL_DEFINITION_INTERFACE: ModelDefinition = { ...MODEL_DEFINITION, interface: true }
+
+const MODEL_DEFINITION_IMMUTABLE: ModelDefinition = {
+  name: 'MyProfile',
+  version: Model.VERSION,
+  accountRelation: { type: 'list' },
+  schema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      externalID: { type: 'string' },
+      createdBy: { type: 'string' },
+      name: { type: 'string' },
+    },
+    required: ['externalID'],
+  },
+  immutableFields: ['externalID', 'createdBy'],
+}
+
+const MODEL_DEFINITION_WRITERS: ModelDefinition = {
+  name: 'MySharedDocument',
+  version: Model.VERSION,
+  accountRelation: { type: 'list' },
+  schema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      myData: { type: 'integer' },
+      editors: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['myData'],
+  },
+  writers: [{ type: 'field', field: 'editors' }],
+}
+
+const MODEL_DEFINITION_ISSUER: ModelDefinition = {
+  ...MODEL_DEFINITION_WRITERS,
+  writers: [{ type: 'issuer', issuer: DID_ID }],
+}
+
+const MODEL_DEFINITION_ATTACHMENTS: ModelDefinition = {
+  name: 'MyPost',
+  version: Model.VERSION,
+  accountRelation: { type: 'list' },
+  schema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      body: { type: 'string' },
+      images: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['body'],
+  },
+  attachmentFields: ['images'],
+}
+
 const MODEL_DEFINITION_BLOB: ModelDefinition = {
   name: 'MyBlobModel',
   version: Model.VERSION,
@@ -302,6 +397,37 @@ describe('ModelInstanceDocumentHandler', () => {
             content: MODEL_DEFINITION_SINGLE,
             commitId: FAKE_MODEL_ID2,
           }
+        } else if (streamId.toString() === FAKE_MODEL_IDSET.toString()) {
+          return {
+            content: MODEL_DEFINITION_SET,
+            commitId: FAKE_MODEL_IDSET,
+          }
+        } else if (streamId.toString() === FAKE_MODEL_IDINTERFACE.toString()) {
+          return {
+            content: MODEL_DEFINITION_INTERFACE,
+            commitId: FAKE_MODEL_IDINTERFACE,
+          }
+        } else if (streamId.toString() === FAKE_MODEL_IDIMMUTABLE.toString()) {
+          return {
+            id: FAKE_MODEL_IDIMMUTABLE,
+            content: MODEL_DEFINITION_IMMUTABLE,
+            commitId: FAKE_MODEL_IDIMMUTABLE,
+          }
+        } else if (streamId.toString() === FAKE_MODEL_IDWRITERS.toString()) {
+          return {
+            content: MODEL_DEFINITION_WRITERS,
+            commitId: FAKE_MODEL_IDWRITERS,
+          }
+        } else if (streamId.toString() === FAKE_MODEL_IDISSUER.toString()) {
+          return {
+            content: MODEL_DEFINITION_ISSUER,
+            commitId: FAKE_MODEL_IDISSUER,
+          }
+        } else if (streamId.toString() === FAKE_MODEL_IDATTACHMENTS.toString()) {
+          return {
+            content: MODEL_DEFINITION_ATTACHMENTS,
+            commitId: FAKE_MODEL_IDATTACHMENTS,
+          }
         } else if (streamId.toString() == FAKE_MODEL_IDBLOB.toString()) {
           return {
             content: MODEL_DEFINITION_BLOB,
@@ -419,6 +545,27 @@ describe('ModelInstanceDocumentHandler', () => {
     expect(streamState).toMatchSnapshot()
   })
 
+  it('fails to apply genesis commit for an interface Model', async () => {
+    const commit = (await ModelInstanceDocument._makeGenesis(context.api, CONTENT0, {
+      controller: DID_ID,
+      model: FAKE_MODEL_IDINTERFACE,
+    })) as SignedCommitContainer
+    await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+    const payload = dagCBOR.decode(commit.linkedBlock)
+    await context.ipfs.dag.put(payload, commit.jws.link)
+
+    const commitData = {
+      cid: FAKE_CID_1,
+      type: CommitType.GENESIS,
+      commit: payload,
+      envelope: commit.jws,
+    }
+    await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+      /cannot be created for interface Model/
+    )
+  })
+
   it('applies genesis commit correctly with small allowable content length', async () => {
     const commit = (await ModelInstanceDocument._makeGenesis(
       context.api,
@@ -520,6 +667,25 @@ describe('ModelInstanceDocumentHandler', () => {
     )
   })
 
+  it('genesis commit with a unique header must be signed', async () => {
+    const commit = (await ModelInstanceDocument._makeGenesis(
+      context.api,
+      null,
+      { ...METADATA, deterministic: true },
+      new Uint8Array([1, 2, 3])
+    )) as GenesisCommit
+    await context.ipfs.dag.put(commit, FAKE_CID_1)
+
+    const commitData = {
+      cid: FAKE_CID_1,
+      type: CommitType.GENESIS,
+      commit,
+    }
+    await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+      /ModelInstanceDocument genesis commit with a unique header must be signed, unless its Model has a SET accountRelation/
+    )
+  })
+
   it('MIDs for Models without SINGLE accountRelations must be created uniquely', async () => {
     const rawCommit = await ModelInstanceDocument._makeGenesis(context.api, CONTENT0, {
       ...METADATA,
@@ -542,6 +708,320 @@ describe('ModelInstanceDocumentHandler', () => {
     )
   })
 
+  describe('set accountRelation', () => {
+    const VALUES = ['post-1', 'like']
+
+    const applyGenesis = async (unique?: Uint8Array): Promise<StreamState> => {
+      const commit = (await ModelInstanceDocument._makeGenesis(
+        context.api,
+        null,
+        SET_METADATA,
+        unique
+      )) as GenesisCommit
+      await context.ipfs.dag.put(commit, FAKE_CID_1)
+      const commitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit,
+      }
+      return handler.applyCommit(commitData, context)
+    }
+
+    const applyUpdate = async (state: StreamState, content: Record<string, any>) => {
+      const doc = new ModelInstanceDocument(TestUtils.runningState(state), context)
+      const signedCommit = (await doc._makeCommit(context.api, content)) as SignedCommitContainer
+      await context.ipfs.dag.put(signedCommit, FAKE_CID_2)
+      const sPayload = dagCBOR.decode(signedCommit.linkedBlock)
+      await context.ipfs.dag.put(sPayload, signedCommit.jws.link)
+      const signedCommitData = {
+        cid: FAKE_CID_2,
+        type: CommitType.SIGNED,
+        commit: sPayload,
+        envelope: signedCommit.jws,
+      }
+      return handler.applyCommit(signedCommitData, context, cloneDeep(state))
+    }
+
+    it('applies deterministic genesis commit with the values of the set fields', async () => {
+      const state = await applyGenesis(encodeSetFieldValues(VALUES))
+      expect(state.content).toEqual({})
+      expect(state.metadata.unique).toEqual(encodeSetFieldValues(VALUES))
+      const genesis = await ModelInstanceDocument._makeGenesis(
+        context.api,
+        null,
+        SET_METADATA,
+        encodeSetFieldValues(VALUES)
+      )
+      await expect(
+        ModelInstanceDocument.setStreamId(FAKE_MODEL_IDSET, DID_ID, VALUES)
+      ).resolves.toEqual(await StreamID.fromGenesis('MID', genesis))
+    })
+
+    it('genesis commit must hold the values of the set fields', async () => {
+      await expect(applyGenesis()).rejects.toThrow(
+        /ModelInstanceDocuments for models with SET accountRelations must be created with the values of the set fields/
+      )
+      await expect(applyGenesis(encodeSetFieldValues(['post-1']))).rejects.toThrow(
+        /must be created with 2 values, got 1/
+      )
+      await expect(applyGenesis(new Uint8Array([1, 2, 3]))).rejects.toThrow(
+        /The unique header does not encode values of fields of a set accountRelation/
+      )
+    })
+
+    it('genesis commit must not be signed', async () => {
+      const commit = (await ModelInstanceDocument._makeGenesis(
+        context.api,
+        null,
+        { ...SET_METADATA, deterministic: false },
+        encodeSetFieldValues(VALUES)
+      )) as SignedCommitContainer
+      await context.ipfs.dag.put(commit, FAKE_CID_1)
+      const payload = dagCBOR.decode(commit.linkedBlock)
+      await context.ipfs.dag.put(payload, commit.jws.link)
+      const commitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit: payload,
+        envelope: commit.jws,
+      }
+      await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+        /ModelInstanceDocuments for models with SET accountRelations must be created with an unsigned deterministic genesis commit/
+      )
+    })
+
+    it('genesis commit content must hold the values of the set fields', async () => {
+      const commit = (await ModelInstanceDocument._makeGenesis(
+        context.api,
+        { postID: 'post-1', kind: 'dislike' },
+        SET_METADATA,
+        encodeSetFieldValues(VALUES)
+      )) as GenesisCommit
+      await context.ipfs.dag.put(commit, FAKE_CID_1)
+      const commitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit,
+      }
+      await expect(handler.applyCommit(commitData, context)).rejects.toThrow(
+        /Field kind of ModelInstanceDocuments for models with SET accountRelations must keep the value "like"/
+      )
+    })
+
+    it('updates must keep the values of the set fields', async () => {
+      const state = await applyGenesis(encodeSetFieldValues(VALUES))
+      const updated = await applyUpdate(state, { postID: 'post-1', kind: 'like', note: 'nice' })
+      expect(updated.content).toEqual({ postID: 'post-1', kind: 'like', note: 'nice' })
+      await expect(applyUpdate(updated, { postID: 'post-1', kind: 'dislike' })).rejects.toThrow(
+        /Field kind of ModelInstanceDocuments for models with SET accountRelations must keep the value "like"/
+      )
+    })
+  })
+
+  describe('immutable fields', () => {
+    const applyGenesis = async (content: Record<string, any>): Promise<StreamState> => {
+      const commit = (await ModelInstanceDocument._makeGenesis(context.api, content, {
+        controller: DID_ID,
+        model: FAKE_MODEL_IDIMMUTABLE,
+      })) as SignedCommitContainer
+      await context.ipfs.dag.put(commit, FAKE_CID_1)
+      const payload = dagCBOR.decode(commit.linkedBlock)
+      await context.ipfs.dag.put(payload, commit.jws.link)
+      const commitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit: payload,
+        envelope: commit.jws,
+      }
+      return handler.applyCommit(commitData, context)
+    }
+
+    const applyUpdate = async (state: StreamState, content: Record<string, any>) => {
+      const doc = new ModelInstanceDocument(TestUtils.runningState(state), context)
+      const signedCommit = (await doc._makeCommit(context.api, content)) as SignedCommitContainer
+      await context.ipfs.dag.put(signedCommit, FAKE_CID_2)
+      const sPayload = dagCBOR.decode(signedCommit.linkedBlock)
+      await context.ipfs.dag.put(sPayload, signedCommit.jws.link)
+      const signedCommitData = {
+        cid: FAKE_CID_2,
+        type: CommitType.SIGNED,
+        commit: sPayload,
+        envelope: signedCommit.jws,
+      }
+      return handler.applyCommit(signedCommitData, context, cloneDeep(state))
+    }
+
+    it('updates can change mutable fields and set write-once fields', async () => {
+      const state = await applyGenesis({ externalID: 'ext-1', name: 'Alice' })
+      const updated = await applyUpdate(state, { externalID: 'ext-1', name: 'Bob' })
+      expect(updated.content).toEqual({ externalID: 'ext-1', name: 'Bob' })
+      const withCreator = await applyUpdate(updated, { externalID: 'ext-1', createdBy: 'app' })
+      expect(withCreator.content).toEqual({ externalID: 'ext-1', createdBy: 'app' })
+    })
+
+    it('updates must keep the values of immutable fields', async () => {
+      const state = await applyGenesis({ externalID: 'ext-1', createdBy: 'app' })
+      await expect(applyUpdate(state, { externalID: 'ext-2', createdBy: 'app' })).rejects.toThrow(
+        /Immutable field externalID of ModelInstanceDocuments for Model .* must keep the value "ext-1"/
+      )
+      await expect(applyUpdate(state, { externalID: 'ext-1' })).rejects.toThrow(
+        /Immutable field createdBy of ModelInstanceDocuments for Model .* must keep the value "app"/
+      )
+    })
+
+    it('compares values of immutable fields regardless of key order', () => {
+      const model = {
+        id: FAKE_MODEL_IDIMMUTABLE,
+        content: { ...MODEL_DEFINITION_IMMUTABLE, immutableFields: ['origin'] },
+      } as unknown as Model
+      const oldContent = { origin: { app: 'app', version: 1 } }
+      expect(() =>
+        handler._validateImmutableFields(model, oldContent, { origin: { version: 1, app: 'app' } })
+      ).not.toThrow()
+      expect(() =>
+        handler._validateImmutableFields(model, oldContent, { origin: { version: 2, app: 'app' } })
+      ).toThrow(/Immutable field origin of ModelInstanceDocuments for Model .* must keep the value/)
+    })
+  })
+
+  describe('attachments', () => {
+    const applyGenesis = async (content: Record<string, any>): Promise<StreamState> => {
+      const commit = (await ModelInstanceDocument._makeGenesis(context.api, content, {
+        controller: DID_ID,
+        model: FAKE_MODEL_IDATTACHMENTS,
+      })) as SignedCommitContainer
+      await context.ipfs.dag.put(commit, FAKE_CID_1)
+      const payload = dagCBOR.decode(commit.linkedBlock)
+      await context.ipfs.dag.put(payload, commit.jws.link)
+      const commitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit: payload,
+        envelope: commit.jws,
+      }
+      return handler.applyCommit(commitData, context)
+    }
+
+    it('applies genesis commit with CIDs in attachment fields', async () => {
+      const content = { body: 'hello', images: [FAKE_CID_2.toString(), FAKE_CID_3.toString()] }
+      const state = await applyGenesis(content)
+      expect(state.content).toEqual(content)
+    })
+
+    it('attachment fields must hold CIDs', async () => {
+      await expect(
+        applyGenesis({ body: 'hello', images: [FAKE_CID_2.toString(), 'image.png'] })
+      ).rejects.toThrow(
+        /Invalid attachments of ModelInstanceDocuments for Model .*: Attachment field images: expected a CID, got image.png/
+      )
+    })
+
+    it('attachments must be encoded with a supported codec', async () => {
+      const rawCID = CID.createV1(0x55, FAKE_CID_2.multihash)
+      const dagJoseCID = CID.createV1(0x85, FAKE_CID_2.multihash)
+      const state = await applyGenesis({ body: 'hello', images: [rawCID.toString()] })
+      expect(state.content.images).toEqual([rawCID.toString()])
+      await expect(
+        applyGenesis({ body: 'hello', images: [FAKE_CID_2.toString(), dagJoseCID.toString()] })
+      ).rejects.toThrow(
+        /Invalid attachments of ModelInstanceDocuments for Model .*: Attachment .* is encoded with unsupported codec 0x85, expected one of raw, dag-pb, dag-cbor, dag-json/
+      )
+    })
+  })
+
+  describe('writers', () => {
+    const OTHER_CONTROLLER = 'did:3:other'
+
+    // State of a document controlled by another DID than the one signing the commits
+    const applyGenesis = async (
+      model: StreamID,
+      content: Record<string, any>
+    ): Promise<StreamState> => {
+      const commit = (await ModelInstanceDocument._makeGenesis(context.api, content, {
+        controller: DID_ID,
+        model,
+      })) as SignedCommitContainer
+      await context.ipfs.dag.put(commit, FAKE_CID_1)
+      const payload = dagCBOR.decode(commit.linkedBlock)
+      await context.ipfs.dag.put(payload, commit.jws.link)
+      const commitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit: payload,
+        envelope: commit.jws,
+      }
+      const state = await handler.applyCommit(commitData, context)
+      state.metadata.controllers = [OTHER_CONTROLLER]
+      return state
+    }
+
+    const applySigned = async (state: StreamState, rawCommit: RawCommit) => {
+      const signedCommit = await ModelInstanceDocument._signDagJWS(context.api, rawCommit)
+      await context.ipfs.dag.put(signedCommit, FAKE_CID_2)
+      const sPayload = dagCBOR.decode(signedCommit.linkedBlock)
+      await context.ipfs.dag.put(sPayload, signedCommit.jws.link)
+      const signedCommitData = {
+        cid: FAKE_CID_2,
+        type: CommitType.SIGNED,
+        commit: sPayload,
+        envelope: signedCommit.jws,
+      }
+      return handler.applyCommit(signedCommitData, context, cloneDeep(state))
+    }
+
+    const makeUpdate = (state: StreamState, content: Record<string, any>): RawCommit => {
+      const doc = new ModelInstanceDocument(TestUtils.runningState(state), context)
+      return doc._makeRawCommit(content)
+    }
+
+    it('DIDs listed in the writers field can update the document', async () => {
+      const state = await applyGenesis(FAKE_MODEL_IDWRITERS, { myData: 0, editors: [DID_ID] })
+      const updated = await applySigned(state, makeUpdate(state, { myData: 1, editors: [DID_ID] }))
+      expect(updated.content).toEqual({ myData: 1, editors: [DID_ID] })
+      expect(updated.metadata.lastWriter).toEqual(DID_ID)
+    })
+
+    it('DIDs not listed in the writers field cannot update the document', async () => {
+      const state = await applyGenesis(FAKE_MODEL_IDWRITERS, { myData: 0, editors: ['did:3:foo'] })
+      // Listing itself in the update does not grant the right to write it
+      const rawCommit = makeUpdate(state, { myData: 1, editors: [DID_ID] })
+      await expect(applySigned(state, rawCommit)).rejects.toThrow(
+        /invalid_jws: not a valid verificationMethod for issuer/
+      )
+    })
+
+    it('only the controller can change the writers field', async () => {
+      const state = await applyGenesis(FAKE_MODEL_IDWRITERS, { myData: 0, editors: [DID_ID] })
+      const rawCommit = makeUpdate(state, { myData: 1, editors: [DID_ID, 'did:3:foo'] })
+      await expect(applySigned(state, rawCommit)).rejects.toThrow(
+        /Writer field editors of ModelInstanceDocuments for Model .* can only be changed by the controller/
+      )
+      await expect(applySigned(state, makeUpdate(state, { myData: 1 }))).rejects.toThrow(
+        /Writer field editors of ModelInstanceDocuments for Model .* can only be changed by the controller/
+      )
+
+      state.metadata.controllers = [DID_ID]
+      const updated = await applySigned(state, rawCommit)
+      expect(updated.content).toEqual({ myData: 1, editors: [DID_ID, 'did:3:foo'] })
+    })
+
+    it('the writers issuer can update the document', async () => {
+      const state = await applyGenesis(FAKE_MODEL_IDISSUER, { myData: 0 })
+      const updated = await applySigned(state, makeUpdate(state, { myData: 1 }))
+      expect(updated.content).toEqual({ myData: 1 })
+      expect(updated.metadata.lastWriter).toEqual(DID_ID)
+    })
+
+    it('writers cannot delete the document', async () => {
+      const state = await applyGenesis(FAKE_MODEL_IDWRITERS, { myData: 0, editors: [DID_ID] })
+      const rawCommit = makeUpdate(state, state.content)
+      rawCommit.header = TOMBSTONE_HEADER as CommitHeader
+      await expect(applySigned(state, rawCommit)).rejects.toThrow(
+        /invalid_jws: not a valid verificationMethod for issuer/
+      )
+    })
+  })
+
   it('model must be a Model streamtype', async () => {
     const nonModelStreamId = StreamID.fromString(
       'kjzl6cwe1jw147dvq16zluojmraqvwdmbh61dx9e0c59i344lcrsgqfohexp60s'
@@ -833,6 +1313,88 @@ describe('ModelInstanceDocumentHandler', () => {
     )
   })
 
+  describe('tombstone', () => {
+    const applyGenesis = async (): Promise<StreamState> => {
+      const genesisCommit = (await ModelInstanceDocument._makeGenesis(
+        context.api,
+        CONTENT0,
+        METADATA
+      )) as SignedCommitContainer
+      await context.ipfs.dag.put(genesisCommit, FAKE_CID_1)
+      const payload = dagCBOR.decode(genesisCommit.linkedBlock)
+      await context.ipfs.dag.put(payload, genesisCommit.jws.link)
+      const genesisCommitData = {
+        cid: FAKE_CID_1,
+        type: CommitType.GENESIS,
+        commit: payload,
+        envelope: genesisCommit.jws,
+      }
+      return handler.applyCommit(genesisCommitData, context)
+    }
+
+    const applySigned = async (
+      state: StreamState,
+      rawCommit: RawCommit,
+      cid: CID
+    ): Promise<StreamState> => {
+      const signedCommit = await ModelInstanceDocument._signDagJWS(context.api, rawCommit)
+      await context.ipfs.dag.put(signedCommit, cid)
+      const sPayload = dagCBOR.decode(signedCommit.linkedBlock)
+      await context.ipfs.dag.put(sPayload, signedCommit.jws.link)
+      const signedCommitData = {
+        cid: cid,
+        type: CommitType.SIGNED,
+        commit: sPayload,
+        envelope: signedCommit.jws,
+      }
+      return handler.applyCommit(signedCommitData, context, state)
+    }
+
+    const makeTombstone = (state: StreamState): RawCommit => {
+      const doc = new ModelInstanceDocument(TestUtils.runningState(state), context)
+      const rawCommit = doc._makeRawCommit(CONTENT0)
+      rawCommit.data = []
+      rawCommit.header = TOMBSTONE_HEADER as CommitHeader
+      return rawCommit
+    }
+
+    it('applies tombstone commit correctly', async () => {
+      const state = await applyGenesis()
+      const deleted = await applySigned(cloneDeep(state), makeTombstone(state), FAKE_CID_2)
+      expect(deleted.metadata.deleted).toBe(true)
+      expect(deleted.content).toEqual(CONTENT0)
+      expect(deleted.log).toHaveLength(2)
+      expect(deleted.log[1].type).toEqual(CommitType.SIGNED)
+    })
+
+    it('throws error if tombstone commit changes content', async () => {
+      const state = await applyGenesis()
+      const rawCommit = makeTombstone(state)
+      rawCommit.data = jsonpatch.compare(CONTENT0, CONTENT1)
+      await expect(applySigned(state, rawCommit, FAKE_CID_2)).rejects.toThrow(
+        /Tombstone commits for ModelInstanceDocuments must not change the content/
+      )
+    })
+
+    it('throws error if tombstone header has other metadata', async () => {
+      const state = await applyGenesis()
+      const rawCommit = makeTombstone(state)
+      rawCommit.header = { ...TOMBSTONE_HEADER, controllers: [METADATA.controller] }
+      await expect(applySigned(state, rawCommit, FAKE_CID_2)).rejects.toThrow(
+        /Updating metadata for ModelInstanceDocument Streams is not allowed/
+      )
+    })
+
+    it('throws error when updating a deleted document', async () => {
+      const state = await applyGenesis()
+      const deleted = await applySigned(cloneDeep(state), makeTombstone(state), FAKE_CID_2)
+      const doc = new ModelInstanceDocument(TestUtils.runningState(deleted), context)
+      await expect(applySigned(deleted, doc._makeRawCommit(CONTENT1), FAKE_CID_3)).rejects.toThrow(
+        /it is deleted/
+      )
+    })
+  })
+
   it('fails to apply commit with invalid prev link', async () => {
     const genesisCommit = (await ModelInstanceDocument._makeGenesis(
       context.api,
@@ -54,6 +54,32 @@ const MODEL_DEFINITION: ModelDefinition = {
   },
 }
 
+const MODEL_DEFINITION_WITH_FORMATS: ModelDefinition = {
+  name: 'MyIdentifiersModel',
+  version: Model.VERSION,
+  accountRelation: { type: 'list' },
+  schema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      did: { type: 'string', format: 'did' },
+      streamID: { type: 'string', format: 'streamid' },
+      commitID: { type: 'string', format: 'commitid' },
+      account: { type: 'string', format: 'caip10' },
+      cid: { type: 'string', format: 'cid' },
+    },
+  },
+}
+
+const CONTENT_WITH_FORMATS_VALID = {
+  did: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+  streamID: 'kjzl6cwe1jw145m7jxh4jpa6iw1ps3jcjordpo81e0w04krcpz8knxvg5ygiabd',
+  commitID: 'k3y52l7qbv1frxjxxpq1sc3seebw7bt5l802pik95vqbkwjmigqkyy8vmyd1e1csg',
+  account: 'eip155:1:0xab16a96d359ec26a11e2c2b3d8f8b8942d5bfcdb',
+  cid: 'bafybeig6xv5nwphfmvcnektpnojts33jqcuam7bmye2pb54adnrtccjlsu',
+}
+
 const CONTENT_VALID = {
   arrayProperty: [0, 2, 3, 4],
   stringArrayProperty: ['abcdef'],
@@ -147,4 +173,35 @@ describe('SchemaValidation', () => {
       )
     }).toThrow(/data must NOT have additional properties/)
   })
+
+  it('validates formats of Ceramic identifiers', () => {
+    expect(() => {
+      schemaValidator.validateSchema(
+        CONTENT_WITH_FORMATS_VALID,
+        MODEL_DEFINITION_WITH_FORMATS.schema,
+        SCHEMA_COMMIT_ID
+      )
+    }).not.toThrow()
+    for (const property of Object.keys(CONTENT_WITH_FORMATS_VALID)) {
+      const content = { ...CONTENT_WITH_FORMATS_VALID, [property]: 'not an identifier' }
+      expect(() => {
+        schemaValidator.validateSchema(
+          content,
+          MODEL_DEFINITION_WITH_FORMATS.schema,
+          SCHEMA_COMMIT_ID
+        )
+      }).toThrow(`data/${property} must match format`)
+    }
+    const content = {
+      ...CONTENT_WITH_FORMATS_VALID,
+      streamID: CONTENT_WITH_FORMATS_VALID.commitID,
+    }
+    expect(() => {
+      schemaValidator.validateSchema(
+        content,
+        MODEL_DEFINITION_WITH_FORMATS.schema,
+        SCHEMA_COMMIT_ID
+      )
+    }).toThrow(`data/streamID must match format "streamid"`)
+  })
 })
@@ -1,8 +1,11 @@
 import jsonpatch from 'fast-json-patch'
 import cloneDeep from 'lodash.clonedeep'
+import isEqual from 'fast-deep-equal'
 import {
   ModelInstanceDocument,
   ModelInstanceDocumentMetadata,
+  TOMBSTONE_HEADER,
+  decodeSetFieldValues,
   validateContentLength,
 } from '@ceramicnetwork/stream-model-instance'
 import {
@@ -15,6 +18,7 @@ import {
   SignatureUtils,
   StreamConstructor,
   StreamHandler,
+  StreamMetadata,
   StreamState,
   StreamUtils,
 } from '@ceramicnetwork/common'
@@ -26,10 +30,29 @@ import { applyAnchorCommit } from '@ceramicnetwork/stream-handler-common'
 // Hardcoding the model streamtype id to avoid introducing a dependency on the stream-model package
 const MODEL_STREAM_TYPE_ID = 2
 
+// Multicodec codes of the IPLD codecs DAGs attached to a MID can be encoded with
+const ATTACHMENT_CODECS: Record<number, string> = {
+  0x55: 'raw',
+  0x70: 'dag-pb',
+  0x71: 'dag-cbor',
+  0x0129: 'dag-json',
+}
+
 interface ModelInstanceDocumentHeader extends ModelInstanceDocumentMetadata {
   unique?: Uint8Array
 }
 
+/**
+ * True if +header+ is the header of a tombstone commit.
+ */
+function isTombstoneHeader(header: Record<string, any>): boolean {
+  const keys = Object.keys(header)
+  return (
+    keys.length === Object.keys(TOMBSTONE_HEADER).length &&
+    keys.every((key) => header[key] === TOMBSTONE_HEADER[key])
+  )
+}
+
 /**
  * ModelInstanceDocument stream handler implementation
  */
@@ -87,7 +110,7 @@ export class ModelInstanceDocumentHandler implements StreamHandler<ModelInstance
     const controller = controllers[0]
     const modelStreamID = StreamID.fromBytes(model)
     const streamId = await StreamID.fromGenesis('MID', commitData.commit)
-    const metadata = { controllers: [controller], model: modelStreamID }
+    const metadata: StreamMetadata = { controllers: [controller], model: modelStreamID }
 
     if (!(payload.header.controllers && payload.header.controllers.length === 1)) {
       throw new Error('Exactly one controller must be specified')
@@ -110,13 +133,39 @@ export class ModelInstanceDocumentHandler implements StreamHandler<ModelInstance
         modelStreamID,
         streamId
       )
-    } else if (payload.data || payload.header.unique) {
-      throw Error('ModelInstanceDocument genesis commit with content must be signed')
     }
 
     const modelStream = await context.api.loadStream<Model>(metadata.model)
+    if (modelStream.content.interface) {
+      throw new Error(
+        `ModelInstanceDocuments cannot be created for interface Model ${metadata.model}`
+      )
+    }
+    const accountRelation = modelStream.content.accountRelation
+    if (accountRelation.type === 'set') {
+      // A signed genesis would give the same controller and set values another StreamID
+      if (isSigned) {
+        throw new Error(
+          `ModelInstanceDocuments for models with SET accountRelations must be created with an unsigned deterministic genesis commit`
+        )
+      }
+      if (payload.data) {
+        this._validateSetFields(modelStream, payload.data, payload.header.unique)
+      }
+    } else if (!isSigned && payload.header.unique) {
+      throw Error(
+        'ModelInstanceDocument genesis commit with a unique header must be signed, unless its Model has a SET accountRelation'
+      )
+    }
+    if (!isSigned && payload.data) {
+      throw Error('ModelInstanceDocument genesis commit with content must be signed')
+    }
     await this._validateContent(context.api, modelStream, payload.data, true)
     await this._validateHeader(modelStream, payload.header)
+    if (accountRelation.type === 'set') {
+      // Keep the values of the set fields the document holds, to validate its updates
+      metadata.unique = payload.header.unique
+    }
 
     return {
       type: ModelInstanceDocument.STREAM_TYPE_ID,
@@ -149,8 +198,25 @@ export class ModelInstanceDocumentHandler implements StreamHandler<ModelInstance
     const controller = metadata.controllers[0]
     const model = metadata.model
     const streamId = StreamUtils.streamIdFromState(state)
-    await SignatureUtils.verifyCommitSignature(commitData, context.did, controller, model, streamId)
+    const modelStream = await context.api.loadStream<Model>(metadata.model)
+    const isTombstone = payload.header && isTombstoneHeader(payload.header)
+    // Only the controller can delete the document
+    const writers = isTombstone ? [] : this._writers(modelStream, state.content)
+    const writer = await SignatureUtils.verifyCommitSignature(
+      commitData,
+      context.did,
+      controller,
+      model,
+      streamId,
+      writers
+    )
 
+    if (metadata.deleted) {
+      throw new Error(`Cannot update ModelInstanceDocument ${streamId}, it is deleted`)
+    }
+    if (isTombstone) {
+      return this._applyTombstone(commitData, state)
+    }
     if (payload.header) {
       throw new Error(
         `Updating metadata for ModelInstanceDocument Streams is not allowed.  Tried to change metadata for Stream ${streamId} from ${JSON.stringify(
@@ -160,14 +226,61 @@ export class ModelInstanceDocumentHandler implements StreamHandler<ModelInstance
     }
 
     const oldContent = state.content
-    const newContent = jsonpatch.applyPatch(oldContent, payload.data).newDocument
-    const modelStream = await context.api.loadStream<Model>(metadata.model)
+    // Keep the content of the state as is, to compare the values of immutable fields
+    const newContent = jsonpatch.applyPatch(oldContent, payload.data, false, false).newDocument
     await this._validateContent(context.api, modelStream, newContent, false)
+    this._validateSetFields(modelStream, newContent, metadata.unique as Uint8Array)
+    this._validateImmutableFields(modelStream, oldContent, newContent)
+    if (writer !== controller) {
+      this._validateWriterFields(modelStream, oldContent, newContent)
+    }
 
     const nextState = cloneDeep(state)
     nextState.signature = SignatureStatus.SIGNED
     nextState.anchorStatus = AnchorStatus.NOT_REQUESTED
     nextState.content = newContent
+    if (writer === controller) {
+      delete nextState.metadata.lastWriter
+    } else {
+      nextState.metadata.lastWriter = writer
+    }
+    nextState.log.push(StreamUtils.commitDataToLogEntry(commitData, CommitType.SIGNED))
+
+    return nextState
+  }
+
+  /**
+   * DIDs other than the controller the writers of the Model allow to update the document, given
+   * its current content.
+   * @param model - The model that this ModelInstanceDocument belongs to
+   * @param content - content of the document before the update
+   */
+  _writers(model: Model, content: any): Array<string> {
+    return (model.content.writers ?? []).flatMap((writer) => {
+      if (writer.type === 'issuer') return [writer.issuer]
+      const value = content?.[writer.field]
+      const dids = Array.isArray(value) ? value : [value]
+      return dids.filter((did) => typeof did === 'string')
+    })
+  }
+
+  /**
+   * Applies tombstone commit, marking the document as deleted. The content of the document is
+   * kept as is.
+   * @param commitData - Tombstone commit
+   * @param state - Document state
+   * @private
+   */
+  _applyTombstone(commitData: CommitData, state: StreamState): StreamState {
+    const payload = commitData.commit
+    if (!Array.isArray(payload.data) || payload.data.length > 0) {
+      throw new Error(`Tombstone commits for ModelInstanceDocuments must not change the content`)
+    }
+
+    const nextState = cloneDeep(state)
+    nextState.signature = SignatureStatus.SIGNED
+    nextState.anchorStatus = AnchorStatus.NOT_REQUESTED
+    nextState.metadata.deleted = true
     nextState.log.push(StreamUtils.commitDataToLogEntry(commitData, CommitType.SIGNED))
 
     return nextState
@@ -197,7 +310,8 @@ export class ModelInstanceDocumentHandler implements StreamHandler<ModelInstance
     content: any,
     genesis: boolean
   ): Promise<void> {
-    if (genesis && model.content.accountRelation.type === 'single') {
+    const accountRelationType = model.content.accountRelation.type
+    if (genesis && (accountRelationType === 'single' || accountRelationType === 'set')) {
       if (content) {
         throw new Error(
           `Deterministic genesis commits for ModelInstanceDocuments must not have content`
@@ -216,6 +330,7 @@ export class ModelInstanceDocumentHandler implements StreamHandler<ModelInstance
 
     // Now validate the relations
     await this._validateRelationsContent(ceramic, model, content)
+    this._validateAttachments(model, content)
   }
 
   async _validateRelationsContent(ceramic: CeramicApi, model: Model, content: any) {
@@ -250,18 +365,120 @@ export class ModelInstanceDocumentHandler implements StreamHandler<ModelInstance
     }
   }
 
+  /**
+   * Validates that the attachment fields of a ModelInstanceDocument hold CIDs of DAGs encoded with
+   * one of the `ATTACHMENT_CODECS`, as these DAGs are pinned along with the document.
+   * @param model - The model that this ModelInstanceDocument belongs to
+   * @param content - content to validate
+   */
+  _validateAttachments(model: Model, content: any): void {
+    try {
+      for (const cid of Model.attachments(model.content, content)) {
+        if (!ATTACHMENT_CODECS[cid.code]) {
+          const codec = `0x${cid.code.toString(16)}`
+          const supported = Object.values(ATTACHMENT_CODECS).join(', ')
+          throw new Error(
+            `Attachment ${cid} is encoded with unsupported codec ${codec}, expected one of ${supported}`
+          )
+        }
+      }
+    } catch (err) {
+      throw new Error(
+        `Invalid attachments of ModelInstanceDocuments for Model ${model.id}: ${err.message}`
+      )
+    }
+  }
+
+  /**
+   * Validates that the content of a ModelInstanceDocument of a Model with a 'set' accountRelation
+   * holds the values of the set fields it was created with. These values cannot change.
+   * @param model - The model that this ModelInstanceDocument belongs to
+   * @param content - content to validate
+   * @param unique - unique header of the genesis commit, encoding the values of the set fields
+   */
+  _validateSetFields(model: Model, content: any, unique: Uint8Array | undefined): void {
+    const accountRelation = model.content.accountRelation
+    if (accountRelation.type !== 'set') {
+      return
+    }
+    const values = decodeSetFieldValues(unique)
+    accountRelation.fields.forEach((fieldName, i) => {
+      if (content?.[fieldName] !== values[i]) {
+        throw new Error(
+          `Field ${fieldName} of ModelInstanceDocuments for models with SET accountRelations must keep the value ${JSON.stringify(
+            values[i]
+          )} the document was created with`
+        )
+      }
+    })
+  }
+
+  /**
+   * Validates that an update keeps the values of the immutable fields of the Model. A field without
+   * a value can be set once.
+   * @param model - The model that this ModelInstanceDocument belongs to
+   * @param oldContent - content of the document before the update
+   * @param newContent - content of the document after the update
+   */
+  _validateImmutableFields(model: Model, oldContent: any, newContent: any): void {
+    for (const fieldName of model.content.immutableFields ?? []) {
+      const oldValue = oldContent?.[fieldName]
+      if (oldValue === undefined) {
+        continue
+      }
+      if (!isEqual(newContent?.[fieldName], oldValue)) {
+        throw new Error(
+          `Immutable field ${fieldName} of ModelInstanceDocuments for Model ${
+            model.id
+          } must keep the value ${JSON.stringify(oldValue)}`
+        )
+      }
+    }
+  }
+
+  /**
+   * Validates that an update keeps the values of the fields delegating writes to other DIDs. Only
+   * the controller can change who else may update the document.
+   * @param model - The model that this ModelInstanceDocument belongs to
+   * @param oldContent - content of the document before the update
+   * @param newContent - content of the document after the update
+   */
+  _validateWriterFields(model: Model, oldContent: any, newContent: any): void {
+    for (const writer of model.content.writers ?? []) {
+      if (writer.type !== 'field') continue
+      if (!isEqual(newContent?.[writer.field], oldContent?.[writer.field])) {
+        throw new Error(
+          `Writer field ${writer.field} of ModelInstanceDocuments for Model ${model.id} can only be changed by the controller`
+        )
+      }
+    }
+  }
+
   /**
    * Validates the ModelInstanceDocument header against the Model definition.
    * @param model - The model that this ModelInstanceDocument belongs to
    * @param header - the header to validate
    */
   async _validateHeader(model: Model, header: ModelInstanceDocumentHeader): Promise<void> {
-    if (model.content.accountRelation.type === 'single') {
+    const accountRelation = model.content.accountRelation
+    if (accountRelation.type === 'single') {
       if (header.unique) {
         throw new Error(
           `ModelInstanceDocuments for models with SINGLE accountRelations must be created deterministically`
         )
       }
+    } else if (accountRelation.type === 'set') {
+      if (!header.unique) {
+        throw new Error(
+          `ModelInstanceDocuments for models with SET accountRelations must be created with the values of the set fields`
+        )
+      }
+      const values = decodeSetFieldValues(header.unique)
+      if (values.length !== accountRelation.fields.length) {
+        throw new Error(
+          `ModelInstanceDocuments for models with SET accountRelations must be created with ${accountRelation.fields.length} values, got ${values.length}`
+        )
+      }
     } else {
       if (!header.unique) {
         throw new Error(
@@ -1,9 +1,36 @@
 import Ajv, { SchemaObject } from 'ajv/dist/2020.js'
 import addFormats from 'ajv-formats'
 import lru from 'lru_map'
+import { type Decoder, isValid, validate } from 'codeco'
+import {
+  cidAsString,
+  commitIdAsString,
+  isCAIP10String,
+  isDIDString,
+  streamIdAsString,
+} from '@ceramicnetwork/codecs'
+import { CERAMIC_FORMATS, type CeramicFormat } from '@ceramicnetwork/stream-model'
 
 const AJV_CACHE_SIZE = 500
 
+/**
+ * True if +input+ is decoded by +codec+.
+ */
+function decodes(codec: Decoder<string, unknown>) {
+  return (input: string): boolean => isValid(validate(codec, input))
+}
+
+/**
+ * Validation of the formats of strings holding Ceramic identifiers.
+ */
+const CERAMIC_FORMAT_VALIDATORS: Record<CeramicFormat, (input: string) => boolean> = {
+  did: isDIDString,
+  streamid: decodes(streamIdAsString),
+  commitid: decodes(commitIdAsString),
+  caip10: isCAIP10String,
+  cid: decodes(cidAsString),
+}
+
 function buildAjv(): Ajv {
   const validator = new Ajv({
     strict: true,
@@ -13,6 +40,9 @@ function buildAjv(): Ajv {
     unevaluated: false,
   })
   addFormats(validator)
+  for (const name of CERAMIC_FORMATS) {
+    validator.addFormat(name, { type: 'string', validate: CERAMIC_FORMAT_VALIDATORS[name] })
+  }
   return validator
 }
 
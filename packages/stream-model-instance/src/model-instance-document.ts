@@ -3,6 +3,7 @@ import type { Operation } from 'fast-json-patch'
 import * as dagCbor from '@ipld/dag-cbor'
 import { randomBytes } from '@stablelib/random'
 import sizeof from 'object-sizeof'
+import * as uint8arrays from 'uint8arrays'
 import {
   CreateOpts,
   LoadOpts,
@@ -17,6 +18,7 @@ import {
   CeramicApi,
   SignedCommitContainer,
   CeramicSigner,
+  CommitHeader,
   GenesisHeader,
 } from '@ceramicnetwork/common'
 import { CommitID, StreamID, StreamRef } from '@ceramicnetwork/streamid'
@@ -37,7 +39,7 @@ export interface ModelInstanceDocumentMetadataArgs {
 
   /**
    * Whether the stream should be created deterministically or not.  Should only be used for
-   * ModelInstanceDocuments whose Model has an accountRelation of 'SINGLE'.
+   * ModelInstanceDocuments whose Model has an accountRelation of 'SINGLE' or 'SET'.
    */
   deterministic?: boolean
 }
@@ -57,6 +59,50 @@ export interface ModelInstanceDocumentMetadata {
   model: StreamID
 }
 
+/**
+ * Value of a field of the 'set' accountRelation of a Model.
+ */
+export type SetFieldValue = string | number | boolean
+
+/**
+ * Encodes the values of the fields of the 'set' accountRelation of a Model, as the `unique` header
+ * of the deterministic genesis commit of the ModelInstanceDocument holding these values.
+ */
+export function encodeSetFieldValues(values: Array<SetFieldValue>): Uint8Array {
+  return uint8arrays.fromString(JSON.stringify(values))
+}
+
+/**
+ * Decodes the values of the fields of a 'set' accountRelation from the `unique` header of a
+ * genesis commit, and throws an error if the header does not encode such values.
+ */
+export function decodeSetFieldValues(unique: Uint8Array): Array<SetFieldValue> {
+  let values: unknown
+  try {
+    values = JSON.parse(uint8arrays.toString(unique))
+  } catch {
+    values = undefined
+  }
+  if (
+    !Array.isArray(values) ||
+    !values.every((value) => ['string', 'number', 'boolean'].includes(typeof value))
+  ) {
+    throw new Error(`The unique header does not encode values of fields of a set accountRelation`)
+  }
+  return values
+}
+
+/**
+ * Header of the tombstone commit deleting a ModelInstanceDocument.
+ */
+export const TOMBSTONE_HEADER: Partial<CommitHeader> = { deleted: true }
+
+/**
+ * Commit deleting a ModelInstanceDocument. Its header only holds the tombstone flag, without the
+ * fields required in the header of other commits.
+ */
+type TombstoneCommit = Omit<RawCommit, 'header'> & { header: typeof TOMBSTONE_HEADER }
+
 const DEFAULT_CREATE_OPTS = {
   anchor: true,
   publish: true,
@@ -109,6 +155,14 @@ export class ModelInstanceDocument<T = Record<string, any>> extends Stream {
     return { controller: metadata.controllers[0], model: metadata.model }
   }
 
+  /**
+   * Whether this document is deleted. A deleted document keeps its last content, but cannot be
+   * updated anymore, and is not returned by index queries unless requested.
+   */
+  get isDeleted(): boolean {
+    return Boolean(this.state$.value.metadata.deleted)
+  }
+
   /**
    * Creates a Model Instance Document.
    * @param ceramic - Instance of CeramicAPI used to communicate with the Ceramic network
@@ -156,6 +210,59 @@ export class ModelInstanceDocument<T = Record<string, any>> extends Stream {
     )
   }
 
+  /**
+   * Creates a deterministic ModelInstanceDocument with a 'set' accountRelation, or loads it if it
+   * already exists. The document is the only one of its controller for the given +values+ of the
+   * fields of the accountRelation, in the order the Model declares them.
+   * @param ceramic - Instance of CeramicAPI used to communicate with the Ceramic network
+   * @param metadata - Genesis metadata
+   * @param values - Values of the fields of the 'set' accountRelation of the Model
+   * @param opts - Additional options
+   */
+  static async set<T>(
+    ceramic: CeramicApi,
+    metadata: ModelInstanceDocumentMetadataArgs,
+    values: Array<SetFieldValue>,
+    opts: CreateOpts = {}
+  ): Promise<ModelInstanceDocument<T>> {
+    opts = { ...DEFAULT_DETERMINISTIC_OPTS, ...opts }
+    const signer: CeramicSigner = opts.asDID ? { did: opts.asDID } : ceramic
+    metadata = { ...metadata, deterministic: true }
+
+    const commit = await ModelInstanceDocument._makeGenesis(
+      signer,
+      null,
+      metadata,
+      encodeSetFieldValues(values)
+    )
+    return ceramic.createStreamFromGenesis<ModelInstanceDocument<T>>(
+      ModelInstanceDocument.STREAM_TYPE_ID,
+      commit,
+      opts
+    )
+  }
+
+  /**
+   * Computes the StreamID of the deterministic ModelInstanceDocument of +controller+ for +values+
+   * of the fields of the 'set' accountRelation of +model+.
+   * @param model - StreamID of the Model
+   * @param controller - DID controlling the document
+   * @param values - Values of the fields of the 'set' accountRelation of the Model
+   */
+  static async setStreamId(
+    model: StreamID,
+    controller: string,
+    values: Array<SetFieldValue>
+  ): Promise<StreamID> {
+    const header: GenesisHeader = {
+      controllers: [controller],
+      model: model.bytes,
+      sep: 'model',
+      unique: encodeSetFieldValues(values),
+    }
+    return StreamID.fromGenesis(ModelInstanceDocument.STREAM_TYPE_NAME, { data: null, header })
+  }
+
   /**
    * Loads a Model Instance Document from a given StreamID
    * @param ceramic - Instance of CeramicAPI used to communicate with the Ceramic network
@@ -227,6 +334,25 @@ export class ModelInstanceDocument<T = Record<string, any>> extends Stream {
     this.state$.next(updated.state)
   }
 
+  /**
+   * Delete an existing Model Instance Document, by applying a tombstone commit to it. The document
+   * cannot be updated after that.
+   * @param opts - Additional options
+   */
+  async delete(opts: UpdateOpts = {}): Promise<void> {
+    opts = { ...DEFAULT_UPDATE_OPTS, ...opts }
+    const signer: CeramicSigner = opts.asDID ? { did: opts.asDID } : this.api
+    const rawCommit: TombstoneCommit = {
+      data: [],
+      prev: this.tip,
+      id: this.state.log[0].cid,
+      header: TOMBSTONE_HEADER,
+    }
+    const commit = await ModelInstanceDocument._signDagJWS(signer, rawCommit)
+    const updated = await this.api.applyCommit(this.id, commit, opts)
+    this.state$.next(updated.state)
+  }
+
   /**
    * Makes this document read-only. After this has been called any future attempts to call
    * mutation methods on the instance will throw.
@@ -234,6 +360,7 @@ export class ModelInstanceDocument<T = Record<string, any>> extends Stream {
   makeReadOnly() {
     this.replace = throwReadOnlyError
     this.patch = throwReadOnlyError
+    this.delete = throwReadOnlyError
     this.sync = throwReadOnlyError
     this._isReadOnly = true
   }
@@ -270,14 +397,15 @@ export class ModelInstanceDocument<T = Record<string, any>> extends Stream {
    * @param signer - Object containing the DID making (and signing) the commit
    * @param content - genesis content
    * @param metadata - genesis metadata
-   * @param maxContentLength - maximum content length in bytes of content in genesis commit
+   * @param unique - unique header of deterministic genesis commits, random by default
    */
   private static async _makeGenesis<T>(
     signer: CeramicSigner,
     content: T,
-    metadata: ModelInstanceDocumentMetadataArgs
+    metadata: ModelInstanceDocumentMetadataArgs,
+    unique?: Uint8Array
   ): Promise<SignedCommitContainer | GenesisCommit> {
-    const commit = await this._makeRawGenesis(signer, content, metadata)
+    const commit = await this._makeRawGenesis(signer, content, metadata, unique)
     if (metadata.deterministic) {
       // Check if we can encode it in cbor. Should throw an error when invalid payload.
       // See https://github.com/ceramicnetwork/ceramic/issues/205 for discussion on why we do this.
@@ -292,7 +420,8 @@ export class ModelInstanceDocument<T = Record<string, any>> extends Stream {
   private static async _makeRawGenesis<T>(
     signer: CeramicSigner,
     content: T,
-    metadata: ModelInstanceDocumentMetadataArgs
+    metadata: ModelInstanceDocumentMetadataArgs,
+    unique?: Uint8Array
   ): Promise<GenesisCommit> {
     if (!metadata.model) {
       throw new Error(`Must specify a 'model' when creating a ModelInstanceDocument`)
@@ -317,7 +446,9 @@ export class ModelInstanceDocument<T = Record<string, any>> extends Stream {
       model: metadata.model.bytes,
       sep: 'model', // See CIP-120 for more details on this field
     }
-    if (!metadata.deterministic) {
+    if (unique) {
+      header.unique = unique
+    } else if (!metadata.deterministic) {
       header.unique = randomBytes(12)
     }
 
@@ -332,7 +463,7 @@ export class ModelInstanceDocument<T = Record<string, any>> extends Stream {
    */
   private static async _signDagJWS(
     signer: CeramicSigner,
-    commit: CeramicCommit
+    commit: CeramicCommit | TombstoneCommit
   ): Promise<SignedCommitContainer> {
     await _ensureAuthenticated(signer)
     return signer.did.createDagJWS(commit)
@@ -1,7 +1,410 @@
-import { test, expect } from '@jest/globals'
-import { Model } from '../model.js'
+import { describe, test, expect } from '@jest/globals'
+import { Model, ModelDefinition, ModelWriterDefinition } from '../model.js'
 
 test('Model.MODEL', () => {
   expect(Model.MODEL.bytes).toMatchSnapshot()
   expect(Model.MODEL.toString()).toMatchSnapshot()
 })
+
+describe('Model.assertSupersedesValid', () => {
+  const SUPERSEDED: ModelDefinition = {
+    name: 'Post',
+    version: Model.VERSION,
+    accountRelation: { type: 'list' },
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        title: { type: 'string', maxLength: 80 },
+        parentID: { type: 'string' },
+      },
+      additionalProperties: false,
+      required: ['title'],
+    },
+    relations: { parentID: { type: 'account' } },
+  }
+
+  const superseding = (changes: (content: ModelDefinition) => void): ModelDefinition => {
+    const content = JSON.parse(JSON.stringify(SUPERSEDED))
+    content.name = 'PostV2'
+    changes(content)
+    return content
+  }
+
+  test('accept additive optional fields', () => {
+    const content = superseding((content) => {
+      content.schema.properties.body = { type: 'string' }
+      content.indices = { title: { type: 'scalar' } }
+    })
+    expect(() => Model.assertSupersedesValid(content, SUPERSEDED)).not.toThrow()
+  })
+
+  test('reject incompatible changes', () => {
+    const changes: Record<string, (content: ModelDefinition) => void> = {
+      'the account relation cannot change': (content) => {
+        content.accountRelation = { type: 'single' }
+      },
+      'the property title cannot change': (content) => {
+        content.schema.properties.title = { type: 'string', maxLength: 40 }
+      },
+      'the property parentID cannot change': (content) => {
+        delete content.schema.properties.parentID
+      },
+      'the property body cannot be required': (content) => {
+        content.schema.properties.body = { type: 'string' }
+        content.schema.required = ['title', 'body']
+      },
+      'the schema keyword additionalProperties cannot change': (content) => {
+        content.schema.additionalProperties = true
+      },
+      'the relation on field parentID cannot change': (content) => {
+        delete content.relations
+      },
+    }
+    for (const [reason, change] of Object.entries(changes)) {
+      expect(() => Model.assertSupersedesValid(superseding(change), SUPERSEDED)).toThrow(
+        `Model PostV2 cannot supersede Model Post: ${reason}`
+      )
+    }
+  })
+})
+
+describe('Model.assertWritersValid', () => {
+  const DOCUMENT: ModelDefinition = {
+    name: 'Document',
+    version: Model.VERSION,
+    accountRelation: { type: 'list' },
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        owner: { type: 'string', format: 'did' },
+        editors: { type: 'array', items: { type: 'string', format: 'did' } },
+        revision: { type: 'integer' },
+      },
+      additionalProperties: false,
+    },
+  }
+
+  const withWriters = (writers: Array<ModelWriterDefinition>): ModelDefinition => {
+    return { ...DOCUMENT, writers }
+  }
+
+  test('accept fields holding DIDs and DID issuers', () => {
+    expect(() => Model.assertWritersValid(DOCUMENT)).not.toThrow()
+    const content = withWriters([
+      { type: 'field', field: 'editors' },
+      { type: 'field', field: 'owner' },
+      { type: 'issuer', issuer: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK' },
+    ])
+    expect(() => Model.assertWritersValid(content)).not.toThrow()
+  })
+
+  test('reject invalid writers', () => {
+    expect(() =>
+      Model.assertWritersValid(withWriters([{ type: 'field', field: 'revision' }]))
+    ).toThrow(
+      'Writers on field revision: expected a field of type string or array of strings defined in the schema'
+    )
+    expect(() =>
+      Model.assertWritersValid(withWriters([{ type: 'field', field: 'unknown' }]))
+    ).toThrow(
+      'Writers on field unknown: expected a field of type string or array of strings defined in the schema'
+    )
+    expect(() =>
+      Model.assertWritersValid(withWriters([{ type: 'issuer', issuer: 'admin' }]))
+    ).toThrow('Writers issuer admin: expected a DID')
+    const content = withWriters([{ type: 'unknown' } as unknown as ModelWriterDefinition])
+    expect(() => Model.assertWritersValid(content)).toThrow('Writer has unexpected type unknown')
+  })
+})
+
+describe('Model.assertSchemaFormatsValid', () => {
+  const withFormat = (format: string): ModelDefinition => ({
+    name: 'Link',
+    version: Model.VERSION,
+    accountRelation: { type: 'list' },
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        author: { type: 'string', format: 'did' },
+        targets: { type: 'array', items: { type: 'string', format } },
+      },
+      additionalProperties: false,
+    },
+  })
+
+  test('accept standard formats and formats of Ceramic identifiers', () => {
+    for (const format of ['date-time', 'uri', 'did', 'streamid', 'commitid', 'caip10', 'cid']) {
+      expect(() => Model.assertSchemaFormatsValid(withFormat(format))).not.toThrow()
+    }
+  })
+
+  test('reject unknown formats', () => {
+    expect(() => Model.assertSchemaFormatsValid(withFormat('ethereum-address'))).toThrow(
+      'Schema of Model Link uses unknown format ethereum-address'
+    )
+  })
+
+  test('reject unknown formats of nested subschemas', () => {
+    const content = withFormat('uri')
+    content.schema.$defs = {
+      Target: { anyOf: [{ type: 'string', format: 'ethereum-address' }, { type: 'null' }] },
+    }
+    expect(() => Model.assertSchemaFormatsValid(content)).toThrow(
+      'Schema of Model Link uses unknown format ethereum-address'
+    )
+  })
+
+  test('ignore format keys in values of data keywords', () => {
+    const content = withFormat('uri')
+    content.schema.properties.options = {
+      type: 'object',
+      default: { format: 'landscape' },
+      examples: [{ format: 'portrait' }],
+      enum: [{ format: 'square' }],
+    }
+    expect(() => Model.assertSchemaFormatsValid(content)).not.toThrow()
+  })
+})
+
+describe('Model.assertImmutableFieldsValid', () => {
+  const PROFILE: ModelDefinition = {
+    name: 'Profile',
+    version: Model.VERSION,
+    accountRelation: { type: 'single' },
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        externalID: { type: 'string' },
+        createdBy: { type: 'string' },
+        name: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+    immutableFields: ['externalID', 'createdBy'],
+  }
+
+  const withFields = (immutableFields: Array<string>): ModelDefinition => {
+    return { ...PROFILE, immutableFields }
+  }
+
+  test('accept fields defined in the schema', () => {
+    expect(() => Model.assertImmutableFieldsValid(PROFILE)).not.toThrow()
+    expect(() =>
+      Model.assertImmutableFieldsValid({ ...PROFILE, immutableFields: undefined })
+    ).not.toThrow()
+  })
+
+  test('reject invalid immutable fields', () => {
+    expect(() => Model.assertImmutableFieldsValid(withFields(['name', 'name']))).toThrow(
+      'Immutable fields must not have duplicate fields'
+    )
+    expect(() => Model.assertImmutableFieldsValid(withFields(['unknown']))).toThrow(
+      'Immutable field unknown: expected a field defined in the schema'
+    )
+    const content = { ...PROFILE, immutableFields: 'name' }
+    expect(() => Model.assertImmutableFieldsValid(content as unknown as ModelDefinition)).toThrow(
+      'Immutable fields must be an array of field names'
+    )
+  })
+
+  test('keep immutable fields when superseding', () => {
+    const superseding = { ...PROFILE, name: 'ProfileV2' }
+    expect(() => Model.assertSupersedesValid(superseding, PROFILE)).not.toThrow()
+    expect(() =>
+      Model.assertSupersedesValid({ ...superseding, immutableFields: ['createdBy'] }, PROFILE)
+    ).toThrow(
+      'Model ProfileV2 cannot supersede Model Profile: the immutable field externalID cannot become mutable'
+    )
+  })
+})
+
+describe('Model attachments', () => {
+  const POST: ModelDefinition = {
+    name: 'Post',
+    version: Model.VERSION,
+    accountRelation: { type: 'list' },
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        body: { type: 'string' },
+        cover: { type: 'string', format: 'cid' },
+        images: { type: 'array', items: { type: 'string', format: 'cid' } },
+        likes: { type: 'integer' },
+      },
+      additionalProperties: false,
+    },
+    attachmentFields: ['cover', 'images'],
+  }
+  const COVER = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi'
+  const IMAGE = 'QmSnuWmxptJZdLJpKRarxBMS2Ju2oANVrgbr2xWbie9b2D'
+
+  const withFields = (attachmentFields: Array<string>): ModelDefinition => {
+    return { ...POST, attachmentFields }
+  }
+
+  test('accept fields holding strings', () => {
+    expect(() => Model.assertAttachmentFieldsValid(POST)).not.toThrow()
+    expect(() =>
+      Model.assertAttachmentFieldsValid({ ...POST, attachmentFields: undefined })
+    ).not.toThrow()
+  })
+
+  test('reject invalid attachment fields', () => {
+    expect(() => Model.assertAttachmentFieldsValid(withFields(['cover', 'cover']))).toThrow(
+      'Attachment fields must not have duplicate fields'
+    )
+    expect(() => Model.assertAttachmentFieldsValid(withFields(['likes']))).toThrow(
+      'Attachment field likes: expected a field of type string or array of strings defined in the schema'
+    )
+    const content = { ...POST, attachmentFields: 'cover' }
+    expect(() => Model.assertAttachmentFieldsValid(content as unknown as ModelDefinition)).toThrow(
+      'Attachment fields must be an array of field names'
+    )
+  })
+
+  test('CIDs attached to a document', () => {
+    const cids = Model.attachments(POST, { body: 'hello', cover: COVER, images: [IMAGE] })
+    expect(cids.map(String)).toEqual([COVER, IMAGE])
+    expect(Model.attachments(POST, { body: 'hello' })).toEqual([])
+    expect(() => Model.attachments(POST, { images: [IMAGE, 'image.png'] })).toThrow(
+      'Attachment field images: expected a CID, got image.png'
+    )
+  })
+})
+
+describe('Model.assertAccountRelationValid', () => {
+  const REACTION: ModelDefinition = {
+    name: 'Reaction',
+    version: Model.VERSION,
+    accountRelation: { type: 'set', fields: ['postID', 'kind'] },
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        postID: { type: 'string' },
+        kind: { type: 'string', maxLength: 20 },
+        note: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+      required: ['postID', 'kind', 'tags'],
+    },
+    relations: { postID: { type: 'account' } },
+  }
+
+  const withFields = (fields: Array<string>): ModelDefinition => {
+    return { ...REACTION, accountRelation: { type: 'set', fields } }
+  }
+
+  test('accept list, single and set relations on required scalar fields', () => {
+    expect(() => Model.assertAccountRelationValid(REACTION)).not.toThrow()
+    for (const type of ['list', 'single'] as const) {
+      const content = { ...REACTION, accountRelation: { type } }
+      expect(() => Model.assertAccountRelationValid(content)).not.toThrow()
+    }
+  })
+
+  test('reject invalid set relations', () => {
+    expect(() => Model.assertAccountRelationValid(withFields([]))).toThrow(
+      'Account relation of type set must have at least one field'
+    )
+    expect(() => Model.assertAccountRelationValid(withFields(['kind', 'kind']))).toThrow(
+      'Account relation of type set has duplicate fields'
+    )
+    expect(() => Model.assertAccountRelationValid(withFields(['note']))).toThrow(
+      'Account relation on field note: expected a required field defined in the schema'
+    )
+    expect(() => Model.assertAccountRelationValid(withFields(['unknown']))).toThrow(
+      'Account relation on field unknown: expected a required field defined in the schema'
+    )
+    expect(() => Model.assertAccountRelationValid(withFields(['tags']))).toThrow(
+      'Account relation on field tags: expected one of types string, integer, number, boolean, got "array"'
+    )
+    const content = { ...REACTION, accountRelation: { type: 'unknown' } }
+    expect(() => Model.assertAccountRelationValid(content as ModelDefinition)).toThrow(
+      'Account relation has unexpected type unknown'
+    )
+  })
+})
+
+describe('Model.assertImplementsValid', () => {
+  const POST_INTERFACE: ModelDefinition = {
+    name: 'Post',
+    version: Model.VERSION,
+    interface: true,
+    accountRelation: { type: 'list' },
+    schema: {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        title: { type: 'string', maxLength: 80 },
+        authorID: { type: 'string' },
+      },
+      additionalProperties: false,
+      required: ['title'],
+    },
+    relations: { authorID: { type: 'account' } },
+  }
+
+  const implementing = (changes: (content: ModelDefinition) => void): ModelDefinition => {
+    const content = JSON.parse(JSON.stringify(POST_INTERFACE))
+    content.name = 'ImagePost'
+    delete content.interface
+    content.schema.properties.url = { type: 'string' }
+    content.schema.required = ['title', 'url']
+    changes(content)
+    return content
+  }
+
+  test('accept models extending the interface', () => {
+    const content = implementing(() => undefined)
+    expect(() => Model.assertImplementsValid(content, POST_INTERFACE)).not.toThrow()
+  })
+
+  test('reject incompatible models', () => {
+    const changes: Record<string, (content: ModelDefinition) => void> = {
+      'the property title must be the same': (content) => {
+        content.schema.properties.title = { type: 'string', maxLength: 40 }
+      },
+      'the property authorID must be the same': (content) => {
+        delete content.schema.properties.authorID
+      },
+      'the property title must be required': (content) => {
+        content.schema.required = ['url']
+      },
+      'the relation on field authorID must be the same': (content) => {
+        delete content.relations
+      },
+    }
+    for (const [reason, change] of Object.entries(changes)) {
+      expect(() => Model.assertImplementsValid(implementing(change), POST_INTERFACE)).toThrow(
+        `Model ImagePost cannot implement Model Post: ${reason}`
+      )
+    }
+    const notInterface = { ...POST_INTERFACE, interface: false }
+    expect(() =>
+      Model.assertImplementsValid(
+        implementing(() => undefined),
+        notInterface
+      )
+    ).toThrow('Model ImagePost cannot implement Model Post: it is not an interface')
+  })
+
+  test('parse implemented models', () => {
+    const streamId = Model.MODEL.toString()
+    const content = implementing((content) => {
+      content.implements = [streamId]
+    })
+    expect(() => Model.implementedModels(content)).toThrow(/which is not a Model StreamID/)
+    expect(Model.implementedModels(implementing(() => undefined))).toEqual([])
+    expect(() =>
+      Model.implementedModels(implementing((content) => (content.implements = ['foo', 'foo'])))
+    ).toThrow('Model ImagePost implements duplicate interfaces')
+  })
+})
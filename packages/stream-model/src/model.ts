@@ -18,6 +18,7 @@ import { CID } from 'multiformats/cid'
 import { create } from 'multiformats/hashes/digest'
 import { code, encode } from '@ipld/dag-cbor'
 import { identity } from 'multiformats/hashes/identity'
+import { formatNames } from 'ajv-formats/dist/formats.js'
 
 export const MODEL_VERSION_REGEXP = /^[0-9]+\.[0-9]+$/
 
@@ -80,9 +81,14 @@ async function throwReadOnlyError(): Promise<void> {
  * Represents the relationship between an instance of this model and the controller account.
  * 'list' means there can be many instances of this model for a single account. 'single' means
  * there can be only one instance of this model per account (if a new instance is created it
- * overrides the old one).
+ * overrides the old one). 'set' means there can be only one instance of this model per account
+ * for each combination of values of the given fields, for example one reaction per account per
+ * post.
  */
-export type ModelAccountRelation = { type: 'list' } | { type: 'single' }
+export type ModelAccountRelation =
+  | { type: 'list' }
+  | { type: 'single' }
+  | { type: 'set'; fields: Array<string> }
 
 /**
  * Identifies types of properties that are supported as relations by the indexing service.
@@ -101,6 +107,19 @@ export type ModelRelationDefinition = { type: 'account' } | { type: 'document';
  */
 export type ModelRelationsDefinition = Record<string, ModelRelationDefinition>
 
+/**
+ * Identifies types of rules granting DIDs other than the controller of a ModelInstanceDocument the
+ * right to update it.
+ *
+ * Currently supported types of writers:
+ * - 'field': the DIDs held by a top-level property of the document, a DID or an array of DIDs
+ * - 'issuer': the given DID, and the DIDs holding a capability issued by it for the document
+ *
+ */
+export type ModelWriterDefinition =
+  | { type: 'field'; field: string }
+  | { type: 'issuer'; issuer: string }
+
 export type ModelDocumentMetadataViewDefinition =
   | { type: 'documentAccount' }
   | { type: 'documentVersion' }
@@ -132,6 +151,102 @@ export type ModelViewDefinition = ModelDocumentMetadataViewDefinition | ModelRel
  */
 export type ModelViewsDefinition = Record<string, ModelViewDefinition>
 
+/**
+ * Identifies types of indices on model properties supported by the indexing service.
+ *
+ * Currently supported types of indices:
+ * - 'scalar': the value of a top-level scalar property is stored in a dedicated typed column with a database index
+ * - 'fullText': the value of a top-level string property is searchable with full-text search queries
+ *
+ */
+export type ModelIndexDefinition = { type: 'scalar' } | { type: 'fullText' }
+
+/**
+ * A mapping between model's property names and types of indices
+ *
+ * It indicates which properties of a model should be indexed in addition to relation properties
+ */
+export type ModelIndicesDefinition = Record<string, ModelIndexDefinition>
+
+/**
+ * JSON Schema types of properties that could be indexed as scalar values.
+ */
+export type ModelIndexableType = 'string' | 'integer' | 'number' | 'boolean'
+
+const INDEXABLE_TYPES: Array<ModelIndexableType> = ['string', 'integer', 'number', 'boolean']
+
+/**
+ * Formats of strings holding Ceramic identifiers.
+ */
+export const CERAMIC_FORMATS = ['did', 'streamid', 'commitid', 'caip10', 'cid'] as const
+
+export type CeramicFormat = typeof CERAMIC_FORMATS[number]
+
+/**
+ * Formats of string properties supported by the validation of MIDs content: the formats of
+ * ajv-formats, and the formats of Ceramic identifiers.
+ */
+export const SCHEMA_FORMATS: ReadonlyArray<string> = [...formatNames, ...CERAMIC_FORMATS]
+
+// Schema keywords holding a subschema or an array of subschemas
+const SUBSCHEMA_KEYWORDS = [
+  'additionalProperties',
+  'unevaluatedProperties',
+  'items',
+  'prefixItems',
+  'unevaluatedItems',
+  'contains',
+  'propertyNames',
+  'not',
+  'if',
+  'then',
+  'else',
+  'allOf',
+  'anyOf',
+  'oneOf',
+]
+
+// Schema keywords holding a map of subschemas
+const SUBSCHEMA_MAP_KEYWORDS = [
+  'properties',
+  'patternProperties',
+  'dependentSchemas',
+  '$defs',
+  'definitions',
+]
+
+/**
+ * Values of the `format` keyword used in +schema+ and its subschemas. Values of keywords holding
+ * data, such as `enum`, `const`, `default` or `examples`, are not walked.
+ */
+function schemaFormats(schema: unknown): Array<string> {
+  if (typeof schema !== 'object' || schema === null) return []
+  const record = schema as Record<string, unknown>
+  const subschemas = [
+    ...SUBSCHEMA_KEYWORDS.flatMap((keyword) => record[keyword]),
+    ...SUBSCHEMA_MAP_KEYWORDS.flatMap((keyword) => {
+      const value = record[keyword]
+      return typeof value === 'object' && value !== null ? Object.values(value) : []
+    }),
+  ]
+  const formats = subschemas.flatMap(schemaFormats)
+  return typeof record.format === 'string' ? [record.format, ...formats] : formats
+}
+
+// Schema keywords that a superseding Model can extend, other keywords must stay the same
+const EXTENSIBLE_SCHEMA_KEYWORDS = ['properties', 'required', '$defs']
+
+/**
+ * True if +a+ and +b+ are the same JSON value.
+ */
+function isSameJSON(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every((key) => isSameJSON(a[key], b[key]))
+}
+
 /**
  * Contents of a Model Stream.
  */
@@ -143,6 +258,39 @@ export interface ModelDefinition {
   accountRelation: ModelAccountRelation
   relations?: ModelRelationsDefinition
   views?: ModelViewsDefinition
+  indices?: ModelIndicesDefinition
+  /**
+   * StreamID of the Model this Model is a new version of. MIDs of both Models are indexed and
+   * queried as a single collection.
+   */
+  supersedes?: string
+  /**
+   * Whether this Model is an interface: a shape shared by the Models implementing it. No MID can
+   * be created for an interface, queries on an interface span the MIDs of the Models implementing
+   * it.
+   */
+  interface?: boolean
+  /**
+   * StreamIDs of the interface Models this Model implements. The schema of this Model must be
+   * compatible with the schemas of these interfaces.
+   */
+  implements?: Array<string>
+  /**
+   * Top-level properties of the schema that cannot change once set. A property set in the genesis
+   * content is immutable, a property absent from it is write-once: it can be set by an update,
+   * then cannot change or be removed.
+   */
+  immutableFields?: Array<string>
+  /**
+   * Rules granting DIDs other than the controller of a MID the right to update its content. Only
+   * the controller can delete a MID.
+   */
+  writers?: Array<ModelWriterDefinition>
+  /**
+   * Top-level properties of the schema holding CIDs of IPFS data attached to MIDs, such as images
+   * or files too large for the MID content. Attached DAGs are pinned along with the MIDs.
+   */
+  attachmentFields?: Array<string>
 }
 
 /**
@@ -173,6 +321,9 @@ export class Model extends Stream {
 
   static readonly VERSION = '1.0'
 
+  // Maximum length of a string property that could be indexed as a scalar value
+  static readonly MAX_INDEXED_STRING_LENGTH = 1024
+
   private _isReadOnly = false
 
   get content(): ModelDefinition {
@@ -196,7 +347,22 @@ export class Model extends Stream {
   ): Promise<Model> {
     Model.assertComplete(content)
     Model.assertVersionValid(content, 'minor')
+    Model.assertAccountRelationValid(content)
     Model.assertRelationsValid(content)
+    Model.assertIndicesValid(content)
+    Model.assertImmutableFieldsValid(content)
+    Model.assertWritersValid(content)
+    Model.assertAttachmentFieldsValid(content)
+    Model.assertSchemaFormatsValid(content)
+    const supersededModel = Model.supersededModel(content)
+    if (supersededModel) {
+      const superseded = await Model.load(ceramic, supersededModel)
+      Model.assertSupersedesValid(content, superseded.content)
+    }
+    for (const implementedModel of Model.implementedModels(content)) {
+      const implemented = await Model.load(ceramic, implementedModel)
+      Model.assertImplementsValid(content, implemented.content)
+    }
 
     const opts: CreateOpts = {
       publish: true,
@@ -275,6 +441,51 @@ export class Model extends Stream {
     }
   }
 
+  /**
+   * Asserts that the accountRelation of the given ModelDefinition is well formed, and throws an
+   * error if not.
+   *
+   * Fields of a 'set' accountRelation must be distinct required top-level properties of types
+   * 'string', 'integer', 'number' or 'boolean'.
+   */
+  static assertAccountRelationValid(content: ModelDefinition) {
+    const accountRelation = content.accountRelation
+    switch (accountRelation.type) {
+      case 'list':
+      case 'single':
+        return
+      case 'set':
+        break
+      default:
+        // @ts-ignore
+        throw new Error(`Account relation has unexpected type ${accountRelation.type}`)
+    }
+
+    const fields = accountRelation.fields
+    if (!Array.isArray(fields) || fields.length === 0) {
+      throw new Error(`Account relation of type set must have at least one field`)
+    }
+    if (new Set(fields).size !== fields.length) {
+      throw new Error(`Account relation of type set has duplicate fields`)
+    }
+    const required = content.schema.required ?? []
+    for (const fieldName of fields) {
+      const property = content.schema.properties?.[fieldName]
+      if (!property || typeof property !== 'object' || !required.includes(fieldName)) {
+        throw new Error(
+          `Account relation on field ${fieldName}: expected a required field defined in the schema`
+        )
+      }
+      if (!INDEXABLE_TYPES.includes(property.type as ModelIndexableType)) {
+        throw new Error(
+          `Account relation on field ${fieldName}: expected one of types ${INDEXABLE_TYPES.join(
+            ', '
+          )}, got ${JSON.stringify(property.type)}`
+        )
+      }
+    }
+  }
+
   /**
    * Asserts that the relations properties of the given ModelDefinition are well formed, and throws
    * an error if not.
@@ -304,6 +515,373 @@ export class Model extends Stream {
     }
   }
 
+  /**
+   * Asserts that the indices properties of the given ModelDefinition are well formed, and throws
+   * an error if not.
+   */
+  static assertIndicesValid(content: ModelDefinition) {
+    if (!content.indices) {
+      return
+    }
+
+    for (const [fieldName, indexDefinition] of Object.entries(content.indices)) {
+      switch (indexDefinition.type) {
+        case 'scalar':
+          Model.indexableFieldType(content, fieldName)
+          continue
+        case 'fullText':
+          Model.assertFullTextSearchable(content, fieldName)
+          continue
+        default:
+          throw new Error(
+            // @ts-ignore
+            `Index on field ${fieldName} has unexpected type ${indexDefinition.type}`
+          )
+      }
+    }
+  }
+
+  /**
+   * Asserts that the writers of the given ModelDefinition are well formed, and throws an error if
+   * not.
+   *
+   * Fields of writers must be top-level properties of type 'string', or arrays of strings. Issuers
+   * must be DIDs.
+   */
+  static assertWritersValid(content: ModelDefinition) {
+    if (content.writers == null) {
+      return
+    }
+    if (!Array.isArray(content.writers)) {
+      throw new Error(`Writers must be an array of writer definitions`)
+    }
+
+    for (const writer of content.writers) {
+      switch (writer.type) {
+        case 'field': {
+          const property = content.schema.properties?.[writer.field]
+          const holdsDIDs =
+            typeof property === 'object' &&
+            (property.type === 'string' ||
+              (property.type === 'array' &&
+                typeof property.items === 'object' &&
+                !Array.isArray(property.items) &&
+                property.items.type === 'string'))
+          if (!holdsDIDs) {
+            throw new Error(
+              `Writers on field ${writer.field}: expected a field of type string or array of strings defined in the schema`
+            )
+          }
+          continue
+        }
+        case 'issuer':
+          if (typeof writer.issuer !== 'string' || !writer.issuer.startsWith('did:')) {
+            throw new Error(`Writers issuer ${writer.issuer}: expected a DID`)
+          }
+          continue
+        default:
+          // @ts-ignore
+          throw new Error(`Writer has unexpected type ${writer.type}`)
+      }
+    }
+  }
+
+  /**
+   * Asserts that the schema of the given ModelDefinition only uses formats supported by the
+   * validation of MIDs content, and throws an error if not.
+   */
+  static assertSchemaFormatsValid(content: ModelDefinition) {
+    for (const format of schemaFormats(content.schema)) {
+      if (!SCHEMA_FORMATS.includes(format)) {
+        throw new Error(`Schema of Model ${content.name} uses unknown format ${format}`)
+      }
+    }
+  }
+
+  /**
+   * Asserts that the immutable fields of the given ModelDefinition are distinct top-level
+   * properties of the schema, and throws an error if not.
+   */
+  static assertImmutableFieldsValid(content: ModelDefinition) {
+    const fields = content.immutableFields
+    if (fields == null) {
+      return
+    }
+    if (!Array.isArray(fields)) {
+      throw new Error(`Immutable fields must be an array of field names`)
+    }
+    if (new Set(fields).size !== fields.length) {
+      throw new Error(`Immutable fields must not have duplicate fields`)
+    }
+    for (const fieldName of fields) {
+      const property = content.schema.properties?.[fieldName]
+      if (!property || typeof property !== 'object') {
+        throw new Error(`Immutable field ${fieldName}: expected a field defined in the schema`)
+      }
+    }
+  }
+
+  /**
+   * Asserts that the attachment fields of the given ModelDefinition are distinct top-level
+   * properties of the schema of type 'string', or arrays of strings, and throws an error if not.
+   */
+  static assertAttachmentFieldsValid(content: ModelDefinition) {
+    const fields = content.attachmentFields
+    if (fields == null) {
+      return
+    }
+    if (!Array.isArray(fields)) {
+      throw new Error(`Attachment fields must be an array of field names`)
+    }
+    if (new Set(fields).size !== fields.length) {
+      throw new Error(`Attachment fields must not have duplicate fields`)
+    }
+    for (const fieldName of fields) {
+      const property = content.schema.properties?.[fieldName]
+      const holdsStrings =
+        typeof property === 'object' &&
+        (property.type === 'string' ||
+          (property.type === 'array' &&
+            typeof property.items === 'object' &&
+            !Array.isArray(property.items) &&
+            property.items.type === 'string'))
+      if (!holdsStrings) {
+        throw new Error(
+          `Attachment field ${fieldName}: expected a field of type string or array of strings defined in the schema`
+        )
+      }
+    }
+  }
+
+  /**
+   * Returns the CIDs attached to a MID of the given ModelDefinition by its attachment fields, and
+   * throws an error if a value of these fields is not a CID.
+   * @param content - contents of the Model of the MID
+   * @param documentContent - contents of the MID
+   */
+  static attachments(content: ModelDefinition, documentContent: any): Array<CID> {
+    const cids: Array<CID> = []
+    for (const fieldName of content.attachmentFields ?? []) {
+      const value = documentContent?.[fieldName]
+      if (value == null) {
+        continue
+      }
+      for (const item of Array.isArray(value) ? value : [value]) {
+        try {
+          cids.push(CID.parse(item))
+        } catch (err) {
+          throw new Error(`Attachment field ${fieldName}: expected a CID, got ${item}`)
+        }
+      }
+    }
+    return cids
+  }
+
+  /**
+   * Returns the StreamID of the Model the given ModelDefinition supersedes, if any, and throws an
+   * error if it is not a Model StreamID.
+   */
+  static supersededModel(content: ModelDefinition): StreamID | null {
+    if (content.supersedes == null) {
+      return null
+    }
+    let streamId: StreamID
+    try {
+      streamId = StreamID.fromString(content.supersedes)
+    } catch (err) {
+      throw new Error(`Model ${content.name} supersedes an invalid model: ${err.toString()}`)
+    }
+    if (streamId.type !== Model.STREAM_TYPE_ID) {
+      throw new Error(
+        `Model ${content.name} supersedes ${content.supersedes}, which is not a Model StreamID`
+      )
+    }
+    return streamId
+  }
+
+  /**
+   * Asserts that the given ModelDefinition is backward compatible with the definition of the Model
+   * it supersedes, and throws an error if not. Every MID of the superseded Model has to be a valid
+   * instance of the new Model.
+   *
+   * The new Model can only add optional properties to the schema, and relations on them. The
+   * account relation, the existing properties, definitions and relations, and the other keywords
+   * of the schema cannot change, existing properties cannot become required, and immutable fields
+   * cannot become mutable.
+   */
+  static assertSupersedesValid(content: ModelDefinition, superseded: ModelDefinition): void {
+    const fail = (reason: string) => {
+      throw new Error(`Model ${content.name} cannot supersede Model ${superseded.name}: ${reason}`)
+    }
+    if (!isSameJSON(content.accountRelation, superseded.accountRelation)) {
+      fail('the account relation cannot change')
+    }
+    if (Boolean(content.interface) !== Boolean(superseded.interface)) {
+      fail('the interface flag cannot change')
+    }
+    const keywords = new Set([...Object.keys(content.schema), ...Object.keys(superseded.schema)])
+    for (const keyword of keywords) {
+      if (
+        !EXTENSIBLE_SCHEMA_KEYWORDS.includes(keyword) &&
+        !isSameJSON(content.schema[keyword], superseded.schema[keyword])
+      ) {
+        fail(`the schema keyword ${keyword} cannot change`)
+      }
+    }
+    for (const [name, property] of Object.entries(superseded.schema.properties ?? {})) {
+      if (!isSameJSON(content.schema.properties?.[name], property)) {
+        fail(`the property ${name} cannot change`)
+      }
+    }
+    for (const [name, definition] of Object.entries(superseded.schema.$defs ?? {})) {
+      if (!isSameJSON(content.schema.$defs?.[name], definition)) {
+        fail(`the definition ${name} cannot change`)
+      }
+    }
+    const required = new Set(superseded.schema.required ?? [])
+    for (const name of content.schema.required ?? []) {
+      if (!required.has(name)) {
+        fail(`the property ${name} cannot be required`)
+      }
+    }
+    for (const [name, relation] of Object.entries(superseded.relations ?? {})) {
+      if (!isSameJSON(content.relations?.[name], relation)) {
+        fail(`the relation on field ${name} cannot change`)
+      }
+    }
+    for (const name of superseded.immutableFields ?? []) {
+      if (!content.immutableFields?.includes(name)) {
+        fail(`the immutable field ${name} cannot become mutable`)
+      }
+    }
+  }
+
+  /**
+   * Returns the StreamIDs of the interface Models the given ModelDefinition implements, and throws
+   * an error if they are not distinct Model StreamIDs.
+   */
+  static implementedModels(content: ModelDefinition): Array<StreamID> {
+    if (content.implements == null) {
+      return []
+    }
+    if (!Array.isArray(content.implements)) {
+      throw new Error(`Model ${content.name} must list the interfaces it implements in an array`)
+    }
+    if (new Set(content.implements).size !== content.implements.length) {
+      throw new Error(`Model ${content.name} implements duplicate interfaces`)
+    }
+    return content.implements.map((implemented) => {
+      let streamId: StreamID
+      try {
+        streamId = StreamID.fromString(implemented)
+      } catch (err) {
+        throw new Error(`Model ${content.name} implements an invalid model: ${err.toString()}`)
+      }
+      if (streamId.type !== Model.STREAM_TYPE_ID) {
+        throw new Error(
+          `Model ${content.name} implements ${implemented}, which is not a Model StreamID`
+        )
+      }
+      return streamId
+    })
+  }
+
+  /**
+   * Asserts that the given ModelDefinition is compatible with the interface Model it implements,
+   * and throws an error if not. Every MID of the Model has to be a valid instance of the interface.
+   *
+   * The Model must have the properties, definitions and relations of the interface unchanged, and
+   * the properties required by the interface must be required by the Model. The Model can add
+   * properties, definitions and relations of its own.
+   */
+  static assertImplementsValid(content: ModelDefinition, implemented: ModelDefinition): void {
+    const fail = (reason: string) => {
+      throw new Error(`Model ${content.name} cannot implement Model ${implemented.name}: ${reason}`)
+    }
+    if (!implemented.interface) {
+      fail('it is not an interface')
+    }
+    for (const [name, property] of Object.entries(implemented.schema.properties ?? {})) {
+      if (!isSameJSON(content.schema.properties?.[name], property)) {
+        fail(`the property ${name} must be the same`)
+      }
+    }
+    for (const [name, definition] of Object.entries(implemented.schema.$defs ?? {})) {
+      if (!isSameJSON(content.schema.$defs?.[name], definition)) {
+        fail(`the definition ${name} must be the same`)
+      }
+    }
+    const required = new Set(content.schema.required ?? [])
+    for (const name of implemented.schema.required ?? []) {
+      if (!required.has(name)) {
+        fail(`the property ${name} must be required`)
+      }
+    }
+    for (const [name, relation] of Object.entries(implemented.relations ?? {})) {
+      if (!isSameJSON(content.relations?.[name], relation)) {
+        fail(`the relation on field ${name} must be the same`)
+      }
+    }
+  }
+
+  /**
+   * Returns the type of a property that could be indexed as a scalar value, and throws an error if
+   * the property could not be indexed.
+   *
+   * Only top-level properties of types 'string', 'integer', 'number' or 'boolean' that are not
+   * relations could be indexed. String properties must declare a `maxLength` of at most
+   * `MAX_INDEXED_STRING_LENGTH`.
+   */
+  static indexableFieldType(content: ModelDefinition, fieldName: string): ModelIndexableType {
+    if (content.relations?.[fieldName]) {
+      throw new Error(`Cannot index field ${fieldName}: it is already indexed as a relation`)
+    }
+    const property = content.schema.properties?.[fieldName]
+    if (!property || typeof property !== 'object') {
+      throw new Error(`Cannot index field ${fieldName}: it is not defined in the schema`)
+    }
+    const type = property.type as ModelIndexableType
+    if (!INDEXABLE_TYPES.includes(type)) {
+      throw new Error(
+        `Cannot index field ${fieldName}: expected one of types ${INDEXABLE_TYPES.join(
+          ', '
+        )}, got ${JSON.stringify(property.type)}`
+      )
+    }
+    if (
+      type === 'string' &&
+      !(
+        typeof property.maxLength === 'number' &&
+        property.maxLength <= Model.MAX_INDEXED_STRING_LENGTH
+      )
+    ) {
+      throw new Error(
+        `Cannot index field ${fieldName}: string fields must have a maxLength of at most ${Model.MAX_INDEXED_STRING_LENGTH}`
+      )
+    }
+    return type
+  }
+
+  /**
+   * Asserts that a property could be indexed for full-text search, and throws an error if not.
+   *
+   * Only top-level properties of type 'string' that are not relations could be indexed for
+   * full-text search.
+   */
+  static assertFullTextSearchable(content: ModelDefinition, fieldName: string): void {
+    if (content.relations?.[fieldName]) {
+      throw new Error(
+        `Cannot index field ${fieldName} for full-text search: it is already indexed as a relation`
+      )
+    }
+    const property = content.schema.properties?.[fieldName]
+    if (!property || typeof property !== 'object' || property.type !== 'string') {
+      throw new Error(
+        `Cannot index field ${fieldName} for full-text search: expected a string field defined in the schema`
+      )
+    }
+  }
+
   /**
    * Loads a Model from a given StreamID
    * @param ceramic - Instance of CeramicAPI used to communicate with the Ceramic network